@@ -13,6 +13,7 @@ import { StatusBar } from "expo-status-bar";
 import * as ScreenCapture from "expo-screen-capture";
 
 import RootNavigator from "@/navigation/RootNavigator";
+import { linking } from "@/navigation/linking";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ConnectionBanner } from "@/components/ConnectionBanner";
 import { ThemeProvider, useThemeContext } from "@/contexts/ThemeContext";
@@ -83,7 +84,7 @@ function AppContent() {
           <AuthProvider>
             <WebSocketProvider>
               <ChatsProvider>
-                <NavigationContainer theme={navigationTheme}>
+                <NavigationContainer theme={navigationTheme} linking={linking}>
                   <NotificationsProvider>
                     <View style={styles.root}>
                       <RootNavigator />
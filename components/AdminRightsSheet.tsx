@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, Modal, Switch } from "react-native";
+import { useTranslation } from "react-i18next";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import {
+  GroupAdminRight,
+  GroupMember,
+  GROUP_ADMIN_RIGHTS,
+} from "@/store/types";
+
+type Props = {
+  /** The admin being edited; the sheet is hidden while this is null. */
+  member: GroupMember | null;
+  onClose: () => void;
+  onSave: (rights: GroupAdminRight[]) => void;
+  onDismissAdmin: () => void;
+};
+
+export function AdminRightsSheet({
+  member,
+  onClose,
+  onSave,
+  onDismissAdmin,
+}: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [rights, setRights] = useState<GroupAdminRight[]>(GROUP_ADMIN_RIGHTS);
+
+  useEffect(() => {
+    if (!member) return;
+    setRights(member.adminRights ?? []);
+  }, [member]);
+
+  const toggleRight = (right: GroupAdminRight, enabled: boolean) => {
+    setRights((prev) =>
+      enabled
+        ? GROUP_ADMIN_RIGHTS.filter((r) => r === right || prev.includes(r))
+        : prev.filter((r) => r !== right),
+    );
+  };
+
+  return (
+    <Modal
+      visible={member !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View
+        style={[
+          styles.sheet,
+          {
+            backgroundColor: theme.backgroundDefault,
+            paddingBottom: insets.bottom + Spacing.md,
+          },
+        ]}
+      >
+        <ThemedText style={styles.title}>{t("group.adminRights")}</ThemedText>
+        <ThemedText
+          type="caption"
+          style={[styles.subtitle, { color: theme.textSecondary }]}
+          numberOfLines={1}
+        >
+          {member?.displayName}
+        </ThemedText>
+
+        {GROUP_ADMIN_RIGHTS.map((right) => (
+          <View key={right} style={styles.rightRow}>
+            <ThemedText style={styles.rightLabel}>
+              {t(`group.rights.${right}`)}
+            </ThemedText>
+            <Switch
+              value={rights.includes(right)}
+              onValueChange={(value) => toggleRight(right, value)}
+              trackColor={{ true: theme.primary }}
+            />
+          </View>
+        ))}
+
+        <Pressable
+          style={[styles.saveButton, { backgroundColor: theme.primary }]}
+          onPress={() => onSave(rights)}
+        >
+          <ThemedText style={styles.saveButtonText}>
+            {t("common.save")}
+          </ThemedText>
+        </Pressable>
+        <Pressable style={styles.dismissButton} onPress={onDismissAdmin}>
+          <ThemedText style={{ color: theme.accent }}>
+            {t("group.removeAdmin")}
+          </ThemedText>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    paddingTop: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  subtitle: {
+    marginBottom: Spacing.md,
+  },
+  rightRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  rightLabel: {
+    flex: 1,
+  },
+  saveButton: {
+    marginTop: Spacing.xl,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  dismissButton: {
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+});
@@ -0,0 +1,132 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+import { MessageAttachment } from "@/store/types";
+import { CachedImage } from "./CachedImage";
+
+const GAP = 2;
+
+type Props = {
+  attachments: MessageAttachment[];
+  width: number;
+  onItemPress?: (index: number) => void;
+  /** Holds photos back according to the auto-download rules. */
+  autoDownload?: boolean;
+};
+
+/**
+ * Splits the album into rows of two or three items so no row holds a lone
+ * item, except the wide cover photo of a three-item album.
+ */
+function getAlbumRows(count: number): number[] {
+  if (count <= 2) return [count];
+  if (count === 3) return [1, 2];
+  const rows: number[] = [];
+  let remaining = count;
+  if (remaining % 3 === 2) {
+    rows.push(2);
+    remaining -= 2;
+  }
+  while (remaining > 4 || remaining === 3) {
+    rows.push(3);
+    remaining -= 3;
+  }
+  if (remaining === 4) rows.push(2, 2);
+  return rows;
+}
+
+export function AlbumGrid({
+  attachments,
+  width,
+  onItemPress,
+  autoDownload = false,
+}: Props) {
+  const rows = getAlbumRows(attachments.length);
+  let start = 0;
+
+  return (
+    <View style={[styles.container, { width }]}>
+      {rows.map((size, rowIndex) => {
+        const rowStart = start;
+        start += size;
+        const cellWidth = (width - GAP * (size - 1)) / size;
+        const cellHeight = size === 1 ? width * 0.66 : cellWidth;
+
+        return (
+          <View key={rowIndex} style={styles.row}>
+            {attachments
+              .slice(rowStart, rowStart + size)
+              .map((attachment, i) => {
+                const index = rowStart + i;
+                const cellStyle = { width: cellWidth, height: cellHeight };
+                const source = attachment.url || attachment.uri;
+                return (
+                  <Pressable
+                    key={index}
+                    onPress={onItemPress ? () => onItemPress(index) : undefined}
+                    style={[styles.cell, cellStyle]}
+                  >
+                    {attachment.type === "image" && source ? (
+                      attachment.url ? (
+                        <CachedImage
+                          source={{ uri: attachment.url }}
+                          style={cellStyle}
+                          contentFit="cover"
+                          thumbnailUrl={attachment.thumbnailUrl}
+                          autoDownloadType={autoDownload ? "photo" : undefined}
+                          autoDownloadSize={attachment.size}
+                        />
+                      ) : (
+                        <Image
+                          source={{ uri: source }}
+                          style={cellStyle}
+                          contentFit="cover"
+                        />
+                      )
+                    ) : attachment.thumbnailUrl ? (
+                      <CachedImage
+                        source={{ uri: attachment.thumbnailUrl }}
+                        style={cellStyle}
+                        contentFit="cover"
+                      />
+                    ) : null}
+                    {attachment.type === "video" ? (
+                      <View style={styles.playBadge}>
+                        <Feather name="play" size={18} color="#FFFFFF" />
+                      </View>
+                    ) : null}
+                  </Pressable>
+                );
+              })}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: GAP,
+  },
+  row: {
+    flexDirection: "row",
+    gap: GAP,
+  },
+  cell: {
+    backgroundColor: "#1a1a1a",
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  playBadge: {
+    position: "absolute",
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
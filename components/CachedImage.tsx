@@ -2,8 +2,11 @@ import React, { useState, useEffect } from "react";
 import { View, StyleSheet, Platform, Text } from "react-native";
 import { Image, ImageStyle } from "expo-image";
 import { mediaCache, DownloadProgress } from "@/services/mediaCache";
+import { AutoDownloadMediaType } from "@/services/dataSettings";
 import { useTheme } from "@/hooks/useTheme";
+import { useAutoDownload } from "@/hooks/useAutoDownload";
 import { CircularProgress } from "./CircularProgress";
+import { MediaDownloadPrompt } from "./MediaDownloadPrompt";
 
 interface CachedImageProps {
   source: { uri: string };
@@ -11,6 +14,10 @@ interface CachedImageProps {
   contentFit?: "cover" | "contain" | "fill" | "none" | "scale-down";
   placeholder?: string;
   thumbnailUrl?: string;
+  /** Applies the auto-download rules for this media type. */
+  autoDownloadType?: AutoDownloadMediaType;
+  /** Size reported by the message, for the auto-download rules. */
+  autoDownloadSize?: number;
   onLoad?: () => void;
   onError?: () => void;
 }
@@ -21,6 +28,8 @@ export function CachedImage({
   contentFit = "cover",
   placeholder,
   thumbnailUrl,
+  autoDownloadType,
+  autoDownloadSize,
   onLoad,
   onError,
 }: CachedImageProps) {
@@ -31,6 +40,12 @@ export function CachedImage({
   const [cachedUri, setCachedUri] = useState<string | null>(quickCached);
   const [isLoading, setIsLoading] = useState(!quickCached && Platform.OS !== "web");
   const [downloadInfo, setDownloadInfo] = useState<DownloadProgress | null>(null);
+  const autoDownload = useAutoDownload(
+    source.uri,
+    autoDownloadType,
+    !!quickCached,
+    autoDownloadSize,
+  );
   const [hasError, setHasError] = useState(false);
 
   useEffect(() => {
@@ -39,6 +54,7 @@ export function CachedImage({
       setIsLoading(false);
       return;
     }
+    if (!autoDownload.isAllowed) return;
     
     let mounted = true;
 
@@ -77,7 +93,18 @@ export function CachedImage({
     return () => {
       mounted = false;
     };
-  }, [source.uri, quickCached]);
+  }, [source.uri, quickCached, autoDownload.isAllowed]);
+
+  if (!autoDownload.isAllowed && !autoDownload.isChecking) {
+    return (
+      <MediaDownloadPrompt
+        size={autoDownload.size}
+        thumbnailUrl={thumbnailUrl}
+        style={style as any}
+        onPress={autoDownload.allow}
+      />
+    );
+  }
 
   if (isLoading) {
     const progressPercent = downloadInfo ? downloadInfo.progress * 100 : 0;
@@ -3,8 +3,11 @@ import { View, StyleSheet, Platform, Text } from "react-native";
 import { Feather } from "@expo/vector-icons";
 import { Image } from "expo-image";
 import { mediaCache, DownloadProgress } from "@/services/mediaCache";
+import { AutoDownloadMediaType } from "@/services/dataSettings";
 import { useTheme } from "@/hooks/useTheme";
+import { useAutoDownload } from "@/hooks/useAutoDownload";
 import { CircularProgress } from "./CircularProgress";
+import { MediaDownloadPrompt } from "./MediaDownloadPrompt";
 import { VideoThumbnail } from "./VideoThumbnail";
 import { BorderRadius } from "@/constants/theme";
 
@@ -13,6 +16,10 @@ interface CachedVideoProps {
   style?: any;
   showPlayButton?: boolean;
   thumbnailUrl?: string;
+  /** Applies the auto-download rules for this media type. */
+  autoDownloadType?: AutoDownloadMediaType;
+  /** Size reported by the message, for the auto-download rules. */
+  autoDownloadSize?: number;
 }
 
 export function CachedVideo({
@@ -20,6 +27,8 @@ export function CachedVideo({
   style,
   showPlayButton = true,
   thumbnailUrl,
+  autoDownloadType,
+  autoDownloadSize,
 }: CachedVideoProps) {
   const { theme } = useTheme();
   
@@ -28,6 +37,12 @@ export function CachedVideo({
   const [cachedUri, setCachedUri] = useState<string | null>(quickCached);
   const [isLoading, setIsLoading] = useState(!quickCached && Platform.OS !== "web");
   const [downloadInfo, setDownloadInfo] = useState<DownloadProgress | null>(null);
+  const autoDownload = useAutoDownload(
+    source.uri,
+    autoDownloadType,
+    !!quickCached,
+    autoDownloadSize,
+  );
 
   useEffect(() => {
     if (quickCached) {
@@ -35,6 +50,7 @@ export function CachedVideo({
       setIsLoading(false);
       return;
     }
+    if (!autoDownload.isAllowed) return;
     
     let mounted = true;
 
@@ -73,7 +89,18 @@ export function CachedVideo({
     return () => {
       mounted = false;
     };
-  }, [source.uri, quickCached]);
+  }, [source.uri, quickCached, autoDownload.isAllowed]);
+
+  if (!autoDownload.isAllowed && !autoDownload.isChecking) {
+    return (
+      <MediaDownloadPrompt
+        size={autoDownload.size}
+        thumbnailUrl={thumbnailUrl}
+        style={style}
+        onPress={autoDownload.allow}
+      />
+    );
+  }
 
   if (isLoading) {
     const progressPercent = downloadInfo ? downloadInfo.progress * 100 : 0;
@@ -18,7 +18,7 @@ interface ChatListItemProps {
 export function ChatListItem({ chat, onPress, onDelete, isOnline }: ChatListItemProps) {
   const { t } = useTranslation();
   const { theme } = useTheme();
-  const { participant, lastMessage, unreadCount } = chat;
+  const { participant, lastMessage, unreadCount, unreadMentionCount } = chat;
   
   const isGroup = chat.type === 'group';
   const displayName = isGroup ? (chat.name || "Group") : (participant?.displayName || "Unknown");
@@ -122,9 +122,27 @@ export function ChatListItem({ chat, onPress, onDelete, isOnline }: ChatListItem
                 ? t("chat.photo")
                 : lastMessage.mediaType === "audio"
                   ? t("chat.voiceMessage")
-                  : t("chat.video")
-              : lastMessage?.text || ""}
+                  : lastMessage.isVideoNote
+                    ? t("chat.videoNote")
+                    : t("chat.video")
+              : lastMessage?.type === "file"
+                ? lastMessage.file?.name || t("chat.file")
+                : lastMessage?.decryptionFailed
+                  ? t("chat.decryptionFailed")
+                  : lastMessage?.text ||
+                    (lastMessage?.type === "album" ? t("chat.album") : "")}
           </ThemedText>
+          {unreadMentionCount ? (
+            <View
+              style={[
+                styles.badge,
+                styles.mentionBadge,
+                { backgroundColor: theme.primary },
+              ]}
+            >
+              <Feather name="at-sign" size={12} color="#FFFFFF" />
+            </View>
+          ) : null}
           {unreadCount > 0 ? (
             <View style={[styles.badge, { backgroundColor: theme.primary }]}>
               <ThemedText type="caption" style={styles.badgeText}>
@@ -187,6 +205,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingHorizontal: 6,
   },
+  mentionBadge: {
+    width: 20,
+    paddingHorizontal: 0,
+    marginRight: Spacing.xs,
+  },
   badgeText: {
     color: "#FFFFFF",
     fontSize: 11,
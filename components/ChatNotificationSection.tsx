@@ -0,0 +1,135 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { Switch } from "react-native";
+import { useTranslation } from "react-i18next";
+import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import { NotificationSoundSheet } from "@/components/NotificationSoundSheet";
+import { formatScheduledTime } from "@/components/ScheduleTimeSheet";
+import { useTheme } from "@/hooks/useTheme";
+import { useChatNotificationSettings } from "@/hooks/useNotifications";
+import {
+  notificationSettingsService,
+  NotificationSoundId,
+  MUTE_DURATIONS,
+} from "@/services/notificationSettings";
+
+type Props = {
+  chatId: string;
+  isGroup?: boolean;
+};
+
+export function ChatNotificationSection({ chatId, isGroup = false }: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const settings = useChatNotificationSettings(chatId);
+  const [muteSheetVisible, setMuteSheetVisible] = useState(false);
+  const [soundSheetVisible, setSoundSheetVisible] = useState(false);
+
+  const muteValue = !settings.isMuted
+    ? t("notifications.notMuted")
+    : settings.muteForever || settings.mutedUntil === null
+      ? t("notifications.mutedForever")
+      : t("notifications.mutedUntil", {
+          time: formatScheduledTime(settings.mutedUntil),
+        });
+
+  const muteActions = useMemo((): ActionItem[] => {
+    const items: ActionItem[] = [
+      {
+        id: "oneHour",
+        label: t("notifications.muteOneHour"),
+        icon: "bell-off",
+        onPress: () =>
+          notificationSettingsService.muteChat(chatId, MUTE_DURATIONS.oneHour),
+      },
+      {
+        id: "eightHours",
+        label: t("notifications.muteEightHours"),
+        icon: "bell-off",
+        onPress: () =>
+          notificationSettingsService.muteChat(
+            chatId,
+            MUTE_DURATIONS.eightHours,
+          ),
+      },
+      {
+        id: "forever",
+        label: t("notifications.muteForever"),
+        icon: "bell-off",
+        onPress: () => notificationSettingsService.muteChat(chatId, null),
+      },
+    ];
+    if (settings.isMuted) {
+      items.push({
+        id: "unmute",
+        label: t("notifications.unmute"),
+        icon: "bell",
+        onPress: () => notificationSettingsService.unmuteChat(chatId),
+      });
+    }
+    return items;
+  }, [t, chatId, settings.isMuted]);
+
+  const handleSoundSelect = useCallback(
+    (sound: NotificationSoundId | undefined) => {
+      notificationSettingsService.setChatSound(chatId, sound);
+    },
+    [chatId],
+  );
+
+  return (
+    <>
+      <SettingsSection title={t("notifications.title")}>
+        <SettingsItem
+          icon={settings.isMuted ? "bell-off" : "bell"}
+          label={t("notifications.mute")}
+          value={muteValue}
+          onPress={() => setMuteSheetVisible(true)}
+        />
+        {isGroup ? (
+          <SettingsItem
+            icon="at-sign"
+            label={t("notifications.mentionsOnly")}
+            rightElement={
+              <Switch
+                value={settings.mentionsOnly}
+                onValueChange={(value) =>
+                  notificationSettingsService.setMentionsOnly(chatId, value)
+                }
+                trackColor={{ true: theme.primary }}
+              />
+            }
+          />
+        ) : null}
+        <SettingsItem
+          icon="music"
+          label={t("notifications.sound")}
+          value={
+            settings.sound
+              ? t(`notifications.sounds.${settings.sound}`)
+              : t("notifications.defaultSound")
+          }
+          onPress={() => setSoundSheetVisible(true)}
+        />
+      </SettingsSection>
+
+      <MessageActionSheet
+        visible={muteSheetVisible}
+        onClose={() => setMuteSheetVisible(false)}
+        actions={muteActions}
+        cancelLabel={t("common.cancel")}
+      />
+      <NotificationSoundSheet
+        visible={soundSheetVisible}
+        onClose={() => setSoundSheetVisible(false)}
+        onSelect={handleSoundSelect}
+        selected={settings.sound}
+        isGroup={isGroup}
+        allowDefault
+      />
+    </>
+  );
+}
@@ -0,0 +1,133 @@
+import React from "react";
+import { View, StyleSheet, Pressable, Modal } from "react-native";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+export type DialogChoice = {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+};
+
+type Props = {
+  /** The dialog is hidden while this is null. */
+  title: string | null;
+  message?: string;
+  choices: DialogChoice[];
+  cancelLabel: string;
+  onClose: () => void;
+};
+
+/**
+ * A confirmation with several choices, for web where `Alert.alert` only
+ * supports a single OK button.
+ */
+export function ChoiceDialog({
+  title,
+  message,
+  choices,
+  cancelLabel,
+  onClose,
+}: Props) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal
+      visible={title !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View
+          style={[styles.dialog, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText style={styles.title}>{title}</ThemedText>
+          {message ? (
+            <ThemedText
+              style={[styles.message, { color: theme.textSecondary }]}
+            >
+              {message}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.buttons}>
+            {choices.map((choice) => (
+              <Pressable
+                key={choice.label}
+                style={[styles.button, { borderTopColor: theme.inputBorder }]}
+                onPress={() => {
+                  onClose();
+                  choice.onPress();
+                }}
+              >
+                <ThemedText
+                  style={[
+                    styles.buttonText,
+                    {
+                      color: choice.destructive ? theme.accent : theme.primary,
+                    },
+                  ]}
+                >
+                  {choice.label}
+                </ThemedText>
+              </Pressable>
+            ))}
+            <Pressable
+              style={[styles.button, { borderTopColor: theme.inputBorder }]}
+              onPress={onClose}
+            >
+              <ThemedText style={[styles.buttonText, styles.cancelText]}>
+                {cancelLabel}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.xl,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  dialog: {
+    width: "100%",
+    maxWidth: 360,
+    paddingTop: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+    textAlign: "center",
+    paddingHorizontal: Spacing.lg,
+  },
+  message: {
+    textAlign: "center",
+    marginTop: Spacing.xs,
+    paddingHorizontal: Spacing.lg,
+  },
+  buttons: {
+    marginTop: Spacing.lg,
+  },
+  button: {
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  buttonText: {
+    fontSize: 16,
+  },
+  cancelText: {
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, Modal, Switch } from "react-native";
+import { useTranslation } from "react-i18next";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPIRY_HOURS = [1, 24, 24 * 7, null] as const;
+const USAGE_LIMITS = [1, 10, 100, null] as const;
+
+export type InviteOptions = {
+  expiresAt?: string;
+  usageLimit?: number;
+  requiresApproval: boolean;
+};
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onCreate: (options: InviteOptions) => void;
+};
+
+export function CreateInviteSheet({ visible, onClose, onCreate }: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [expiryHours, setExpiryHours] = useState<number | null>(24 * 7);
+  const [usageLimit, setUsageLimit] = useState<number | null>(null);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setExpiryHours(24 * 7);
+    setUsageLimit(null);
+    setRequiresApproval(false);
+  }, [visible]);
+
+  const getExpiryLabel = (hours: number | null) => {
+    if (hours === null) return t("group.never");
+    if (hours < 24) return t("group.expiryHours", { count: hours });
+    return t("group.expiryDays", { count: hours / 24 });
+  };
+
+  const handleCreate = () => {
+    onCreate({
+      expiresAt:
+        expiryHours === null
+          ? undefined
+          : new Date(Date.now() + expiryHours * HOUR_MS).toISOString(),
+      usageLimit: usageLimit ?? undefined,
+      requiresApproval,
+    });
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+  ) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isSelected
+            ? theme.primary
+            : theme.backgroundSecondary,
+        },
+      ]}
+    >
+      <ThemedText
+        style={[
+          styles.chipText,
+          { color: isSelected ? "#FFFFFF" : theme.text },
+        ]}
+      >
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View
+        style={[
+          styles.sheet,
+          {
+            backgroundColor: theme.backgroundDefault,
+            paddingBottom: insets.bottom + Spacing.md,
+          },
+        ]}
+      >
+        <ThemedText style={styles.title}>{t("group.newInviteLink")}</ThemedText>
+
+        <ThemedText
+          type="caption"
+          style={[styles.sectionLabel, { color: theme.textSecondary }]}
+        >
+          {t("group.expiresIn")}
+        </ThemedText>
+        <View style={styles.chips}>
+          {EXPIRY_HOURS.map((hours) =>
+            renderChip(
+              `expiry_${hours}`,
+              getExpiryLabel(hours),
+              expiryHours === hours,
+              () => setExpiryHours(hours),
+            ),
+          )}
+        </View>
+
+        <ThemedText
+          type="caption"
+          style={[styles.sectionLabel, { color: theme.textSecondary }]}
+        >
+          {t("group.usageLimit")}
+        </ThemedText>
+        <View style={styles.chips}>
+          {USAGE_LIMITS.map((limit) =>
+            renderChip(
+              `limit_${limit}`,
+              limit === null ? t("group.unlimited") : String(limit),
+              usageLimit === limit,
+              () => setUsageLimit(limit),
+            ),
+          )}
+        </View>
+
+        <View style={styles.approvalRow}>
+          <View style={styles.approvalText}>
+            <ThemedText>{t("group.requireApproval")}</ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {t("group.requireApprovalHint")}
+            </ThemedText>
+          </View>
+          <Switch
+            value={requiresApproval}
+            onValueChange={setRequiresApproval}
+            trackColor={{ true: theme.primary }}
+          />
+        </View>
+
+        <Pressable
+          style={[styles.createButton, { backgroundColor: theme.primary }]}
+          onPress={handleCreate}
+        >
+          <ThemedText style={styles.createButtonText}>
+            {t("group.createLink")}
+          </ThemedText>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    paddingTop: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+    marginBottom: Spacing.md,
+  },
+  sectionLabel: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  approvalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  approvalText: {
+    flex: 1,
+  },
+  createButton: {
+    marginTop: Spacing.xl,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  createButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
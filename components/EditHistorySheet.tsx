@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { Message, MessageRevision } from "@/store/types";
+import { apiService } from "@/services/api";
+
+type Props = {
+  message: Message | null;
+  onClose: () => void;
+};
+
+function formatVersionTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Lists every version of an edited message, newest first. Shows the
+ * revisions this device has already seen while the full history loads.
+ */
+export function EditHistorySheet({ message, onClose }: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [serverRevisions, setServerRevisions] = useState<
+    MessageRevision[] | null
+  >(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const messageId = message?.id;
+  const senderId = message ? parseInt(message.senderId, 10) : NaN;
+
+  useEffect(() => {
+    setServerRevisions(null);
+    setLoadFailed(false);
+    const numericId = messageId ? parseInt(messageId, 10) : NaN;
+    if (isNaN(numericId)) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    apiService
+      .getMessageHistory(numericId)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setServerRevisions(
+            result.data.map((revision) =>
+              apiService.serverRevisionToRevision(revision, senderId),
+            ),
+          );
+        } else {
+          setLoadFailed(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId, senderId]);
+
+  const versions = useMemo((): MessageRevision[] => {
+    if (!message) return [];
+    const previous = serverRevisions ?? message.revisions ?? [];
+    const current: MessageRevision = {
+      text: message.text ?? "",
+      timestamp: message.editedAt ?? message.timestamp,
+      decryptionFailed: message.decryptionFailed,
+    };
+    return [current, ...[...previous].reverse()];
+  }, [message, serverRevisions]);
+
+  const getVersionLabel = (index: number): string => {
+    if (index === 0) return t("chat.currentVersion");
+    if (index === versions.length - 1) return t("chat.originalVersion");
+    return t("chat.edited");
+  };
+
+  return (
+    <Modal
+      visible={message !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View
+        style={[
+          styles.sheet,
+          {
+            backgroundColor: theme.backgroundDefault,
+            paddingBottom: insets.bottom + Spacing.md,
+          },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>{t("chat.editHistory")}</ThemedText>
+          <Pressable
+            onPress={onClose}
+            hitSlop={10}
+            accessibilityLabel={t("common.done")}
+          >
+            <Feather name="x" size={22} color={theme.textSecondary} />
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {versions.map((version, index) => (
+            <View
+              key={`${version.timestamp}-${index}`}
+              style={[
+                styles.version,
+                index > 0 && {
+                  borderTopWidth: StyleSheet.hairlineWidth,
+                  borderTopColor: theme.divider,
+                },
+              ]}
+            >
+              <View style={styles.versionHeader}>
+                <ThemedText
+                  type="caption"
+                  style={[
+                    styles.versionLabel,
+                    {
+                      color: index === 0 ? theme.primary : theme.textSecondary,
+                    },
+                  ]}
+                >
+                  {getVersionLabel(index)}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {formatVersionTime(version.timestamp)}
+                </ThemedText>
+              </View>
+              {version.decryptionFailed ? (
+                <ThemedText
+                  style={[styles.versionText, { color: theme.textSecondary }]}
+                >
+                  {t("chat.decryptionFailed")}
+                </ThemedText>
+              ) : (
+                <ThemedText style={styles.versionText} selectable>
+                  {version.text}
+                </ThemedText>
+              )}
+            </View>
+          ))}
+
+          {isLoading ? (
+            <ActivityIndicator
+              style={styles.status}
+              color={theme.textSecondary}
+            />
+          ) : loadFailed ? (
+            <ThemedText
+              type="caption"
+              style={[styles.status, { color: theme.textSecondary }]}
+            >
+              {t("chat.editHistoryUnavailable")}
+            </ThemedText>
+          ) : null}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    maxHeight: "70%",
+    paddingTop: Spacing.md,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  list: {
+    paddingHorizontal: Spacing.lg,
+  },
+  version: {
+    paddingVertical: Spacing.md,
+  },
+  versionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: Spacing.xs,
+  },
+  versionLabel: {
+    fontWeight: "600",
+  },
+  versionText: {
+    fontSize: 15,
+  },
+  status: {
+    paddingVertical: Spacing.md,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, Platform, Alert } from "react-native";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import * as WebBrowser from "expo-web-browser";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { MessageFile } from "@/store/types";
+import { mediaCache } from "@/services/mediaCache";
+import { Spacing } from "@/constants/theme";
+import { ThemedText } from "./ThemedText";
+import { CircularProgress } from "./CircularProgress";
+
+const SHARE_DIR = FileSystem.cacheDirectory + "share/";
+const ICON_SIZE = 44;
+
+type Props = {
+  uri: string;
+  file: MessageFile;
+  isUploading?: boolean;
+  uploadProgress?: number;
+  uploadError?: boolean;
+  accentColor: string;
+  textColor: string;
+  secondaryColor: string;
+};
+
+export function getFileIcon(
+  file: Pick<MessageFile, "name" | "mimeType">,
+): keyof typeof Feather.glyphMap {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  const mimeType = file.mimeType.toLowerCase();
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "film";
+  if (mimeType.startsWith("audio/")) return "music";
+  if (["xls", "xlsx", "csv", "ods", "numbers"].includes(extension)) {
+    return "grid";
+  }
+  if (["ppt", "pptx", "odp", "key"].includes(extension)) return "monitor";
+  if (["zip", "rar", "7z", "tar", "gz"].includes(extension)) return "archive";
+  if (
+    mimeType === "application/pdf" ||
+    mimeType.startsWith("text/") ||
+    ["doc", "docx", "odt", "rtf", "txt", "pages"].includes(extension)
+  ) {
+    return "file-text";
+  }
+  return "file";
+}
+
+/**
+ * Copies the file under its original name before sharing, since cached
+ * files are stored under server-generated names.
+ */
+async function shareFile(localUri: string, file: MessageFile): Promise<void> {
+  const dirInfo = await FileSystem.getInfoAsync(SHARE_DIR);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(SHARE_DIR, { intermediates: true });
+  }
+  const target = SHARE_DIR + file.name.replace(/[/\\:*?"<>|]/g, "_");
+  await FileSystem.deleteAsync(target, { idempotent: true });
+  await FileSystem.copyAsync({ from: localUri, to: target });
+  await Sharing.shareAsync(target, {
+    mimeType: file.mimeType,
+    dialogTitle: file.name,
+  });
+}
+
+export function FileAttachment({
+  uri,
+  file,
+  isUploading,
+  uploadProgress,
+  uploadError,
+  accentColor,
+  textColor,
+  secondaryColor,
+}: Props) {
+  const { t } = useTranslation();
+  const isRemote = uri.startsWith("http://") || uri.startsWith("https://");
+  const [isDownloaded, setIsDownloaded] = useState(
+    !isRemote || !!mediaCache.getQuickCachedUri(uri),
+  );
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isRemote || isDownloaded || Platform.OS === "web") return;
+    let mounted = true;
+    mediaCache.getCachedUri(uri).then((cached) => {
+      if (mounted && cached) setIsDownloaded(true);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [uri, isRemote, isDownloaded]);
+
+  const handlePress = async () => {
+    if (isUploading || downloadProgress !== null) return;
+
+    if (Platform.OS === "web") {
+      await WebBrowser.openBrowserAsync(uri);
+      return;
+    }
+
+    try {
+      let localUri = uri;
+      if (isRemote) {
+        setDownloadProgress(0);
+        localUri = await mediaCache.cacheMedia(uri, (info) =>
+          setDownloadProgress(info.progress * 100),
+        );
+        if (localUri === uri) {
+          // The cache skips tiny files; download those straight away.
+          const result = await FileSystem.downloadAsync(
+            uri,
+            FileSystem.cacheDirectory + `download_${Date.now()}`,
+          );
+          localUri = result.uri;
+        } else {
+          setIsDownloaded(true);
+        }
+      }
+
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert(t("errors.error"), t("chat.fileShareUnavailable"));
+        return;
+      }
+      await shareFile(localUri, file);
+    } catch (error) {
+      __DEV__ && console.warn("[FileAttachment] Open error:", error);
+      Alert.alert(t("errors.error"), t("chat.fileDownloadFailed"));
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
+
+  const progress = isUploading ? (uploadProgress ?? 0) : downloadProgress;
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={({ pressed }) => [
+        styles.container,
+        { opacity: pressed ? 0.7 : 1 },
+      ]}
+    >
+      <View style={[styles.icon, { backgroundColor: accentColor }]}>
+        {progress !== null ? (
+          <CircularProgress
+            progress={progress}
+            size={ICON_SIZE}
+            showPercentage={false}
+            iconName={isUploading ? "arrow-up" : "arrow-down"}
+            hasError={isUploading && uploadError}
+          />
+        ) : (
+          <Feather
+            name={isDownloaded ? getFileIcon(file) : "arrow-down"}
+            size={22}
+            color="#FFFFFF"
+          />
+        )}
+      </View>
+      <View style={styles.info}>
+        <ThemedText
+          style={[styles.name, { color: textColor }]}
+          numberOfLines={2}
+        >
+          {file.name}
+        </ThemedText>
+        <ThemedText style={[styles.size, { color: secondaryColor }]}>
+          {progress !== null && file.size > 0
+            ? `${mediaCache.formatCacheSize(
+                Math.round((file.size * progress) / 100),
+              )} / ${mediaCache.formatCacheSize(file.size)}`
+            : mediaCache.formatCacheSize(file.size)}
+        </ThemedText>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    minWidth: 220,
+    paddingVertical: Spacing.xs,
+  },
+  icon: {
+    width: ICON_SIZE,
+    height: ICON_SIZE,
+    borderRadius: ICON_SIZE / 2,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  info: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  size: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import { Switch } from "react-native";
+import { useTranslation } from "react-i18next";
+import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import { useTheme } from "@/hooks/useTheme";
+import { GroupPermissions } from "@/store/types";
+
+const SLOW_MODE_SECONDS = [0, 10, 30, 60, 5 * 60, 15 * 60, 60 * 60];
+
+type Props = {
+  permissions: GroupPermissions;
+  onChange: (permissions: GroupPermissions) => void;
+};
+
+export function GroupPermissionsSection({ permissions, onChange }: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [slowModeSheetVisible, setSlowModeSheetVisible] = useState(false);
+
+  const getSlowModeLabel = (seconds: number) => {
+    if (seconds === 0) return t("group.slowModeOff");
+    if (seconds < 60) return t("group.slowModeSeconds", { count: seconds });
+    if (seconds < 60 * 60) {
+      return t("group.slowModeMinutes", { count: seconds / 60 });
+    }
+    return t("group.slowModeHours", { count: seconds / (60 * 60) });
+  };
+
+  const slowModeActions: ActionItem[] = SLOW_MODE_SECONDS.map((seconds) => ({
+    id: `slow_${seconds}`,
+    label: getSlowModeLabel(seconds),
+    icon: seconds === 0 ? "x-circle" : "clock",
+    onPress: () => onChange({ ...permissions, slowModeSeconds: seconds }),
+  }));
+
+  return (
+    <>
+      <SettingsSection title={t("group.permissions")}>
+        <SettingsItem
+          icon="image"
+          label={t("group.membersCanSendMedia")}
+          rightElement={
+            <Switch
+              value={permissions.canSendMedia}
+              onValueChange={(value) =>
+                onChange({ ...permissions, canSendMedia: value })
+              }
+              trackColor={{ true: theme.primary }}
+            />
+          }
+        />
+        <SettingsItem
+          icon="link-2"
+          label={t("group.membersCanSendLinks")}
+          rightElement={
+            <Switch
+              value={permissions.canSendLinks}
+              onValueChange={(value) =>
+                onChange({ ...permissions, canSendLinks: value })
+              }
+              trackColor={{ true: theme.primary }}
+            />
+          }
+        />
+        <SettingsItem
+          icon="clock"
+          label={t("group.slowMode")}
+          value={getSlowModeLabel(permissions.slowModeSeconds)}
+          onPress={() => setSlowModeSheetVisible(true)}
+        />
+      </SettingsSection>
+
+      <MessageActionSheet
+        visible={slowModeSheetVisible}
+        onClose={() => setSlowModeSheetVisible(false)}
+        actions={slowModeActions}
+        cancelLabel={t("common.cancel")}
+      />
+    </>
+  );
+}
@@ -0,0 +1,108 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { useLinkPreview } from "@/hooks/useLinkPreview";
+import { openLink } from "@/services/linkPreview";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { CachedImage } from "./CachedImage";
+import { ThemedText } from "./ThemedText";
+
+type Props = {
+  url: string;
+  /** Set for encrypted chats, whose links must not reach the server. */
+  encrypted?: boolean;
+  accentColor: string;
+  textColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+};
+
+export function LinkPreviewCard({
+  url,
+  encrypted,
+  accentColor,
+  textColor,
+  secondaryColor,
+  backgroundColor,
+}: Props) {
+  const preview = useLinkPreview(url, 0, encrypted);
+
+  if (!preview) return null;
+
+  return (
+    <Pressable
+      onPress={() => openLink({ type: "url", value: preview.url })}
+      style={[styles.container, { backgroundColor }]}
+    >
+      <View style={[styles.bar, { backgroundColor: accentColor }]} />
+      <View style={styles.content}>
+        {preview.siteName ? (
+          <ThemedText
+            style={[styles.siteName, { color: accentColor }]}
+            numberOfLines={1}
+          >
+            {preview.siteName}
+          </ThemedText>
+        ) : null}
+        {preview.title ? (
+          <ThemedText
+            style={[styles.title, { color: textColor }]}
+            numberOfLines={2}
+          >
+            {preview.title}
+          </ThemedText>
+        ) : null}
+        {preview.description ? (
+          <ThemedText
+            style={[styles.description, { color: secondaryColor }]}
+            numberOfLines={3}
+          >
+            {preview.description}
+          </ThemedText>
+        ) : null}
+        {preview.imageUrl ? (
+          <CachedImage
+            source={{ uri: preview.imageUrl }}
+            style={styles.image}
+            contentFit="cover"
+          />
+        ) : null}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    marginTop: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    overflow: "hidden",
+  },
+  bar: {
+    width: 3,
+  },
+  content: {
+    flex: 1,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+  },
+  siteName: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  description: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  image: {
+    width: "100%",
+    aspectRatio: 1.91,
+    borderRadius: BorderRadius.xs,
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,87 @@
+import React from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Text,
+  StyleProp,
+  ViewStyle,
+} from "react-native";
+import { Image } from "expo-image";
+import { useTranslation } from "react-i18next";
+import { mediaCache } from "@/services/mediaCache";
+import { useTheme } from "@/hooks/useTheme";
+import { CircularProgress } from "./CircularProgress";
+
+interface MediaDownloadPromptProps {
+  size: number | null;
+  thumbnailUrl?: string;
+  style?: StyleProp<ViewStyle>;
+  onPress: () => void;
+}
+
+/** Placeholder for media the auto-download rules held back. */
+export function MediaDownloadPrompt({
+  size,
+  thumbnailUrl,
+  style,
+  onPress,
+}: MediaDownloadPromptProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[
+        styles.container,
+        style,
+        thumbnailUrl ? null : { backgroundColor: theme.backgroundSecondary },
+      ]}
+    >
+      {thumbnailUrl ? (
+        <Image
+          source={{ uri: thumbnailUrl }}
+          style={StyleSheet.absoluteFill}
+          contentFit="cover"
+          blurRadius={8}
+        />
+      ) : null}
+      <View style={styles.overlay}>
+        <CircularProgress
+          progress={0}
+          size={64}
+          strokeWidth={3}
+          showPercentage={false}
+          showIcon={true}
+          iconName="download"
+        />
+        <Text style={styles.sizeText}>
+          {size !== null
+            ? mediaCache.formatCacheSize(size)
+            : t("chat.tapToDownload")}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0,0,0,0.45)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sizeText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: "center",
+  },
+});
@@ -20,12 +20,16 @@ import { Feather } from "@expo/vector-icons";
 import { useTranslation } from "react-i18next";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as ImagePicker from "expo-image-picker";
+import * as DocumentPicker from "expo-document-picker";
 import { ThemedText } from "./ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
+import { CHUNKED_UPLOAD_CONFIG } from "@/services/chunkedUpload";
+import { MessageAttachment, MessageFile } from "@/store/types";
 
 const MAX_FILE_SIZE_MB = 150;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+export const MAX_ALBUM_ITEMS = 10;
 
 const SPRING_CONFIG = {
   damping: 20,
@@ -37,12 +41,18 @@ interface MediaPickerProps {
   visible: boolean;
   onClose: () => void;
   onMediaSelected: (uri: string, type: "photo" | "video") => void;
+  onFileSelected?: (uri: string, file: MessageFile) => void;
+  onAlbumSelected?: (attachments: MessageAttachment[]) => void;
+  onVideoNotePress?: () => void;
 }
 
 export function MediaPicker({
   visible,
   onClose,
   onMediaSelected,
+  onFileSelected,
+  onAlbumSelected,
+  onVideoNotePress,
 }: MediaPickerProps) {
   const { theme, isDark } = useTheme();
   const { t } = useTranslation();
@@ -96,15 +106,44 @@ export function MediaPicker({
       }
 
       const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: ["images"],
-        quality: 0.8,
+        mediaTypes: onAlbumSelected ? ["images", "videos"] : ["images"],
+        // Compression happens in the upload queue, per the user's preset.
+        quality: 1,
         allowsEditing: false,
+        allowsMultipleSelection: !!onAlbumSelected,
+        selectionLimit: MAX_ALBUM_ITEMS,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        onMediaSelected(result.assets[0].uri, "photo");
-        onClose();
+      if (result.canceled || !result.assets[0]) return;
+
+      const assets = result.assets.slice(0, MAX_ALBUM_ITEMS);
+      if (
+        assets.some(
+          (asset) => asset.fileSize && asset.fileSize > MAX_FILE_SIZE_BYTES,
+        )
+      ) {
+        Alert.alert(
+          t("errors.fileTooLarge"),
+          t("errors.fileSizeLimit", { size: MAX_FILE_SIZE_MB }),
+        );
+        return;
+      }
+
+      if (assets.length > 1 && onAlbumSelected) {
+        onAlbumSelected(
+          assets.map((asset) => ({
+            type: asset.type === "video" ? "video" : "image",
+            uri: asset.uri,
+            size: asset.fileSize,
+          })),
+        );
+      } else {
+        onMediaSelected(
+          assets[0].uri,
+          assets[0].type === "video" ? "video" : "photo",
+        );
       }
+      onClose();
     } catch (error) {
       console.error("Error picking image:", error);
       Alert.alert(t("errors.error"), t("errors.tryAgain"));
@@ -176,7 +215,7 @@ export function MediaPicker({
       }
 
       const result = await ImagePicker.launchCameraAsync({
-        quality: 0.8,
+        quality: 1,
         allowsEditing: false,
         exif: false,
       });
@@ -190,6 +229,44 @@ export function MediaPicker({
     }
   };
 
+  const recordVideoNote = () => {
+    onClose();
+    onVideoNotePress?.();
+  };
+
+  const pickDocument = async () => {
+    if (!onFileSelected) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        const asset = result.assets[0];
+        if (asset.size && asset.size > CHUNKED_UPLOAD_CONFIG.MAX_FILE_SIZE) {
+          Alert.alert(
+            t("errors.fileTooLarge"),
+            t("errors.documentSizeLimit", {
+              size: CHUNKED_UPLOAD_CONFIG.MAX_FILE_SIZE / 1024 / 1024,
+            }),
+          );
+          return;
+        }
+        onFileSelected(asset.uri, {
+          name: asset.name,
+          size: asset.size ?? 0,
+          mimeType: asset.mimeType || "application/octet-stream",
+        });
+        onClose();
+      }
+    } catch (error) {
+      console.error("Error picking document:", error);
+      Alert.alert(t("errors.error"), t("errors.tryAgain"));
+    }
+  };
+
   const options = [
     {
       icon: "camera" as const,
@@ -199,6 +276,14 @@ export function MediaPicker({
       bgColor: "rgba(255, 149, 0, 0.15)",
       hidden: Platform.OS === "web",
     },
+    {
+      icon: "aperture" as const,
+      label: t("media.recordVideoNote"),
+      onPress: recordVideoNote,
+      color: "#FF3B30",
+      bgColor: "rgba(255, 59, 48, 0.15)",
+      hidden: Platform.OS === "web" || !onVideoNotePress,
+    },
     {
       icon: "image" as const,
       label: t("media.chooseFromGallery"),
@@ -213,6 +298,14 @@ export function MediaPicker({
       color: "#AF52DE",
       bgColor: "rgba(175, 82, 222, 0.15)",
     },
+    {
+      icon: "file" as const,
+      label: t("media.chooseFile"),
+      onPress: pickDocument,
+      color: "#007AFF",
+      bgColor: "rgba(0, 122, 255, 0.15)",
+      hidden: !onFileSelected,
+    },
   ].filter((opt) => !opt.hidden);
 
   return (
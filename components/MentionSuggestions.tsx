@@ -0,0 +1,74 @@
+import React from "react";
+import { View, StyleSheet, Pressable, ScrollView } from "react-native";
+import { GroupMember } from "@/store/types";
+import { Avatar } from "./Avatar";
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing } from "@/constants/theme";
+
+const ITEM_HEIGHT = 48;
+const MAX_VISIBLE_ITEMS = 4;
+
+type Props = {
+  members: GroupMember[];
+  onSelect: (member: GroupMember) => void;
+};
+
+export function MentionSuggestions({ members, onSelect }: Props) {
+  const { theme } = useTheme();
+
+  if (members.length === 0) return null;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.backgroundDefault,
+          borderTopColor: theme.inputBorder,
+          maxHeight: ITEM_HEIGHT * MAX_VISIBLE_ITEMS,
+        },
+      ]}
+    >
+      <ScrollView keyboardShouldPersistTaps="always">
+        {members.map((member) => (
+          <Pressable
+            key={member.visibleId ?? member.id}
+            onPress={() => onSelect(member)}
+            style={({ pressed }) => [
+              styles.item,
+              pressed ? { backgroundColor: theme.backgroundSecondary } : null,
+            ]}
+          >
+            <Avatar
+              name={member.displayName}
+              color={member.avatarColor}
+              avatarUrl={member.avatarUrl}
+              size={32}
+            />
+            <ThemedText style={styles.name} numberOfLines={1}>
+              {member.displayName}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: ITEM_HEIGHT,
+    paddingHorizontal: Spacing.md,
+  },
+  name: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,212 @@
+import React from "react";
+import { Text, StyleSheet, StyleProp, TextStyle } from "react-native";
+import { Message, MessageMention } from "@/store/types";
+import { detectLinks, openLink, DetectedLink } from "@/services/linkPreview";
+import { ThemedText } from "./ThemedText";
+
+export interface MentionCandidate {
+  userId: string;
+  displayName: string;
+}
+
+type Props = {
+  text: string;
+  mentions?: MessageMention[];
+  style?: StyleProp<TextStyle>;
+  mentionStyle?: StyleProp<TextStyle>;
+  linkStyle?: StyleProp<TextStyle>;
+  onMentionPress?: (userId: string) => void;
+};
+
+type Span =
+  | { kind: "mention"; offset: number; length: number; mention: MessageMention }
+  | { kind: "link"; offset: number; length: number; link: DetectedLink };
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /\s/.test(text[index - 1]);
+}
+
+/**
+ * Drops mentions that no longer point at an "@name" span, e.g. after the
+ * text was edited or truncated, and returns the rest in order.
+ */
+function resolveMentions(
+  text: string,
+  mentions: MessageMention[] | undefined,
+): MessageMention[] {
+  if (!mentions?.length) return [];
+  let cursor = 0;
+  return [...mentions]
+    .sort((a, b) => a.offset - b.offset)
+    .filter((mention) => {
+      const valid =
+        mention.offset >= cursor &&
+        mention.length > 1 &&
+        mention.offset + mention.length <= text.length &&
+        text[mention.offset] === "@";
+      if (valid) cursor = mention.offset + mention.length;
+      return valid;
+    });
+}
+
+export function isMentioned(
+  message: Message,
+  userId: string | undefined,
+): boolean {
+  return (
+    !!userId &&
+    message.senderId !== userId &&
+    !!message.mentions?.some((mention) => mention.userId === userId)
+  );
+}
+
+/**
+ * Builds mention entities for every "@displayName" in `text` whose member
+ * was picked from the autocomplete. Longer names are matched first so
+ * "@Ann Lee" is not claimed by "@Ann".
+ */
+export function collectMentions(
+  text: string,
+  candidates: MentionCandidate[],
+): MessageMention[] {
+  const mentions: MessageMention[] = [];
+  const sorted = [...candidates].sort(
+    (a, b) => b.displayName.length - a.displayName.length,
+  );
+
+  for (const candidate of sorted) {
+    const token = `@${candidate.displayName}`;
+    let index = text.indexOf(token);
+    while (index !== -1) {
+      const end = index + token.length;
+      const overlaps = mentions.some(
+        (mention) =>
+          index < mention.offset + mention.length && end > mention.offset,
+      );
+      if (!overlaps && isWordStart(text, index)) {
+        mentions.push({
+          userId: candidate.userId,
+          offset: index,
+          length: token.length,
+        });
+      }
+      index = text.indexOf(token, end);
+    }
+  }
+
+  return mentions.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Returns the "@query" being typed right before the cursor, or null when
+ * the cursor is not inside a mention.
+ */
+export function getMentionQuery(
+  text: string,
+  cursor: number,
+): { query: string; start: number } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { query: match[2], start: cursor - match[2].length - 1 };
+}
+
+/**
+ * Mentions take precedence; links are only detected in the text between
+ * them.
+ */
+function buildSpans(
+  text: string,
+  mentions: MessageMention[] | undefined,
+): Span[] {
+  const spans: Span[] = resolveMentions(text, mentions).map((mention) => ({
+    kind: "mention",
+    offset: mention.offset,
+    length: mention.length,
+    mention,
+  }));
+  for (const link of detectLinks(text)) {
+    const end = link.offset + link.length;
+    const overlaps = spans.some(
+      (span) => link.offset < span.offset + span.length && end > span.offset,
+    );
+    if (!overlaps) {
+      spans.push({
+        kind: "link",
+        offset: link.offset,
+        length: link.length,
+        link,
+      });
+    }
+  }
+  return spans.sort((a, b) => a.offset - b.offset);
+}
+
+export function MentionText({
+  text,
+  mentions,
+  style,
+  mentionStyle,
+  linkStyle,
+  onMentionPress,
+}: Props) {
+  const spans = buildSpans(text, mentions);
+  if (spans.length === 0) {
+    return (
+      <ThemedText type="body" style={style}>
+        {text}
+      </ThemedText>
+    );
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.offset > cursor) {
+      parts.push(text.slice(cursor, span.offset));
+    }
+    const value = text.slice(span.offset, span.offset + span.length);
+    parts.push(
+      span.kind === "mention" ? (
+        <Text
+          key={index}
+          style={[styles.mention, mentionStyle]}
+          onPress={
+            onMentionPress
+              ? () => onMentionPress(span.mention.userId)
+              : undefined
+          }
+          suppressHighlighting
+        >
+          {value}
+        </Text>
+      ) : (
+        <Text
+          key={index}
+          style={[styles.link, linkStyle]}
+          onPress={() => openLink(span.link)}
+        >
+          {value}
+        </Text>
+      ),
+    );
+    cursor = span.offset + span.length;
+  });
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return (
+    <ThemedText type="body" style={style}>
+      {parts}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  mention: {
+    fontWeight: "600",
+  },
+  link: {
+    textDecorationLine: "underline",
+  },
+});
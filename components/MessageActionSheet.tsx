@@ -21,6 +21,9 @@ type Props = {
   onClose: () => void;
   actions: ActionItem[];
   cancelLabel?: string;
+  reactions?: string[];
+  selectedReactions?: string[];
+  onReactionSelect?: (emoji: string) => void;
 };
 
 const SPRING_CONFIG = {
@@ -29,7 +32,15 @@ const SPRING_CONFIG = {
   mass: 0.8,
 };
 
-export function MessageActionSheet({ visible, onClose, actions, cancelLabel = "Cancel" }: Props) {
+export function MessageActionSheet({
+  visible,
+  onClose,
+  actions,
+  cancelLabel = "Cancel",
+  reactions,
+  selectedReactions,
+  onReactionSelect,
+}: Props) {
   const { theme, isDark } = useTheme();
   const insets = useSafeAreaInsets();
   const translateY = useSharedValue(300);
@@ -47,7 +58,7 @@ export function MessageActionSheet({ visible, onClose, actions, cancelLabel = "C
         runOnJS(setShouldRender)(false);
       });
     }
-  }, [visible]);
+  }, [visible, opacity, translateY]);
 
   const backdropStyle = useAnimatedStyle(() => ({
     opacity: opacity.value,
@@ -62,15 +73,30 @@ export function MessageActionSheet({ visible, onClose, actions, cancelLabel = "C
     translateY.value = withTiming(300, { duration: 200 }, () => {
       runOnJS(onClose)();
     });
-  }, [onClose]);
+  }, [onClose, opacity, translateY]);
 
-  const handleAction = useCallback((action: ActionItem) => {
-    opacity.value = withTiming(0, { duration: 150 });
-    translateY.value = withTiming(300, { duration: 200 }, () => {
-      runOnJS(onClose)();
-      runOnJS(action.onPress)();
-    });
-  }, [onClose]);
+  const handleAction = useCallback(
+    (action: ActionItem) => {
+      opacity.value = withTiming(0, { duration: 150 });
+      translateY.value = withTiming(300, { duration: 200 }, () => {
+        runOnJS(onClose)();
+        runOnJS(action.onPress)();
+      });
+    },
+    [onClose, opacity, translateY],
+  );
+
+  const handleReaction = useCallback(
+    (emoji: string) => {
+      if (!onReactionSelect) return;
+      opacity.value = withTiming(0, { duration: 150 });
+      translateY.value = withTiming(300, { duration: 200 }, () => {
+        runOnJS(onClose)();
+        runOnJS(onReactionSelect)(emoji);
+      });
+    },
+    [onClose, onReactionSelect, opacity, translateY],
+  );
 
   if (!shouldRender) {
     return null;
@@ -79,6 +105,37 @@ export function MessageActionSheet({ visible, onClose, actions, cancelLabel = "C
   const renderContent = () => (
     <View style={[styles.sheet, { paddingBottom: insets.bottom + Spacing.md }]}>
       <View style={styles.handle} />
+      {reactions && reactions.length > 0 && onReactionSelect ? (
+        <View
+          style={[
+            styles.reactionsRow,
+            { backgroundColor: theme.backgroundDefault },
+          ]}
+        >
+          {reactions.map((emoji) => {
+            const isSelected = selectedReactions?.includes(emoji);
+            return (
+              <Pressable
+                key={emoji}
+                onPress={() => handleReaction(emoji)}
+                style={({ pressed }) => [
+                  styles.reactionButton,
+                  {
+                    backgroundColor: isSelected
+                      ? theme.backgroundSecondary
+                      : pressed
+                        ? theme.backgroundSecondary
+                        : "transparent",
+                    transform: [{ scale: pressed ? 1.2 : 1 }],
+                  },
+                ]}
+              >
+                <ThemedText style={styles.reactionEmoji}>{emoji}</ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
       <View style={styles.actionsContainer}>
         {actions.map((action, index) => (
           <Pressable
@@ -183,6 +240,27 @@ const styles = StyleSheet.create({
     alignSelf: "center",
     marginBottom: Spacing.lg,
   },
+  reactionsRow: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    alignItems: "center",
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  reactionButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  reactionEmoji: {
+    fontSize: 26,
+    lineHeight: 32,
+  },
   actionsContainer: {
     marginHorizontal: Spacing.lg,
     borderRadius: BorderRadius.md,
@@ -1,5 +1,11 @@
 import React, { useEffect, useState, useCallback } from "react";
-import { View, StyleSheet, Pressable, Dimensions, Platform, ActivityIndicator } from "react-native";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Dimensions,
+  Platform,
+} from "react-native";
 import { Image } from "expo-image";
 import { LinearGradient } from "expo-linear-gradient";
 import Animated, {
@@ -16,7 +22,7 @@ import Animated, {
 import { Gesture, GestureDetector } from "react-native-gesture-handler";
 import * as Haptics from "expo-haptics";
 import { useTranslation } from "react-i18next";
-import { Message } from "@/store/types";
+import { Message, ForwardedFrom } from "@/store/types";
 import { ThemedText } from "./ThemedText";
 import { MessageStatus } from "./MessageStatus";
 import { VoiceMessage } from "./VoiceMessage";
@@ -24,26 +30,38 @@ import { VoiceMessageUploading } from "./VoiceMessageUploading";
 import { CachedImage } from "./CachedImage";
 import { CircularProgress } from "./CircularProgress";
 import { CachedVideo } from "./CachedVideo";
+import { VideoNoteMessage, VIDEO_NOTE_SIZE } from "./VideoNoteMessage";
 import { AnimatedEmojiText } from "./AnimatedEmoji";
-import { mediaCache } from "@/services/mediaCache";
+import { MentionText } from "./MentionText";
+import { LinkPreviewCard } from "./LinkPreviewCard";
+import { FileAttachment } from "./FileAttachment";
+import { AlbumGrid } from "./AlbumGrid";
 import { listenedMessagesService } from "@/services/listenedMessages";
+import { findFirstUrl } from "@/services/linkPreview";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing } from "@/constants/theme";
 import { Feather } from "@expo/vector-icons";
 
-const loadedMediaCache = new Set<string>();
-
 interface MessageBubbleProps {
   message: Message;
   isOwn: boolean;
   isGroup?: boolean;
   onMediaPress?: () => void;
+  onAlbumItemPress?: (index: number) => void;
   onLongPress?: () => void;
   onRetry?: () => void;
   onQuotedMessagePress?: () => void;
   isHighlighted?: boolean;
   isDeleting?: boolean;
   onDeleteAnimationComplete?: () => void;
+  currentUserId?: string;
+  onReactionPress?: (emoji: string) => void;
+  onMentionPress?: (userId: string) => void;
+  onForwardedFromPress?: (forwardedFrom: ForwardedFrom) => void;
+  onVoicePlaybackComplete?: () => void;
+  onEditedPress?: () => void;
+  replyCount?: number;
+  onRepliesPress?: () => void;
 }
 
 const SCREEN_WIDTH = Dimensions.get("window").width;
@@ -128,12 +146,21 @@ export function MessageBubble({
   isOwn,
   isGroup,
   onMediaPress,
+  onAlbumItemPress,
   onLongPress,
   onRetry,
   onQuotedMessagePress,
   isHighlighted,
   isDeleting,
   onDeleteAnimationComplete,
+  currentUserId,
+  onReactionPress,
+  onMentionPress,
+  onForwardedFromPress,
+  onVoicePlaybackComplete,
+  onEditedPress,
+  replyCount,
+  onRepliesPress,
 }: MessageBubbleProps) {
   const { theme, isDark } = useTheme();
   const { t } = useTranslation();
@@ -142,10 +169,6 @@ export function MessageBubble({
   const pressAnim = useSharedValue(1);
   const deleteAnim = useSharedValue(1);
   
-  const mediaKey = message.mediaUri || message.mediaUrl || "";
-  const isAlreadyKnownLoaded = isOwn || loadedMediaCache.has(mediaKey);
-  const [isMediaLoaded, setIsMediaLoaded] = useState(isAlreadyKnownLoaded);
-  const [isCheckingCache, setIsCheckingCache] = useState(!isAlreadyKnownLoaded && !!mediaKey);
   const [isExpanded, setIsExpanded] = useState(false);
   const [voiceListenedState, setVoiceListenedState] = useState<boolean | null>(() => {
     if (listenedMessagesService.isInitialized()) {
@@ -155,7 +178,7 @@ export function MessageBubble({
   });
   
   useEffect(() => {
-    if (message.type !== "voice") return;
+    if (message.type !== "voice" && !message.isVideoNote) return;
     
     let mounted = true;
     
@@ -175,7 +198,7 @@ export function MessageBubble({
       mounted = false;
       unsubscribe();
     };
-  }, [message.id, message.type]);
+  }, [message.id, message.type, message.isVideoNote]);
   
   const isVoiceListened = voiceListenedState === null ? true : voiceListenedState;
   
@@ -200,39 +223,10 @@ export function MessageBubble({
     return text;
   };
   
-  const handleLoadMedia = useCallback(() => {
-    if (mediaKey) {
-      loadedMediaCache.add(mediaKey);
-      setIsMediaLoaded(true);
-    }
-  }, [mediaKey]);
-
   useEffect(() => {
     enterAnim.value = withSpring(1, SPRING_CONFIG);
   }, []);
 
-  useEffect(() => {
-    if (!isMediaLoaded && mediaKey) {
-      setIsCheckingCache(true);
-      mediaCache.getCachedUri(mediaKey).then((cachedUri) => {
-        if (cachedUri) {
-          loadedMediaCache.add(mediaKey);
-          setIsMediaLoaded(true);
-        } else if (message.thumbnailUrl) {
-          loadedMediaCache.add(mediaKey);
-          setIsMediaLoaded(true);
-        }
-        setIsCheckingCache(false);
-      }).catch(() => {
-        if (message.thumbnailUrl) {
-          loadedMediaCache.add(mediaKey);
-          setIsMediaLoaded(true);
-        }
-        setIsCheckingCache(false);
-      });
-    }
-  }, [mediaKey, message.thumbnailUrl]);
-
   useEffect(() => {
     if (isHighlighted) {
       highlightAnim.value = withSpring(1, SPRING_CONFIG);
@@ -317,10 +311,19 @@ export function MessageBubble({
 
   const mediaSource = message.mediaUri || message.mediaUrl;
   const mediaType = message.mediaType || message.type;
-  const hasMedia = mediaSource && mediaType;
+  const isFile = message.type === "file";
+  const isAlbum = message.type === "album";
+  const hasMedia = mediaSource && mediaType && !isFile;
   const isAudio = mediaType === "audio" || mediaType === "voice";
+  const isVideoNote = !!message.isVideoNote && !!hasMedia && !isAudio;
   
-  const isEmojiOnly = !hasMedia && !message.replyToMessage && isEmojiOnlyMessage(message.text);
+  const isEmojiOnly =
+    !hasMedia &&
+    !isFile &&
+    !isAlbum &&
+    !message.replyToMessage &&
+    !message.forwardedFrom &&
+    isEmojiOnlyMessage(message.text);
 
   const outgoingBackground = isDark 
     ? 'rgba(70, 70, 72, 0.95)' 
@@ -335,7 +338,17 @@ export function MessageBubble({
   const showSenderName = isGroup && !isOwn && message.senderName;
   
   // Media-only message: has image/video but no text (excluding audio)
-  const isMediaOnly = hasMedia && !isAudio && !message.text && !message.replyToMessage;
+  const isMediaOnly =
+    hasMedia &&
+    !isAudio &&
+    !message.text &&
+    !message.replyToMessage &&
+    !message.forwardedFrom;
+
+  const linkPreviewUrl =
+    !hasMedia && !isAlbum && !message.linkPreviewDisabled
+      ? findFirstUrl(message.text)
+      : null;
 
   const renderBubbleContent = () => {
     const bubbleRadius = 22;
@@ -378,6 +391,45 @@ export function MessageBubble({
           </ThemedText>
         ) : null}
 
+        {message.forwardedFrom ? (
+          <Pressable
+            onPress={() => onForwardedFromPress?.(message.forwardedFrom!)}
+            disabled={!onForwardedFromPress || !message.forwardedFrom.senderId}
+            style={styles.forwardedHeader}
+          >
+            <ThemedText
+              style={[
+                styles.forwardedLabel,
+                {
+                  color: isOwn
+                    ? isDark
+                      ? "rgba(255,255,255,0.65)"
+                      : "rgba(0,0,0,0.5)"
+                    : theme.textSecondary,
+                },
+              ]}
+              numberOfLines={1}
+            >
+              {t("chat.forwardedFrom")}{" "}
+              <ThemedText
+                style={[
+                  styles.forwardedName,
+                  {
+                    color: isOwn
+                      ? isDark
+                        ? "rgba(255,255,255,0.9)"
+                        : theme.primary
+                      : theme.primary,
+                  },
+                ]}
+              >
+                {message.forwardedFrom.senderName ||
+                  t("chat.forwardedHiddenSender")}
+              </ThemedText>
+            </ThemedText>
+          </Pressable>
+        ) : null}
+
         {message.replyToMessage ? (
           <Pressable 
             onPress={onQuotedMessagePress}
@@ -411,12 +463,53 @@ export function MessageBubble({
                 {message.replyToMessage.type === "image" ? t("chat.photo") : 
                  message.replyToMessage.type === "video" ? t("chat.video") :
                  message.replyToMessage.type === "voice" ? t("chat.voiceMessage") :
-                 message.replyToMessage.content || ""}
+                 message.replyToMessage.content ||
+                 (message.replyToMessage.type === "file" ? t("chat.file") :
+                  message.replyToMessage.type === "album" ? t("chat.album") : "")}
               </ThemedText>
             </View>
           </Pressable>
         ) : null}
 
+        {isAlbum && message.attachments?.length ? (
+          <View style={[styles.mediaContainer, styles.mediaWrapper]}>
+            <AlbumGrid
+              attachments={message.attachments}
+              width={MEDIA_MAX_WIDTH}
+              onItemPress={message.isUploading ? undefined : onAlbumItemPress}
+              autoDownload={!isOwn}
+            />
+            {message.isUploading ? (
+              <UploadProgressOverlay
+                progress={message.uploadProgress || 0}
+                hasError={message.uploadError}
+                mediaType="image"
+              />
+            ) : null}
+          </View>
+        ) : null}
+
+        {isFile && mediaSource && message.file ? (
+          <View style={styles.mediaContainer}>
+            <FileAttachment
+              uri={mediaSource}
+              file={message.file}
+              isUploading={message.isUploading}
+              uploadProgress={message.uploadProgress}
+              uploadError={message.uploadError}
+              accentColor={theme.primary}
+              textColor={isOwn ? outgoingTextColor : theme.text}
+              secondaryColor={
+                isOwn
+                  ? isDark
+                    ? "rgba(255,255,255,0.65)"
+                    : "rgba(0,0,0,0.5)"
+                  : theme.textSecondary
+              }
+            />
+          </View>
+        ) : null}
+
         {isAudio && mediaSource ? (
           <View style={styles.mediaContainer}>
             {message.isUploading ? (
@@ -434,12 +527,87 @@ export function MessageBubble({
                 messageId={message.id}
                 isListened={isVoiceListened}
                 onListened={handleVoiceListened}
+                waveform={message.waveform}
+                onPlaybackComplete={onVoicePlaybackComplete}
+                mediaSize={message.mediaSize}
+              />
+            )}
+          </View>
+        ) : isVideoNote ? (
+          <View
+            style={[styles.mediaContainer, isMediaOnly && { marginBottom: 0 }]}
+          >
+            {message.isUploading ? (
+              <View style={styles.videoNote}>
+                <UploadProgressOverlay
+                  progress={message.uploadProgress || 0}
+                  hasError={message.uploadError}
+                  mediaType="video"
+                  uploadedBytes={message.uploadedBytes}
+                  totalBytes={message.totalBytes}
+                />
+              </View>
+            ) : (
+              <VideoNoteMessage
+                uri={mediaSource!}
+                thumbnailUrl={message.thumbnailUrl}
+                messageId={message.id}
+                isWatched={isOwn || isVoiceListened}
+                onWatched={handleVoiceListened}
+                autoDownload={!isOwn}
+                mediaSize={message.mediaSize}
               />
             )}
+            {isMediaOnly ? (
+              <View
+                style={[
+                  styles.videoNoteFooter,
+                  isOwn && styles.videoNoteFooterOwn,
+                ]}
+              >
+                {showSenderName ? (
+                  <ThemedText
+                    type="caption"
+                    style={[
+                      styles.mediaSenderText,
+                      { color: message.senderColor || "#FFFFFF" },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {message.senderName}
+                  </ThemedText>
+                ) : null}
+                {message.isEdited ? (
+                  <Pressable
+                    onPress={onEditedPress}
+                    disabled={!onEditedPress}
+                    hitSlop={6}
+                  >
+                    <ThemedText type="caption" style={styles.mediaTimeText}>
+                      {t("chat.edited")}
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+                <ThemedText type="caption" style={styles.mediaTimeText}>
+                  {formatTime(message.timestamp)}
+                </ThemedText>
+                {message.status === "error" && onRetry ? (
+                  <Pressable onPress={onRetry} hitSlop={8}>
+                    <Feather name="refresh-cw" size={12} color="#FF453A" />
+                  </Pressable>
+                ) : (
+                  <MessageStatus
+                    status={message.status}
+                    isOutgoing={isOwn}
+                    isEmojiOnly={false}
+                  />
+                )}
+              </View>
+            ) : null}
           </View>
         ) : hasMedia ? (
           <Pressable 
-            onPress={message.isUploading ? undefined : (isMediaLoaded ? onMediaPress : handleLoadMedia)} 
+            onPress={message.isUploading ? undefined : onMediaPress}
             style={[styles.mediaContainer, isMediaOnly && { marginBottom: 0 }]}
           >
             {mediaType === "photo" || mediaType === "image" ? (
@@ -459,24 +627,15 @@ export function MessageBubble({
                       totalBytes={message.totalBytes}
                     />
                   </>
-                ) : isMediaLoaded ? (
+                ) : (
                   <CachedImage
                     source={{ uri: mediaSource }}
                     style={styles.media}
                     contentFit="cover"
                     thumbnailUrl={message.thumbnailUrl}
+                    autoDownloadType={isOwn ? undefined : "photo"}
+                    autoDownloadSize={message.mediaSize}
                   />
-                ) : isCheckingCache ? (
-                  <View style={[styles.media, styles.mediaPlaceholder]}>
-                    <ActivityIndicator size="large" color="#FFFFFF" />
-                  </View>
-                ) : (
-                  <View style={[styles.media, styles.mediaPlaceholder]}>
-                    <View style={styles.loadMediaButton}>
-                      <Feather name="image" size={28} color="#FFFFFF" />
-                    </View>
-                    <ThemedText style={styles.loadMediaText}>{t("chat.tapToLoad")}</ThemedText>
-                  </View>
                 )}
                 {isMediaOnly ? (
                   <LinearGradient
@@ -495,9 +654,18 @@ export function MessageBubble({
                       ) : null}
                       <View style={styles.mediaTimeRow}>
                         {message.isEdited ? (
-                          <ThemedText type="caption" style={styles.mediaTimeText}>
-                            {t("chat.edited")}
-                          </ThemedText>
+                          <Pressable
+                            onPress={onEditedPress}
+                            disabled={!onEditedPress}
+                            hitSlop={6}
+                          >
+                            <ThemedText
+                              type="caption"
+                              style={styles.mediaTimeText}
+                            >
+                              {t("chat.edited")}
+                            </ThemedText>
+                          </Pressable>
                         ) : null}
                         <ThemedText type="caption" style={styles.mediaTimeText}>
                           {formatTime(message.timestamp)}
@@ -521,24 +689,15 @@ export function MessageBubble({
                       totalBytes={message.totalBytes}
                     />
                   </>
-                ) : isMediaLoaded ? (
+                ) : (
                   <CachedVideo
                     source={{ uri: mediaSource! }}
                     style={styles.media}
                     showPlayButton={true}
                     thumbnailUrl={message.thumbnailUrl}
+                    autoDownloadType={isOwn ? undefined : "video"}
+                    autoDownloadSize={message.mediaSize}
                   />
-                ) : isCheckingCache ? (
-                  <View style={[styles.media, styles.mediaPlaceholder]}>
-                    <ActivityIndicator size="large" color="#FFFFFF" />
-                  </View>
-                ) : (
-                  <View style={[styles.media, styles.mediaPlaceholder]}>
-                    <View style={styles.loadMediaButton}>
-                      <Feather name="video" size={28} color="#FFFFFF" />
-                    </View>
-                    <ThemedText style={styles.loadMediaText}>{t("chat.tapToLoad")}</ThemedText>
-                  </View>
                 )}
                 {isMediaOnly ? (
                   <LinearGradient
@@ -557,9 +716,18 @@ export function MessageBubble({
                       ) : null}
                       <View style={styles.mediaTimeRow}>
                         {message.isEdited ? (
-                          <ThemedText type="caption" style={styles.mediaTimeText}>
-                            {t("chat.edited")}
-                          </ThemedText>
+                          <Pressable
+                            onPress={onEditedPress}
+                            disabled={!onEditedPress}
+                            hitSlop={6}
+                          >
+                            <ThemedText
+                              type="caption"
+                              style={styles.mediaTimeText}
+                            >
+                              {t("chat.edited")}
+                            </ThemedText>
+                          </Pressable>
                         ) : null}
                         <ThemedText type="caption" style={styles.mediaTimeText}>
                           {formatTime(message.timestamp)}
@@ -574,6 +742,25 @@ export function MessageBubble({
           </Pressable>
         ) : null}
 
+        {message.decryptionFailed ? (
+          <View style={styles.decryptionFailed}>
+            <Feather
+              name="lock"
+              size={14}
+              color={isOwn ? outgoingTextColor : theme.textSecondary}
+            />
+            <ThemedText
+              type="body"
+              style={[
+                styles.decryptionFailedText,
+                { color: isOwn ? outgoingTextColor : theme.textSecondary },
+              ]}
+            >
+              {t("chat.decryptionFailed")}
+            </ThemedText>
+          </View>
+        ) : null}
+
         {message.text ? (
           isEmojiOnlyMessage(message.text) ? (
             <View style={styles.animatedEmojiContainer}>
@@ -584,18 +771,22 @@ export function MessageBubble({
             </View>
           ) : (
             <View>
-              <ThemedText
-                type="body"
+              <MentionText
+                text={
+                  isLongMessage && !isExpanded
+                    ? getCollapsedText(message.text)
+                    : message.text
+                }
+                mentions={message.mentions}
                 style={[
                   styles.text, 
                   { color: isOwn ? outgoingTextColor : theme.text },
                   Platform.OS === "web" ? { wordBreak: "break-word" } as any : null
                 ]}
-              >
-                {isLongMessage && !isExpanded 
-                  ? getCollapsedText(message.text) 
-                  : message.text}
-              </ThemedText>
+                mentionStyle={{ color: theme.link }}
+                linkStyle={{ color: isOwn ? outgoingTextColor : theme.link }}
+                onMentionPress={onMentionPress}
+              />
               {isLongMessage ? (
                 <Pressable 
                   onPress={() => setIsExpanded(!isExpanded)} 
@@ -612,6 +803,32 @@ export function MessageBubble({
                   </ThemedText>
                 </Pressable>
               ) : null}
+              {linkPreviewUrl ? (
+                <LinkPreviewCard
+                  url={linkPreviewUrl}
+                  encrypted={!isGroup}
+                  accentColor={
+                    isOwn ? (isDark ? "#FFFFFF" : theme.primary) : theme.primary
+                  }
+                  textColor={isOwn ? outgoingTextColor : theme.text}
+                  secondaryColor={
+                    isOwn
+                      ? isDark
+                        ? "rgba(255,255,255,0.65)"
+                        : "rgba(0,0,0,0.5)"
+                      : theme.textSecondary
+                  }
+                  backgroundColor={
+                    isOwn
+                      ? isDark
+                        ? "rgba(255,255,255,0.12)"
+                        : "rgba(0,0,0,0.05)"
+                      : isDark
+                        ? "rgba(255,255,255,0.06)"
+                        : "rgba(0,0,0,0.03)"
+                  }
+                />
+              ) : null}
             </View>
           )
         ) : null}
@@ -619,9 +836,11 @@ export function MessageBubble({
         {!isMediaOnly ? (
         <View style={[styles.footer, isEmojiOnly && styles.footerEmoji]}>
           {message.isEdited ? (
-            <ThemedText type="caption" style={[styles.editedLabel, { color: isEmojiOnly ? theme.textSecondary : (isOwn ? (isDark ? "rgba(255,255,255,0.6)" : "rgba(0,0,0,0.45)") : theme.textSecondary) }]}>
-              {t("chat.edited")}
-            </ThemedText>
+            <Pressable onPress={onEditedPress} disabled={!onEditedPress} hitSlop={6}>
+              <ThemedText type="caption" style={[styles.editedLabel, { color: isEmojiOnly ? theme.textSecondary : (isOwn ? (isDark ? "rgba(255,255,255,0.6)" : "rgba(0,0,0,0.45)") : theme.textSecondary) }]}>
+                {t("chat.edited")}
+              </ThemedText>
+            </Pressable>
           ) : null}
           <ThemedText
             type="caption"
@@ -704,6 +923,77 @@ export function MessageBubble({
           {renderBubbleContent()}
         </Animated.View>
       </GestureDetector>
+      {message.reactions && message.reactions.length > 0 ? (
+        <View
+          style={[
+            styles.reactionsRow,
+            { justifyContent: isOwn ? "flex-end" : "flex-start" },
+          ]}
+        >
+          {message.reactions.map((reaction) => {
+            const isMine =
+              !!currentUserId && reaction.userIds.includes(currentUserId);
+            return (
+              <Pressable
+                key={reaction.emoji}
+                onPress={
+                  onReactionPress
+                    ? () => onReactionPress(reaction.emoji)
+                    : undefined
+                }
+                style={[
+                  styles.reactionChip,
+                  {
+                    backgroundColor: isMine
+                      ? isDark
+                        ? "rgba(0, 136, 204, 0.35)"
+                        : "rgba(0, 136, 204, 0.15)"
+                      : isDark
+                        ? "rgba(58, 58, 60, 0.95)"
+                        : "rgba(255, 255, 255, 0.98)",
+                    borderColor: isMine ? theme.primary : "transparent",
+                  },
+                ]}
+                hitSlop={4}
+              >
+                <ThemedText style={styles.reactionChipEmoji}>
+                  {reaction.emoji}
+                </ThemedText>
+                {reaction.userIds.length > 1 ? (
+                  <ThemedText
+                    style={[
+                      styles.reactionChipCount,
+                      { color: isMine ? theme.primary : theme.textSecondary },
+                    ]}
+                  >
+                    {reaction.userIds.length}
+                  </ThemedText>
+                ) : null}
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+      {replyCount ? (
+        <Pressable
+          onPress={onRepliesPress}
+          disabled={!onRepliesPress}
+          style={[
+            styles.repliesChip,
+            {
+              backgroundColor: isDark
+                ? "rgba(58, 58, 60, 0.95)"
+                : "rgba(255, 255, 255, 0.98)",
+            },
+          ]}
+          hitSlop={4}
+        >
+          <Feather name="message-circle" size={13} color={theme.primary} />
+          <ThemedText style={[styles.repliesText, { color: theme.primary }]}>
+            {t("chat.replyCount", { count: replyCount })}
+          </ThemedText>
+        </Pressable>
+      ) : null}
     </Animated.View>
   );
 }
@@ -736,6 +1026,14 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     letterSpacing: -0.2,
   },
+  decryptionFailed: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  decryptionFailedText: {
+    fontStyle: "italic",
+  },
   emojiText: {
     textAlign: "center",
     lineHeight: 80,
@@ -785,25 +1083,6 @@ const styles = StyleSheet.create({
   mediaUploading: {
     opacity: 0.6,
   },
-  mediaPlaceholder: {
-    backgroundColor: "rgba(0,0,0,0.4)",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadMediaButton: {
-    width: 60,
-    height: 60,
-    borderRadius: 30,
-    backgroundColor: "rgba(255,255,255,0.2)",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadMediaText: {
-    color: "#FFFFFF",
-    fontSize: 13,
-    marginTop: 10,
-    fontWeight: "500",
-  },
   videoPlaceholder: {
     backgroundColor: "#1a1a1a",
     justifyContent: "center",
@@ -829,6 +1108,16 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontWeight: "500",
   },
+  forwardedHeader: {
+    marginBottom: 6,
+  },
+  forwardedLabel: {
+    fontSize: 13,
+  },
+  forwardedName: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   quotedMessage: {
     flexDirection: "row",
     marginBottom: 10,
@@ -895,12 +1184,71 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  videoNote: {
+    width: VIDEO_NOTE_SIZE,
+    height: VIDEO_NOTE_SIZE,
+    borderRadius: VIDEO_NOTE_SIZE / 2,
+    overflow: "hidden",
+    backgroundColor: "#2a2a2a",
+  },
+  videoNoteFooter: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    maxWidth: VIDEO_NOTE_SIZE,
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: "rgba(0,0,0,0.35)",
+  },
+  videoNoteFooterOwn: {
+    alignSelf: "flex-end",
+  },
   mediaOnlyBubble: {
     backgroundColor: "transparent",
     paddingHorizontal: 0,
     paddingTop: 0,
     paddingBottom: 0,
   },
+  reactionsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    maxWidth: MAX_BUBBLE_WIDTH,
+    marginTop: 4,
+    gap: 4,
+  },
+  reactionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 4,
+  },
+  reactionChipEmoji: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  reactionChipCount: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  repliesChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 14,
+    gap: 4,
+  },
+  repliesText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   mediaSenderText: {
     fontSize: 13,
     fontWeight: "600",
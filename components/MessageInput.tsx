@@ -1,5 +1,20 @@
-import React, { useState, useRef, useCallback, useEffect } from "react";
-import { View, StyleSheet, TextInput, Pressable, Platform, Keyboard } from "react-native";
+import React, {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  useMemo,
+} from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Pressable,
+  Platform,
+  Keyboard,
+  NativeSyntheticEvent,
+  TextInputSelectionChangeEventData,
+} from "react-native";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -12,7 +27,14 @@ import Animated, {
   runOnJS,
 } from "react-native-reanimated";
 import { Gesture, GestureDetector } from "react-native-gesture-handler";
-import { useAudioRecorder, RecordingPresets, AudioModule, setAudioModeAsync, useAudioRecorderState } from "expo-audio";
+import {
+  useAudioRecorder,
+  RecordingPresets,
+  RecordingOptions,
+  AudioModule,
+  setAudioModeAsync,
+  useAudioRecorderState,
+} from "expo-audio";
 import * as Haptics from "expo-haptics";
 import { Feather } from "@expo/vector-icons";
 import { useTranslation } from "react-i18next";
@@ -20,9 +42,38 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { ThemedText } from "./ThemedText";
+import { VoiceRecordingPreview } from "./VoiceRecordingPreview";
+import { formatScheduledTime } from "./ScheduleTimeSheet";
+import { MentionSuggestions } from "./MentionSuggestions";
+import {
+  MentionCandidate,
+  collectMentions,
+  getMentionQuery,
+} from "./MentionText";
+import { GroupMember, GroupPermissions, MessageMention } from "@/store/types";
+import { findFirstUrl } from "@/services/linkPreview";
+import { buildWaveform } from "@/services/voiceWaveform";
+import { useLinkPreview } from "@/hooks/useLinkPreview";
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
+const METERING_INTERVAL_MS = 100;
+const LOCK_DISTANCE = 70;
+
+/**
+ * Voice notes are recorded as ADTS AAC instead of MP4 so the preview can trim
+ * them without re-encoding.
+ */
+const RECORDING_OPTIONS: RecordingOptions = {
+  ...RecordingPresets.HIGH_QUALITY,
+  extension: ".aac",
+  isMeteringEnabled: true,
+  android: {
+    ...RecordingPresets.HIGH_QUALITY.android,
+    outputFormat: "aac_adts",
+  },
+};
+
 const SPRING_CONFIG = {
   damping: 15,
   stiffness: 400,
@@ -30,15 +81,29 @@ const SPRING_CONFIG = {
 };
 
 interface MessageInputProps {
-  onSend: (text: string) => void;
+  onSend: (
+    text: string,
+    mentions?: MessageMention[],
+    linkPreviewDisabled?: boolean,
+  ) => void;
   onAttachPress: () => void;
-  onVoiceMessage?: (uri: string, duration: number) => void;
+  onVoiceMessage?: (uri: string, duration: number, waveform?: number[]) => void;
   onTyping?: () => void;
   editingMessage?: { id: string; text?: string } | null;
   editText?: string;
   onEditTextChange?: (text: string) => void;
   onCancelEdit?: () => void;
   onSaveEdit?: () => void;
+  onSchedulePress?: () => void;
+  scheduledSendAt?: number | null;
+  onCancelSchedule?: () => void;
+  mentionableMembers?: GroupMember[];
+  /** Group restrictions that apply to the current user, if any. */
+  restrictions?: GroupPermissions;
+  /** When the current user last sent a message here, for slow mode. */
+  lastSentAt?: number;
+  /** Set for encrypted chats, whose links must not reach the server. */
+  encrypted?: boolean;
 }
 
 export function MessageInput({ 
@@ -51,6 +116,13 @@ export function MessageInput({
   onEditTextChange,
   onCancelEdit,
   onSaveEdit,
+  onSchedulePress,
+  scheduledSendAt,
+  onCancelSchedule,
+  mentionableMembers,
+  restrictions,
+  lastSentAt,
+  encrypted,
 }: MessageInputProps) {
   const { theme, isDark } = useTheme();
   const { t } = useTranslation();
@@ -61,14 +133,61 @@ export function MessageInput({
   const textRef = useRef<string>("");
   const ignoreNextChangeRef = useRef(false);
   const inputRef = useRef<TextInput>(null);
+  const cursorRef = useRef(0);
+  const pickedMentionsRef = useRef<Map<string, MentionCandidate>>(new Map());
+  const [mentionQuery, setMentionQuery] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+  const [linkPreviewDisabled, setLinkPreviewDisabled] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const canSendMedia = restrictions?.canSendMedia !== false;
+  const canSendLinks = restrictions?.canSendLinks !== false;
+  const slowModeUntil =
+    restrictions?.slowModeSeconds && lastSentAt
+      ? lastSentAt + restrictions.slowModeSeconds * 1000
+      : 0;
+  const slowModeRemaining = Math.max(
+    0,
+    Math.ceil((slowModeUntil - now) / 1000),
+  );
+
+  useEffect(() => {
+    if (slowModeUntil <= Date.now()) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= slowModeUntil) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [slowModeUntil]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
   
   const isRecordingRef = useRef(false);
   const cancelRequestedRef = useRef(false);
+  const isLockedRef = useRef(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [recordingPreview, setRecordingPreview] = useState<{
+    uri: string;
+    duration: number;
+    levels: number[];
+  } | null>(null);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [isKeyboardVisible, setIsKeyboardVisible] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const audioRecorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const meteringTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const meteringLevelsRef = useRef<number[]>([]);
+  const audioRecorder = useAudioRecorder(RECORDING_OPTIONS);
   const recorderState = useAudioRecorderState(audioRecorder);
   const recordingDurationRef = useRef(0);
 
@@ -90,6 +209,16 @@ export function MessageInput({
   
   const isEditing = !!editingMessage;
   const displayText = isEditing ? (editText || "") : text;
+
+  const draftUrl = useMemo(
+    () => (isEditing || !canSendLinks ? null : findFirstUrl(text)),
+    [isEditing, canSendLinks, text],
+  );
+  const draftPreview = useLinkPreview(
+    linkPreviewDisabled ? null : draftUrl,
+    500,
+    encrypted,
+  );
   
   const sendButtonScale = useSharedValue(1);
   const sendButtonRotation = useSharedValue(0);
@@ -99,6 +228,7 @@ export function MessageInput({
   const recordingPulse = useSharedValue(1);
   const slideX = useSharedValue(0);
   const recordingOpacity = useSharedValue(0);
+  const lockProgress = useSharedValue(0);
 
   useEffect(() => {
     isEditingSV.value = isEditing ? 1 : 0;
@@ -106,8 +236,8 @@ export function MessageInput({
   }, [displayText, isEditing]);
 
   useEffect(() => {
-    if (isRecording) {
-      recordingOpacity.value = withTiming(1, { duration: 200 });
+    recordingOpacity.value = withTiming(isRecording ? 1 : 0, { duration: 200 });
+    if (isRecording && !isPaused) {
       recordingPulse.value = withRepeat(
         withSequence(
           withTiming(1.15, { duration: 600 }),
@@ -117,10 +247,9 @@ export function MessageInput({
         true
       );
     } else {
-      recordingOpacity.value = withTiming(0, { duration: 200 });
       recordingPulse.value = withSpring(1);
     }
-  }, [isRecording]);
+  }, [isRecording, isPaused]);
 
   useEffect(() => {
     recordingDurationRef.current = recordingDuration;
@@ -132,6 +261,34 @@ export function MessageInput({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  const startRecordingTimers = useCallback(() => {
+    timerRef.current = setInterval(() => {
+      setRecordingDuration((prev) => {
+        const newVal = prev + 1;
+        recordingDurationRef.current = newVal;
+        return newVal;
+      });
+    }, 1000);
+
+    meteringTimerRef.current = setInterval(() => {
+      const { metering } = audioRecorder.getStatus();
+      if (metering !== undefined) {
+        meteringLevelsRef.current.push(metering);
+      }
+    }, METERING_INTERVAL_MS);
+  }, [audioRecorder]);
+
+  const clearRecordingTimers = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (meteringTimerRef.current) {
+      clearInterval(meteringTimerRef.current);
+      meteringTimerRef.current = null;
+    }
+  }, []);
+
   const startRecording = useCallback(async () => {
     if (Platform.OS === "web") return;
     if (isRecordingRef.current) return;
@@ -156,29 +313,23 @@ export function MessageInput({
       setRecordingDuration(0);
       recordingDurationRef.current = 0;
       slideX.value = 0;
-      
-      timerRef.current = setInterval(() => {
-        setRecordingDuration((prev) => {
-          const newVal = prev + 1;
-          recordingDurationRef.current = newVal;
-          return newVal;
-        });
-      }, 1000);
+      meteringLevelsRef.current = [];
+      startRecordingTimers();
     } catch (error) {
       console.error("Failed to start recording:", error);
       isRecordingRef.current = false;
     }
-  }, [audioRecorder]);
+  }, [audioRecorder, startRecordingTimers]);
 
-  const stopRecording = useCallback(async (cancelled: boolean = false) => {
+  const stopRecording = useCallback(async (
+    cancelled: boolean = false,
+    showPreview: boolean = false,
+  ) => {
     if (!isRecordingRef.current) return;
-    
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
 
+    clearRecordingTimers();
     isRecordingRef.current = false;
+    isLockedRef.current = false;
 
     try {
       await audioRecorder.stop();
@@ -189,11 +340,21 @@ export function MessageInput({
       const duration = recordingDurationRef.current;
       if (!cancelled && duration >= 1 && onVoiceMessage) {
         const uri = audioRecorder.uri;
-        if (uri) {
+        if (uri && showPreview) {
+          setRecordingPreview({
+            uri,
+            duration,
+            levels: meteringLevelsRef.current,
+          });
+        } else if (uri) {
           if (Platform.OS !== "web") {
             await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
           }
-          onVoiceMessage(uri, duration);
+          onVoiceMessage(
+            uri,
+            duration,
+            buildWaveform(meteringLevelsRef.current),
+          );
         }
       }
     } catch (error) {
@@ -201,9 +362,11 @@ export function MessageInput({
     }
 
     setIsRecording(false);
+    setIsLocked(false);
+    setIsPaused(false);
     setRecordingDuration(0);
     slideX.value = withSpring(0);
-  }, [audioRecorder, onVoiceMessage]);
+  }, [audioRecorder, onVoiceMessage, clearRecordingTimers]);
 
   const markCancelRequested = useCallback(() => {
     cancelRequestedRef.current = true;
@@ -212,7 +375,53 @@ export function MessageInput({
     }
   }, []);
 
+  const handleRecordingLock = useCallback(() => {
+    if (!isRecordingRef.current) return;
+    isLockedRef.current = true;
+    setIsLocked(true);
+    micScale.value = withSpring(1, SPRING_CONFIG);
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+  }, [micScale]);
+
+  const handlePauseToggle = useCallback(() => {
+    if (!isRecordingRef.current) return;
+    if (isPaused) {
+      audioRecorder.record();
+      startRecordingTimers();
+    } else {
+      audioRecorder.pause();
+      clearRecordingTimers();
+    }
+    setIsPaused(!isPaused);
+  }, [isPaused, audioRecorder, startRecordingTimers, clearRecordingTimers]);
+
+  const handleLockedCancel = useCallback(() => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    }
+    stopRecording(true);
+  }, [stopRecording]);
+
+  const handleLockedStop = useCallback(() => {
+    stopRecording(false, true);
+  }, [stopRecording]);
+
+  const handlePreviewSend = useCallback(
+    (uri: string, duration: number, waveform?: number[]) => {
+      setRecordingPreview(null);
+      onVoiceMessage?.(uri, duration, waveform);
+    },
+    [onVoiceMessage],
+  );
+
+  const handlePreviewDiscard = useCallback(() => {
+    setRecordingPreview(null);
+  }, []);
+
   const isCancelled = useSharedValue(false);
+  const isLockedSV = useSharedValue(false);
   const isGestureActive = useSharedValue(false);
   
   const handleRecordingStart = useCallback(() => {
@@ -221,7 +430,7 @@ export function MessageInput({
   }, [startRecording]);
 
   const handleRecordingEnd = useCallback(() => {
-    if (isRecordingRef.current) {
+    if (isRecordingRef.current && !isLockedRef.current) {
       micScale.value = withSpring(1, SPRING_CONFIG);
       const wasCancelled = cancelRequestedRef.current;
       cancelRequestedRef.current = false;
@@ -233,10 +442,11 @@ export function MessageInput({
     .minDuration(200)
     .maxDistance(Number.MAX_SAFE_INTEGER)
     .shouldCancelWhenOutside(false)
-    .enabled(!isKeyboardVisible)
+    .enabled(!isKeyboardVisible && canSendMedia && slowModeRemaining === 0)
     .onStart(() => {
       isGestureActive.value = true;
       isCancelled.value = false;
+      isLockedSV.value = false;
       runOnJS(handleRecordingStart)();
     })
     .onEnd(() => {
@@ -262,6 +472,17 @@ export function MessageInput({
       }
     })
     .onUpdate((event) => {
+      if (isLockedSV.value) return;
+      if (event.translationY < 0 && !isCancelled.value) {
+        lockProgress.value = Math.min(1, -event.translationY / LOCK_DISTANCE);
+        if (event.translationY < -LOCK_DISTANCE) {
+          isLockedSV.value = true;
+          lockProgress.value = withSpring(0);
+          slideX.value = withSpring(0);
+          runOnJS(handleRecordingLock)();
+          return;
+        }
+      }
       if (event.translationX < 0) {
         slideX.value = event.translationX;
         if (event.translationX < -80 && !isCancelled.value) {
@@ -272,9 +493,11 @@ export function MessageInput({
     })
     .onEnd(() => {
       slideX.value = withSpring(0);
+      lockProgress.value = withSpring(0);
     })
     .onFinalize(() => {
       slideX.value = withSpring(0);
+      lockProgress.value = withSpring(0);
     });
 
   const composedGesture = Gesture.Simultaneous(longPressGesture, panGesture);
@@ -294,6 +517,12 @@ export function MessageInput({
   }, []);
 
   const handleSend = useCallback(async () => {
+    const pendingText = isEditing ? editText || "" : textRef.current;
+    if (!canSendLinks && findFirstUrl(pendingText)) {
+      setNotice(t("chat.linksRestricted"));
+      return;
+    }
+
     if (isEditing) {
       if (onSaveEdit) {
         triggerSendAnimation();
@@ -307,17 +536,30 @@ export function MessageInput({
     // Send immediately using the ref value (latest text)
     const trimmedText = textRef.current.trim();
     if (!trimmedText) return;
+    if (slowModeUntil > Date.now()) return;
     
     triggerSendAnimation();
     setIsSending(true);
     
+    const mentions = collectMentions(
+      trimmedText,
+      Array.from(pickedMentionsRef.current.values()),
+    );
+
     // Set flag to ignore late T9 corrections that might try to repopulate the field
     ignoreNextChangeRef.current = true;
     setText("");
     textRef.current = "";
+    pickedMentionsRef.current.clear();
+    setMentionQuery(null);
+    setLinkPreviewDisabled(false);
     
     try {
-      await onSend(trimmedText);
+      await onSend(
+        trimmedText,
+        mentions.length > 0 ? mentions : undefined,
+        linkPreviewDisabled || undefined,
+      );
     } finally {
       setIsSending(false);
       // Reset the ignore flag quickly - just enough to catch the immediate T9 callback
@@ -326,7 +568,27 @@ export function MessageInput({
         ignoreNextChangeRef.current = false;
       }, 50);
     }
-  }, [isSending, onSend, triggerSendAnimation, isEditing, onSaveEdit]);
+  }, [
+    isSending,
+    onSend,
+    triggerSendAnimation,
+    isEditing,
+    onSaveEdit,
+    linkPreviewDisabled,
+    editText,
+    canSendLinks,
+    slowModeUntil,
+    t,
+  ]);
+
+  const handleAttachPress = useCallback(() => {
+    if (!canSendMedia) {
+      setNotice(t("chat.mediaRestricted"));
+      return;
+    }
+    if (slowModeUntil > Date.now()) return;
+    onAttachPress();
+  }, [canSendMedia, slowModeUntil, onAttachPress, t]);
 
   const sendButtonAnimatedStyle = useAnimatedStyle(() => ({
     transform: [
@@ -368,6 +630,14 @@ export function MessageInput({
     transform: [{ scale: recordingPulse.value }],
   }));
 
+  const slideHintStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(slideX.value, [-80, 0], [0.3, 1], Extrapolation.CLAMP),
+  }));
+
+  const lockIndicatorStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: -lockProgress.value * (LOCK_DISTANCE / 2) }],
+  }));
+
   const recordingOverlayStyle = useAnimatedStyle(() => ({
     opacity: recordingOpacity.value,
     pointerEvents: recordingOpacity.value > 0.5 ? 'auto' as const : 'none' as const,
@@ -389,8 +659,21 @@ export function MessageInput({
       return;
     }
     
+    // The selection event may arrive after the text change, so assume the
+    // cursor moved by the length difference until it does.
+    const cursor = Math.max(
+      0,
+      cursorRef.current + newText.length - textRef.current.length,
+    );
+    cursorRef.current = cursor;
     setText(newText);
     textRef.current = newText;
+    setMentionQuery(
+      mentionableMembers?.length ? getMentionQuery(newText, cursor) : null,
+    );
+    if (!newText) {
+      setLinkPreviewDisabled(false);
+    }
     
     if (onTyping && newText.length > 0) {
       const now = Date.now();
@@ -399,7 +682,51 @@ export function MessageInput({
         onTyping();
       }
     }
-  }, [onTyping, isEditing, onEditTextChange]);
+  }, [onTyping, isEditing, onEditTextChange, mentionableMembers]);
+
+  const handleSelectionChange = useCallback(
+    (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+      const { start, end } = event.nativeEvent.selection;
+      cursorRef.current = end;
+      if (isEditing || !mentionableMembers?.length) return;
+      setMentionQuery(
+        start === end ? getMentionQuery(textRef.current, end) : null,
+      );
+    },
+    [isEditing, mentionableMembers],
+  );
+
+  const mentionSuggestions = useMemo(() => {
+    if (!mentionQuery || isEditing || !mentionableMembers) return [];
+    const query = mentionQuery.query.toLowerCase();
+    return mentionableMembers.filter((member) =>
+      member.displayName
+        .toLowerCase()
+        .split(/\s+/)
+        .some((word) => word.startsWith(query)),
+    );
+  }, [mentionQuery, isEditing, mentionableMembers]);
+
+  const handleMentionSelect = useCallback(
+    (member: GroupMember) => {
+      if (!mentionQuery) return;
+      const current = textRef.current;
+      const token = `@${member.displayName} `;
+      const end = mentionQuery.start + 1 + mentionQuery.query.length;
+      const newText =
+        current.slice(0, mentionQuery.start) + token + current.slice(end);
+      const userId = String(member.visibleId ?? member.id);
+      pickedMentionsRef.current.set(userId, {
+        userId,
+        displayName: member.displayName,
+      });
+      cursorRef.current = mentionQuery.start + token.length;
+      setText(newText);
+      textRef.current = newText;
+      setMentionQuery(null);
+    },
+    [mentionQuery],
+  );
 
   const bottomPadding = Platform.OS === 'android' 
     ? Math.max(insets.bottom + Spacing.sm, 48) 
@@ -423,6 +750,134 @@ export function MessageInput({
           </Pressable>
         </View>
       ) : null}
+
+      {mentionSuggestions.length > 0 ? (
+        <MentionSuggestions
+          members={mentionSuggestions}
+          onSelect={handleMentionSelect}
+        />
+      ) : null}
+
+      {draftUrl && !linkPreviewDisabled && draftPreview !== null ? (
+        <View
+          style={[
+            styles.editPanel,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              borderTopColor: theme.inputBorder,
+            },
+          ]}
+        >
+          <Feather
+            name="link"
+            size={18}
+            color={theme.primary}
+            style={styles.scheduleIcon}
+          />
+          <View style={styles.editContent}>
+            <ThemedText
+              style={[styles.editLabel, { color: theme.primary }]}
+              numberOfLines={1}
+            >
+              {draftPreview?.title || draftUrl}
+            </ThemedText>
+            {draftPreview?.description ? (
+              <ThemedText
+                style={[styles.editPreview, { color: theme.textSecondary }]}
+                numberOfLines={1}
+              >
+                {draftPreview.description}
+              </ThemedText>
+            ) : null}
+          </View>
+          <Pressable
+            style={styles.editCancelButton}
+            onPress={() => setLinkPreviewDisabled(true)}
+            hitSlop={10}
+            accessibilityLabel={t("chat.removeLinkPreview")}
+          >
+            <Feather name="x" size={20} color={theme.textSecondary} />
+          </Pressable>
+        </View>
+      ) : null}
+
+      {!isEditing && scheduledSendAt ? (
+        <View
+          style={[
+            styles.editPanel,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              borderTopColor: theme.inputBorder,
+            },
+          ]}
+        >
+          <Feather
+            name="clock"
+            size={18}
+            color={theme.primary}
+            style={styles.scheduleIcon}
+          />
+          <ThemedText
+            style={[
+              styles.editContent,
+              styles.editLabel,
+              { color: theme.primary },
+            ]}
+            numberOfLines={1}
+          >
+            {t("schedule.willBeSentAt", {
+              time: formatScheduledTime(scheduledSendAt),
+            })}
+          </ThemedText>
+          <Pressable
+            style={styles.editCancelButton}
+            onPress={onCancelSchedule}
+            hitSlop={10}
+          >
+            <Feather name="x" size={20} color={theme.textSecondary} />
+          </Pressable>
+        </View>
+      ) : null}
+
+      {!isEditing && (slowModeRemaining > 0 || notice) ? (
+        <View
+          style={[
+            styles.editPanel,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              borderTopColor: theme.inputBorder,
+            },
+          ]}
+        >
+          <Feather
+            name={slowModeRemaining > 0 ? "clock" : "slash"}
+            size={18}
+            color={theme.textSecondary}
+            style={styles.scheduleIcon}
+          />
+          <ThemedText
+            style={[styles.editContent, { color: theme.textSecondary }]}
+            numberOfLines={2}
+          >
+            {slowModeRemaining > 0
+              ? t("chat.slowModeWait", {
+                  time: formatDuration(slowModeRemaining),
+                })
+              : notice}
+          </ThemedText>
+        </View>
+      ) : null}
+
+      {recordingPreview ? (
+        <VoiceRecordingPreview
+          uri={recordingPreview.uri}
+          duration={recordingPreview.duration}
+          levels={recordingPreview.levels}
+          style={{ paddingBottom: bottomPadding }}
+          onDiscard={handlePreviewDiscard}
+          onSend={handlePreviewSend}
+        />
+      ) : null}
       
       <View
         style={[
@@ -431,23 +886,62 @@ export function MessageInput({
             backgroundColor: theme.inputBackground,
             paddingBottom: bottomPadding,
           },
+          recordingPreview ? styles.hidden : null,
         ]}
       >
         <Animated.View style={[styles.recordingOverlay, recordingOverlayStyle]}>
           <Animated.View style={[styles.recordingDotOuter, recordingDotStyle]}>
-            <View style={styles.recordingDot} />
+            <View
+              style={[
+                styles.recordingDot,
+                isPaused && { backgroundColor: theme.textSecondary },
+              ]}
+            />
           </Animated.View>
           
           <ThemedText style={[styles.recordingTime, { color: theme.text }]}>
             {formatDuration(recordingDuration)}
           </ThemedText>
           
-          <View style={styles.slideHint}>
-            <Feather name="chevrons-left" size={16} color={theme.textSecondary} />
-            <ThemedText style={[styles.slideText, { color: theme.textSecondary }]}>
-              {t("chats.slideToCancel")}
-            </ThemedText>
-          </View>
+          {isLocked ? (
+            <View style={styles.lockedActions}>
+              <Pressable onPress={handleLockedCancel} hitSlop={10}>
+                <ThemedText
+                  style={[styles.slideText, { color: theme.primary }]}
+                >
+                  {t("common.cancel")}
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handlePauseToggle}
+                hitSlop={10}
+                accessibilityLabel={
+                  isPaused
+                    ? t("chats.resumeRecording")
+                    : t("chats.pauseRecording")
+                }
+              >
+                <Feather
+                  name={isPaused ? "mic" : "pause"}
+                  size={20}
+                  color="#FF3B30"
+                />
+              </Pressable>
+            </View>
+          ) : (
+            <Animated.View style={[styles.slideHint, slideHintStyle]}>
+              <Feather
+                name="chevrons-left"
+                size={16}
+                color={theme.textSecondary}
+              />
+              <ThemedText
+                style={[styles.slideText, { color: theme.textSecondary }]}
+              >
+                {t("chats.slideToCancel")}
+              </ThemedText>
+            </Animated.View>
+          )}
         </Animated.View>
 
         <Animated.View style={[styles.normalInputRow, normalInputStyle]}>
@@ -464,10 +958,14 @@ export function MessageInput({
               </Pressable>
             ) : (
               <Pressable
-                onPress={onAttachPress}
+                onPress={handleAttachPress}
+                onLongPress={onSchedulePress}
                 style={({ pressed }) => [
                   styles.circleButton,
-                  { backgroundColor: theme.primary, opacity: pressed ? 0.7 : 1 },
+                  {
+                    backgroundColor: theme.primary,
+                    opacity: !canSendMedia ? 0.4 : pressed ? 0.7 : 1,
+                  },
                 ]}
               >
                 <Feather name="paperclip" size={20} color="#FFFFFF" />
@@ -491,6 +989,7 @@ export function MessageInput({
               placeholderTextColor={theme.textSecondary}
               value={displayText}
               onChangeText={handleTextChange}
+              onSelectionChange={handleSelectionChange}
               multiline
               maxLength={4096}
               autoFocus={isEditing}
@@ -499,6 +998,24 @@ export function MessageInput({
         </Animated.View>
 
         <View style={styles.buttonContainer}>
+          {isRecording && !isLocked ? (
+            <Animated.View
+              style={[
+                styles.lockIndicator,
+                { backgroundColor: theme.backgroundSecondary },
+                lockIndicatorStyle,
+              ]}
+              pointerEvents="none"
+            >
+              <Feather name="lock" size={16} color={theme.textSecondary} />
+              <Feather
+                name="chevron-up"
+                size={14}
+                color={theme.textSecondary}
+              />
+            </Animated.View>
+          ) : null}
+
           {isEditing ? null : (
             <Animated.View style={[styles.buttonWrapper, micButtonAppearStyle]}>
               <GestureDetector gesture={composedGesture}>
@@ -509,9 +1026,12 @@ export function MessageInput({
                       isRecording 
                         ? styles.micButtonRecording
                         : { backgroundColor: theme.primary },
-                      isKeyboardVisible && !isRecording && { opacity: 0.4 },
+                      (isKeyboardVisible || !canSendMedia) &&
+                        !isRecording && { opacity: 0.4 },
                     ]}
-                    pointerEvents={isKeyboardVisible ? "none" : "auto"}
+                    pointerEvents={
+                      isKeyboardVisible || !canSendMedia ? "none" : "auto"
+                    }
                   >
                     <Feather name="mic" size={20} color="#FFFFFF" />
                   </View>
@@ -523,6 +1043,7 @@ export function MessageInput({
           <Animated.View style={[styles.buttonWrapper, styles.sendButtonOverlay, sendButtonAppearStyle]}>
             <AnimatedPressable
               onPress={handleSend}
+              onLongPress={isEditing ? undefined : onSchedulePress}
               disabled={isSending}
               style={[
                 styles.sendButton,
@@ -530,9 +1051,25 @@ export function MessageInput({
                 sendButtonAnimatedStyle,
               ]}
             >
-              <Feather name={isEditing ? "check" : "send"} size={18} color="#FFFFFF" />
+              <Feather
+                name={isEditing ? "check" : scheduledSendAt ? "clock" : "send"}
+                size={18}
+                color="#FFFFFF"
+              />
             </AnimatedPressable>
           </Animated.View>
+
+          {isLocked ? (
+            <View style={[styles.buttonWrapper, styles.sendButtonOverlay]}>
+              <Pressable
+                onPress={handleLockedStop}
+                style={[styles.micButton, styles.micButtonRecording]}
+                accessibilityLabel={t("chats.stopRecording")}
+              >
+                <Feather name="square" size={16} color="#FFFFFF" />
+              </Pressable>
+            </View>
+          ) : null}
         </View>
       </View>
     </View>
@@ -621,6 +1158,15 @@ const styles = StyleSheet.create({
   sendButtonOverlay: {
     zIndex: 1,
   },
+  lockIndicator: {
+    position: "absolute",
+    bottom: 56,
+    left: 4,
+    width: 32,
+    paddingVertical: 6,
+    borderRadius: 16,
+    alignItems: "center",
+  },
   editPanel: {
     flexDirection: "row",
     alignItems: "center",
@@ -650,6 +1196,9 @@ const styles = StyleSheet.create({
     padding: Spacing.xs,
     marginLeft: Spacing.sm,
   },
+  scheduleIcon: {
+    marginRight: Spacing.sm,
+  },
   recordingOverlay: {
     ...StyleSheet.absoluteFillObject,
     flexDirection: "row",
@@ -687,4 +1236,14 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: "500",
   },
+  lockedActions: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingLeft: Spacing.lg,
+  },
+  hidden: {
+    display: "none",
+  },
 });
@@ -0,0 +1,64 @@
+import React, { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import { notificationSoundService } from "@/services/notificationSound";
+import {
+  NotificationSoundId,
+  NOTIFICATION_SOUNDS,
+} from "@/services/notificationSettings";
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (sound: NotificationSoundId | undefined) => void;
+  selected: NotificationSoundId | undefined;
+  /** Picks what "default" sounds like in the preview. */
+  isGroup: boolean;
+  /** Offers a "use default" entry that clears a per-chat override. */
+  allowDefault?: boolean;
+};
+
+export function NotificationSoundSheet({
+  visible,
+  onClose,
+  onSelect,
+  selected,
+  isGroup,
+  allowDefault = false,
+}: Props) {
+  const { t } = useTranslation();
+
+  const actions = useMemo((): ActionItem[] => {
+    const items: ActionItem[] = NOTIFICATION_SOUNDS.map((sound) => ({
+      id: sound,
+      label: t(`notifications.sounds.${sound}`),
+      icon:
+        selected === sound ? "check" : sound === "none" ? "volume-x" : "music",
+      onPress: () => {
+        notificationSoundService.playNotificationSound(sound, isGroup);
+        onSelect(sound);
+      },
+    }));
+    if (allowDefault) {
+      items.unshift({
+        id: "inherit",
+        label: t("notifications.useDefaultSound"),
+        icon: selected === undefined ? "check" : "rotate-ccw",
+        onPress: () => onSelect(undefined),
+      });
+    }
+    return items;
+  }, [t, selected, isGroup, allowDefault, onSelect]);
+
+  return (
+    <MessageActionSheet
+      visible={visible}
+      onClose={onClose}
+      actions={actions}
+      cancelLabel={t("common.cancel")}
+    />
+  );
+}
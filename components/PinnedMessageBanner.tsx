@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing } from "@/constants/theme";
+import { Message } from "@/store/types";
+
+type Props = {
+  messages: Message[];
+  onPress: (message: Message) => void;
+  onUnpin?: (message: Message) => void;
+};
+
+export function PinnedMessageBanner({ messages, onPress, onUnpin }: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [index, setIndex] = useState(messages.length - 1);
+
+  useEffect(() => {
+    setIndex(messages.length - 1);
+  }, [messages.length]);
+
+  if (messages.length === 0) {
+    return null;
+  }
+
+  const current = messages[Math.min(Math.max(index, 0), messages.length - 1)];
+
+  const handlePress = () => {
+    onPress(current);
+    setIndex((prev) => (prev <= 0 ? messages.length - 1 : prev - 1));
+  };
+
+  const preview =
+    current.type === "image"
+      ? t("chat.photo")
+      : current.type === "video"
+        ? current.isVideoNote
+          ? t("chat.videoNote")
+          : t("chat.video")
+        : current.type === "voice"
+          ? t("chat.voiceMessage")
+          : current.type === "file"
+            ? current.file?.name || t("chat.file")
+            : current.text || (current.type === "album" ? t("chat.album") : "");
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.backgroundSecondary,
+          borderBottomColor: theme.inputBorder,
+        },
+      ]}
+    >
+      <View style={styles.indicators}>
+        {messages.map((message, i) => (
+          <View
+            key={message.id}
+            style={[
+              styles.indicator,
+              {
+                backgroundColor: theme.primary,
+                opacity: i === index ? 1 : 0.3,
+              },
+            ]}
+          />
+        ))}
+      </View>
+      <View style={styles.content}>
+        <ThemedText
+          style={[styles.title, { color: theme.primary }]}
+          numberOfLines={1}
+        >
+          {messages.length > 1
+            ? t("chat.pinnedMessageCount", {
+                current: index + 1,
+                total: messages.length,
+              })
+            : t("chat.pinnedMessage")}
+        </ThemedText>
+        <ThemedText
+          style={[styles.preview, { color: theme.textSecondary }]}
+          numberOfLines={1}
+        >
+          {preview}
+        </ThemedText>
+      </View>
+      {onUnpin ? (
+        <Pressable
+          style={styles.unpinButton}
+          onPress={() => onUnpin(current)}
+          hitSlop={10}
+        >
+          <Feather name="x" size={18} color={theme.textSecondary} />
+        </Pressable>
+      ) : null}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  indicators: {
+    alignSelf: "stretch",
+    justifyContent: "center",
+    gap: 2,
+    marginRight: Spacing.sm,
+  },
+  indicator: {
+    flex: 1,
+    width: 3,
+    maxHeight: 36,
+    borderRadius: 1.5,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  preview: {
+    fontSize: 14,
+  },
+  unpinButton: {
+    padding: Spacing.xs,
+    marginLeft: Spacing.sm,
+  },
+});
@@ -0,0 +1,213 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, StyleSheet, Pressable, Modal, Platform } from "react-native";
+import DateTimePicker, {
+  DateTimePickerAndroid,
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import { useTranslation } from "react-i18next";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_LEAD_MS = 60 * 1000;
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (sendAt: number) => void;
+  initialSendAt?: number;
+};
+
+export function formatScheduledTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function atTime(daysFromToday: number, hours: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  date.setHours(hours, 0, 0, 0);
+  return date;
+}
+
+export function ScheduleTimeSheet({
+  visible,
+  onClose,
+  onSelect,
+  initialSendAt,
+}: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [showIOSPicker, setShowIOSPicker] = useState(false);
+  const [pickedDate, setPickedDate] = useState(new Date());
+
+  const selectDate = useCallback(
+    (date: Date) => {
+      onSelect(Math.max(date.getTime(), Date.now() + MIN_LEAD_MS));
+    },
+    [onSelect],
+  );
+
+  const openCustomPicker = useCallback(() => {
+    const initial = new Date(initialSendAt ?? Date.now() + HOUR_MS);
+    if (Platform.OS === "android") {
+      DateTimePickerAndroid.open({
+        value: initial,
+        mode: "date",
+        minimumDate: new Date(),
+        onChange: (dateEvent, date) => {
+          if (dateEvent.type !== "set" || !date) return;
+          DateTimePickerAndroid.open({
+            value: date,
+            mode: "time",
+            onChange: (timeEvent, time) => {
+              if (timeEvent.type === "set" && time) {
+                selectDate(time);
+              }
+            },
+          });
+        },
+      });
+    } else {
+      setPickedDate(initial);
+      setShowIOSPicker(true);
+    }
+  }, [initialSendAt, selectDate]);
+
+  const actions = useMemo((): ActionItem[] => {
+    if (!visible) return [];
+    const now = Date.now();
+    const presets: { id: string; label: string; date: Date }[] = [
+      {
+        id: "inOneHour",
+        label: t("schedule.inOneHour"),
+        date: new Date(now + HOUR_MS),
+      },
+      {
+        id: "tonight",
+        label: t("schedule.tonight"),
+        date: atTime(0, 20),
+      },
+      {
+        id: "tomorrowMorning",
+        label: t("schedule.tomorrowMorning"),
+        date: atTime(1, 9),
+      },
+    ];
+
+    const items: ActionItem[] = presets
+      .filter((preset) => preset.date.getTime() - now > HOUR_MS / 2)
+      .map((preset) => ({
+        id: preset.id,
+        label: `${preset.label} · ${formatScheduledTime(preset.date.getTime())}`,
+        icon: "clock",
+        onPress: () => selectDate(preset.date),
+      }));
+
+    if (Platform.OS !== "web") {
+      items.push({
+        id: "custom",
+        label: t("schedule.pickDateTime"),
+        icon: "calendar",
+        onPress: openCustomPicker,
+      });
+    }
+    return items;
+  }, [visible, t, selectDate, openCustomPicker]);
+
+  const handleIOSChange = useCallback(
+    (_event: DateTimePickerEvent, date?: Date) => {
+      if (date) setPickedDate(date);
+    },
+    [],
+  );
+
+  return (
+    <>
+      <MessageActionSheet
+        visible={visible}
+        onClose={onClose}
+        actions={actions}
+        cancelLabel={t("common.cancel")}
+      />
+      {Platform.OS === "ios" ? (
+        <Modal
+          visible={showIOSPicker}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setShowIOSPicker(false)}
+        >
+          <Pressable
+            style={styles.backdrop}
+            onPress={() => setShowIOSPicker(false)}
+          />
+          <View
+            style={[
+              styles.pickerSheet,
+              {
+                backgroundColor: theme.backgroundDefault,
+                paddingBottom: insets.bottom + Spacing.md,
+              },
+            ]}
+          >
+            <DateTimePicker
+              value={pickedDate}
+              mode="datetime"
+              display="inline"
+              minimumDate={new Date()}
+              onChange={handleIOSChange}
+              accentColor={theme.primary}
+            />
+            <Pressable
+              style={[styles.doneButton, { backgroundColor: theme.primary }]}
+              onPress={() => {
+                setShowIOSPicker(false);
+                selectDate(pickedDate);
+              }}
+            >
+              <ThemedText style={styles.doneButtonText}>
+                {t("schedule.schedule")}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </Modal>
+      ) : null}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  pickerSheet: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  doneButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+  },
+  doneButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+    fontSize: 16,
+  },
+});
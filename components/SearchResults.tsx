@@ -39,7 +39,12 @@ export function SearchResults({ results, onResultPress, isSearching }: SearchRes
         case "chat":
           return item.chat?.participant?.displayName || "";
         case "message":
-          return item.matchedText?.substring(0, 50) || "";
+          return (
+            item.chat?.name ||
+            item.chat?.participant?.displayName ||
+            item.matchedText?.substring(0, 50) ||
+            ""
+          );
         case "user":
           return item.user?.displayName || "";
         default:
@@ -54,7 +59,7 @@ export function SearchResults({ results, onResultPress, isSearching }: SearchRes
         case "chat":
           return "Chat";
         case "message":
-          return "Message";
+          return item.chat ? item.matchedText || "Message" : "Message";
         case "user":
           return item.user?.email || "Start chat";
         default:
@@ -65,8 +70,8 @@ export function SearchResults({ results, onResultPress, isSearching }: SearchRes
     const avatarColor =
       item.type === "contact"
         ? item.contact?.avatarColor
-        : item.type === "chat"
-        ? item.chat?.participant?.avatarColor
+        : item.type === "chat" || item.type === "message"
+        ? item.chat?.participant?.avatarColor || item.chat?.avatarColor
         : item.type === "user"
         ? item.user?.avatarColor
         : undefined;
@@ -74,8 +79,8 @@ export function SearchResults({ results, onResultPress, isSearching }: SearchRes
     const avatarName =
       item.type === "contact"
         ? item.contact?.displayName
-        : item.type === "chat"
-        ? item.chat?.participant?.displayName
+        : item.type === "chat" || item.type === "message"
+        ? item.chat?.participant?.displayName || item.chat?.name
         : item.type === "user"
         ? item.user?.displayName
         : undefined;
@@ -83,8 +88,8 @@ export function SearchResults({ results, onResultPress, isSearching }: SearchRes
     const avatarUrlValue =
       item.type === "contact"
         ? item.contact?.avatarUrl
-        : item.type === "chat"
-        ? item.chat?.participant?.avatarUrl
+        : item.type === "chat" || item.type === "message"
+        ? item.chat?.participant?.avatarUrl || item.chat?.avatarUrl
         : item.type === "user"
         ? item.user?.avatarUrl
         : undefined;
@@ -142,7 +147,7 @@ export function SearchResults({ results, onResultPress, isSearching }: SearchRes
       data={results}
       renderItem={renderResultItem}
       keyExtractor={(item, index) =>
-        `${item.type}-${item.contact?.id || item.chat?.id || item.message?.id || item.user?.visibleId || index}`
+        `${item.type}-${item.contact?.id || item.message?.id || item.chat?.id || item.user?.visibleId || index}`
       }
       contentContainerStyle={styles.listContent}
       keyboardShouldPersistTaps="handled"
@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useTheme } from "@/hooks/useTheme";
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { Message } from "@/store/types";
+import { apiService } from "@/services/api";
+import { deletedMessagesService } from "@/services/deletedMessagesService";
+
+type Props = {
+  rootMessage: Message | null;
+  /** Replies already loaded in the chat. */
+  replies: Message[];
+  currentUserId?: number;
+  getSenderName: (message: Message) => string | undefined;
+  onMessagePress: (message: Message) => void;
+  onReply: (message: Message) => void;
+  onClose: () => void;
+};
+
+function formatMessageTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Lists a message and every reply to it, oldest first. Shows the replies
+ * loaded in the chat while the rest of the thread loads.
+ */
+export function ThreadSheet({
+  rootMessage,
+  replies,
+  currentUserId,
+  getSenderName,
+  onMessagePress,
+  onReply,
+  onClose,
+}: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [serverReplies, setServerReplies] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const rootId = rootMessage?.id;
+
+  useEffect(() => {
+    setServerReplies([]);
+    setLoadFailed(false);
+    const numericId = rootId ? parseInt(rootId, 10) : NaN;
+    if (isNaN(numericId) || !currentUserId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    apiService
+      .getMessageReplies(numericId)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setServerReplies(
+            result.data
+              .map((serverMessage) =>
+                apiService.serverMessageToMessage(serverMessage, currentUserId),
+              )
+              .filter((reply) => !deletedMessagesService.isDeleted(reply.id)),
+          );
+        } else {
+          setLoadFailed(true);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rootId, currentUserId]);
+
+  const thread = useMemo((): Message[] => {
+    const byId = new Map<string, Message>();
+    for (const reply of serverReplies) byId.set(reply.id, reply);
+    for (const reply of replies) byId.set(reply.id, reply);
+    return [...byId.values()].sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    );
+  }, [serverReplies, replies]);
+
+  const getPreview = (message: Message): string => {
+    if (message.decryptionFailed) return t("chat.decryptionFailed");
+    return message.type === "image"
+      ? t("chat.photo")
+      : message.type === "video"
+        ? message.isVideoNote
+          ? t("chat.videoNote")
+          : t("chat.video")
+        : message.type === "voice"
+          ? t("chat.voiceMessage")
+          : message.type === "file"
+            ? message.file?.name || t("chat.file")
+            : message.text || (message.type === "album" ? t("chat.album") : "");
+  };
+
+  const renderRow = (message: Message, isRoot: boolean) => (
+    <Pressable
+      key={message.id}
+      onPress={() => onMessagePress(message)}
+      style={({ pressed }) => [
+        styles.row,
+        isRoot
+          ? { backgroundColor: theme.backgroundSecondary }
+          : {
+              borderTopWidth: StyleSheet.hairlineWidth,
+              borderTopColor: theme.divider,
+            },
+        pressed && { opacity: 0.7 },
+      ]}
+    >
+      <View style={styles.rowHeader}>
+        <ThemedText
+          style={[styles.senderName, { color: theme.primary }]}
+          numberOfLines={1}
+        >
+          {getSenderName(message) || ""}
+        </ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {formatMessageTime(message.timestamp)}
+        </ThemedText>
+      </View>
+      <ThemedText
+        style={[
+          styles.rowText,
+          message.decryptionFailed && { color: theme.textSecondary },
+        ]}
+        numberOfLines={isRoot ? 4 : undefined}
+      >
+        {getPreview(message)}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      visible={rootMessage !== null}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View
+        style={[
+          styles.sheet,
+          {
+            backgroundColor: theme.backgroundDefault,
+            paddingBottom: insets.bottom + Spacing.md,
+          },
+        ]}
+      >
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>{t("chat.thread")}</ThemedText>
+          <Pressable
+            onPress={onClose}
+            hitSlop={10}
+            accessibilityLabel={t("common.done")}
+          >
+            <Feather name="x" size={22} color={theme.textSecondary} />
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {rootMessage ? renderRow(rootMessage, true) : null}
+
+          {thread.map((message) => renderRow(message, false))}
+
+          {isLoading ? (
+            <ActivityIndicator
+              style={styles.status}
+              color={theme.textSecondary}
+            />
+          ) : thread.length === 0 ? (
+            <ThemedText
+              type="caption"
+              style={[styles.status, { color: theme.textSecondary }]}
+            >
+              {loadFailed ? t("chat.threadUnavailable") : t("chat.noReplies")}
+            </ThemedText>
+          ) : null}
+        </ScrollView>
+
+        {rootMessage ? (
+          <Pressable
+            onPress={() => onReply(rootMessage)}
+            style={({ pressed }) => [
+              styles.replyButton,
+              { backgroundColor: theme.primary, opacity: pressed ? 0.8 : 1 },
+            ]}
+          >
+            <Feather name="corner-up-left" size={18} color="#FFFFFF" />
+            <ThemedText style={styles.replyButtonText}>
+              {t("chat.reply")}
+            </ThemedText>
+          </Pressable>
+        ) : null}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  sheet: {
+    maxHeight: "75%",
+    paddingTop: Spacing.md,
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  list: {
+    paddingHorizontal: Spacing.lg,
+  },
+  row: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.sm,
+  },
+  rowHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  senderName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  rowText: {
+    fontSize: 15,
+  },
+  status: {
+    paddingVertical: Spacing.md,
+    textAlign: "center",
+  },
+  replyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  replyButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { View, StyleSheet, Pressable, Platform, Text } from "react-native";
+import { useVideoPlayer, VideoView } from "expo-video";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+import { mediaCache, DownloadProgress } from "@/services/mediaCache";
+import { useAutoDownload } from "@/hooks/useAutoDownload";
+import { CircularProgress } from "./CircularProgress";
+import { MediaDownloadPrompt } from "./MediaDownloadPrompt";
+
+export const VIDEO_NOTE_SIZE = 220;
+
+const UNWATCHED_COLOR = "#007AFF";
+
+interface VideoNoteMessageProps {
+  uri: string;
+  thumbnailUrl?: string;
+  messageId: string;
+  isWatched: boolean;
+  onWatched?: (messageId: string) => void;
+  /** Applies the video auto-download rules before fetching the file. */
+  autoDownload?: boolean;
+  /** File size reported by the message, for the auto-download rules. */
+  mediaSize?: number;
+}
+
+/**
+ * Round video note. Plays muted on a loop once downloaded; tapping restarts
+ * it with sound, and it falls back to the muted loop when it ends or is
+ * tapped again.
+ */
+export function VideoNoteMessage({
+  uri,
+  thumbnailUrl,
+  messageId,
+  isWatched,
+  onWatched,
+  autoDownload = false,
+  mediaSize,
+}: VideoNoteMessageProps) {
+  const quickCached =
+    Platform.OS !== "web" ? mediaCache.getQuickCachedUri(uri) : null;
+  const [cachedUri, setCachedUri] = useState<string | null>(quickCached);
+  const [downloadInfo, setDownloadInfo] = useState<DownloadProgress | null>(
+    null,
+  );
+  const [isSoundOn, setIsSoundOn] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const {
+    isAllowed,
+    isChecking,
+    size,
+    allow: allowDownload,
+  } = useAutoDownload(
+    uri,
+    autoDownload ? "video" : undefined,
+    !!quickCached,
+    mediaSize,
+  );
+
+  useEffect(() => {
+    if (cachedUri || !isAllowed) return;
+
+    let mounted = true;
+    mediaCache
+      .cacheMedia(uri, (info) => {
+        if (mounted) setDownloadInfo(info);
+      })
+      .then((localUri) => {
+        if (mounted) setCachedUri(localUri);
+      })
+      .catch((error) => {
+        console.error("[VideoNoteMessage] Cache error:", error);
+        if (mounted) setCachedUri(uri);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [uri, cachedUri, isAllowed]);
+
+  const player = useVideoPlayer(cachedUri, (player) => {
+    player.loop = true;
+    player.muted = true;
+    player.timeUpdateEventInterval = 0.25;
+    player.play();
+  });
+
+  const playMutedLoop = useCallback(() => {
+    player.muted = true;
+    player.loop = true;
+    player.play();
+    setIsSoundOn(false);
+  }, [player]);
+
+  useEffect(() => {
+    const timeSubscription = player.addListener("timeUpdate", (event) => {
+      setCurrentTime(event.currentTime);
+      if (player.duration > 0) setDuration(player.duration);
+    });
+    const endSubscription = player.addListener("playToEnd", () => {
+      if (!player.loop) playMutedLoop();
+    });
+
+    return () => {
+      timeSubscription.remove();
+      endSubscription.remove();
+    };
+  }, [player, playMutedLoop]);
+
+  const handlePress = useCallback(() => {
+    if (!cachedUri) return;
+    if (isSoundOn) {
+      playMutedLoop();
+      return;
+    }
+
+    player.currentTime = 0;
+    player.loop = false;
+    player.muted = false;
+    player.play();
+    setIsSoundOn(true);
+    if (!isWatched) onWatched?.(messageId);
+  }, [
+    cachedUri,
+    isSoundOn,
+    player,
+    playMutedLoop,
+    isWatched,
+    onWatched,
+    messageId,
+  ]);
+
+  const formatDuration = (seconds: number): string => {
+    const total = Math.max(0, Math.round(seconds));
+    const mins = Math.floor(total / 60);
+    const secs = total % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  if (!isAllowed && !isChecking) {
+    return (
+      <MediaDownloadPrompt
+        size={size}
+        thumbnailUrl={thumbnailUrl}
+        style={styles.circle}
+        onPress={allowDownload}
+      />
+    );
+  }
+
+  if (!cachedUri) {
+    return (
+      <View style={[styles.circle, styles.placeholder]}>
+        {thumbnailUrl ? (
+          <Image
+            source={{ uri: thumbnailUrl }}
+            style={StyleSheet.absoluteFill}
+            contentFit="cover"
+            blurRadius={2}
+          />
+        ) : null}
+        <CircularProgress
+          progress={downloadInfo ? downloadInfo.progress * 100 : 0}
+          size={64}
+          strokeWidth={3}
+          showPercentage={false}
+          showIcon={true}
+          iconName="download"
+        />
+      </View>
+    );
+  }
+
+  return (
+    <Pressable onPress={handlePress}>
+      <View
+        style={[
+          styles.circle,
+          !isWatched && {
+            borderWidth: 3,
+            borderColor: UNWATCHED_COLOR,
+          },
+        ]}
+      >
+        <VideoView
+          player={player}
+          style={StyleSheet.absoluteFill}
+          contentFit="cover"
+          nativeControls={false}
+        />
+      </View>
+      {isSoundOn && duration > 0 ? (
+        <View style={styles.progressRing} pointerEvents="none">
+          <CircularProgress
+            progress={(currentTime / duration) * 100}
+            size={VIDEO_NOTE_SIZE}
+            strokeWidth={3}
+            color="#FFFFFF"
+            backgroundColor="transparent"
+            showPercentage={false}
+            showIcon={false}
+          />
+        </View>
+      ) : null}
+      <View style={styles.durationPill}>
+        {isSoundOn ? null : (
+          <Feather name="volume-x" size={11} color="#FFFFFF" />
+        )}
+        <Text style={styles.durationText}>
+          {formatDuration(isSoundOn ? duration - currentTime : duration)}
+        </Text>
+        {!isWatched ? <View style={styles.unwatchedDot} /> : null}
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  circle: {
+    width: VIDEO_NOTE_SIZE,
+    height: VIDEO_NOTE_SIZE,
+    borderRadius: VIDEO_NOTE_SIZE / 2,
+    overflow: "hidden",
+    backgroundColor: "#000000",
+  },
+  placeholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  progressRing: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+  },
+  durationPill: {
+    position: "absolute",
+    left: 16,
+    bottom: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: "rgba(0,0,0,0.45)",
+  },
+  durationText: {
+    color: "#FFFFFF",
+    fontSize: 11,
+    fontWeight: "500",
+    fontVariant: ["tabular-nums"],
+  },
+  unwatchedDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: UNWATCHED_COLOR,
+  },
+});
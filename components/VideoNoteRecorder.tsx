@@ -0,0 +1,299 @@
+import React, { useState, useRef, useCallback, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  Platform,
+  Alert,
+  Linking,
+  Dimensions,
+} from "react-native";
+import {
+  CameraView,
+  useCameraPermissions,
+  useMicrophonePermissions,
+} from "expo-camera";
+import * as Haptics from "expo-haptics";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { ThemedText } from "./ThemedText";
+import { CircularProgress } from "./CircularProgress";
+import { Spacing } from "@/constants/theme";
+
+export const VIDEO_NOTE_MAX_DURATION = 60;
+
+const CIRCLE_SIZE = Math.min(Dimensions.get("window").width - 64, 320);
+const RING_WIDTH = 4;
+
+interface VideoNoteRecorderProps {
+  visible: boolean;
+  onClose: () => void;
+  onRecorded: (uri: string, duration: number) => void;
+}
+
+/**
+ * Full-screen front camera with a round viewfinder for recording video
+ * notes. Recording stops on its own at VIDEO_NOTE_MAX_DURATION seconds.
+ */
+export function VideoNoteRecorder({
+  visible,
+  onClose,
+  onRecorded,
+}: VideoNoteRecorderProps) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [, requestCameraPermission] = useCameraPermissions();
+  const [, requestMicrophonePermission] = useMicrophonePermissions();
+  const cameraRef = useRef<CameraView>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const durationRef = useRef(0);
+  const cancelledRef = useRef(false);
+  const [hasPermission, setHasPermission] = useState(false);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      setHasPermission(false);
+      setIsCameraReady(false);
+      setDuration(0);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const camera = await requestCameraPermission();
+      const microphone = await requestMicrophonePermission();
+      if (cancelled) return;
+      if (camera.granted && microphone.granted) {
+        setHasPermission(true);
+        return;
+      }
+
+      onCloseRef.current();
+      Alert.alert(
+        t("errors.permissionDenied"),
+        t("errors.videoNotePermissionRequired"),
+        [
+          { text: t("common.ok") },
+          {
+            text: t("common.settings"),
+            onPress: () => {
+              Linking.openSettings().catch(() => {});
+            },
+          },
+        ],
+      );
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, requestCameraPermission, requestMicrophonePermission, t]);
+
+  useEffect(() => clearTimer, [clearTimer]);
+
+  const startRecording = useCallback(async () => {
+    if (!cameraRef.current || isRecording) return;
+
+    cancelledRef.current = false;
+    durationRef.current = 0;
+    setDuration(0);
+    setIsRecording(true);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    timerRef.current = setInterval(() => {
+      durationRef.current = Math.min(
+        durationRef.current + 1,
+        VIDEO_NOTE_MAX_DURATION,
+      );
+      setDuration(durationRef.current);
+    }, 1000);
+
+    try {
+      const result = await cameraRef.current.recordAsync({
+        maxDuration: VIDEO_NOTE_MAX_DURATION,
+      });
+      clearTimer();
+      setIsRecording(false);
+      if (result?.uri && !cancelledRef.current && durationRef.current >= 1) {
+        onRecorded(result.uri, durationRef.current);
+      }
+    } catch (error) {
+      console.error("Failed to record video note:", error);
+      clearTimer();
+      setIsRecording(false);
+    }
+  }, [isRecording, clearTimer, onRecorded]);
+
+  const stopRecording = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    cameraRef.current?.stopRecording();
+  }, []);
+
+  const handleClose = useCallback(() => {
+    if (isRecording) {
+      cancelledRef.current = true;
+      cameraRef.current?.stopRecording();
+    }
+    onClose();
+  }, [isRecording, onClose]);
+
+  const formatDuration = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  if (Platform.OS === "web") return null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+      statusBarTranslucent
+    >
+      <View
+        style={[
+          styles.container,
+          { paddingTop: insets.top, paddingBottom: insets.bottom + Spacing.xl },
+        ]}
+      >
+        <View style={styles.viewfinder}>
+          <View style={styles.ring}>
+            <CircularProgress
+              progress={(duration / VIDEO_NOTE_MAX_DURATION) * 100}
+              size={CIRCLE_SIZE + RING_WIDTH * 4}
+              strokeWidth={RING_WIDTH}
+              color="#FF3B30"
+              backgroundColor="rgba(255,255,255,0.2)"
+              showPercentage={false}
+              showIcon={false}
+            />
+          </View>
+          <View style={styles.circle}>
+            {hasPermission ? (
+              <CameraView
+                ref={cameraRef}
+                style={StyleSheet.absoluteFill}
+                facing="front"
+                mode="video"
+                videoQuality="480p"
+                onCameraReady={() => setIsCameraReady(true)}
+              />
+            ) : null}
+          </View>
+
+          <ThemedText style={styles.hint}>
+            {isRecording
+              ? `${formatDuration(duration)} / ${formatDuration(VIDEO_NOTE_MAX_DURATION)}`
+              : t("media.videoNoteHint")}
+          </ThemedText>
+        </View>
+
+        <View style={styles.controls}>
+          <Pressable
+            onPress={handleClose}
+            style={styles.sideButton}
+            hitSlop={10}
+            accessibilityLabel={t("common.cancel")}
+          >
+            <Feather name="x" size={26} color="#FFFFFF" />
+          </Pressable>
+
+          <Pressable
+            onPress={isRecording ? stopRecording : startRecording}
+            disabled={!isCameraReady}
+            style={[styles.recordButton, !isCameraReady && { opacity: 0.5 }]}
+          >
+            <View
+              style={
+                isRecording ? styles.recordStopIcon : styles.recordStartIcon
+              }
+            />
+          </Pressable>
+
+          <View style={styles.sideButton} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.9)",
+    justifyContent: "space-between",
+  },
+  viewfinder: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  ring: {
+    position: "absolute",
+    alignSelf: "center",
+  },
+  circle: {
+    width: CIRCLE_SIZE,
+    height: CIRCLE_SIZE,
+    borderRadius: CIRCLE_SIZE / 2,
+    overflow: "hidden",
+    backgroundColor: "#000000",
+  },
+  hint: {
+    position: "absolute",
+    bottom: Spacing.xl,
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "500",
+    fontVariant: ["tabular-nums"],
+  },
+  controls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-around",
+  },
+  sideButton: {
+    width: 44,
+    height: 44,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  recordButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: "#FFFFFF",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  recordStartIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: "#FF3B30",
+  },
+  recordStopIcon: {
+    width: 26,
+    height: 26,
+    borderRadius: 6,
+    backgroundColor: "#FF3B30",
+  },
+});
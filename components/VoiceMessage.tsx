@@ -7,13 +7,20 @@ import Animated, {
   withTiming,
   withRepeat,
   Easing,
+  runOnJS,
 } from "react-native-reanimated";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
 import type { SharedValue } from "react-native-reanimated";
 import { ThemedText } from "./ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing } from "@/constants/theme";
 import { useTranslation } from "react-i18next";
 import { useVoicePlayback } from "@/hooks/useVoicePlayback";
+import { useAutoDownload } from "@/hooks/useAutoDownload";
+import { mediaCache } from "@/services/mediaCache";
+import { voicePlaybackService } from "@/services/voicePlayback";
+import { WAVEFORM_BARS, resampleWaveform } from "@/services/voiceWaveform";
+import { CircularProgress } from "./CircularProgress";
 
 interface VoiceMessageProps {
   uri: string;
@@ -22,11 +29,15 @@ interface VoiceMessageProps {
   messageId?: string;
   isListened?: boolean;
   onListened?: (messageId: string) => void;
+  waveform?: number[];
+  onPlaybackComplete?: () => void;
+  /** File size reported by the message, for the auto-download rules. */
+  mediaSize?: number;
 }
 
-const WAVEFORM_BARS = 32;
 const BAR_WIDTH = 3;
 const BAR_GAP = 1.5;
+const WAVEFORM_WIDTH = WAVEFORM_BARS * (BAR_WIDTH + BAR_GAP) - BAR_GAP;
 
 interface WaveformBarProps {
   index: number;
@@ -60,13 +71,34 @@ function WaveformBar({ index, heightRatio, progress, primaryColor, secondaryColo
   );
 }
 
-export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: initialListened = false, onListened }: VoiceMessageProps) {
+export function VoiceMessage({
+  uri,
+  duration,
+  isOwn,
+  messageId,
+  isListened: initialListened = false,
+  onListened,
+  waveform,
+  onPlaybackComplete,
+  mediaSize,
+}: VoiceMessageProps) {
   const { theme } = useTheme();
   const { t } = useTranslation();
   
   const [hasBeenListened, setHasBeenListened] = useState(initialListened);
   const hasMarkedListenedRef = useRef(false);
   const progress = useSharedValue(0);
+  const isScrubbing = useSharedValue(false);
+  const [isPlayRequested, setIsPlayRequested] = useState(false);
+
+  const autoDownload = useAutoDownload(
+    uri,
+    isOwn ? undefined : "voice",
+    !!mediaCache.getQuickCachedUri(uri),
+    mediaSize,
+  );
+  const { allow: allowDownload } = autoDownload;
+  const isPending = !autoDownload.isAllowed && !autoDownload.isChecking;
 
   const { 
     state, 
@@ -74,11 +106,17 @@ export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: init
     audioDuration, 
     togglePlayback, 
     hasError,
-    isLoading 
-  } = useVoicePlayback(uri);
+    isLoading,
+    downloadProgress,
+    playbackRate,
+    seek,
+  } = useVoicePlayback(uri, {
+    enabled: autoDownload.isAllowed,
+    onPlaybackComplete,
+  });
 
   const isPlaying = state === 'playing';
-  const isDownloading = isLoading;
+  const isDownloading = isLoading && !isPending;
 
   useEffect(() => {
     setHasBeenListened(initialListened);
@@ -98,6 +136,31 @@ export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: init
   }, [isPlaying, hasBeenListened, messageId, onListened]);
 
   useEffect(() => {
+    if (!messageId) return;
+    const checkRequest = () => {
+      if (voicePlaybackService.consumePlayRequest(messageId)) {
+        setIsPlayRequested(true);
+      }
+    };
+    checkRequest();
+    return voicePlaybackService.subscribeToPlayRequests(checkRequest);
+  }, [messageId]);
+
+  // A requested note may still need downloading, so it starts once loaded.
+  useEffect(() => {
+    if (!isPlayRequested) return;
+    if (isPending) {
+      allowDownload();
+    } else if (state === "idle") {
+      setIsPlayRequested(false);
+      togglePlayback();
+    } else if (state !== "loading") {
+      setIsPlayRequested(false);
+    }
+  }, [isPlayRequested, isPending, state, allowDownload, togglePlayback]);
+
+  useEffect(() => {
+    if (isScrubbing.value) return;
     const totalDur = audioDuration > 0 ? audioDuration : duration;
     if (totalDur > 0) {
       progress.value = currentTime / totalDur;
@@ -108,6 +171,9 @@ export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: init
   }, [currentTime, audioDuration, duration, state]);
 
   const waveformHeights = useMemo(() => {
+    if (waveform?.length) {
+      return resampleWaveform(waveform);
+    }
     return Array.from({ length: WAVEFORM_BARS }, (_, i) => {
       const normalizedPos = i / WAVEFORM_BARS;
       const centerFactor = 1 - Math.abs(normalizedPos - 0.5) * 1.2;
@@ -119,13 +185,52 @@ export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: init
       const base = 0.3 + centerFactor * 0.35 + wave1 + wave2 + wave3 + randomness;
       return Math.max(0.2, Math.min(1, base));
     });
-  }, []);
+  }, [waveform]);
 
   const handlePress = useCallback(async () => {
     if (Platform.OS === "web") return;
+    voicePlaybackService.cancelPlayRequest();
+    if (isPending) {
+      allowDownload();
+      return;
+    }
     if (isLoading) return;
     await togglePlayback();
-  }, [togglePlayback, isLoading]);
+  }, [togglePlayback, isLoading, isPending, allowDownload]);
+
+  const canSeek =
+    Platform.OS !== "web" && !isPending && !isDownloading && !hasError;
+
+  const scrubGesture = Gesture.Pan()
+    .enabled(canSeek)
+    .activeOffsetX([-8, 8])
+    .failOffsetY([-12, 12])
+    .onStart(() => {
+      isScrubbing.value = true;
+    })
+    .onUpdate((event) => {
+      progress.value = Math.min(1, Math.max(0, event.x / WAVEFORM_WIDTH));
+    })
+    .onEnd(() => {
+      runOnJS(seek)(progress.value);
+    })
+    .onFinalize(() => {
+      isScrubbing.value = false;
+    });
+
+  const tapGesture = Gesture.Tap()
+    .enabled(canSeek)
+    .onEnd((event) => {
+      const fraction = Math.min(1, Math.max(0, event.x / WAVEFORM_WIDTH));
+      progress.value = fraction;
+      runOnJS(seek)(fraction);
+    });
+
+  const waveformGesture = Gesture.Exclusive(scrubGesture, tapGesture);
+
+  const handleRatePress = useCallback(() => {
+    voicePlaybackService.cycleRate();
+  }, []);
 
   const playButtonAnimatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: withTiming(isPlaying ? 0.95 : 1, { duration: 150 }) }],
@@ -172,6 +277,22 @@ export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: init
   };
 
   const renderPlayButtonContent = () => {
+    if (isPending) {
+      return <Feather name="download" size={20} color="#FFFFFF" />;
+    }
+
+    if (isDownloading && downloadProgress) {
+      return (
+        <CircularProgress
+          progress={downloadProgress.progress * 100}
+          size={36}
+          showPercentage={false}
+          showIcon={true}
+          iconName="download"
+        />
+      );
+    }
+
     if (isDownloading) {
       return (
         <View style={styles.loadingContainer}>
@@ -228,26 +349,59 @@ export function VoiceMessage({ uri, duration, isOwn, messageId, isListened: init
           </View>
         ) : (
           <>
-            <View style={styles.waveformWrapper}>
-              {waveformHeights.map((heightRatio, index) => (
-                <WaveformBar
-                  key={index}
-                  index={index}
-                  heightRatio={heightRatio}
-                  progress={progress}
-                  primaryColor={primaryColor}
-                  secondaryColor={secondaryColor}
-                />
-              ))}
-            </View>
+            <GestureDetector gesture={waveformGesture}>
+              <View style={styles.waveformWrapper}>
+                {waveformHeights.map((heightRatio, index) => (
+                  <WaveformBar
+                    key={index}
+                    index={index}
+                    heightRatio={heightRatio}
+                    progress={progress}
+                    primaryColor={primaryColor}
+                    secondaryColor={secondaryColor}
+                  />
+                ))}
+              </View>
+            </GestureDetector>
 
             <View style={styles.infoRow}>
               <ThemedText
                 type="caption"
                 style={[styles.duration, { color: theme.textSecondary }]}
               >
-                {isPlaying ? formatDuration(currentPosition) : formatDuration(displayDuration)}
+                {isPlaying || currentPosition > 0
+                  ? formatDuration(currentPosition)
+                  : formatDuration(displayDuration)}
               </ThemedText>
+              {isPlaying || currentPosition > 0 ? (
+                <Pressable
+                  onPress={handleRatePress}
+                  hitSlop={8}
+                  style={[
+                    styles.rateButton,
+                    { backgroundColor: secondaryColor },
+                  ]}
+                >
+                  <ThemedText
+                    type="caption"
+                    style={[styles.rateText, { color: primaryColor }]}
+                  >
+                    {`${playbackRate}x`}
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+              {isPending && autoDownload.size !== null ? (
+                <ThemedText
+                  type="caption"
+                  style={[
+                    styles.duration,
+                    styles.size,
+                    { color: theme.textSecondary },
+                  ]}
+                >
+                  {mediaCache.formatCacheSize(autoDownload.size)}
+                </ThemedText>
+              ) : null}
             </View>
           </>
         )}
@@ -297,6 +451,19 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "500",
   },
+  size: {
+    marginLeft: Spacing.sm,
+  },
+  rateButton: {
+    marginLeft: Spacing.sm,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+  },
+  rateText: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
   loadingContainer: {
     alignItems: "center",
     justifyContent: "center",
@@ -0,0 +1,396 @@
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  LayoutChangeEvent,
+  StyleProp,
+  ViewStyle,
+  Alert,
+} from "react-native";
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  runOnJS,
+} from "react-native-reanimated";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { ThemedText } from "./ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useVoicePlayback } from "@/hooks/useVoicePlayback";
+import { Spacing } from "@/constants/theme";
+import { buildWaveform, resampleWaveform } from "@/services/voiceWaveform";
+import { voiceTrimService } from "@/services/voiceTrim";
+
+const PREVIEW_BARS = 40;
+const HANDLE_WIDTH = 24;
+
+interface VoiceRecordingPreviewProps {
+  uri: string;
+  duration: number;
+  /** Metering levels sampled while recording, in dBFS. */
+  levels: number[];
+  style?: StyleProp<ViewStyle>;
+  onDiscard: () => void;
+  onSend: (uri: string, duration: number, waveform?: number[]) => void;
+}
+
+/**
+ * Shown after a locked recording is stopped. The user can listen to it,
+ * drag the handles to trim either end, then send or discard it. The handles
+ * are hidden when the recording can't be trimmed.
+ */
+export function VoiceRecordingPreview({
+  uri,
+  duration,
+  levels,
+  style,
+  onDiscard,
+  onSend,
+}: VoiceRecordingPreviewProps) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [trim, setTrim] = useState({ start: 0, end: 1 });
+  const [isSending, setIsSending] = useState(false);
+  const [canTrim, setCanTrim] = useState(false);
+  const waveformWidth = useSharedValue(0);
+  const trimStart = useSharedValue(0);
+  const trimEnd = useSharedValue(1);
+  const dragOrigin = useSharedValue(0);
+  const isRewindingRef = useRef(false);
+
+  const { state, currentTime, audioDuration, togglePlayback, seek, stop } =
+    useVoicePlayback(uri);
+  const isPlaying = state === "playing";
+  const totalDuration = audioDuration > 0 ? audioDuration : duration;
+  const minTrimGap = Math.min(1, 1 / Math.max(totalDuration, 1));
+
+  useEffect(() => {
+    let cancelled = false;
+    voiceTrimService.canTrim(uri).then((supported) => {
+      if (!cancelled) setCanTrim(supported);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  const barHeights = useMemo(
+    () => resampleWaveform(buildWaveform(levels) ?? [0], PREVIEW_BARS),
+    [levels],
+  );
+
+  useEffect(() => {
+    if (!isPlaying || isRewindingRef.current) return;
+    if (currentTime >= trim.end * totalDuration) {
+      isRewindingRef.current = true;
+      togglePlayback()
+        .then(() => seek(trim.start))
+        .finally(() => {
+          isRewindingRef.current = false;
+        });
+    }
+  }, [isPlaying, currentTime, trim, totalDuration, togglePlayback, seek]);
+
+  const handlePlayPress = useCallback(async () => {
+    if (state === "loading" || state === "error") return;
+    if (!isPlaying) {
+      const position = totalDuration > 0 ? currentTime / totalDuration : 0;
+      if (position < trim.start || position >= trim.end) {
+        await seek(trim.start);
+      }
+    }
+    await togglePlayback();
+  }, [
+    state,
+    isPlaying,
+    currentTime,
+    totalDuration,
+    trim,
+    seek,
+    togglePlayback,
+  ]);
+
+  const handleSend = useCallback(async () => {
+    if (isSending) return;
+    setIsSending(true);
+    await stop();
+
+    if (trim.start === 0 && trim.end === 1) {
+      onSend(uri, duration, buildWaveform(levels));
+      return;
+    }
+
+    const startSec = trim.start * totalDuration;
+    const endSec = trim.end * totalDuration;
+    const trimmedUri = await voiceTrimService.trim(uri, startSec, endSec);
+    if (!trimmedUri) {
+      // Sending the whole recording would include the part the user cut.
+      setIsSending(false);
+      Alert.alert(t("chats.trimFailed"));
+      return;
+    }
+
+    onSend(
+      trimmedUri,
+      Math.max(1, Math.round(endSec - startSec)),
+      buildWaveform(
+        levels.slice(
+          Math.floor(trim.start * levels.length),
+          Math.ceil(trim.end * levels.length),
+        ),
+      ),
+    );
+  }, [isSending, stop, trim, uri, duration, levels, totalDuration, onSend, t]);
+
+  const handleDiscard = useCallback(async () => {
+    await stop();
+    onDiscard();
+  }, [stop, onDiscard]);
+
+  const handleWaveformLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      waveformWidth.value = event.nativeEvent.layout.width;
+    },
+    [waveformWidth],
+  );
+
+  const startHandleGesture = Gesture.Pan()
+    .onStart(() => {
+      dragOrigin.value = trimStart.value;
+    })
+    .onUpdate((event) => {
+      if (waveformWidth.value === 0) return;
+      trimStart.value = Math.min(
+        trimEnd.value - minTrimGap,
+        Math.max(
+          0,
+          dragOrigin.value + event.translationX / waveformWidth.value,
+        ),
+      );
+    })
+    .onEnd(() => {
+      runOnJS(setTrim)({ start: trimStart.value, end: trimEnd.value });
+    });
+
+  const endHandleGesture = Gesture.Pan()
+    .onStart(() => {
+      dragOrigin.value = trimEnd.value;
+    })
+    .onUpdate((event) => {
+      if (waveformWidth.value === 0) return;
+      trimEnd.value = Math.max(
+        trimStart.value + minTrimGap,
+        Math.min(
+          1,
+          dragOrigin.value + event.translationX / waveformWidth.value,
+        ),
+      );
+    })
+    .onEnd(() => {
+      runOnJS(setTrim)({ start: trimStart.value, end: trimEnd.value });
+    });
+
+  const startMaskStyle = useAnimatedStyle(() => ({
+    width: trimStart.value * waveformWidth.value,
+  }));
+
+  const endMaskStyle = useAnimatedStyle(() => ({
+    width: (1 - trimEnd.value) * waveformWidth.value,
+  }));
+
+  const startHandleStyle = useAnimatedStyle(() => ({
+    left: trimStart.value * waveformWidth.value - HANDLE_WIDTH / 2,
+  }));
+
+  const endHandleStyle = useAnimatedStyle(() => ({
+    left: trimEnd.value * waveformWidth.value - HANDLE_WIDTH / 2,
+  }));
+
+  const formatDuration = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const selectedDuration = Math.round((trim.end - trim.start) * totalDuration);
+  const progress = totalDuration > 0 ? currentTime / totalDuration : 0;
+
+  return (
+    <View style={[styles.container, style]}>
+      <Pressable
+        onPress={handleDiscard}
+        disabled={isSending}
+        style={styles.iconButton}
+        hitSlop={8}
+        accessibilityLabel={t("chats.discardRecording")}
+      >
+        <Feather name="trash-2" size={20} color="#FF3B30" />
+      </Pressable>
+
+      <Pressable
+        onPress={handlePlayPress}
+        disabled={isSending}
+        style={styles.iconButton}
+        hitSlop={8}
+      >
+        <Feather
+          name={isPlaying ? "pause" : "play"}
+          size={20}
+          color={theme.primary}
+        />
+      </Pressable>
+
+      <View style={styles.waveform} onLayout={handleWaveformLayout}>
+        {barHeights.map((height, index) => (
+          <View
+            key={index}
+            style={[
+              styles.waveformBar,
+              {
+                height: 4 + 20 * height,
+                backgroundColor:
+                  index / PREVIEW_BARS < progress
+                    ? theme.primary
+                    : theme.textSecondary,
+              },
+            ]}
+          />
+        ))}
+        {canTrim ? (
+          <>
+            <Animated.View
+              style={[
+                styles.trimMask,
+                styles.trimMaskStart,
+                { backgroundColor: theme.inputBackground },
+                startMaskStyle,
+              ]}
+            />
+            <Animated.View
+              style={[
+                styles.trimMask,
+                styles.trimMaskEnd,
+                { backgroundColor: theme.inputBackground },
+                endMaskStyle,
+              ]}
+            />
+            <GestureDetector gesture={startHandleGesture}>
+              <Animated.View style={[styles.trimHandle, startHandleStyle]}>
+                <View
+                  style={[
+                    styles.trimHandleBar,
+                    { backgroundColor: theme.primary },
+                  ]}
+                />
+              </Animated.View>
+            </GestureDetector>
+            <GestureDetector gesture={endHandleGesture}>
+              <Animated.View style={[styles.trimHandle, endHandleStyle]}>
+                <View
+                  style={[
+                    styles.trimHandleBar,
+                    { backgroundColor: theme.primary },
+                  ]}
+                />
+              </Animated.View>
+            </GestureDetector>
+          </>
+        ) : null}
+      </View>
+
+      <ThemedText style={[styles.duration, { color: theme.textSecondary }]}>
+        {formatDuration(isPlaying ? currentTime : selectedDuration)}
+      </ThemedText>
+
+      <Pressable
+        onPress={handleSend}
+        disabled={isSending}
+        style={({ pressed }) => [
+          styles.sendButton,
+          {
+            backgroundColor: theme.primary,
+            opacity: pressed || isSending ? 0.7 : 1,
+          },
+        ]}
+        accessibilityLabel={t("common.send")}
+      >
+        <Feather name="send" size={18} color="#FFFFFF" />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.sm,
+    paddingTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  iconButton: {
+    width: 36,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  waveform: {
+    flex: 1,
+    height: 40,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginHorizontal: Spacing.sm,
+  },
+  waveformBar: {
+    width: 2,
+    borderRadius: 1,
+  },
+  trimMask: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    opacity: 0.7,
+  },
+  trimMaskStart: {
+    left: 0,
+  },
+  trimMaskEnd: {
+    right: 0,
+  },
+  trimHandle: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: HANDLE_WIDTH,
+    alignItems: "center",
+  },
+  trimHandleBar: {
+    width: 4,
+    height: "100%",
+    borderRadius: 2,
+  },
+  duration: {
+    fontSize: 13,
+    fontWeight: "500",
+    fontVariant: ["tabular-nums"],
+    minWidth: 36,
+    textAlign: "right",
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: Spacing.xs,
+  },
+});
@@ -10,6 +10,9 @@ import { User } from "@/store/types";
 import { apiService, ServerUser } from "@/services/api";
 import { chatCache } from "@/services/chatCache";
 import { listenedMessagesService } from "@/services/listenedMessages";
+import { dataSettingsService } from "@/services/dataSettings";
+import { e2eeService } from "@/services/e2ee";
+import { notificationSettingsService } from "@/services/notificationSettings";
 
 interface AuthContextType {
   user: User | null;
@@ -42,6 +45,7 @@ function serverUserToUser(serverUser: ServerUser): User {
     avatarColor: serverUser.avatarColor,
     avatarUrl: serverUser.avatarUrl || undefined,
     bio: serverUser.bio || undefined,
+    hideForwardedName: serverUser.hideForwardedName || undefined,
     createdAt: serverUser.createdAt,
   };
 }
@@ -58,8 +62,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       await apiService.init();
       await listenedMessagesService.init();
+      await dataSettingsService.init();
       const result = await apiService.getCurrentUser();
       if (result.success && result.data) {
+        await e2eeService.initialize(result.data.id);
+        await notificationSettingsService.initialize(result.data.id);
         setUser(serverUserToUser(result.data));
       }
     } catch (error) {
@@ -78,6 +85,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         const result = await apiService.login(email, password);
         
         if (result.success && result.data) {
+          await e2eeService.initialize(result.data.user.id);
+          await notificationSettingsService.initialize(result.data.user.id);
           setUser(serverUserToUser(result.data.user));
           return { success: true };
         }
@@ -115,13 +124,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const setUserFromVerification = useCallback((serverUser: ServerUser, token: string) => {
     apiService.setToken(token);
-    setUser(serverUserToUser(serverUser));
+    Promise.all([
+      e2eeService.initialize(serverUser.id),
+      notificationSettingsService.initialize(serverUser.id),
+    ]).finally(() => {
+      setUser(serverUserToUser(serverUser));
+    });
   }, []);
 
   const signOut = useCallback(async () => {
     try {
       await apiService.clearToken();
       await chatCache.clearAll();
+      e2eeService.reset();
+      notificationSettingsService.reset();
       setUser(null);
     } catch (error) {
       __DEV__ && console.warn("Failed to sign out:", error);
@@ -141,6 +157,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         avatarColor: updates.avatarColor,
         avatarUrl: updates.avatarUrl,
         bio: updates.bio,
+        hideForwardedName: updates.hideForwardedName,
       });
       console.log("[updateUser] API result:", result);
       
@@ -161,6 +178,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       const result = await apiService.deleteAccount();
       if (result.success) {
+        await e2eeService.deleteIdentity();
+        notificationSettingsService.reset();
         setUser(null);
       } else {
         __DEV__ && console.warn("Failed to delete account:", result.error);
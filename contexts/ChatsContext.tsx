@@ -5,7 +5,9 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useWebSocket } from "@/contexts/WebSocketContext";
 import { apiService } from "@/services/api";
 import { notificationSoundService } from "@/services/notificationSound";
+import { notificationSettingsService } from "@/services/notificationSettings";
 import { chatCache } from "@/services/chatCache";
+import { e2eeService } from "@/services/e2ee";
 import { welcomeChatService } from "@/services/welcomeChat";
 
 interface ChatsContextType {
@@ -21,12 +23,24 @@ interface ChatsContextType {
   refreshChats: () => Promise<void>;
   loadMoreChats: () => Promise<void>;
   updateChatLastMessage: (chatId: string, message: Message) => void;
+  pinMessage: (chatId: string, messageId: string) => Promise<boolean>;
+  unpinMessage: (chatId: string, messageId: string) => Promise<boolean>;
 }
 
 const ChatsContext = createContext<ChatsContextType | null>(null);
 
 const CHATS_PAGE_SIZE = 50;
 
+/** Whether `message` is no newer than the last message known for `chat`. */
+function isKnownMessage(chat: Chat, message: Message): boolean {
+  const lastMessage = chat.lastMessage;
+  if (!lastMessage) return false;
+  if (lastMessage.id === message.id) return true;
+  const lastId = Number(lastMessage.id);
+  const messageId = Number(message.id);
+  return !isNaN(lastId) && !isNaN(messageId) && messageId <= lastId;
+}
+
 export function ChatsProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const { subscribe, onlineUsers } = useWebSocket();
@@ -204,6 +218,19 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
     }
   }, [user?.visibleId, isLoadingMore, hasMoreChats, nextCursor]);
 
+  const setChatPinnedMessages = useCallback(
+    (chatId: string, pinnedMessageIds: string[]) => {
+      setChats((prev) => {
+        const updated = prev.map((chat) =>
+          chat.id === chatId ? { ...chat, pinnedMessageIds } : chat,
+        );
+        chatCache.saveChats(updated);
+        return updated;
+      });
+    },
+    [],
+  );
+
   const loadChats = useCallback(async () => {
     if (!user?.visibleId) return;
     
@@ -220,6 +247,10 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
     }
   }, [user, loadChats]);
 
+  useEffect(() => {
+    e2eeService.registerChats(chats);
+  }, [chats]);
+
   useEffect(() => {
     if (onlineUsers.size === 0) return;
     
@@ -258,7 +289,7 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     if (!user?.visibleId) return;
 
-    const unsubscribe = subscribe((event) => {
+    const unsubscribe = subscribe((event, replayed) => {
       if (event.type === "new_message") {
         const serverMessage = event.message;
         if (!serverMessage || typeof serverMessage.chatId === "undefined" || typeof serverMessage.senderId === "undefined") {
@@ -270,12 +301,38 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
         
         const isActiveChatMessage = activeChatIdRef.current === chatId;
         const shouldIncrementUnread = isFromOther && !isActiveChatMessage;
-        
+        const isMention =
+          isFromOther &&
+          !!message.mentions?.some(
+            (mention) => mention.userId === user.visibleId?.toString(),
+          );
+
         setChats((prev) => {
           const existingChat = prev.find((c) => c.id === chatId);
+          // Sync replays events the socket may already have delivered.
+          if (existingChat && isKnownMessage(existingChat, message)) {
+            return prev;
+          }
           
-          if (isFromOther && AppState.currentState === "active" && !isActiveChatMessage) {
-            notificationSoundService.playReceiveSound();
+          if (
+            isFromOther &&
+            !replayed &&
+            AppState.currentState === "active" &&
+            !isActiveChatMessage
+          ) {
+            const isGroup = existingChat?.type === "group";
+            const decision = notificationSettingsService.resolve(chatId, {
+              isGroup,
+              isMention:
+                isMention ||
+                message.replyToMessage?.senderId === user.visibleId?.toString(),
+            });
+            if (decision.show) {
+              notificationSoundService.playNotificationSound(
+                decision.sound,
+                isGroup,
+              );
+            }
           }
           
           if (existingChat) {
@@ -287,7 +344,11 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
                     updatedAt: message.timestamp,
                     unreadCount: shouldIncrementUnread
                       ? (chat.unreadCount || 0) + 1 
-                      : chat.unreadCount
+                      : chat.unreadCount,
+                    unreadMentionCount:
+                      shouldIncrementUnread && isMention
+                        ? (chat.unreadMentionCount || 0) + 1
+                        : chat.unreadMentionCount,
                   }
                 : chat
             );
@@ -302,9 +363,37 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
             return prev;
           }
         });
+      } else if (event.type === "message_updated") {
+        const serverMessage = event.message as any;
+        const updatedMessageId = (
+          serverMessage?.id ?? serverMessage?.messageId
+        )?.toString();
+        if (
+          updatedMessageId &&
+          serverMessage.chatId !== undefined &&
+          typeof serverMessage.content === "string" &&
+          !e2eeService.isEncrypted(serverMessage.content)
+        ) {
+          chatCache.updateMessageText(
+            serverMessage.chatId.toString(),
+            updatedMessageId,
+            serverMessage.content,
+          );
+        }
+      } else if (event.type === "message_deleted") {
+        if (
+          typeof event.messageId !== "undefined" &&
+          typeof event.chatId !== "undefined"
+        ) {
+          chatCache.deleteMessage(
+            event.chatId.toString(),
+            event.messageId.toString(),
+          );
+        }
       } else if (event.type === "chat_deleted") {
         const deletedChatId = event.chatId.toString();
         console.log("[ChatsContext] Chat deleted by other user:", deletedChatId);
+        chatCache.deleteChat(deletedChatId);
         
         setChats((prev) => {
           const updated = prev.filter((c) => c.id !== deletedChatId);
@@ -324,6 +413,9 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
                 name: chatData.name || chat.name,
                 avatarUrl: chatData.avatarUrl || chat.avatarUrl,
                 description: chatData.description || chat.description,
+                pinnedMessageIds: Array.isArray(chatData.pinnedMessageIds)
+                  ? chatData.pinnedMessageIds.map((id: number) => id.toString())
+                  : chat.pinnedMessageIds,
               };
             }
             return chat;
@@ -331,6 +423,13 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
           chatCache.saveChats(updated);
           return updated;
         });
+      } else if (event.type === "chat_pins_updated") {
+        const chatId = event.chatId.toString();
+        console.log("[ChatsContext] Pinned messages updated:", chatId);
+        setChatPinnedMessages(
+          chatId,
+          event.pinnedMessageIds.map((id) => id.toString()),
+        );
       } else if (event.type === "members_added" || event.type === "member_removed" || event.type === "group_role_changed") {
         console.log("[ChatsContext] Group membership changed, refreshing chats...");
         loadChats();
@@ -361,17 +460,56 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
         const chatId = event.chatId.toString();
         const newOwnerId = event.newOwnerId;
         console.log("[ChatsContext] Group owner changed:", chatId, "new owner:", newOwnerId);
-        
+        // Until the server says otherwise, the old owner keeps no rights.
+        const previousOwnerRole = event.previousOwnerRole ?? "member";
+        const previousOwnerRights =
+          previousOwnerRole === "admin"
+            ? (event.previousOwnerRights ?? undefined)
+            : undefined;
+
         setChats((prev) => {
           const updated = prev.map((chat) => {
             if (chat.id === chatId) {
-              return { ...chat, createdBy: newOwnerId };
+              return {
+                ...chat,
+                createdBy: newOwnerId,
+                members: chat.members?.map((member) =>
+                  member.visibleId === newOwnerId
+                    ? {
+                        ...member,
+                        role: "owner" as const,
+                        adminRights: undefined,
+                      }
+                    : member.role === "owner" ||
+                        member.visibleId === event.previousOwnerId
+                      ? {
+                          ...member,
+                          role: previousOwnerRole,
+                          adminRights: previousOwnerRights,
+                        }
+                      : member,
+                ),
+              };
             }
             return chat;
           });
           chatCache.saveChats(updated);
           return updated;
         });
+        if (!event.previousOwnerRole) loadChats();
+      } else if (event.type === "group_permissions_changed") {
+        const chatId = event.chatId.toString();
+        console.log("[ChatsContext] Group permissions changed:", chatId);
+
+        setChats((prev) => {
+          const updated = prev.map((chat) =>
+            chat.id === chatId
+              ? { ...chat, permissions: event.permissions }
+              : chat,
+          );
+          chatCache.saveChats(updated);
+          return updated;
+        });
       } else if (event.type === "message_read") {
         const chatId = event.chatId.toString();
         const readByUserId = event.readByUserId;
@@ -494,7 +632,13 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
     });
 
     return unsubscribe;
-  }, [user?.visibleId, subscribe, loadChats, markUserOnlineByActivity]);
+  }, [
+    user?.visibleId,
+    subscribe,
+    loadChats,
+    markUserOnlineByActivity,
+    setChatPinnedMessages,
+  ]);
 
   const createChat = useCallback(
     async (contact: Contact): Promise<Chat | null> => {
@@ -508,6 +652,7 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
 
         if (result.success && result.data) {
           const newChat = apiService.serverChatToChat(result.data, user.visibleId);
+          e2eeService.establishSession(newChat.id, parseInt(contact.id, 10));
           setChats((prev) => {
             const exists = prev.find(c => c.id === newChat.id);
             if (exists) return prev;
@@ -606,7 +751,11 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
     console.log("[ChatsContext] markAsRead called for chat:", chatId);
     
     if (welcomeChatService.isWelcomeChat(chatId)) {
-      setChats((prev) => prev.map((c) => (c.id === chatId ? { ...c, unreadCount: 0 } : c)));
+      setChats((prev) =>
+        prev.map((c) =>
+          c.id === chatId ? { ...c, unreadCount: 0, unreadMentionCount: 0 } : c,
+        ),
+      );
       return;
     }
     
@@ -617,12 +766,74 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
       });
     }
     setChats((prev) => {
-      const updated = prev.map((c) => (c.id === chatId ? { ...c, unreadCount: 0 } : c));
+      const updated = prev.map((c) =>
+        c.id === chatId ? { ...c, unreadCount: 0, unreadMentionCount: 0 } : c,
+      );
       chatCache.saveChats(updated);
       return updated;
     });
   }, []);
 
+  const pinMessage = useCallback(
+    async (chatId: string, messageId: string): Promise<boolean> => {
+      const numericChatId = parseInt(chatId, 10);
+      const numericMessageId = parseInt(messageId, 10);
+      if (isNaN(numericChatId) || isNaN(numericMessageId)) return false;
+
+      const previous = chats.find((c) => c.id === chatId)?.pinnedMessageIds;
+      setChatPinnedMessages(chatId, [
+        ...(previous || []).filter((id) => id !== messageId),
+        messageId,
+      ]);
+
+      const result = await apiService.pinMessage(
+        numericChatId,
+        numericMessageId,
+      );
+      if (result.success && result.data) {
+        setChatPinnedMessages(
+          chatId,
+          result.data.map((id) => id.toString()),
+        );
+        return true;
+      }
+
+      setChatPinnedMessages(chatId, previous || []);
+      return false;
+    },
+    [chats, setChatPinnedMessages],
+  );
+
+  const unpinMessage = useCallback(
+    async (chatId: string, messageId: string): Promise<boolean> => {
+      const numericChatId = parseInt(chatId, 10);
+      const numericMessageId = parseInt(messageId, 10);
+      if (isNaN(numericChatId) || isNaN(numericMessageId)) return false;
+
+      const previous = chats.find((c) => c.id === chatId)?.pinnedMessageIds;
+      setChatPinnedMessages(
+        chatId,
+        (previous || []).filter((id) => id !== messageId),
+      );
+
+      const result = await apiService.unpinMessage(
+        numericChatId,
+        numericMessageId,
+      );
+      if (result.success && result.data) {
+        setChatPinnedMessages(
+          chatId,
+          result.data.map((id) => id.toString()),
+        );
+        return true;
+      }
+
+      setChatPinnedMessages(chatId, previous || []);
+      return false;
+    },
+    [chats, setChatPinnedMessages],
+  );
+
   const refreshChats = useCallback(async () => {
     await loadChats();
   }, [loadChats]);
@@ -665,6 +876,8 @@ export function ChatsProvider({ children }: { children: React.ReactNode }) {
         refreshChats,
         loadMoreChats,
         updateChatLastMessage,
+        pinMessage,
+        unpinMessage,
       }}
     >
       {children}
@@ -7,10 +7,12 @@ import React, {
   useRef,
   ReactNode,
 } from "react";
+import { AppState } from "react-native";
 import { wsService, WebSocketEvent, WebSocketEventHandler } from "@/services/websocket";
 import { useAuth } from "./AuthContext";
 import { messageQueue } from "@/services/messageQueue";
 import { apiService } from "@/services/api";
+import { syncService } from "@/services/syncService";
 
 interface WebSocketContextType {
   isConnected: boolean;
@@ -52,6 +54,7 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
 
   useEffect(() => {
     if (isAuthenticated) {
+      wsService.setCursorHandler((cursor) => syncService.recordCursor(cursor));
       wsService.connect();
       loadOnlineUsers();
 
@@ -72,9 +75,19 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
           wasConnectedRef.current = true;
           messageQueue.setOnline(true);
           loadOnlineUsers();
+          syncService.sync();
         }
       });
 
+      const appStateSubscription = AppState.addEventListener(
+        "change",
+        (state) => {
+          if (state === "active") {
+            syncService.sync();
+          }
+        },
+      );
+
       const checkConnection = setInterval(() => {
         const currentlyConnected = wsService.isConnected;
         setIsConnected(currentlyConnected);
@@ -93,7 +106,9 @@ export function WebSocketProvider({ children }: WebSocketProviderProps) {
 
       return () => {
         unsubscribe();
+        appStateSubscription.remove();
         clearInterval(checkConnection);
+        wsService.setCursorHandler(null);
         wsService.disconnect();
       };
     } else {
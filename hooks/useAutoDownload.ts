@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  autoDownloadService,
+  AutoDownloadDecision,
+} from "@/services/autoDownload";
+import { AutoDownloadMediaType } from "@/services/dataSettings";
+
+interface UseAutoDownloadResult {
+  isAllowed: boolean;
+  isChecking: boolean;
+  size: number | null;
+  allow: () => void;
+}
+
+/**
+ * Decides whether `url` may be downloaded right away under the auto-download
+ * rules for the current network. Without a `type`, or when the media is
+ * already cached, downloads are always allowed. Media held back by the rules
+ * is re-checked when the connection changes, e.g. on reaching Wi-Fi.
+ * `knownSize` is the size the message reports, if any.
+ */
+export function useAutoDownload(
+  url: string,
+  type?: AutoDownloadMediaType,
+  isCached = false,
+  knownSize?: number,
+): UseAutoDownloadResult {
+  const isExempt = !type || isCached || autoDownloadService.isApproved(url);
+  const [decision, setDecision] = useState<AutoDownloadDecision | null>(null);
+
+  useEffect(() => {
+    if (isExempt || !type) return;
+
+    let cancelled = false;
+    const check = () => {
+      autoDownloadService.check(url, type, knownSize ?? null).then((result) => {
+        if (cancelled) return;
+        setDecision((prev) => (prev?.allowed ? prev : result));
+      });
+    };
+
+    setDecision(null);
+    check();
+    const unsubscribe = autoDownloadService.subscribe(check);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [url, type, isExempt, knownSize]);
+
+  const allow = useCallback(() => {
+    autoDownloadService.approve(url);
+    setDecision((prev) => ({
+      allowed: true,
+      size: prev?.size ?? knownSize ?? null,
+    }));
+  }, [url, knownSize]);
+
+  return {
+    isAllowed: isExempt || !!decision?.allowed,
+    isChecking: !isExempt && !decision,
+    size: decision?.size ?? knownSize ?? null,
+    allow,
+  };
+}
@@ -1,6 +1,15 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { AppState } from "react-native";
-import { Chat, Message, Contact } from "@/store/types";
+import {
+  Chat,
+  Message,
+  Contact,
+  MessageReaction,
+  MessageMention,
+  MessageFile,
+  MessageAttachment,
+  MessageRevision,
+} from "@/store/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { useWebSocket } from "@/contexts/WebSocketContext";
 import { apiService } from "@/services/api";
@@ -9,9 +18,56 @@ import { chatCache } from "@/services/chatCache";
 import { messageQueue, QueuedMessage } from "@/services/messageQueue";
 import { welcomeChatService } from "@/services/welcomeChat";
 import { deletedMessagesService } from "@/services/deletedMessagesService";
+import { searchIndex } from "@/services/searchIndex";
+import { e2eeService } from "@/services/e2ee";
 
 type UpdateChatLastMessageFn = (chatId: string, message: Message) => void;
 
+function applyReaction(
+  reactions: MessageReaction[] | undefined,
+  emoji: string,
+  userId: string,
+  added: boolean,
+): MessageReaction[] | undefined {
+  const current = reactions || [];
+  const existing = current.find((r) => r.emoji === emoji);
+  let updated: MessageReaction[];
+
+  if (added) {
+    if (existing?.userIds.includes(userId)) return reactions;
+    updated = existing
+      ? current.map((r) =>
+          r.emoji === emoji ? { ...r, userIds: [...r.userIds, userId] } : r,
+        )
+      : [...current, { emoji, userIds: [userId] }];
+  } else {
+    if (!existing?.userIds.includes(userId)) return reactions;
+    updated = current
+      .map((r) =>
+        r.emoji === emoji
+          ? { ...r, userIds: r.userIds.filter((id) => id !== userId) }
+          : r,
+      )
+      .filter((r) => r.userIds.length > 0);
+  }
+
+  return updated.length > 0 ? updated : undefined;
+}
+
+function applyRevision(
+  revisions: MessageRevision[] | undefined,
+  revision: MessageRevision,
+): MessageRevision[] {
+  const current = revisions || [];
+  const time = new Date(revision.timestamp).getTime();
+  if (current.some((r) => new Date(r.timestamp).getTime() === time)) {
+    return current;
+  }
+  return [...current, revision].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+}
+
 export function useChats() {
   const { user } = useAuth();
   const { subscribe } = useWebSocket();
@@ -98,7 +154,15 @@ export function useChats() {
                     updatedAt: message.timestamp,
                     unreadCount: isFromOther
                       ? (chat.unreadCount || 0) + 1 
-                      : chat.unreadCount
+                      : chat.unreadCount,
+                    unreadMentionCount:
+                      isFromOther &&
+                      message.mentions?.some(
+                        (mention) =>
+                          mention.userId === user.visibleId?.toString(),
+                      )
+                        ? (chat.unreadMentionCount || 0) + 1
+                        : chat.unreadMentionCount,
                   }
                 : chat
             );
@@ -121,6 +185,13 @@ export function useChats() {
         const messageId = (serverMessage.id ?? serverMessage.messageId)?.toString();
         const chatIdNum = serverMessage.chatId;
         const content = serverMessage.content;
+        const decryptionFailed = e2eeService.isEncrypted(content);
+        const revision = serverMessage.revision
+          ? apiService.serverRevisionToRevision(
+              serverMessage.revision,
+              serverMessage.senderId,
+            )
+          : null;
         
         if (!messageId || chatIdNum === undefined) return;
         
@@ -136,8 +207,13 @@ export function useChats() {
                   console.log("[useChats] Updating cached message", messageId, "in chat", chatIdStr);
                   return {
                     ...m,
-                    text: content ?? m.text,
+                    text: decryptionFailed ? "" : (content ?? m.text),
+                    decryptionFailed: decryptionFailed ? true : undefined,
                     isEdited: true,
+                    editedAt: serverMessage.editedAt ?? m.editedAt,
+                    revisions: revision
+                      ? applyRevision(m.revisions, revision)
+                      : m.revisions,
                   };
                 }
                 return m;
@@ -242,6 +318,7 @@ export function useChats() {
 
         if (result.success && result.data) {
           const newChat = apiService.serverChatToChat(result.data, user.visibleId);
+          e2eeService.establishSession(newChat.id, contact.visibleId);
           setChats((prev) => [newChat, ...prev]);
           return newChat;
         }
@@ -303,7 +380,9 @@ export function useChats() {
       });
     }
     setChats((prev) => {
-      const updated = prev.map((c) => (c.id === chatId ? { ...c, unreadCount: 0 } : c));
+      const updated = prev.map((c) =>
+        c.id === chatId ? { ...c, unreadCount: 0, unreadMentionCount: 0 } : c,
+      );
       chatCache.saveChats(updated);
       return updated;
     });
@@ -339,6 +418,12 @@ export function useCreateChat() {
 
         if (result.success && result.data) {
           const newChat = apiService.serverChatToChat(result.data, user.visibleId);
+          if (newChat.type === "private" && newChat.participant?.visibleId) {
+            e2eeService.establishSession(
+              newChat.id,
+              newChat.participant.visibleId,
+            );
+          }
           return newChat;
         }
       } catch (error) {
@@ -371,7 +456,7 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
 
   const loadFromCache = useCallback(async () => {
     await deletedMessagesService.initialize();
-    const cached = await chatCache.getMessages(chatId);
+    const cached = await chatCache.getMessages(chatId, MESSAGES_PAGE_SIZE);
     const numericChatId = parseInt(chatId, 10);
     const pendingQueue = !isNaN(numericChatId) ? messageQueue.getQueueForChat(numericChatId) : [];
     
@@ -394,6 +479,11 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
             mediaType: queuedMsg.type === "image" ? "photo" : queuedMsg.type === "video" ? "video" : queuedMsg.type === "voice" ? "audio" : undefined,
             mediaUri: queuedMsg.mediaUri,
             audioDuration: queuedMsg.audioDuration,
+            waveform: queuedMsg.waveform,
+            isVideoNote: queuedMsg.isVideoNote,
+            forwardedFrom: queuedMsg.forwardedFrom,
+            file: queuedMsg.file,
+            attachments: queuedMsg.attachments,
             timestamp: new Date(queuedMsg.createdAt).toISOString(),
             status: queuedMsg.status === "failed" ? "error" : "sending",
             isUploading: queuedMsg.status === "uploading",
@@ -401,6 +491,8 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
             uploadedBytes: queuedMsg.mediaSize && queuedMsg.uploadProgress ? Math.round((queuedMsg.uploadProgress / 100) * queuedMsg.mediaSize) : undefined,
             totalBytes: queuedMsg.mediaSize,
             replyToId: queuedMsg.replyToId?.toString(),
+            mentions: queuedMsg.mentions,
+            linkPreviewDisabled: queuedMsg.linkPreviewDisabled,
           });
         }
       });
@@ -460,6 +552,11 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
               mediaType: queuedMsg.type === "image" ? "photo" : queuedMsg.type === "video" ? "video" : queuedMsg.type === "voice" ? "audio" : undefined,
               mediaUri: queuedMsg.mediaUri,
               audioDuration: queuedMsg.audioDuration,
+              waveform: queuedMsg.waveform,
+              isVideoNote: queuedMsg.isVideoNote,
+              forwardedFrom: queuedMsg.forwardedFrom,
+              file: queuedMsg.file,
+              attachments: queuedMsg.attachments,
               timestamp: new Date(queuedMsg.createdAt).toISOString(),
               status: queuedMsg.status === "failed" ? "error" : "sending",
               isUploading: queuedMsg.status === "uploading",
@@ -467,6 +564,8 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
               uploadedBytes: queuedMsg.mediaSize && queuedMsg.uploadProgress ? Math.round((queuedMsg.uploadProgress / 100) * queuedMsg.mediaSize) : undefined,
               totalBytes: queuedMsg.mediaSize,
               replyToId: queuedMsg.replyToId?.toString(),
+              mentions: queuedMsg.mentions,
+              linkPreviewDisabled: queuedMsg.linkPreviewDisabled,
             });
           }
         });
@@ -487,20 +586,44 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
     }
   }, [chatId, user?.visibleId, user?.id]);
 
-  const loadMoreMessages = useCallback(async () => {
-    if (!user?.visibleId || isLoadingMore || !hasMoreMessages || messages.length === 0) return;
+  /** Resolves to false when the older page could not be fetched. */
+  const loadMoreMessages = useCallback(async (): Promise<boolean> => {
+    if (
+      !user?.visibleId ||
+      isLoadingMore ||
+      !hasMoreMessages ||
+      messages.length === 0
+    )
+      return false;
     
     const numericChatId = parseInt(chatId, 10);
-    if (isNaN(numericChatId)) return;
+    if (isNaN(numericChatId)) return false;
 
     const oldestMessage = messages[0];
     const beforeTimestamp = oldestMessage?.timestamp;
     
-    if (!beforeTimestamp) return;
+    if (!beforeTimestamp) return false;
 
     try {
       setIsLoadingMore(true);
 
+      const cachedPage =
+        (await chatCache.getMessages(
+          chatId,
+          MESSAGES_PAGE_SIZE,
+          beforeTimestamp,
+        )) || [];
+      if (cachedPage.length > 0) {
+        setMessages((prev) => {
+          const existingIds = new Set(prev.map((m) => m.id));
+          const olderMessages = cachedPage.filter(
+            (m) => !existingIds.has(m.id),
+          );
+          if (olderMessages.length === 0) return prev;
+          return [...olderMessages, ...prev];
+        });
+      }
+
       const result = await apiService.getChatMessages(numericChatId, MESSAGES_PAGE_SIZE, beforeTimestamp);
       if (result.success && result.data) {
         const mappedMessages = result.data.map((serverMessage) =>
@@ -516,7 +639,9 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
             const existingIds = new Set(prev.map(m => m.id));
             const newMessages = mappedMessages.filter(m => !existingIds.has(m.id));
             if (newMessages.length === 0) {
-              setHasMoreMessages(false);
+              if (cachedPage.length === 0) {
+                setHasMoreMessages(false);
+              }
               return prev;
             }
             const merged = [...newMessages, ...prev];
@@ -527,9 +652,12 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
         } else {
           setHasMoreMessages(false);
         }
+        return true;
       }
+      return false;
     } catch (error) {
       __DEV__ && console.warn("Failed to load more messages:", error);
+      return false;
     } finally {
       setIsLoadingMore(false);
     }
@@ -584,7 +712,11 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
               }
             }
             
-            const updated = [...prev, message];
+            const updated = [...prev, message].map((m) =>
+              m.id === message.replyToId
+                ? { ...m, replyCount: (m.replyCount ?? 0) + 1 }
+                : m,
+            );
             chatCache.saveMessages(chatId, updated);
             return updated;
           });
@@ -605,13 +737,29 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
         if (!updatedMessageId || updatedChatId === undefined) return;
         
         if (updatedChatId === numericChatId) {
+          const decryptionFailed = e2eeService.isEncrypted(
+            serverMessage.content,
+          );
+          const revision = serverMessage.revision
+            ? apiService.serverRevisionToRevision(
+                serverMessage.revision,
+                serverMessage.senderId,
+              )
+            : null;
           setMessages((prev) => {
             const updated = prev.map((m) => {
               if (m.id === updatedMessageId) {
                 return {
                   ...m,
-                  text: serverMessage.content ?? m.text,
+                  text: decryptionFailed
+                    ? ""
+                    : (serverMessage.content ?? m.text),
+                  decryptionFailed: decryptionFailed ? true : undefined,
                   isEdited: serverMessage.edited ?? true,
+                  editedAt: serverMessage.editedAt ?? m.editedAt,
+                  revisions: revision
+                    ? applyRevision(m.revisions, revision)
+                    : m.revisions,
                 };
               }
               return m;
@@ -630,6 +778,31 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
             return updated;
           });
         }
+      } else if (
+        event.type === "reaction_added" ||
+        event.type === "reaction_removed"
+      ) {
+        if (event.chatId === numericChatId) {
+          const reactedMessageId = event.messageId.toString();
+          const reactingUserId = event.userId.toString();
+          const added = event.type === "reaction_added";
+          setMessages((prev) => {
+            const target = prev.find((m) => m.id === reactedMessageId);
+            if (!target) return prev;
+            const reactions = applyReaction(
+              target.reactions,
+              event.emoji,
+              reactingUserId,
+              added,
+            );
+            if (reactions === target.reactions) return prev;
+            const updated = prev.map((m) =>
+              m.id === reactedMessageId ? { ...m, reactions } : m,
+            );
+            chatCache.saveMessages(chatId, updated);
+            return updated;
+          });
+        }
       } else if (event.type === "message_delivered") {
         console.log("[useMessages] message_delivered event:", event.messageId, "chatId:", event.chatId, "current:", numericChatId);
         if (typeof event.chatId !== "undefined" && typeof event.messageId !== "undefined" && event.chatId === numericChatId) {
@@ -805,8 +978,8 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
       }
     );
 
-    const unsubscribeQueue = messageQueue.subscribe((queue) => {
-      const chatQueue = queue.filter((m) => m.chatId === numericChatId);
+    const unsubscribeQueue = messageQueue.subscribe(() => {
+      const chatQueue = messageQueue.getQueueForChat(numericChatId);
       chatQueue.forEach((queuedMsg) => {
         setMessages((prev) => {
           const existing = prev.find((m) => m.id === queuedMsg.id);
@@ -826,13 +999,51 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
             chatCache.saveMessages(chatId, updated);
             return updated;
           }
+          if (queuedMsg.sendAt) {
+            // A scheduled message just became due; show it while it sends.
+            const updated = [
+              ...prev,
+              {
+                id: queuedMsg.id,
+                tempId: queuedMsg.id,
+                chatId: chatId,
+                senderId: user?.id || "",
+                text: queuedMsg.content,
+                type: queuedMsg.type,
+                mediaType:
+                  queuedMsg.type === "image"
+                    ? ("photo" as const)
+                    : queuedMsg.type === "video"
+                      ? ("video" as const)
+                      : queuedMsg.type === "voice"
+                        ? ("audio" as const)
+                        : undefined,
+                mediaUri: queuedMsg.mediaUri,
+                audioDuration: queuedMsg.audioDuration,
+                waveform: queuedMsg.waveform,
+                isVideoNote: queuedMsg.isVideoNote,
+                forwardedFrom: queuedMsg.forwardedFrom,
+                file: queuedMsg.file,
+                attachments: queuedMsg.attachments,
+                timestamp: new Date(queuedMsg.sendAt).toISOString(),
+                status: "sending" as const,
+                isUploading: queuedMsg.status === "uploading",
+                uploadProgress: queuedMsg.uploadProgress,
+                replyToId: queuedMsg.replyToId?.toString(),
+                mentions: queuedMsg.mentions,
+                linkPreviewDisabled: queuedMsg.linkPreviewDisabled,
+              },
+            ];
+            chatCache.saveMessages(chatId, updated);
+            return updated;
+          }
           return prev;
         });
       });
     });
 
     return unsubscribeQueue;
-  }, [chatId, user?.visibleId]);
+  }, [chatId, user?.id, user?.visibleId]);
 
   const sendMessage = useCallback(
     async (
@@ -840,7 +1051,12 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
       mediaType?: "photo" | "video" | "audio",
       mediaUri?: string,
       audioDuration?: number,
-      replyToId?: string
+      replyToId?: string,
+      sendAt?: number,
+      mentions?: MessageMention[],
+      linkPreviewDisabled?: boolean,
+      waveform?: number[],
+      isVideoNote?: boolean,
     ) => {
       if (!user?.visibleId) return;
       if (!text && !mediaUri) return;
@@ -848,6 +1064,7 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
 
       const numericChatId = parseInt(chatId, 10);
       if (isNaN(numericChatId)) return;
+      const isScheduled = !!sendAt && sendAt > Date.now();
 
       const tempId = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const uploadType =
@@ -869,20 +1086,28 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
         mediaType: mediaType,
         mediaUri: mediaUri,
         audioDuration: audioDuration,
+        waveform: waveform,
+        isVideoNote: isVideoNote || undefined,
         timestamp: new Date().toISOString(),
         status: "sending",
         isUploading: mediaUri && mediaType ? true : false,
         uploadProgress: mediaUri && mediaType ? 0 : undefined,
         replyToId: replyToId,
+        mentions: mentions?.length ? mentions : undefined,
+        linkPreviewDisabled: linkPreviewDisabled || undefined,
       };
-      setMessages((prev) => {
-        const updated = [...prev, tempMessage];
-        chatCache.saveMessages(chatId, updated);
-        return updated;
-      });
-      
-      if (updateChatLastMessage) {
-        updateChatLastMessage(chatId, tempMessage);
+
+      // Scheduled messages stay out of the timeline until they are due.
+      if (!isScheduled) {
+        setMessages((prev) => {
+          const updated = [...prev, tempMessage];
+          chatCache.saveMessages(chatId, updated);
+          return updated;
+        });
+
+        if (updateChatLastMessage) {
+          updateChatLastMessage(chatId, tempMessage);
+        }
       }
 
       const numericReplyToId = replyToId ? parseInt(replyToId, 10) : undefined;
@@ -894,12 +1119,126 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
         type: uploadType as "text" | "image" | "video" | "voice",
         mediaUri: mediaUri,
         audioDuration: audioDuration,
+        waveform: waveform,
+        isVideoNote: isVideoNote || undefined,
         replyToId: numericReplyToId,
+        sendAt: isScheduled ? sendAt : undefined,
+        mentions: tempMessage.mentions,
+        linkPreviewDisabled: tempMessage.linkPreviewDisabled,
       });
     },
     [user, chatId]
   );
 
+  const sendFile = useCallback(
+    async (
+      uri: string,
+      file: MessageFile,
+      replyToId?: string,
+      sendAt?: number,
+    ) => {
+      if (!user?.visibleId) return;
+      if (welcomeChatService.isWelcomeChat(chatId)) return;
+
+      const numericChatId = parseInt(chatId, 10);
+      if (isNaN(numericChatId)) return;
+      const isScheduled = !!sendAt && sendAt > Date.now();
+
+      const tempId = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const tempMessage: Message = {
+        id: tempId,
+        tempId: tempId,
+        chatId: chatId,
+        senderId: user.id,
+        type: "file",
+        mediaUri: uri,
+        file,
+        timestamp: new Date().toISOString(),
+        status: "sending",
+        isUploading: true,
+        uploadProgress: 0,
+        totalBytes: file.size,
+        replyToId: replyToId,
+      };
+
+      if (!isScheduled) {
+        setMessages((prev) => {
+          const updated = [...prev, tempMessage];
+          chatCache.saveMessages(chatId, updated);
+          return updated;
+        });
+
+        if (updateChatLastMessage) {
+          updateChatLastMessage(chatId, tempMessage);
+        }
+      }
+
+      await messageQueue.enqueue({
+        id: tempId,
+        chatId: numericChatId,
+        type: "file",
+        mediaUri: uri,
+        mediaSize: file.size,
+        file,
+        replyToId: replyToId ? parseInt(replyToId, 10) : undefined,
+        sendAt: isScheduled ? sendAt : undefined,
+      });
+    },
+    [user, chatId, updateChatLastMessage],
+  );
+
+  const sendAlbum = useCallback(
+    async (
+      attachments: MessageAttachment[],
+      replyToId?: string,
+      sendAt?: number,
+    ) => {
+      if (!user?.visibleId) return;
+      if (welcomeChatService.isWelcomeChat(chatId)) return;
+
+      const numericChatId = parseInt(chatId, 10);
+      if (isNaN(numericChatId)) return;
+      const isScheduled = !!sendAt && sendAt > Date.now();
+
+      const tempId = `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const tempMessage: Message = {
+        id: tempId,
+        tempId: tempId,
+        chatId: chatId,
+        senderId: user.id,
+        type: "album",
+        attachments,
+        timestamp: new Date().toISOString(),
+        status: "sending",
+        isUploading: true,
+        uploadProgress: 0,
+        replyToId: replyToId,
+      };
+
+      if (!isScheduled) {
+        setMessages((prev) => {
+          const updated = [...prev, tempMessage];
+          chatCache.saveMessages(chatId, updated);
+          return updated;
+        });
+
+        if (updateChatLastMessage) {
+          updateChatLastMessage(chatId, tempMessage);
+        }
+      }
+
+      await messageQueue.enqueue({
+        id: tempId,
+        chatId: numericChatId,
+        type: "album",
+        attachments: attachments.map((attachment) => ({ ...attachment })),
+        replyToId: replyToId ? parseInt(replyToId, 10) : undefined,
+        sendAt: isScheduled ? sendAt : undefined,
+      });
+    },
+    [user, chatId, updateChatLastMessage],
+  );
+
   const editMessage = useCallback(
     async (messageId: string, content: string): Promise<boolean> => {
       if (welcomeChatService.isWelcomeChat(chatId)) return false;
@@ -909,19 +1248,37 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
       let originalMessage: Message | undefined;
       setMessages((prev) => {
         originalMessage = prev.find((m) => m.id === messageId);
-        const updated = prev.map((m) => 
-          m.id === messageId ? { ...m, text: content, isEdited: true } : m
+        const updated = prev.map((m) =>
+          m.id === messageId
+            ? {
+                ...m,
+                text: content,
+                isEdited: true,
+                revisions: applyRevision(m.revisions, {
+                  text: m.text ?? "",
+                  timestamp: m.editedAt ?? m.timestamp,
+                }),
+              }
+            : m,
         );
         chatCache.saveMessages(chatId, updated);
         return updated;
       });
 
       try {
-        const result = await apiService.editMessage(numericMessageId, content);
+        const payload = await e2eeService.encryptForChat(
+          parseInt(chatId, 10),
+          content,
+        );
+        const result = await apiService.editMessage(numericMessageId, payload);
         if (result.success && result.data && user?.visibleId) {
           const updatedMessage = apiService.serverMessageToMessage(result.data, user.visibleId);
           setMessages((prev) => {
-            const updated = prev.map((m) => (m.id === messageId ? updatedMessage : m));
+            const updated = prev.map((m) =>
+              m.id === messageId
+                ? { ...updatedMessage, revisions: m.revisions }
+                : m,
+            );
             chatCache.saveMessages(chatId, updated);
             return updated;
           });
@@ -948,46 +1305,131 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
     [user?.visibleId, chatId]
   );
 
-  const deleteMessage = useCallback(async (messageId: string): Promise<boolean> => {
-    if (welcomeChatService.isWelcomeChat(chatId)) return false;
-    const isTemporaryMessage = messageId.startsWith("temp_");
-    
-    await deletedMessagesService.markAsDeleted(messageId);
-    
-    setMessages((prev) => {
-      const updated = prev.filter((m) => m.id !== messageId);
-      chatCache.saveMessages(chatId, updated);
-      return updated;
-    });
+  const deleteMessages = useCallback(
+    async (messageIds: string[], forEveryone: boolean): Promise<boolean> => {
+      if (welcomeChatService.isWelcomeChat(chatId) || messageIds.length === 0) {
+        return false;
+      }
 
-    if (isTemporaryMessage) {
-      await messageQueue.removeFromQueue(messageId);
-      return true;
-    }
+      await deletedMessagesService.markManyAsDeleted(messageIds);
 
-    const numericMessageId = parseInt(messageId, 10);
-    if (isNaN(numericMessageId)) return true;
+      const removedIds = new Set(messageIds);
+      setMessages((prev) => {
+        const updated = prev.filter((m) => !removedIds.has(m.id));
+        chatCache.saveMessages(chatId, updated);
+        return updated;
+      });
 
-    try {
-      const result = await apiService.deleteMessage(numericMessageId);
-      return result.success;
-    } catch (error) {
-      __DEV__ && console.warn("Failed to delete message:", error);
-      return false;
-    }
-  }, [chatId]);
+      const serverIds: number[] = [];
+      for (const messageId of messageIds) {
+        if (messageId.startsWith("temp_")) {
+          await messageQueue.removeFromQueue(messageId);
+          continue;
+        }
+        const numericMessageId = parseInt(messageId, 10);
+        if (!isNaN(numericMessageId)) serverIds.push(numericMessageId);
+      }
 
-  const hideMessageLocally = useCallback(async (messageId: string): Promise<void> => {
-    if (welcomeChatService.isWelcomeChat(chatId)) return;
-    
-    await deletedMessagesService.markAsDeleted(messageId);
-    
-    setMessages((prev) => {
-      const updated = prev.filter((m) => m.id !== messageId);
-      chatCache.saveMessages(chatId, updated);
-      return updated;
-    });
-  }, [chatId]);
+      if (!forEveryone || serverIds.length === 0) return true;
+
+      try {
+        const results = await Promise.all(
+          serverIds.map((id) => apiService.deleteMessage(id)),
+        );
+        return results.every((result) => result.success);
+      } catch (error) {
+        __DEV__ && console.warn("Failed to delete messages:", error);
+        return false;
+      }
+    },
+    [chatId],
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: string): Promise<boolean> => deleteMessages([messageId], true),
+    [deleteMessages],
+  );
+
+  const hideMessageLocally = useCallback(
+    async (messageId: string): Promise<void> => {
+      await deleteMessages([messageId], false);
+    },
+    [deleteMessages],
+  );
+
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string): Promise<boolean> => {
+      if (!user?.id || welcomeChatService.isWelcomeChat(chatId)) return false;
+      const numericMessageId = parseInt(messageId, 10);
+      if (isNaN(numericMessageId) || messageId.startsWith("temp_"))
+        return false;
+
+      const current = messages.find((m) => m.id === messageId);
+      if (!current) return false;
+      const hadReaction = !!current.reactions?.some(
+        (r) => r.emoji === emoji && r.userIds.includes(user.id),
+      );
+
+      setMessages((prev) => {
+        const target = prev.find((m) => m.id === messageId);
+        if (!target) return prev;
+        const reactions = applyReaction(
+          target.reactions,
+          emoji,
+          user.id,
+          !hadReaction,
+        );
+        const updated = prev.map((m) =>
+          m.id === messageId ? { ...m, reactions } : m,
+        );
+        chatCache.saveMessages(chatId, updated);
+        return updated;
+      });
+
+      try {
+        const result = hadReaction
+          ? await apiService.removeReaction(numericMessageId, emoji)
+          : await apiService.addReaction(numericMessageId, emoji);
+
+        if (result.success && result.data) {
+          const reactions = apiService.serverReactionsToReactions(result.data);
+          setMessages((prev) => {
+            const updated = prev.map((m) =>
+              m.id === messageId
+                ? {
+                    ...m,
+                    reactions: reactions.length > 0 ? reactions : undefined,
+                  }
+                : m,
+            );
+            chatCache.saveMessages(chatId, updated);
+            return updated;
+          });
+          return true;
+        }
+      } catch (error) {
+        __DEV__ && console.warn("Failed to toggle reaction:", error);
+      }
+
+      setMessages((prev) => {
+        const target = prev.find((m) => m.id === messageId);
+        if (!target) return prev;
+        const reactions = applyReaction(
+          target.reactions,
+          emoji,
+          user.id,
+          hadReaction,
+        );
+        const restored = prev.map((m) =>
+          m.id === messageId ? { ...m, reactions } : m,
+        );
+        chatCache.saveMessages(chatId, restored);
+        return restored;
+      });
+      return false;
+    },
+    [user?.id, chatId, messages],
+  );
 
   const markMessageAsRead = useCallback(async (messageId: string) => {
     const numericMessageId = parseInt(messageId, 10);
@@ -1025,9 +1467,13 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
     isLoadingMore,
     hasMoreMessages,
     sendMessage,
+    sendFile,
+    sendAlbum,
     editMessage,
     deleteMessage,
+    deleteMessages,
     hideMessageLocally,
+    toggleReaction,
     markMessageAsRead,
     refreshMessages: loadMessages,
     loadMoreMessages,
@@ -1039,6 +1485,54 @@ export function useMessages(chatId: string, updateChatLastMessage?: UpdateChatLa
   };
 }
 
+export function useScheduledMessages(chatId: string) {
+  const [scheduled, setScheduled] = useState<QueuedMessage[]>([]);
+
+  useEffect(() => {
+    const numericChatId = parseInt(chatId, 10);
+    if (isNaN(numericChatId)) return;
+
+    return messageQueue.subscribe(() => {
+      setScheduled(messageQueue.getScheduledForChat(numericChatId));
+    });
+  }, [chatId]);
+
+  const updateScheduled = useCallback(
+    (messageId: string, updates: { content?: string; sendAt?: number }) =>
+      messageQueue.updateScheduled(messageId, updates),
+    [],
+  );
+
+  const cancelScheduled = useCallback(
+    (messageId: string) => messageQueue.removeFromQueue(messageId),
+    [],
+  );
+
+  const sendScheduledNow = useCallback(
+    (messageId: string) =>
+      messageQueue.updateScheduled(messageId, { sendAt: Date.now() }),
+    [],
+  );
+
+  return { scheduled, updateScheduled, cancelScheduled, sendScheduledNow };
+}
+
+/** When the user last sent a message to the chat, for slow mode. */
+export function useLastSentAt(chatId: string) {
+  const [lastSentAt, setLastSentAt] = useState<number | undefined>();
+
+  useEffect(() => {
+    const numericChatId = parseInt(chatId, 10);
+    if (isNaN(numericChatId)) return;
+
+    return messageQueue.subscribe(() => {
+      setLastSentAt(messageQueue.getLastSentAt(numericChatId));
+    });
+  }, [chatId]);
+
+  return lastSentAt;
+}
+
 const SEARCH_PAGE_SIZE = 50;
 
 export function useMessageSearch() {
@@ -1063,12 +1557,28 @@ export function useMessageSearch() {
       try {
         setIsSearching(true);
         setCurrentQuery(query);
+        const cachedMessages = await searchIndex.search(
+          query,
+          SEARCH_PAGE_SIZE,
+        );
+        setResults(cachedMessages);
+
         const result = await apiService.searchMessages(query, SEARCH_PAGE_SIZE);
         if (result.success && result.data) {
           const mappedMessages = result.data.messages.map((serverMessage) =>
             apiService.serverMessageToMessage(serverMessage, user.visibleId!)
           );
-          setResults(mappedMessages);
+          const serverIds = new Set(mappedMessages.map((m) => m.id));
+          setResults(
+            [
+              ...mappedMessages,
+              ...cachedMessages.filter((m) => !serverIds.has(m.id)),
+            ].sort(
+              (a, b) =>
+                new Date(b.timestamp).getTime() -
+                new Date(a.timestamp).getTime(),
+            ),
+          );
           setHasMoreResults(result.data.pageInfo.hasMore);
           setNextCursor(result.data.pageInfo.nextCursor);
         }
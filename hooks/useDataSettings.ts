@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+import { dataSettingsService, DataSettings } from "@/services/dataSettings";
+
+export function useDataSettings(): DataSettings {
+  const [settings, setSettings] = useState(() =>
+    dataSettingsService.getSettings(),
+  );
+
+  useEffect(() => {
+    setSettings(dataSettingsService.getSettings());
+    return dataSettingsService.subscribe(() => {
+      setSettings(dataSettingsService.getSettings());
+    });
+  }, []);
+
+  return settings;
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { linkPreviewService, LinkPreview } from "@/services/linkPreview";
+import { useDataSettings } from "@/hooks/useDataSettings";
+
+/**
+ * Loads the preview for `url`. Resolves to `undefined` while loading and
+ * `null` when there is nothing to show. `delayMs` debounces lookups for
+ * URLs that are still being typed. Links from `encrypted` chats are never
+ * sent to the server: their previews are fetched by the device, and only
+ * when the user has turned that on.
+ */
+export function useLinkPreview(
+  url: string | null,
+  delayMs = 0,
+  encrypted = false,
+): LinkPreview | null | undefined {
+  const { privateChatLinkPreviews } = useDataSettings();
+  const enabled = !encrypted || privateChatLinkPreviews;
+  const [preview, setPreview] = useState<LinkPreview | null | undefined>(() =>
+    url && enabled ? linkPreviewService.getLoadedPreview(url) : null,
+  );
+
+  useEffect(() => {
+    if (!url || !enabled) {
+      setPreview(null);
+      return;
+    }
+
+    const loaded = linkPreviewService.getLoadedPreview(url);
+    setPreview(loaded);
+    if (loaded !== undefined) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      linkPreviewService
+        .getPreview(url, encrypted ? "device" : "server")
+        .then((result) => {
+          if (!cancelled) setPreview(result);
+        });
+    }, delayMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [url, delayMs, encrypted, enabled]);
+
+  return preview;
+}
@@ -3,25 +3,58 @@ import { Platform } from "react-native";
 import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
 import Constants from "expo-constants";
+import i18n from "@/i18n";
 import { apiService } from "@/services/api";
-
-Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
-});
+import { e2eeService } from "@/services/e2ee";
+import {
+  notificationSettingsService,
+  ChatNotificationSettings,
+  GlobalNotificationSettings,
+} from "@/services/notificationSettings";
 
 export interface NotificationData {
   chatId?: string;
   senderId?: string;
   type?: string;
+  chatType?: "private" | "group";
+  isMention?: boolean;
   [key: string]: unknown;
 }
 
+Notifications.setNotificationHandler({
+  handleNotification: async (notification) => {
+    const { title, body } = notification.request.content;
+    const data = notification.request.content.data as NotificationData;
+    if (e2eeService.isEncrypted(body)) {
+      // Older servers put the ciphertext in the body; show a generic one.
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body: i18n.t("notifications.newMessage"), data },
+        trigger: null,
+      });
+      return {
+        shouldShowAlert: false,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+        shouldShowBanner: false,
+        shouldShowList: false,
+      };
+    }
+    const decision = data?.chatId
+      ? notificationSettingsService.resolve(String(data.chatId), {
+          isGroup: data.chatType === "group",
+          isMention: data.isMention === true,
+        })
+      : { show: true, sound: "default" };
+    return {
+      shouldShowAlert: decision.show,
+      shouldPlaySound: decision.show && decision.sound !== "none",
+      shouldSetBadge: true,
+      shouldShowBanner: decision.show,
+      shouldShowList: decision.show,
+    };
+  },
+});
+
 type NotificationHandler = (chatId: string) => void;
 
 export function useNotifications(onNotificationTap?: NotificationHandler) {
@@ -188,3 +221,38 @@ export function useNotifications(onNotificationTap?: NotificationHandler) {
     scheduleLocalNotification,
   };
 }
+
+export function useNotificationSettings(): GlobalNotificationSettings {
+  const [settings, setSettings] = useState(() =>
+    notificationSettingsService.getGlobalSettings(),
+  );
+
+  useEffect(() => {
+    setSettings(notificationSettingsService.getGlobalSettings());
+    return notificationSettingsService.subscribe(() => {
+      setSettings(notificationSettingsService.getGlobalSettings());
+    });
+  }, []);
+
+  return settings;
+}
+
+export function useChatNotificationSettings(
+  chatId: string | undefined,
+): ChatNotificationSettings & { isMuted: boolean } {
+  const read = useCallback(
+    () => ({
+      ...notificationSettingsService.getChatSettings(chatId ?? ""),
+      isMuted: !!chatId && notificationSettingsService.isMuted(chatId),
+    }),
+    [chatId],
+  );
+  const [settings, setSettings] = useState(read);
+
+  useEffect(() => {
+    setSettings(read());
+    return notificationSettingsService.subscribe(() => setSettings(read()));
+  }, [read]);
+
+  return settings;
+}
@@ -1,8 +1,11 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { Chat, Message, Contact, User } from "@/store/types";
 import { apiService } from "@/services/api";
+import { searchIndex } from "@/services/searchIndex";
 import { useAuth } from "@/contexts/AuthContext";
 
+const MESSAGE_RESULTS_LIMIT = 30;
+
 export interface SearchResult {
   type: "chat" | "message" | "contact" | "user";
   chat?: Chat;
@@ -18,11 +21,13 @@ export function useSearch() {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestQueryRef = useRef("");
 
   const search = useCallback(
     async (searchQuery: string, chats: Chat[] = [], contacts: Contact[] = []) => {
       const trimmedQuery = searchQuery.trim().toLowerCase();
       setQuery(searchQuery);
+      latestQueryRef.current = trimmedQuery;
 
       if (!trimmedQuery || trimmedQuery.length < 3) {
         setResults([]);
@@ -69,6 +74,20 @@ export function useSearch() {
           }
         });
 
+        const localMessages = await searchIndex.search(
+          trimmedQuery,
+          MESSAGE_RESULTS_LIMIT,
+        );
+        if (latestQueryRef.current !== trimmedQuery) return;
+        localMessages.forEach((message) => {
+          searchResults.push({
+            type: "message",
+            message,
+            chat: chats.find((c) => c.id === message.chatId),
+            matchedText: message.text,
+          });
+        });
+
         const isEmailLike = trimmedQuery.includes("@") || trimmedQuery.length >= 3;
         if (isEmailLike && user?.visibleId) {
           searchTimeoutRef.current = setTimeout(async () => {
@@ -100,6 +119,43 @@ export function useSearch() {
               }
             } catch {
             }
+
+            try {
+              const messagesResult = await apiService.searchMessages(
+                trimmedQuery,
+                MESSAGE_RESULTS_LIMIT,
+              );
+              if (
+                !messagesResult.success ||
+                !messagesResult.data ||
+                latestQueryRef.current !== trimmedQuery
+              ) {
+                return;
+              }
+              const serverMessages = messagesResult.data.messages.map(
+                (serverMessage) =>
+                  apiService.serverMessageToMessage(
+                    serverMessage,
+                    user.visibleId!,
+                  ),
+              );
+              setResults((prev) => {
+                const existingIds = new Set(
+                  prev
+                    .filter((r) => r.type === "message")
+                    .map((r) => r.message?.id),
+                );
+                const newResults: SearchResult[] = serverMessages
+                  .filter((message) => !existingIds.has(message.id))
+                  .map((message) => ({
+                    type: "message",
+                    message,
+                    chat: chats.find((c) => c.id === message.chatId),
+                    matchedText: message.text,
+                  }));
+                return newResults.length > 0 ? [...prev, ...newResults] : prev;
+              });
+            } catch {}
           }, 500);
         }
 
@@ -119,6 +175,7 @@ export function useSearch() {
       clearTimeout(searchTimeoutRef.current);
       searchTimeoutRef.current = null;
     }
+    latestQueryRef.current = "";
     setQuery("");
     setResults([]);
   }, []);
@@ -1,13 +1,16 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { Platform } from "react-native";
 import { Audio } from "expo-av";
-import { mediaCache } from "@/services/mediaCache";
+import { mediaCache, DownloadProgress } from "@/services/mediaCache";
+import { voicePlaybackService } from "@/services/voicePlayback";
 
 type PlaybackState = 'idle' | 'loading' | 'playing' | 'error';
 
 interface UseVoicePlaybackOptions {
   onPlaybackComplete?: () => void;
   onListened?: () => void;
+  /** When false the audio is not downloaded until it becomes true. */
+  enabled?: boolean;
 }
 
 interface UseVoicePlaybackResult {
@@ -17,6 +20,10 @@ interface UseVoicePlaybackResult {
   togglePlayback: () => Promise<void>;
   hasError: boolean;
   isLoading: boolean;
+  downloadProgress: DownloadProgress | null;
+  playbackRate: number;
+  /** Moves playback to `fraction` (0..1) of the note. */
+  seek: (fraction: number) => Promise<void>;
   stop: () => Promise<void>;
 }
 
@@ -35,11 +42,18 @@ const MAX_RETRIES = 5;
 const INITIAL_RETRY_DELAY = 1000;
 
 export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions): UseVoicePlaybackResult {
-  const { onPlaybackComplete, onListened } = options || {};
+  const { onPlaybackComplete, onListened, enabled = true } = options || {};
   
   const [state, setState] = useState<PlaybackState>('loading');
   const [currentTime, setCurrentTime] = useState(0);
   const [audioDuration, setAudioDuration] = useState(0);
+  const [downloadProgress, setDownloadProgress] =
+    useState<DownloadProgress | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(() =>
+    voicePlaybackService.getRate(),
+  );
+  const onPlaybackCompleteRef = useRef(onPlaybackComplete);
+  onPlaybackCompleteRef.current = onPlaybackComplete;
 
   const soundRef = useRef<Audio.Sound | null>(null);
   const playbackIdRef = useRef<string>(Math.random().toString(36).substring(7));
@@ -75,6 +89,7 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
     }
 
     setState('loading');
+    setDownloadProgress(null);
 
     try {
       if (isRetry) {
@@ -83,7 +98,9 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
       
       let finalUri = await mediaCache.getCachedUri(uri);
       if (!finalUri) {
-        finalUri = await mediaCache.cacheMedia(uri);
+        finalUri = await mediaCache.cacheMedia(uri, (info) => {
+          if (isMountedRef.current) setDownloadProgress(info);
+        });
         if (!isMountedRef.current || !finalUri) {
           if (isMountedRef.current) {
             if (retryCountRef.current < MAX_RETRIES) {
@@ -110,7 +127,12 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
 
       const { sound } = await Audio.Sound.createAsync(
         { uri: finalUri },
-        { shouldPlay: false, progressUpdateIntervalMillis: 100 },
+        {
+          shouldPlay: false,
+          progressUpdateIntervalMillis: 100,
+          rate: voicePlaybackService.getRate(),
+          shouldCorrectPitch: true,
+        },
         (status) => {
           if (!isMountedRef.current) return;
           if (status.isLoaded) {
@@ -127,7 +149,7 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
               setCurrentTime(0);
               currentPlayingSound = null;
               notifyPlaybackChange(null);
-              onPlaybackComplete?.();
+              onPlaybackCompleteRef.current?.();
             }
           }
         }
@@ -159,9 +181,10 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
         }
       }
     }
-  }, [uri, onPlaybackComplete]);
+  }, [uri]);
 
   useEffect(() => {
+    if (!enabled) return;
     retryCountRef.current = 0;
     
     if (soundRef.current) {
@@ -184,7 +207,16 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
         notifyPlaybackChange(null);
       }
     };
-  }, [uri, loadAudio]);
+  }, [uri, loadAudio, enabled]);
+
+  useEffect(() => {
+    voicePlaybackService.init();
+    return voicePlaybackService.subscribeToRate(() => {
+      const rate = voicePlaybackService.getRate();
+      setPlaybackRate(rate);
+      soundRef.current?.setRateAsync(rate, true).catch(() => {});
+    });
+  }, []);
 
   const stopOtherPlayers = useCallback(async () => {
     if (currentPlayingSound && currentPlayingId !== playbackIdRef.current) {
@@ -239,6 +271,21 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
     }
   }, [state, stopOtherPlayers, onListened]);
 
+  const seek = useCallback(async (fraction: number) => {
+    if (!soundRef.current) return;
+    try {
+      const status = await soundRef.current.getStatusAsync();
+      if (!status.isLoaded || !status.durationMillis) return;
+      const positionMillis = Math.round(
+        Math.min(1, Math.max(0, fraction)) * status.durationMillis,
+      );
+      await soundRef.current.setPositionAsync(positionMillis);
+      setCurrentTime(positionMillis / 1000);
+    } catch (err) {
+      console.warn("[useVoicePlayback] Seek error:", err);
+    }
+  }, []);
+
   const stop = useCallback(async () => {
     if (!soundRef.current) return;
     try {
@@ -260,6 +307,9 @@ export function useVoicePlayback(uri: string, options?: UseVoicePlaybackOptions)
     togglePlayback,
     hasError: state === 'error',
     isLoading: state === 'loading',
+    downloadProgress,
+    playbackRate,
+    seek,
     stop,
   };
 }
@@ -103,6 +103,11 @@ export default {
     tapToRecord: "Tap to record",
     holdToRecord: "Hold to record voice message",
     slideToCancel: "Slide to cancel",
+    pauseRecording: "Pause recording",
+    resumeRecording: "Resume recording",
+    stopRecording: "Stop recording",
+    trimFailed: "Couldn't trim the recording, so it wasn't sent",
+    discardRecording: "Delete recording",
     audioUnavailable: "Audio unavailable",
     recordingUnavailableDuringCall: "Recording unavailable during a call",
     recordingFailed: "Failed to start recording",
@@ -122,6 +127,17 @@ export default {
     editMessage: "Edit Message",
     deleteMessage: "Delete Message",
     deleteConfirm: "Are you sure you want to delete this message?",
+    select: "Select",
+    selectedCount: "{{count}} selected",
+    deleteMessages: "Delete Messages",
+    deleteMessagesConfirm:
+      "Are you sure you want to delete the selected messages?",
+    deleteForMe: "Delete for me",
+    deleteForEveryone: "Delete for everyone",
+    deleteForEveryoneFailed:
+      "Couldn't delete for everyone. The message was removed from this device only",
+    deleteForEveryoneExpired:
+      "Messages can only be deleted for everyone within {{hours}} hours of sending.",
     online: "online",
     members: "members",
     deleteChat: "Delete Chat",
@@ -131,21 +147,58 @@ export default {
     photo: "Photo",
     video: "Video",
     voiceMessage: "Voice message",
+    videoNote: "Video message",
     reply: "Reply",
-    tapToLoad: "Tap to load",
+    tapToDownload: "Tap to download",
     searchMessages: "Search messages",
     noMessagesFound: "No messages found",
     messagesFound: "{{count}} found",
     copy: "Copy",
     copied: "Copied to clipboard",
     edited: "edited",
+    editHistory: "Edit history",
+    currentVersion: "Current",
+    originalVersion: "Original",
+    editHistoryUnavailable: "Could not load the full edit history",
     forward: "Forward",
     forwardTo: "Forward to",
     selectChat: "Select chat",
     messageForwarded: "Message forwarded",
     forwardTextOnly: "Only text messages can be forwarded",
+    forwardedFrom: "Forwarded from",
+    thread: "Thread",
+    viewThread: "View replies",
+    replyCount: "Replies: {{count}}",
+    noReplies: "No replies yet",
+    threadUnavailable: "Could not load all replies",
+    originalNotFound: "The original message is no longer available",
+    jumpSearching: "Looking for the message...",
+    jumpNotFound: "Couldn't find the message",
+    jumpFailed:
+      "Couldn't load older messages. Check your connection and try again",
+    linksRestricted: "Members can't send links in this group",
+    mediaRestricted: "Members can't send media in this group",
+    slowModeWait: "Slow mode is on. You can send again in {{time}}",
+    slowModeActive: "Slow mode is on. You can't send another message yet",
+    slowModeOneMessage: "Slow mode is on. Forward one message at a time",
+    forwardedHiddenSender: "hidden user",
     readMore: "Read more",
     collapse: "Collapse",
+    pin: "Pin",
+    unpin: "Unpin",
+    pinnedMessage: "Pinned message",
+    pinnedMessageCount: "Pinned message {{current}} of {{total}}",
+    decryptionFailed: "Unable to decrypt this message",
+    removeLinkPreview: "Remove link preview",
+    file: "File",
+    album: "Album",
+    fileShareUnavailable: "Sharing is not available on this device",
+    fileDownloadFailed: "Failed to download the file",
+    saveMedia: "Save",
+    mediaSaved: "Saved to gallery: {{count}}",
+    mediaSaveFailed: "Could not save the media",
+    saveMediaPermission:
+      "Allow access to your photos to save media to the gallery.",
   },
   settings: {
     title: "Settings",
@@ -156,7 +209,11 @@ export default {
     english: "English",
     russian: "Russian",
     notifications: "Notifications",
+    dataStorage: "Data & Storage",
     privacy: "Privacy & Security",
+    hideForwardedName: "Hide my name in forwards",
+    hideForwardedNameHint:
+      "Messages you send that others forward won't link to your account.",
     help: "Help & Support",
     about: "About Shepot",
     version: "Version",
@@ -188,11 +245,22 @@ export default {
     email: "Email",
     sendMessage: "Send Message",
     noBio: "No information provided",
+    encryption: "Encryption",
+    safetyNumberHint:
+      "Compare these numbers with {{name}} in person. If they match, your messages are end-to-end encrypted and nobody in between can read them.",
+    encryptionUnavailable: "This user has not set up encryption yet",
+    verified: "Verified",
+    notVerified: "Not verified",
+    markAsVerified: "Mark as Verified",
+    clearVerification: "Clear Verification",
   },
   media: {
     openCamera: "Take Photo",
     chooseFromGallery: "Choose from Gallery",
     chooseVideo: "Choose Video",
+    recordVideoNote: "Record Video Message",
+    videoNoteHint: "Tap to record, up to 1 minute",
+    chooseFile: "Choose File",
     cancel: "Cancel",
     permissionRequired: "Permission Required",
     cameraPermission: "Camera access is required to take photos",
@@ -211,9 +279,13 @@ export default {
     invalidCredentials: "Invalid email or password",
     fileTooLarge: "File Too Large",
     fileSizeLimit: "The selected video exceeds the maximum file size of {{size}}MB. Please choose a smaller video.",
+    documentSizeLimit:
+      "The selected file exceeds the maximum size of {{size}}MB.",
     permissionDenied: "Permission Denied",
     mediaLibraryPermissionRequired: "Please allow access to your photo library in Settings to select videos.",
     cameraPermissionRequired: "Please allow access to your camera in Settings to take photos.",
+    videoNotePermissionRequired:
+      "Please allow access to your camera and microphone in Settings to record video messages.",
     videoPickerError: "Could not select video",
     error: "Error",
   },
@@ -267,6 +339,56 @@ export default {
     leaveAsCreatorConfirm: "You are the group creator. Ownership will be transferred to {{name}} when you leave. Continue?",
     selectMembers: "Select members",
     noMoreContacts: "All contacts are already added",
+    inviteLinks: "Invite Links",
+    invitation: "Invitation",
+    createLink: "Create Link",
+    newInviteLink: "New invite link",
+    expiresIn: "Expires in",
+    expiryHours: "{{count}} h",
+    expiryDays: "{{count}} d",
+    never: "Never",
+    usageLimit: "Usage limit",
+    unlimited: "No limit",
+    requireApproval: "Approve new members",
+    requireApprovalHint: "Admins review join requests before people can join.",
+    shareLink: "Share Link",
+    copyLink: "Copy Link",
+    revoke: "Revoke",
+    revokeLink: "Revoke Link",
+    revokeLinkConfirm: "People will no longer be able to join with this link.",
+    linkRevoked: "Revoked",
+    linkExpired: "Expired",
+    expiresAt: "Expires {{date}}",
+    linkUses: "Joined: {{count}}",
+    linkUsesOfLimit: "Joined: {{count}} of {{limit}}",
+    approvalRequired: "Approval required",
+    joinRequests: "Join Requests",
+    approve: "Approve",
+    decline: "Decline",
+    joinGroup: "Join Group",
+    requestToJoin: "Request to Join",
+    openGroup: "Open Group",
+    approvalRequiredHint: "An admin needs to approve your request.",
+    joinRequestSent: "Request sent. You'll join once an admin approves it.",
+    inviteInvalid: "Invite link unavailable",
+    inviteInvalidHint:
+      "This link has expired, reached its limit or been revoked.",
+    permissions: "Member Permissions",
+    membersCanSendMedia: "Send media",
+    membersCanSendLinks: "Send links",
+    slowMode: "Slow mode",
+    slowModeOff: "Off",
+    slowModeSeconds: "{{count}} sec",
+    slowModeMinutes: "{{count}} min",
+    slowModeHours: "{{count}} h",
+    adminRights: "Admin Rights",
+    rights: {
+      changeInfo: "Edit group info",
+      addMembers: "Add members",
+      removeMembers: "Remove members",
+      pinMessages: "Pin messages",
+      deleteMessages: "Delete others' messages",
+    },
   },
   system: {
     groupCreated: "{{name}} created the group",
@@ -290,5 +412,112 @@ export default {
     openSettings: "Open Settings to enable",
     notSupported: "Push notifications are not supported on web",
     requiresDevice: "Push notifications require a physical device",
+    mute: "Mute",
+    notMuted: "Off",
+    mutedForever: "Forever",
+    mutedUntil: "Until {{time}}",
+    muteOneHour: "Mute for 1 hour",
+    muteEightHours: "Mute for 8 hours",
+    muteForever: "Mute forever",
+    unmute: "Unmute",
+    mentionsOnly: "Mentions only",
+    sound: "Sound",
+    defaultSound: "Default",
+    useDefaultSound: "Use default sound",
+    soundsSection: "Sounds",
+    sounds: {
+      default: "Note",
+      chime: "Chime",
+      pop: "Pop",
+      none: "Silent",
+    },
+    privateChats: "Private chats",
+    groups: "Groups",
+    quietHours: "Quiet Hours",
+    quietHoursEnabled: "Quiet hours",
+    from: "From",
+    to: "To",
+    quietHoursHint: "Notifications arrive without sound during quiet hours",
+  },
+  schedule: {
+    title: "Scheduled Messages",
+    inOneHour: "In 1 hour",
+    tonight: "Tonight",
+    tomorrowMorning: "Tomorrow morning",
+    pickDateTime: "Pick date and time",
+    schedule: "Schedule",
+    willBeSentAt: "Will be sent {{time}}",
+    count: "Scheduled messages: {{count}}",
+    sendNow: "Send Now",
+    reschedule: "Change Time",
+    cancelMessage: "Cancel Message",
+    empty: "No scheduled messages",
+    emptyHint: "Long-press the send or attach button to schedule a message",
+  },
+  dataStorage: {
+    uploadQuality: "Photo & Video Quality",
+    uploadQualityHint:
+      "Photos are always sent without location data. Videos keep it only at Original quality. Lower quality saves mobile data.",
+    presets: {
+      original: "Original",
+      hd: "HD",
+      economy: "Data Saver",
+    },
+    presetHints: {
+      original: "Full resolution, videos sent as recorded with their location",
+      hd: "Photos up to 2560 px, videos in 720p",
+      economy: "Photos up to 1280 px, videos in 360p",
+    },
+    autoDownload: {
+      wifi: "Auto-download on Wi-Fi",
+      cellular: "Auto-download on Mobile Data",
+      roaming: "Auto-download when Roaming",
+      hint: "Media that is not downloaded automatically shows its size. Tap it to download.",
+      types: {
+        photo: "Photos",
+        video: "Videos",
+        voice: "Voice messages",
+      },
+      off: "Off",
+      anySize: "Any size",
+      upTo: "Up to {{size}}",
+      resetHomeNetwork: "Reset home network",
+      homeNetworkReset:
+        "The mobile network you are on now counts as your home network",
+    },
+    linkPreviews: {
+      title: "Link Previews",
+      privateChats: "Previews in private chats",
+      hint: "Private chats are end-to-end encrypted, so their links are never sent to the server. With this on, your device loads the linked page itself, which lets that site see your IP address.",
+    },
+  },
+  storage: {
+    section: "Storage",
+    title: "Storage Usage",
+    total: "Used on this device",
+    limits: "Cache Limits",
+    sizeLimit: "Maximum cache size",
+    retention: "Keep media",
+    noLimit: "No limit",
+    retentionDays: "{{count}} days",
+    forever: "Forever",
+    limitsHint:
+      "The oldest media is removed first. Removed media can be downloaded again.",
+    byType: "Media Types",
+    byChat: "Chats",
+    types: {
+      photo: "Photos",
+      video: "Videos",
+      voice: "Voice messages",
+      other: "Files",
+    },
+    messages: "Messages",
+    chatBreakdown: "Media {{media}} · Messages {{messages}}",
+    unknownChat: "Chat",
+    clear: "Clear",
+    clearTypeConfirm:
+      "Remove cached {{type}} ({{size}}) from this device? They can be downloaded again.",
+    clearChatConfirm:
+      'Remove cached media of "{{name}}" ({{size}}) from this device?',
   },
 };
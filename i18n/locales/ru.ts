@@ -103,6 +103,11 @@ export default {
     tapToRecord: "Нажмите для записи",
     holdToRecord: "Удерживайте для записи голосового сообщения",
     slideToCancel: "Сдвиньте для отмены",
+    pauseRecording: "Приостановить запись",
+    resumeRecording: "Продолжить запись",
+    stopRecording: "Остановить запись",
+    trimFailed: "Не удалось обрезать запись, поэтому она не отправлена",
+    discardRecording: "Удалить запись",
     audioUnavailable: "Аудио недоступно",
     recordingUnavailableDuringCall: "Запись недоступна во время звонка",
     recordingFailed: "Не удалось начать запись",
@@ -122,6 +127,17 @@ export default {
     editMessage: "Редактировать сообщение",
     deleteMessage: "Удалить сообщение",
     deleteConfirm: "Вы уверены, что хотите удалить это сообщение?",
+    select: "Выбрать",
+    selectedCount: "Выбрано: {{count}}",
+    deleteMessages: "Удалить сообщения",
+    deleteMessagesConfirm:
+      "Вы уверены, что хотите удалить выбранные сообщения?",
+    deleteForMe: "Удалить у меня",
+    deleteForEveryone: "Удалить у всех",
+    deleteForEveryoneFailed:
+      "Не удалось удалить у всех. Сообщение удалено только на этом устройстве",
+    deleteForEveryoneExpired:
+      "Удалить у всех можно только в течение {{hours}} ч после отправки.",
     online: "в сети",
     members: "участников",
     deleteChat: "Удалить чат",
@@ -131,21 +147,60 @@ export default {
     photo: "Фото",
     video: "Видео",
     voiceMessage: "Голосовое сообщение",
+    videoNote: "Видеосообщение",
     reply: "Ответить",
-    tapToLoad: "Нажмите для загрузки",
+    tapToDownload: "Нажмите, чтобы скачать",
     searchMessages: "Поиск сообщений",
     noMessagesFound: "Сообщения не найдены",
     messagesFound: "{{count}} найдено",
     copy: "Копировать",
     copied: "Скопировано в буфер обмена",
     edited: "изменено",
+    editHistory: "История изменений",
+    currentVersion: "Текущая версия",
+    originalVersion: "Исходная версия",
+    editHistoryUnavailable: "Не удалось загрузить полную историю изменений",
     forward: "Переслать",
     forwardTo: "Переслать в",
     selectChat: "Выберите чат",
     messageForwarded: "Сообщение переслано",
     forwardTextOnly: "Можно пересылать только текстовые сообщения",
+    forwardedFrom: "Переслано от",
+    thread: "Ветка",
+    viewThread: "Показать ответы",
+    replyCount: "Ответов: {{count}}",
+    noReplies: "Ответов пока нет",
+    threadUnavailable: "Не удалось загрузить все ответы",
+    originalNotFound: "Исходное сообщение больше недоступно",
+    jumpSearching: "Ищем сообщение...",
+    jumpNotFound: "Не удалось найти сообщение",
+    jumpFailed:
+      "Не удалось загрузить более ранние сообщения. Проверьте подключение и попробуйте ещё раз",
+    linksRestricted: "Участникам этой группы нельзя отправлять ссылки",
+    mediaRestricted: "Участникам этой группы нельзя отправлять медиа",
+    slowModeWait: "Включён медленный режим. Следующее сообщение через {{time}}",
+    slowModeActive:
+      "Включён медленный режим. Отправить следующее сообщение пока нельзя",
+    slowModeOneMessage:
+      "Включён медленный режим. Пересылайте по одному сообщению",
+    forwardedHiddenSender: "скрытого пользователя",
     readMore: "Читать полностью",
     collapse: "Свернуть",
+    pin: "Закрепить",
+    unpin: "Открепить",
+    pinnedMessage: "Закреплённое сообщение",
+    pinnedMessageCount: "Закреплённое сообщение {{current}} из {{total}}",
+    decryptionFailed: "Не удалось расшифровать сообщение",
+    removeLinkPreview: "Убрать предпросмотр ссылки",
+    file: "Файл",
+    album: "Альбом",
+    fileShareUnavailable: "Отправка файлов недоступна на этом устройстве",
+    fileDownloadFailed: "Не удалось загрузить файл",
+    saveMedia: "Сохранить",
+    mediaSaved: "Сохранено в галерею: {{count}}",
+    mediaSaveFailed: "Не удалось сохранить медиафайлы",
+    saveMediaPermission:
+      "Разрешите доступ к фото, чтобы сохранять медиафайлы в галерею.",
   },
   settings: {
     title: "Настройки",
@@ -156,7 +211,11 @@ export default {
     english: "Английский",
     russian: "Русский",
     notifications: "Уведомления",
+    dataStorage: "Данные и память",
     privacy: "Конфиденциальность",
+    hideForwardedName: "Скрывать имя при пересылке",
+    hideForwardedNameHint:
+      "Пересланные другими ваши сообщения не будут ссылаться на ваш аккаунт.",
     help: "Помощь и поддержка",
     about: "О приложении",
     version: "Версия",
@@ -188,11 +247,22 @@ export default {
     email: "Email",
     sendMessage: "Написать сообщение",
     noBio: "Информация отсутствует",
+    encryption: "Шифрование",
+    safetyNumberHint:
+      "Сравните эти числа с собеседником ({{name}}) при личной встрече. Если они совпадают, ваши сообщения защищены сквозным шифрованием и никто посередине не может их прочитать.",
+    encryptionUnavailable: "Пользователь ещё не настроил шифрование",
+    verified: "Подтверждено",
+    notVerified: "Не подтверждено",
+    markAsVerified: "Отметить как подтверждённый",
+    clearVerification: "Сбросить подтверждение",
   },
   media: {
     openCamera: "Сделать фото",
     chooseFromGallery: "Выбрать из галереи",
     chooseVideo: "Выбрать видео",
+    recordVideoNote: "Записать видеосообщение",
+    videoNoteHint: "Нажмите для записи, до 1 минуты",
+    chooseFile: "Выбрать файл",
     cancel: "Отмена",
     permissionRequired: "Требуется разрешение",
     cameraPermission: "Для съёмки фото необходим доступ к камере",
@@ -211,9 +281,13 @@ export default {
     invalidCredentials: "Неверный email или пароль",
     fileTooLarge: "Файл слишком большой",
     fileSizeLimit: "Выбранное видео превышает максимальный размер {{size}}МБ. Пожалуйста, выберите видео меньшего размера.",
+    documentSizeLimit:
+      "Выбранный файл превышает максимальный размер {{size}}МБ.",
     permissionDenied: "Доступ запрещён",
     mediaLibraryPermissionRequired: "Разрешите доступ к медиатеке в Настройках для выбора видео.",
     cameraPermissionRequired: "Разрешите доступ к камере в Настройках для съёмки фото.",
+    videoNotePermissionRequired:
+      "Разрешите доступ к камере и микрофону в Настройках, чтобы записывать видеосообщения.",
     videoPickerError: "Не удалось выбрать видео",
     error: "Ошибка",
   },
@@ -267,6 +341,57 @@ export default {
     leaveAsCreatorConfirm: "Вы создатель группы. При выходе права владельца будут переданы {{name}}. Продолжить?",
     selectMembers: "Выберите участников",
     noMoreContacts: "Все контакты уже добавлены",
+    inviteLinks: "Пригласительные ссылки",
+    invitation: "Приглашение",
+    createLink: "Создать ссылку",
+    newInviteLink: "Новая пригласительная ссылка",
+    expiresIn: "Срок действия",
+    expiryHours: "{{count}} ч",
+    expiryDays: "{{count}} дн.",
+    never: "Бессрочно",
+    usageLimit: "Лимит использований",
+    unlimited: "Без лимита",
+    requireApproval: "Одобрять новых участников",
+    requireApprovalHint: "Администраторы проверяют заявки перед вступлением.",
+    shareLink: "Поделиться ссылкой",
+    copyLink: "Скопировать ссылку",
+    revoke: "Отозвать",
+    revokeLink: "Отозвать ссылку",
+    revokeLinkConfirm: "По этой ссылке больше нельзя будет вступить.",
+    linkRevoked: "Отозвана",
+    linkExpired: "Истекла",
+    expiresAt: "Действует до {{date}}",
+    linkUses: "Вступило: {{count}}",
+    linkUsesOfLimit: "Вступило: {{count}} из {{limit}}",
+    approvalRequired: "Нужно одобрение",
+    joinRequests: "Заявки на вступление",
+    approve: "Одобрить",
+    decline: "Отклонить",
+    joinGroup: "Вступить в группу",
+    requestToJoin: "Подать заявку",
+    openGroup: "Открыть группу",
+    approvalRequiredHint: "Администратор должен одобрить вашу заявку.",
+    joinRequestSent:
+      "Заявка отправлена. Вы вступите после одобрения администратором.",
+    inviteInvalid: "Ссылка недоступна",
+    inviteInvalidHint:
+      "Срок действия ссылки истёк, лимит исчерпан или она отозвана.",
+    permissions: "Права участников",
+    membersCanSendMedia: "Отправка медиа",
+    membersCanSendLinks: "Отправка ссылок",
+    slowMode: "Медленный режим",
+    slowModeOff: "Выкл.",
+    slowModeSeconds: "{{count}} сек",
+    slowModeMinutes: "{{count}} мин",
+    slowModeHours: "{{count}} ч",
+    adminRights: "Права администратора",
+    rights: {
+      changeInfo: "Изменение информации",
+      addMembers: "Добавление участников",
+      removeMembers: "Удаление участников",
+      pinMessages: "Закрепление сообщений",
+      deleteMessages: "Удаление чужих сообщений",
+    },
   },
   system: {
     groupCreated: "{{name}} создал группу",
@@ -290,5 +415,112 @@ export default {
     openSettings: "Откройте настройки для включения",
     notSupported: "Push-уведомления не поддерживаются в браузере",
     requiresDevice: "Push-уведомления требуют физическое устройство",
+    mute: "Без звука",
+    notMuted: "Выкл.",
+    mutedForever: "Навсегда",
+    mutedUntil: "До {{time}}",
+    muteOneHour: "Отключить на 1 час",
+    muteEightHours: "Отключить на 8 часов",
+    muteForever: "Отключить навсегда",
+    unmute: "Включить уведомления",
+    mentionsOnly: "Только упоминания",
+    sound: "Звук",
+    defaultSound: "По умолчанию",
+    useDefaultSound: "Звук по умолчанию",
+    soundsSection: "Звуки",
+    sounds: {
+      default: "Нота",
+      chime: "Перезвон",
+      pop: "Щелчок",
+      none: "Без звука",
+    },
+    privateChats: "Личные чаты",
+    groups: "Группы",
+    quietHours: "Тихие часы",
+    quietHoursEnabled: "Тихие часы",
+    from: "С",
+    to: "До",
+    quietHoursHint: "В тихие часы уведомления приходят без звука",
+  },
+  schedule: {
+    title: "Отложенные сообщения",
+    inOneHour: "Через час",
+    tonight: "Сегодня вечером",
+    tomorrowMorning: "Завтра утром",
+    pickDateTime: "Выбрать дату и время",
+    schedule: "Запланировать",
+    willBeSentAt: "Будет отправлено {{time}}",
+    count: "Отложенные сообщения: {{count}}",
+    sendNow: "Отправить сейчас",
+    reschedule: "Изменить время",
+    cancelMessage: "Отменить сообщение",
+    empty: "Нет отложенных сообщений",
+    emptyHint:
+      "Удерживайте кнопку отправки или вложения, чтобы запланировать сообщение",
+  },
+  dataStorage: {
+    uploadQuality: "Качество фото и видео",
+    uploadQualityHint:
+      "Фото всегда отправляются без геолокации. Видео сохраняют её только в качестве «Оригинал». Более низкое качество экономит мобильный трафик.",
+    presets: {
+      original: "Оригинал",
+      hd: "HD",
+      economy: "Экономия трафика",
+    },
+    presetHints: {
+      original:
+        "Полное разрешение, видео отправляются как есть, вместе с геолокацией",
+      hd: "Фото до 2560 пикс., видео в 720p",
+      economy: "Фото до 1280 пикс., видео в 360p",
+    },
+    autoDownload: {
+      wifi: "Автозагрузка по Wi-Fi",
+      cellular: "Автозагрузка по мобильной сети",
+      roaming: "Автозагрузка в роуминге",
+      hint: "Для медиа, которые не загрузились автоматически, показывается размер. Нажмите, чтобы скачать.",
+      types: {
+        photo: "Фото",
+        video: "Видео",
+        voice: "Голосовые сообщения",
+      },
+      off: "Выкл.",
+      anySize: "Любой размер",
+      upTo: "До {{size}}",
+      resetHomeNetwork: "Сбросить домашнюю сеть",
+      homeNetworkReset: "Текущая мобильная сеть теперь считается домашней",
+    },
+    linkPreviews: {
+      title: "Предпросмотр ссылок",
+      privateChats: "Предпросмотр в личных чатах",
+      hint: "Личные чаты защищены сквозным шифрованием, поэтому ссылки из них не отправляются на сервер. Если включить эту настройку, устройство само загрузит страницу, и сайт увидит ваш IP-адрес.",
+    },
+  },
+  storage: {
+    section: "Память",
+    title: "Использование памяти",
+    total: "Занято на устройстве",
+    limits: "Ограничения кэша",
+    sizeLimit: "Максимальный размер кэша",
+    retention: "Хранить медиа",
+    noLimit: "Без ограничений",
+    retentionDays: "{{count}} дн.",
+    forever: "Всегда",
+    limitsHint:
+      "Сначала удаляются самые старые файлы. Удалённые медиа можно загрузить снова.",
+    byType: "Типы медиа",
+    byChat: "Чаты",
+    types: {
+      photo: "Фото",
+      video: "Видео",
+      voice: "Голосовые сообщения",
+      other: "Файлы",
+    },
+    messages: "Сообщения",
+    chatBreakdown: "Медиа {{media}} · Сообщения {{messages}}",
+    unknownChat: "Чат",
+    clear: "Очистить",
+    clearTypeConfirm:
+      "Удалить из кэша: {{type}} ({{size}})? Их можно будет загрузить снова.",
+    clearChatConfirm: "Удалить медиа чата «{{name}}» ({{size}}) из кэша?",
   },
 };
@@ -10,6 +10,9 @@ import { CreateGroupScreen } from "@/screens/chats/CreateGroupScreen";
 import { GroupInfoScreen } from "@/screens/chats/GroupInfoScreen";
 import { AddGroupMembersScreen } from "@/screens/chats/AddGroupMembersScreen";
 import ForwardMessageScreen from "@/screens/chats/ForwardMessageScreen";
+import ScheduledMessagesScreen from "@/screens/chats/ScheduledMessagesScreen";
+import GroupInvitesScreen from "@/screens/chats/GroupInvitesScreen";
+import GroupInvitePreviewScreen from "@/screens/chats/GroupInvitePreviewScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions, getOpaqueHeaderOptions, createBackButton, getModalOptions, getFullScreenModalOptions } from "./screenOptions";
 import { useTranslation } from "react-i18next";
@@ -79,6 +82,15 @@ export default function ChatsNavigator() {
           headerLeft: () => createBackButton(navigation, theme.text),
         })}
       />
+      <Stack.Screen
+        name="ScheduledMessages"
+        component={ScheduledMessagesScreen}
+        options={({ navigation }) => ({
+          ...getOpaqueHeaderOptions({ theme, isDark }),
+          headerTitle: t("schedule.title"),
+          headerLeft: () => createBackButton(navigation, theme.text),
+        })}
+      />
       <Stack.Screen
         name="AddGroupMembers"
         component={AddGroupMembersScreen}
@@ -96,6 +108,23 @@ export default function ChatsNavigator() {
           headerTitle: t("chat.forwardTo"),
         })}
       />
+      <Stack.Screen
+        name="GroupInvites"
+        component={GroupInvitesScreen}
+        options={({ navigation }) => ({
+          ...getOpaqueHeaderOptions({ theme, isDark }),
+          headerTitle: t("group.inviteLinks"),
+          headerLeft: () => createBackButton(navigation, theme.text),
+        })}
+      />
+      <Stack.Screen
+        name="GroupInvitePreview"
+        component={GroupInvitePreviewScreen}
+        options={({ navigation }) => ({
+          ...getModalOptions({ theme, isDark, navigation }),
+          headerTitle: t("group.invitation"),
+        })}
+      />
     </Stack.Navigator>
   );
 }
@@ -5,6 +5,9 @@ import { SettingsStackParamList } from "./types";
 import SettingsScreen from "@/screens/settings/SettingsScreen";
 import EditProfileScreen from "@/screens/settings/EditProfileScreen";
 import LanguageSettingsScreen from "@/screens/settings/LanguageSettingsScreen";
+import NotificationSettingsScreen from "@/screens/settings/NotificationSettingsScreen";
+import DataStorageSettingsScreen from "@/screens/settings/DataStorageSettingsScreen";
+import StorageUsageScreen from "@/screens/settings/StorageUsageScreen";
 import LegalScreen from "@/screens/settings/LegalScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getOpaqueHeaderOptions, createBackButton } from "./screenOptions";
@@ -44,6 +47,30 @@ export default function SettingsNavigator() {
           headerLeft: () => createBackButton(navigation, theme.text),
         })}
       />
+      <Stack.Screen
+        name="NotificationSettings"
+        component={NotificationSettingsScreen}
+        options={({ navigation }) => ({
+          title: t("settings.notifications"),
+          headerLeft: () => createBackButton(navigation, theme.text),
+        })}
+      />
+      <Stack.Screen
+        name="DataStorageSettings"
+        component={DataStorageSettingsScreen}
+        options={({ navigation }) => ({
+          title: t("settings.dataStorage"),
+          headerLeft: () => createBackButton(navigation, theme.text),
+        })}
+      />
+      <Stack.Screen
+        name="StorageUsage"
+        component={StorageUsageScreen}
+        options={({ navigation }) => ({
+          title: t("storage.title"),
+          headerLeft: () => createBackButton(navigation, theme.text),
+        })}
+      />
       <Stack.Screen
         name="Legal"
         component={LegalScreen}
@@ -0,0 +1,25 @@
+import * as Linking from "expo-linking";
+import { LinkingOptions } from "@react-navigation/native";
+import { RootStackParamList } from "./types";
+
+export function getInviteLink(token: string): string {
+  return Linking.createURL(`join/${token}`);
+}
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL("/")],
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          ChatsStack: {
+            initialRouteName: "ChatsList",
+            screens: {
+              GroupInvitePreview: "join/:token",
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -1,4 +1,10 @@
-import { Contact, Chat } from "@/store/types";
+import {
+  Contact,
+  Chat,
+  MessageFile,
+  MessageAttachment,
+  ForwardedFrom,
+} from "@/store/types";
 
 export type RootStackParamList = {
   Auth: undefined;
@@ -30,24 +36,44 @@ export type ChatsStackParamList = {
     memberCount?: number;
     groupParticipants?: Contact[];
   };
-  MediaViewer: { uri: string; type: "photo" | "video" };
+  MediaViewer: {
+    uri: string;
+    type: "photo" | "video";
+    items?: { uri: string; type: "photo" | "video" }[];
+    initialIndex?: number;
+  };
   AddContact: undefined;
   UserProfile: { user: Contact };
   CreateGroup: undefined;
   GroupInfo: { chatId: string };
+  ScheduledMessages: { chatId: string };
   AddGroupMembers: { chatId: string; existingMemberIds: number[] };
-  ForwardMessage: { 
-    messageContent: string;
-    messageType: "text" | "image" | "video" | "voice";
-    mediaUrl?: string;
-    mediaUri?: string;
-    audioDuration?: number;
-  };
+  GroupInvites: { chatId: string };
+  GroupInvitePreview: { token: string };
+  ForwardMessage: { messages: ForwardMessageItem[] };
+};
+
+export type ForwardMessageItem = {
+  messageContent: string;
+  messageType: "text" | "image" | "video" | "voice" | "file" | "album";
+  mediaUrl?: string;
+  mediaUri?: string;
+  audioDuration?: number;
+  waveform?: number[];
+  isVideoNote?: boolean;
+  file?: MessageFile;
+  attachments?: MessageAttachment[];
+  /** Shown until the server returns the attribution it stored. */
+  forwardedFrom?: ForwardedFrom;
+  sourceMessageId?: string;
 };
 
 export type SettingsStackParamList = {
   SettingsMain: undefined;
   EditProfile: undefined;
   LanguageSettings: undefined;
+  NotificationSettings: undefined;
+  DataStorageSettings: undefined;
+  StorageUsage: undefined;
   Legal: { type: "privacy" | "terms" };
 };
@@ -1,13 +1,25 @@
 import React, { useCallback, useLayoutEffect, useState, useEffect, useRef, useMemo } from "react";
-import { View, StyleSheet, FlatList, KeyboardAvoidingView, Platform, Alert, ActionSheetIOS, Pressable, TouchableOpacity, ActivityIndicator, TextInput } from "react-native";
+import { View, StyleSheet, FlatList, KeyboardAvoidingView, Platform, Alert, ActionSheetIOS, Pressable, TouchableOpacity, ActivityIndicator, TextInput, ViewToken } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { useFocusEffect } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { HeaderButton } from "@react-navigation/elements";
-import { ChatsStackParamList } from "@/navigation/types";
-import { Message } from "@/store/types";
+import { ChatsStackParamList, ForwardMessageItem } from "@/navigation/types";
+import {
+  Message,
+  MessageMention,
+  MessageFile,
+  MessageAttachment,
+  GroupMember,
+  ForwardedFrom,
+  QUICK_REACTIONS,
+  hasGroupRight,
+  getMemberRestrictions,
+} from "@/store/types";
 import { MessageBubble } from "@/components/MessageBubble";
 import { MessageInput } from "@/components/MessageInput";
+import { isMentioned } from "@/components/MentionText";
 import { MediaPicker } from "@/components/MediaPicker";
 import { SystemMessage } from "@/components/SystemMessage";
 import { Avatar } from "@/components/Avatar";
@@ -16,16 +28,34 @@ import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
 import { useChatsContext } from "@/contexts/ChatsContext";
 import { useWebSocket } from "@/contexts/WebSocketContext";
-import { useMessages, useOnlineStatus } from "@/hooks/useChats";
+import {
+  useMessages,
+  useOnlineStatus,
+  useScheduledMessages,
+  useLastSentAt,
+} from "@/hooks/useChats";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTranslation } from "react-i18next";
 import { messageQueue } from "@/services/messageQueue";
 import { notificationSoundService } from "@/services/notificationSound";
 import { apiService } from "@/services/api";
 import { welcomeChatService } from "@/services/welcomeChat";
+import {
+  deletedMessagesService,
+  DELETE_FOR_EVERYONE_HOURS,
+} from "@/services/deletedMessagesService";
+import { listenedMessagesService } from "@/services/listenedMessages";
+import { voicePlaybackService } from "@/services/voicePlayback";
+import { mediaSaveService } from "@/services/mediaSave";
 import * as Clipboard from "expo-clipboard";
+import { PinnedMessageBanner } from "@/components/PinnedMessageBanner";
 import { MessageActionSheet, ActionItem } from "@/components/MessageActionSheet";
+import { ChoiceDialog, DialogChoice } from "@/components/ChoiceDialog";
 import { SearchBar } from "@/components/SearchBar";
+import { ScheduleTimeSheet } from "@/components/ScheduleTimeSheet";
+import { EditHistorySheet } from "@/components/EditHistorySheet";
+import { ThreadSheet } from "@/components/ThreadSheet";
+import { VideoNoteRecorder } from "@/components/VideoNoteRecorder";
 
 type Props = NativeStackScreenProps<ChatsStackParamList, "Chat">;
 
@@ -37,6 +67,10 @@ type DateSeparator = {
 
 type ListItem = Message | DateSeparator;
 
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
+/** Older pages loaded while looking for a message before giving up. */
+const JUMP_PAGE_LIMIT = 20;
+
 function isSameDay(date1: Date, date2: Date): boolean {
   return date1.toDateString() === date2.toDateString();
 }
@@ -46,7 +80,14 @@ export default function ChatScreen({ route, navigation }: Props) {
   const { theme } = useTheme();
   const { user } = useAuth();
   const { t } = useTranslation();
-  const { markAsRead, setActiveChat, updateChatLastMessage } = useChatsContext();
+  const {
+    chats,
+    markAsRead,
+    setActiveChat,
+    updateChatLastMessage,
+    pinMessage,
+    unpinMessage,
+  } = useChatsContext();
   const { isOnline, checkUserOnline, refreshOnlineStatus } = useOnlineStatus();
   const [showMediaPicker, setShowMediaPicker] = useState(false);
   const [editingMessage, setEditingMessage] = useState<Message | null>(null);
@@ -58,23 +99,93 @@ export default function ChatScreen({ route, navigation }: Props) {
   const [dynamicMemberCount, setDynamicMemberCount] = useState<number>(memberCount || groupParticipants?.length || 0);
   
   const participantCount = isGroup ? dynamicMemberCount : 2;
-  const { messages, sendMessage, editMessage, deleteMessage, hideMessageLocally, typingUsers, sendTypingIndicator, loadMoreMessages, isLoadingMore, hasMoreMessages, chatDeleted } = useMessages(chatId, updateChatLastMessage, participantCount);
+  const insets = useSafeAreaInsets();
+  const {
+    messages,
+    sendMessage,
+    sendFile,
+    sendAlbum,
+    editMessage,
+    deleteMessages,
+    toggleReaction,
+    typingUsers,
+    sendTypingIndicator,
+    loadMoreMessages,
+    isLoadingMore,
+    hasMoreMessages,
+    chatDeleted,
+  } = useMessages(chatId, updateChatLastMessage, participantCount);
+  const { scheduled } = useScheduledMessages(chatId);
+  const [scheduleSheetVisible, setScheduleSheetVisible] = useState(false);
+  const [videoNoteRecorderVisible, setVideoNoteRecorderVisible] =
+    useState(false);
+  const [scheduledSendAt, setScheduledSendAt] = useState<number | null>(null);
   const [isSearchMode, setIsSearchMode] = useState(false);
   const [actionSheetVisible, setActionSheetVisible] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [editHistoryMessageId, setEditHistoryMessageId] = useState<
+    string | null
+  >(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [jumpPagesLoaded, setJumpPagesLoaded] = useState(0);
+  const [deleteDialog, setDeleteDialog] = useState<{
+    title: string;
+    message: string;
+    choices: DialogChoice[];
+  } | null>(null);
+  const [pinnedPreviews, setPinnedPreviews] = useState<Map<string, Message>>(
+    () => new Map(),
+  );
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<Message[]>([]);
   const [currentSearchIndex, setCurrentSearchIndex] = useState(0);
   const [deletingMessageIds, setDeletingMessageIds] = useState<Set<string>>(new Set());
-  const [deletingMessageOwnership, setDeletingMessageOwnership] = useState<Map<string, boolean>>(new Map());
+  const [deletingForEveryone, setDeletingForEveryone] = useState<
+    Map<string, boolean>
+  >(new Map());
+  const [selectedMessageIds, setSelectedMessageIds] = useState<Set<string>>(
+    new Set(),
+  );
+  const isSelectionMode = selectedMessageIds.size > 0;
   const flatListRef = useRef<FlatList<ListItem>>(null);
   const prevMessagesCountRef = useRef(0);
   const isLoadingMoreRef = useRef(false);
+  const pendingJumpIdRef = useRef<string | null>(null);
+  const isJumpPageLoadingRef = useRef(false);
 
   const displayName = isGroup ? (groupName || "Group") : (participant?.displayName || "Chat");
   const avatarColor = isGroup ? "#10B981" : (participant?.avatarColor || "#0088CC");
   const avatarUrl = isGroup ? dynamicGroupAvatarUrl : participant?.avatarUrl;
   const isWelcomeChat = welcomeChatService.isWelcomeChat(chatId);
+  const currentChat = useMemo(
+    () => chats.find((c) => c.id === chatId),
+    [chats, chatId],
+  );
+  const pinnedMessageIds = currentChat?.pinnedMessageIds;
+  const mentionableMembers = useMemo((): GroupMember[] | undefined => {
+    if (!isGroup || !currentChat?.members) return undefined;
+    return currentChat.members.filter(
+      (m) => m.displayName && (m.visibleId ?? m.id) !== user?.visibleId,
+    );
+  }, [isGroup, currentChat?.members, user?.visibleId]);
+  const initialUnreadMentionsRef = useRef(currentChat?.unreadMentionCount ?? 0);
+  const mentionCursorRef = useRef<string | null>(null);
+  const [pendingMentionIds, setPendingMentionIds] = useState<string[]>([]);
+  const currentMember = currentChat?.members?.find(
+    (m) => m.visibleId === user?.visibleId,
+  );
+  const isGroupOwner = currentChat?.createdBy === user?.visibleId;
+  const canPin =
+    !isWelcomeChat &&
+    (!isGroup || isGroupOwner || hasGroupRight(currentMember, "pinMessages"));
+  const canDeleteOthers =
+    !!isGroup &&
+    (isGroupOwner || hasGroupRight(currentMember, "deleteMessages"));
+  const memberRestrictions = isGroup
+    ? getMemberRestrictions(currentChat, user?.visibleId)
+    : undefined;
+  const lastSentAt = useLastSentAt(chatId);
 
   useFocusEffect(
     useCallback(() => {
@@ -157,6 +268,37 @@ export default function ChatScreen({ route, navigation }: Props) {
     }
   }, [navigation, participant, isGroup, chatId]);
 
+  const handleMentionPress = useCallback(
+    (userId: string) => {
+      const contact =
+        currentChat?.participants?.find((p) => p.id === userId) ??
+        groupParticipants?.find((p) => p.id === userId);
+      if (contact) {
+        navigation.navigate("UserProfile", { user: contact });
+      }
+    },
+    [navigation, currentChat?.participants, groupParticipants],
+  );
+
+  const handleForwardedFromPress = useCallback(
+    (forwardedFrom: ForwardedFrom) => {
+      const { senderId } = forwardedFrom;
+      if (!senderId) return;
+      const contact =
+        currentChat?.participants?.find((p) => p.id === senderId) ??
+        groupParticipants?.find((p) => p.id === senderId) ??
+        chats.find((c) => c.participant?.id === senderId)?.participant;
+      navigation.navigate("UserProfile", {
+        user: contact ?? {
+          id: senderId,
+          displayName: forwardedFrom.senderName || "",
+          avatarColor: "#3B82F6",
+        },
+      });
+    },
+    [navigation, currentChat?.participants, groupParticipants, chats],
+  );
+
   const toggleSearchMode = useCallback(() => {
     if (isSearchMode) {
       setIsSearchMode(false);
@@ -218,7 +360,39 @@ export default function ChatScreen({ route, navigation }: Props) {
 
   const typingText = getTypingText();
 
+  const toggleMessageSelection = useCallback((messageId: string) => {
+    setSelectedMessageIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedMessageIds(new Set());
+  }, []);
+
   useLayoutEffect(() => {
+    if (isSelectionMode) {
+      navigation.setOptions({
+        headerTitle: () => (
+          <ThemedText style={styles.headerName}>
+            {t("chat.selectedCount", { count: selectedMessageIds.size })}
+          </ThemedText>
+        ),
+        headerRight: () => (
+          <HeaderButton onPress={clearSelection}>
+            <Feather name="x" size={24} color={theme.text} />
+          </HeaderButton>
+        ),
+      });
+      return;
+    }
+
     navigation.setOptions({
       headerTitle: () => (
         <TouchableOpacity 
@@ -263,7 +437,26 @@ export default function ChatScreen({ route, navigation }: Props) {
         </HeaderButton>
       ),
     });
-  }, [navigation, participant, isGroup, groupParticipants, dynamicMemberCount, theme, displayName, avatarColor, avatarUrl, participantOnline, t, handleHeaderPress, typingText, isSearchMode, toggleSearchMode]);
+  }, [
+    navigation,
+    participant,
+    isGroup,
+    groupParticipants,
+    dynamicMemberCount,
+    theme,
+    displayName,
+    avatarColor,
+    avatarUrl,
+    participantOnline,
+    t,
+    handleHeaderPress,
+    typingText,
+    isSearchMode,
+    toggleSearchMode,
+    isSelectionMode,
+    selectedMessageIds.size,
+    clearSelection,
+  ]);
 
   const shouldScrollRef = useRef(false);
 
@@ -279,35 +472,123 @@ export default function ChatScreen({ route, navigation }: Props) {
   }, []);
 
   const handleSend = useCallback(
-    async (text: string) => {
+    async (
+      text: string,
+      mentions?: MessageMention[],
+      linkPreviewDisabled?: boolean,
+    ) => {
       const replyToId = replyingToMessage?.id;
+      const sendAt = scheduledSendAt ?? undefined;
       setReplyingToMessage(null);
-      await sendMessage(text, undefined, undefined, undefined, replyToId);
+      setScheduledSendAt(null);
+      await sendMessage(
+        text,
+        undefined,
+        undefined,
+        undefined,
+        replyToId,
+        sendAt,
+        mentions,
+        linkPreviewDisabled,
+      );
       scrollToBottom();
     },
-    [sendMessage, replyingToMessage, scrollToBottom]
+    [sendMessage, replyingToMessage, scrollToBottom, scheduledSendAt],
   );
 
   const handleMediaSelected = useCallback(
     async (uri: string, type: "photo" | "video") => {
       const replyToId = replyingToMessage?.id;
+      const sendAt = scheduledSendAt ?? undefined;
       setReplyingToMessage(null);
-      await sendMessage(undefined, type, uri, undefined, replyToId);
+      setScheduledSendAt(null);
+      await sendMessage(undefined, type, uri, undefined, replyToId, sendAt);
       scrollToBottom();
     },
-    [sendMessage, replyingToMessage, scrollToBottom]
+    [sendMessage, replyingToMessage, scrollToBottom, scheduledSendAt],
+  );
+
+  const handleFileSelected = useCallback(
+    async (uri: string, file: MessageFile) => {
+      const replyToId = replyingToMessage?.id;
+      const sendAt = scheduledSendAt ?? undefined;
+      setReplyingToMessage(null);
+      setScheduledSendAt(null);
+      await sendFile(uri, file, replyToId, sendAt);
+      scrollToBottom();
+    },
+    [sendFile, replyingToMessage, scrollToBottom, scheduledSendAt],
+  );
+
+  const handleAlbumSelected = useCallback(
+    async (attachments: MessageAttachment[]) => {
+      const replyToId = replyingToMessage?.id;
+      const sendAt = scheduledSendAt ?? undefined;
+      setReplyingToMessage(null);
+      setScheduledSendAt(null);
+      await sendAlbum(attachments, replyToId, sendAt);
+      scrollToBottom();
+    },
+    [sendAlbum, replyingToMessage, scrollToBottom, scheduledSendAt],
   );
 
   const handleVoiceMessage = useCallback(
-    async (uri: string, duration: number) => {
+    async (uri: string, duration: number, waveform?: number[]) => {
+      const replyToId = replyingToMessage?.id;
+      const sendAt = scheduledSendAt ?? undefined;
+      setReplyingToMessage(null);
+      setScheduledSendAt(null);
+      await sendMessage(
+        undefined,
+        "audio",
+        uri,
+        duration,
+        replyToId,
+        sendAt,
+        undefined,
+        undefined,
+        waveform,
+      );
+      scrollToBottom();
+    },
+    [sendMessage, replyingToMessage, scrollToBottom, scheduledSendAt],
+  );
+
+  const handleVideoNotePress = useCallback(() => {
+    // The attachment sheet's modal has to finish closing before another
+    // modal can be presented on iOS.
+    setTimeout(() => setVideoNoteRecorderVisible(true), 350);
+  }, []);
+
+  const handleVideoNoteRecorded = useCallback(
+    async (uri: string) => {
       const replyToId = replyingToMessage?.id;
+      const sendAt = scheduledSendAt ?? undefined;
+      setVideoNoteRecorderVisible(false);
       setReplyingToMessage(null);
-      await sendMessage(undefined, "audio", uri, duration, replyToId);
+      setScheduledSendAt(null);
+      await sendMessage(
+        undefined,
+        "video",
+        uri,
+        undefined,
+        replyToId,
+        sendAt,
+        undefined,
+        undefined,
+        undefined,
+        true,
+      );
       scrollToBottom();
     },
-    [sendMessage, replyingToMessage, scrollToBottom]
+    [sendMessage, replyingToMessage, scrollToBottom, scheduledSendAt],
   );
 
+  const handleScheduleSelected = useCallback((sendAt: number) => {
+    setScheduleSheetVisible(false);
+    setScheduledSendAt(sendAt);
+  }, []);
+
   const handleReply = useCallback((message: Message) => {
     setReplyingToMessage(message);
   }, []);
@@ -363,6 +644,31 @@ export default function ChatScreen({ route, navigation }: Props) {
     return items;
   }, [messages]);
 
+  // Continues with the next voice note in the chat the user hasn't heard.
+  const handleVoicePlaybackComplete = useCallback(
+    (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index === -1) return;
+      const next = messages
+        .slice(index + 1)
+        .find(
+          (m) =>
+            (m.type === "voice" || m.mediaType === "audio") &&
+            m.senderId !== user?.id &&
+            !m.isUploading &&
+            !listenedMessagesService.isListened(m.id),
+        );
+      if (next) {
+        voicePlaybackService.requestPlay(next.id);
+      }
+    },
+    [messages, user?.id],
+  );
+
+  useEffect(() => {
+    return () => voicePlaybackService.cancelPlayRequest();
+  }, []);
+
   const scrollToMessage = useCallback((messageId: string) => {
     const index = listItems.findIndex(item => 
       item.type !== "dateSeparator" && item.id === messageId
@@ -378,12 +684,219 @@ export default function ChatScreen({ route, navigation }: Props) {
     }
   }, [listItems]);
 
+  // Unlike scrollToMessage, keeps loading older pages until the message
+  // turns up, e.g. for quotes of messages far back in the history.
+  const jumpToMessage = useCallback(
+    (messageId: string) => {
+      if (messages.some((m) => m.id === messageId)) {
+        scrollToMessage(messageId);
+      } else {
+        setJumpPagesLoaded(0);
+        setPendingJumpId(messageId);
+      }
+    },
+    [messages, scrollToMessage],
+  );
+
+  const cancelJump = useCallback(() => setPendingJumpId(null), []);
+
+  useEffect(() => {
+    pendingJumpIdRef.current = pendingJumpId;
+  }, [pendingJumpId]);
+
+  useEffect(() => {
+    if (!pendingJumpId) return;
+    if (messages.some((m) => m.id === pendingJumpId)) {
+      setPendingJumpId(null);
+      scrollToMessage(pendingJumpId);
+    } else if (!hasMoreMessages) {
+      setPendingJumpId(null);
+      Alert.alert(t("chat.originalNotFound"));
+    } else if (jumpPagesLoaded >= JUMP_PAGE_LIMIT) {
+      setPendingJumpId(null);
+      Alert.alert(t("chat.jumpNotFound"));
+    } else if (!isLoadingMore && !isJumpPageLoadingRef.current) {
+      isJumpPageLoadingRef.current = true;
+      loadMoreMessages().then((loaded) => {
+        isJumpPageLoadingRef.current = false;
+        // The user may have cancelled while the page was loading.
+        if (pendingJumpIdRef.current !== pendingJumpId) return;
+        if (loaded) {
+          setJumpPagesLoaded((count) => count + 1);
+        } else {
+          setPendingJumpId(null);
+          Alert.alert(t("chat.jumpFailed"));
+        }
+      });
+    }
+  }, [
+    pendingJumpId,
+    jumpPagesLoaded,
+    messages,
+    hasMoreMessages,
+    isLoadingMore,
+    loadMoreMessages,
+    scrollToMessage,
+    t,
+  ]);
+
+  const localReplyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const m of messages) {
+      if (m.replyToId) {
+        counts.set(m.replyToId, (counts.get(m.replyToId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [messages]);
+
+  const getReplyCount = useCallback(
+    (message: Message) =>
+      Math.max(message.replyCount ?? 0, localReplyCounts.get(message.id) ?? 0),
+    [localReplyCounts],
+  );
+
+  // On open, the newest `unreadMentionCount` mentions are unread; mentions
+  // arriving later are queued too until they scroll into view.
+  useEffect(() => {
+    if (!user?.id || messages.length === 0) return;
+    const newest = messages[messages.length - 1].timestamp;
+    const cursor = mentionCursorRef.current;
+    const mentionMessages = messages.filter(
+      (m) => isMentioned(m, user.id) && (!cursor || m.timestamp > cursor),
+    );
+    if (!cursor || newest > cursor) {
+      mentionCursorRef.current = newest;
+    }
+    if (!cursor) {
+      const unreadCount = initialUnreadMentionsRef.current;
+      if (unreadCount > 0) {
+        setPendingMentionIds(
+          mentionMessages.slice(-unreadCount).map((m) => m.id),
+        );
+      }
+    } else if (mentionMessages.length > 0) {
+      setPendingMentionIds((prev) => [
+        ...prev,
+        ...mentionMessages.map((m) => m.id).filter((id) => !prev.includes(id)),
+      ]);
+    }
+  }, [messages, user?.id]);
+
+  const handleViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) => {
+      const visibleIds = new Set(viewableItems.map((v) => v.key));
+      setPendingMentionIds((prev) =>
+        prev.some((id) => visibleIds.has(id))
+          ? prev.filter((id) => !visibleIds.has(id))
+          : prev,
+      );
+    },
+  ).current;
+
+  const handleJumpToMention = useCallback(() => {
+    const [nextId, ...rest] = pendingMentionIds;
+    if (!nextId) return;
+    scrollToMessage(nextId);
+    setPendingMentionIds(rest);
+  }, [pendingMentionIds, scrollToMessage]);
+
+  // Pinned messages are often older than the loaded pages, so the banner
+  // keeps its own copies, refetched whenever the pins change.
+  const pinnedIdsKey = pinnedMessageIds?.join(",") ?? "";
+  useEffect(() => {
+    const numericChatId = parseInt(chatId, 10);
+    if (!pinnedIdsKey || isNaN(numericChatId) || !user?.visibleId) {
+      setPinnedPreviews(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    apiService.getPinnedMessages(numericChatId).then((result) => {
+      if (cancelled || !result.success || !result.data) return;
+      const previews = result.data
+        .map((serverMessage) =>
+          apiService.serverMessageToMessage(serverMessage, user.visibleId!),
+        )
+        .filter((message) => !deletedMessagesService.isDeleted(message.id));
+      setPinnedPreviews(new Map(previews.map((m) => [m.id, m])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, pinnedIdsKey, user?.visibleId]);
+
+  const pinnedMessages = useMemo(() => {
+    if (!pinnedMessageIds || pinnedMessageIds.length === 0) return [];
+    return pinnedMessageIds
+      .map((id) => messages.find((m) => m.id === id) ?? pinnedPreviews.get(id))
+      .filter((m): m is Message => !!m);
+  }, [pinnedMessageIds, messages, pinnedPreviews]);
+
+  const editHistoryMessage = useMemo(
+    () => messages.find((m) => m.id === editHistoryMessageId) ?? null,
+    [messages, editHistoryMessageId],
+  );
+
+  const threadRoot = useMemo(
+    () => messages.find((m) => m.id === threadRootId) ?? null,
+    [messages, threadRootId],
+  );
+
+  const threadReplies = useMemo(
+    () =>
+      threadRootId ? messages.filter((m) => m.replyToId === threadRootId) : [],
+    [messages, threadRootId],
+  );
+
+  const handleThreadMessagePress = useCallback(
+    (message: Message) => {
+      setThreadRootId(null);
+      jumpToMessage(message.id);
+    },
+    [jumpToMessage],
+  );
+
+  const handleThreadReply = useCallback((message: Message) => {
+    setThreadRootId(null);
+    setReplyingToMessage(message);
+  }, []);
+
+  const handlePinnedPress = useCallback(
+    (message: Message) => jumpToMessage(message.id),
+    [jumpToMessage],
+  );
+
+  const handleUnpinFromBanner = useCallback(
+    (message: Message) => {
+      unpinMessage(chatId, message.id);
+    },
+    [unpinMessage, chatId],
+  );
+
   const cancelReply = useCallback(() => {
     setReplyingToMessage(null);
   }, []);
 
   const handleMediaPress = useCallback(
-    (message: Message) => {
+    (message: Message, index = 0) => {
+      if (message.type === "album" && message.attachments?.length) {
+        const items = message.attachments.map((attachment) => ({
+          uri: attachment.url || attachment.uri || "",
+          type:
+            attachment.type === "video"
+              ? ("video" as const)
+              : ("photo" as const),
+        }));
+        navigation.navigate("MediaViewer", {
+          ...items[index],
+          items,
+          initialIndex: index,
+        });
+        return;
+      }
+
       const mediaSource = message.mediaUri || message.mediaUrl;
       let mediaType: "photo" | "video" | null = null;
       
@@ -410,28 +923,79 @@ export default function ChatScreen({ route, navigation }: Props) {
     }
   }, []);
 
-  const handleForwardMessage = useCallback((message: Message) => {
-    const messageType = message.type || "text";
-    const validTypes = ["text", "image", "video", "voice"];
-    if (!validTypes.includes(messageType)) {
-      return;
-    }
-    navigation.navigate("ForwardMessage", {
-      messageContent: message.text || "",
-      messageType: messageType as "text" | "image" | "video" | "voice",
-      mediaUrl: message.mediaUrl,
-      mediaUri: message.mediaUri,
-      audioDuration: message.audioDuration,
-    });
-  }, [navigation]);
+  const getSenderName = useCallback(
+    (message: Message) => {
+      if (message.senderId === user?.id) return user?.displayName;
+      return message.senderName || participant?.displayName;
+    },
+    [user?.id, user?.displayName, participant?.displayName],
+  );
+
+  const getForwardedFrom = useCallback(
+    (message: Message): ForwardedFrom | undefined => {
+      if (message.id.startsWith("temp_")) return undefined;
+      const hideSender =
+        message.senderId === user?.id && !!user?.hideForwardedName;
+      return {
+        senderId: hideSender ? undefined : message.senderId,
+        senderName: hideSender ? undefined : getSenderName(message),
+        chatId,
+        messageId: message.id,
+        timestamp: message.timestamp,
+      };
+    },
+    [user?.id, user?.hideForwardedName, chatId, getSenderName],
+  );
+
+  const handleForwardMessages = useCallback(
+    (targets: Message[]) => {
+      const validTypes = ["text", "image", "video", "voice", "file", "album"];
+      const items: ForwardMessageItem[] = [...targets]
+        .filter((message) => validTypes.includes(message.type || "text"))
+        .sort(
+          (a, b) =>
+            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+        )
+        .map((message) => ({
+          messageContent: message.text || "",
+          messageType: (message.type ||
+            "text") as ForwardMessageItem["messageType"],
+          mediaUrl: message.mediaUrl,
+          mediaUri: message.mediaUri,
+          audioDuration: message.audioDuration,
+          waveform: message.waveform,
+          isVideoNote: message.isVideoNote,
+          file: message.file,
+          attachments: message.attachments?.map(
+            ({ type, url, thumbnailUrl }) => ({ type, url, thumbnailUrl }),
+          ),
+          forwardedFrom: message.forwardedFrom ?? getForwardedFrom(message),
+          sourceMessageId: message.id.startsWith("temp_")
+            ? undefined
+            : message.id,
+        }));
+      if (items.length === 0) return;
+      navigation.navigate("ForwardMessage", { messages: items });
+    },
+    [navigation, getForwardedFrom],
+  );
+
+  const handleForwardMessage = useCallback(
+    (message: Message) => handleForwardMessages([message]),
+    [handleForwardMessages],
+  );
 
   const handleMessageLongPress = useCallback(
     (message: Message) => {
       if (message.type === "system") return;
+      if (isSelectionMode) {
+        toggleMessageSelection(message.id);
+        return;
+      }
       setSelectedMessage(message);
       setActionSheetVisible(true);
     },
-    []
+    [isSelectionMode, toggleMessageSelection],
   );
 
   const closeActionSheet = useCallback(() => {
@@ -439,51 +1003,198 @@ export default function ChatScreen({ route, navigation }: Props) {
     setSelectedMessage(null);
   }, []);
 
-  const startDeleteAnimation = useCallback((messageId: string, isOwnMessage: boolean) => {
-    notificationSoundService.playDeleteSound();
-    setDeletingMessageIds(prev => new Set(prev).add(messageId));
-    setDeletingMessageOwnership(prev => new Map(prev).set(messageId, isOwnMessage));
-  }, []);
+  const startDeleteAnimation = useCallback(
+    (messageId: string, forEveryone: boolean) => {
+      notificationSoundService.playDeleteSound();
+      setDeletingMessageIds((prev) => new Set(prev).add(messageId));
+      setDeletingForEveryone((prev) =>
+        new Map(prev).set(messageId, forEveryone),
+      );
+    },
+    [],
+  );
 
-  const handleDeleteAnimationComplete = useCallback((messageId: string) => {
-    const isOwnMessage = deletingMessageOwnership.get(messageId);
-    setDeletingMessageIds(prev => {
-      const next = new Set(prev);
-      next.delete(messageId);
-      return next;
-    });
-    setDeletingMessageOwnership(prev => {
-      const next = new Map(prev);
-      next.delete(messageId);
-      return next;
-    });
-    if (isOwnMessage) {
-      deleteMessage(messageId);
-    } else {
-      hideMessageLocally(messageId);
-    }
-  }, [deleteMessage, hideMessageLocally, deletingMessageOwnership]);
+  // Messages are removed from this device before the server answers, so a
+  // failed delete for everyone has to be reported.
+  const deleteAndReport = useCallback(
+    async (messageIds: string[], forEveryone: boolean) => {
+      const deleted = await deleteMessages(messageIds, forEveryone);
+      if (forEveryone && !deleted) {
+        Alert.alert(t("chat.deleteForEveryoneFailed"));
+      }
+    },
+    [deleteMessages, t],
+  );
 
-  const showDeleteConfirm = useCallback((messageId: string, isOwnMessage: boolean) => {
-    if (Platform.OS === "web") {
-      if (window.confirm(`${t("chat.deleteMessage")}\n\n${t("chat.deleteConfirm")}`)) {
-        startDeleteAnimation(messageId, isOwnMessage);
+  const handleDeleteAnimationComplete = useCallback(
+    (messageId: string) => {
+      const forEveryone = deletingForEveryone.get(messageId) ?? false;
+      setDeletingMessageIds((prev) => {
+        const next = new Set(prev);
+        next.delete(messageId);
+        return next;
+      });
+      setDeletingForEveryone((prev) => {
+        const next = new Map(prev);
+        next.delete(messageId);
+        return next;
+      });
+      deleteAndReport([messageId], forEveryone);
+    },
+    [deleteAndReport, deletingForEveryone],
+  );
+
+  const showDeleteConfirm = useCallback(
+    (targets: Message[]) => {
+      if (targets.length === 0) return;
+      const messageIds = targets.map((m) => m.id);
+      const ownOnly = targets.every((m) => m.senderId === user?.id);
+      const canDeleteForEveryone =
+        canDeleteOthers ||
+        (ownOnly &&
+          targets.every(
+            (m) =>
+              m.id.startsWith("temp_") ||
+              deletedMessagesService.isWithinDeleteWindow(m.timestamp),
+          ));
+
+      // A single message animates out; a batch may include rows that
+      // are scrolled out of view, so it is removed straight away.
+      const deleteTargets = (forEveryone: boolean) => {
+        if (targets.length === 1) {
+          startDeleteAnimation(messageIds[0], forEveryone);
+        } else {
+          notificationSoundService.playDeleteSound();
+          deleteAndReport(messageIds, forEveryone);
+        }
+        clearSelection();
+      };
+
+      const title =
+        targets.length === 1
+          ? t("chat.deleteMessage")
+          : t("chat.deleteMessages");
+      const confirmText =
+        ownOnly && !canDeleteForEveryone
+          ? t("chat.deleteForEveryoneExpired", {
+              hours: DELETE_FOR_EVERYONE_HOURS,
+            })
+          : targets.length === 1
+            ? t("chat.deleteConfirm")
+            : t("chat.deleteMessagesConfirm");
+
+      const choices: DialogChoice[] = [
+        {
+          label: t("chat.deleteForMe"),
+          destructive: true,
+          onPress: () => deleteTargets(false),
+        },
+        ...(canDeleteForEveryone
+          ? [
+              {
+                label: t("chat.deleteForEveryone"),
+                destructive: true,
+                onPress: () => deleteTargets(true),
+              },
+            ]
+          : []),
+      ];
+
+      if (Platform.OS === "web") {
+        setDeleteDialog({ title, message: confirmText, choices });
+        return;
       }
+
+      Alert.alert(title, confirmText, [
+        { text: t("common.cancel"), style: "cancel" },
+        ...choices.map((choice) => ({
+          text: choice.label,
+          style: "destructive" as const,
+          onPress: choice.onPress,
+        })),
+      ]);
+    },
+    [
+      user?.id,
+      canDeleteOthers,
+      startDeleteAnimation,
+      deleteAndReport,
+      clearSelection,
+      t,
+    ],
+  );
+
+  const selectedMessages = useMemo(
+    () => messages.filter((m) => selectedMessageIds.has(m.id)),
+    [messages, selectedMessageIds],
+  );
+
+  const canSaveSelectedMedia =
+    Platform.OS !== "web" &&
+    selectedMessages.some((m) => mediaSaveService.hasSavableMedia(m));
+
+  const handleDeleteSelected = useCallback(() => {
+    showDeleteConfirm(selectedMessages);
+  }, [selectedMessages, showDeleteConfirm]);
+
+  const getTranscriptText = useCallback(
+    (message: Message) => {
+      const text = message.decryptionFailed
+        ? t("chat.decryptionFailed")
+        : message.text || "";
+      let label: string | undefined;
+      if (message.type === "image") label = t("chat.photo");
+      else if (message.type === "video") {
+        label = message.isVideoNote ? t("chat.videoNote") : t("chat.video");
+      } else if (message.type === "voice") label = t("chat.voiceMessage");
+      else if (message.type === "file") {
+        label = message.file?.name || t("chat.file");
+      } else if (message.type === "album") label = t("chat.album");
+      if (!label) return text;
+      return text ? `[${label}] ${text}` : `[${label}]`;
+    },
+    [t],
+  );
+
+  const handleCopySelected = useCallback(async () => {
+    const transcript = [...selectedMessages]
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+      )
+      .map((message) => {
+        const time = new Date(message.timestamp).toLocaleString([], {
+          month: "short",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        });
+        return `[${time}] ${getSenderName(message) ?? ""}: ${getTranscriptText(message)}`;
+      })
+      .join("\n");
+    await Clipboard.setStringAsync(transcript);
+    clearSelection();
+  }, [selectedMessages, getSenderName, getTranscriptText, clearSelection]);
+
+  const handleForwardSelected = useCallback(() => {
+    handleForwardMessages(selectedMessages);
+    clearSelection();
+  }, [selectedMessages, handleForwardMessages, clearSelection]);
+
+  const handleSaveSelectedMedia = useCallback(async () => {
+    const targets = selectedMessages;
+    clearSelection();
+    const saved = await mediaSaveService.saveMessagesMedia(targets);
+    if (saved === null) {
+      Alert.alert(t("errors.permissionDenied"), t("chat.saveMediaPermission"));
     } else {
       Alert.alert(
-        t("chat.deleteMessage"),
-        t("chat.deleteConfirm"),
-        [
-          { text: t("common.cancel"), style: "cancel" },
-          {
-            text: t("chat.delete"),
-            style: "destructive",
-            onPress: () => startDeleteAnimation(messageId, isOwnMessage),
-          },
-        ]
+        saved > 0
+          ? t("chat.mediaSaved", { count: saved })
+          : t("chat.mediaSaveFailed"),
       );
     }
-  }, [startDeleteAnimation, t]);
+  }, [selectedMessages, clearSelection, t]);
 
   const getActionItems = useCallback((): ActionItem[] => {
     if (!selectedMessage) return [];
@@ -522,6 +1233,15 @@ export default function ChatScreen({ route, navigation }: Props) {
       icon: "corner-up-left",
       onPress: () => setReplyingToMessage(message),
     });
+
+    if (getReplyCount(message) > 0) {
+      actions.push({
+        id: "thread",
+        label: t("chat.viewThread"),
+        icon: "message-circle",
+        onPress: () => setThreadRootId(message.id),
+      });
+    }
     
     actions.push({
       id: "forward",
@@ -529,6 +1249,19 @@ export default function ChatScreen({ route, navigation }: Props) {
       icon: "share",
       onPress: () => handleForwardMessage(message),
     });
+
+    if (canPin && !message.id.startsWith("temp_")) {
+      const isPinned = !!pinnedMessageIds?.includes(message.id);
+      actions.push({
+        id: isPinned ? "unpin" : "pin",
+        label: isPinned ? t("chat.unpin") : t("chat.pin"),
+        icon: "bookmark",
+        onPress: () =>
+          isPinned
+            ? unpinMessage(chatId, message.id)
+            : pinMessage(chatId, message.id),
+      });
+    }
     
     if (canEdit) {
       actions.push({
@@ -542,16 +1275,58 @@ export default function ChatScreen({ route, navigation }: Props) {
       });
     }
     
+    actions.push({
+      id: "select",
+      label: t("chat.select"),
+      icon: "check-circle",
+      onPress: () => setSelectedMessageIds(new Set([message.id])),
+    });
+
     actions.push({
       id: "delete",
       label: t("chat.delete"),
       icon: "trash-2",
-      onPress: () => showDeleteConfirm(message.id, isOwnMessage),
+      onPress: () => showDeleteConfirm([message]),
       destructive: true,
     });
     
     return actions;
-  }, [selectedMessage, user?.id, t, handleCopyMessage, handleForwardMessage, showDeleteConfirm, isWelcomeChat]);
+  }, [
+    selectedMessage,
+    user?.id,
+    t,
+    handleCopyMessage,
+    handleForwardMessage,
+    getReplyCount,
+    showDeleteConfirm,
+    isWelcomeChat,
+    canPin,
+    pinnedMessageIds,
+    pinMessage,
+    unpinMessage,
+    chatId,
+  ]);
+
+  const canReact =
+    !!selectedMessage &&
+    !isWelcomeChat &&
+    !selectedMessage.id.startsWith("temp_");
+
+  const selectedReactions = useMemo(() => {
+    if (!selectedMessage?.reactions || !user?.id) return [];
+    return selectedMessage.reactions
+      .filter((r) => r.userIds.includes(user.id))
+      .map((r) => r.emoji);
+  }, [selectedMessage, user?.id]);
+
+  const handleReactionSelect = useCallback(
+    (emoji: string) => {
+      if (selectedMessage) {
+        toggleReaction(selectedMessage.id, emoji);
+      }
+    },
+    [selectedMessage, toggleReaction],
+  );
 
   const handleSaveEdit = useCallback(() => {
     if (editingMessage && editText.trim()) {
@@ -583,24 +1358,20 @@ export default function ChatScreen({ route, navigation }: Props) {
     (message: Message) => {
       if (Platform.OS === "web") {
         if (window.confirm(`${t("chat.deleteMessage")}\n\n${t("chat.deleteConfirm")}`)) {
-          deleteMessage(message.id);
+          deleteAndReport([message.id], true);
         }
       } else {
-        Alert.alert(
-          t("chat.deleteMessage"),
-          t("chat.deleteConfirm"),
-          [
-            { text: t("common.cancel"), style: "cancel" },
-            {
-              text: t("chat.delete"),
-              style: "destructive",
-              onPress: () => deleteMessage(message.id),
-            },
-          ]
-        );
+        Alert.alert(t("chat.deleteMessage"), t("chat.deleteConfirm"), [
+          { text: t("common.cancel"), style: "cancel" },
+          {
+            text: t("chat.delete"),
+            style: "destructive",
+            onPress: () => deleteAndReport([message.id], true),
+          },
+        ]);
       }
     },
-    [deleteMessage, t]
+    [deleteAndReport, t],
   );
 
   const handleRetryMessage = useCallback(
@@ -652,22 +1423,89 @@ export default function ChatScreen({ route, navigation }: Props) {
       if (item.type === "system") {
         return <SystemMessage message={item} />;
       }
-      return (
+      const bubble = (
         <MessageBubble
           message={item}
           isOwn={item.senderId === user?.id}
           isGroup={isGroup}
           onMediaPress={() => handleMediaPress(item)}
+          onAlbumItemPress={(index) => handleMediaPress(item, index)}
           onLongPress={() => handleMessageLongPress(item)}
           onRetry={() => handleRetryMessage(item)}
-          onQuotedMessagePress={item.replyToId ? () => scrollToMessage(item.replyToId!) : undefined}
+          onQuotedMessagePress={
+            item.replyToId ? () => jumpToMessage(item.replyToId!) : undefined
+          }
           isHighlighted={item.id === highlightedMessageId}
           isDeleting={deletingMessageIds.has(item.id)}
           onDeleteAnimationComplete={() => handleDeleteAnimationComplete(item.id)}
+          currentUserId={user?.id}
+          onMentionPress={handleMentionPress}
+          onForwardedFromPress={handleForwardedFromPress}
+          onReactionPress={
+            isWelcomeChat
+              ? undefined
+              : (emoji) => toggleReaction(item.id, emoji)
+          }
+          onVoicePlaybackComplete={() => handleVoicePlaybackComplete(item.id)}
+          onEditedPress={
+            isWelcomeChat ? undefined : () => setEditHistoryMessageId(item.id)
+          }
+          replyCount={isGroup ? getReplyCount(item) : undefined}
+          onRepliesPress={() => setThreadRootId(item.id)}
         />
       );
+      if (!isSelectionMode) return bubble;
+
+      const isSelected = selectedMessageIds.has(item.id);
+      return (
+        <Pressable
+          onPress={() => toggleMessageSelection(item.id)}
+          style={[
+            styles.selectableRow,
+            isSelected && { backgroundColor: theme.primary + "1A" },
+          ]}
+        >
+          <View
+            style={[
+              styles.selectionCheck,
+              isSelected
+                ? { backgroundColor: theme.primary, borderColor: theme.primary }
+                : { borderColor: theme.textSecondary },
+            ]}
+          >
+            {isSelected ? (
+              <Feather name="check" size={14} color="#FFFFFF" />
+            ) : null}
+          </View>
+          <View style={styles.selectableBubble} pointerEvents="none">
+            {bubble}
+          </View>
+        </Pressable>
+      );
     },
-    [user?.id, isGroup, handleMediaPress, handleMessageLongPress, handleRetryMessage, scrollToMessage, highlightedMessageId, renderDateSeparatorComponent, deletingMessageIds, handleDeleteAnimationComplete]
+    [
+      user?.id,
+      isGroup,
+      handleMediaPress,
+      handleMessageLongPress,
+      handleRetryMessage,
+      jumpToMessage,
+      getReplyCount,
+      highlightedMessageId,
+      renderDateSeparatorComponent,
+      deletingMessageIds,
+      handleDeleteAnimationComplete,
+      isWelcomeChat,
+      toggleReaction,
+      handleMentionPress,
+      handleForwardedFromPress,
+      handleVoicePlaybackComplete,
+      isSelectionMode,
+      selectedMessageIds,
+      toggleMessageSelection,
+      theme.primary,
+      theme.textSecondary,
+    ],
   );
 
   return (
@@ -703,33 +1541,74 @@ export default function ChatScreen({ route, navigation }: Props) {
           ) : null}
         </View>
       ) : null}
-      <FlatList
-        ref={flatListRef}
-        data={listItems}
-        renderItem={renderListItem}
-        keyExtractor={(item) => item.type === "dateSeparator" ? item.id : ((item as Message).tempId || item.id)}
-        inverted
-        contentContainerStyle={styles.messagesList}
-        showsVerticalScrollIndicator={false}
-        keyboardShouldPersistTaps="handled"
-        onContentSizeChange={handleContentSizeChange}
-        onEndReached={hasMoreMessages ? loadMoreMessages : undefined}
-        onEndReachedThreshold={0.3}
-        ListFooterComponent={isLoadingMore ? (
-          <View style={styles.loadingMore}>
-            <ActivityIndicator size="small" color={theme.primary} />
-          </View>
+      {!isSearchMode && pinnedMessages.length > 0 ? (
+        <PinnedMessageBanner
+          messages={pinnedMessages}
+          onPress={handlePinnedPress}
+          onUnpin={canPin ? handleUnpinFromBanner : undefined}
+        />
+      ) : null}
+      <View style={styles.messagesContainer}>
+        <FlatList
+          ref={flatListRef}
+          data={listItems}
+          renderItem={renderListItem}
+          keyExtractor={(item) =>
+            item.type === "dateSeparator"
+              ? item.id
+              : (item as Message).tempId || item.id
+          }
+          inverted
+          contentContainerStyle={styles.messagesList}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          onContentSizeChange={handleContentSizeChange}
+          onEndReached={hasMoreMessages ? loadMoreMessages : undefined}
+          onEndReachedThreshold={0.3}
+          onViewableItemsChanged={handleViewableItemsChanged}
+          viewabilityConfig={VIEWABILITY_CONFIG}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <View style={styles.loadingMore}>
+                <ActivityIndicator size="small" color={theme.primary} />
+              </View>
+            ) : null
+          }
+          onScrollToIndexFailed={(info) => {
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({
+                index: info.index,
+                animated: true,
+                viewPosition: 0.5,
+              });
+            }, 100);
+          }}
+        />
+        {pendingMentionIds.length > 0 ? (
+          <Pressable
+            onPress={handleJumpToMention}
+            style={({ pressed }) => [
+              styles.mentionJumpButton,
+              {
+                backgroundColor: theme.backgroundDefault,
+                opacity: pressed ? 0.8 : 1,
+              },
+            ]}
+          >
+            <Feather name="at-sign" size={20} color={theme.primary} />
+            <View
+              style={[
+                styles.mentionJumpBadge,
+                { backgroundColor: theme.primary },
+              ]}
+            >
+              <ThemedText style={styles.mentionJumpBadgeText}>
+                {pendingMentionIds.length}
+              </ThemedText>
+            </View>
+          </Pressable>
         ) : null}
-        onScrollToIndexFailed={(info) => {
-          setTimeout(() => {
-            flatListRef.current?.scrollToIndex({
-              index: info.index,
-              animated: true,
-              viewPosition: 0.5,
-            });
-          }, 100);
-        }}
-      />
+      </View>
 
       {!isWelcomeChat && replyingToMessage ? (
         <View style={[styles.replyPanel, { backgroundColor: theme.backgroundSecondary, borderTopColor: theme.inputBorder }]}>
@@ -742,6 +1621,8 @@ export default function ChatScreen({ route, navigation }: Props) {
               {replyingToMessage.type === "image" ? t("chat.photo") : 
                replyingToMessage.type === "video" ? t("chat.video") :
                replyingToMessage.type === "voice" ? t("chat.voiceMessage") :
+               replyingToMessage.type === "file" ? replyingToMessage.file?.name || t("chat.file") :
+               replyingToMessage.type === "album" ? replyingToMessage.text || t("chat.album") :
                replyingToMessage.text || ""}
             </ThemedText>
           </View>
@@ -751,7 +1632,114 @@ export default function ChatScreen({ route, navigation }: Props) {
         </View>
       ) : null}
 
-      {!isWelcomeChat ? (
+      {!isWelcomeChat && scheduled.length > 0 ? (
+        <Pressable
+          style={[
+            styles.scheduledBar,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              borderTopColor: theme.inputBorder,
+            },
+          ]}
+          onPress={() => navigation.navigate("ScheduledMessages", { chatId })}
+        >
+          <Feather name="clock" size={16} color={theme.primary} />
+          <ThemedText
+            style={[styles.scheduledBarText, { color: theme.primary }]}
+          >
+            {t("schedule.count", { count: scheduled.length })}
+          </ThemedText>
+          <Feather name="chevron-right" size={16} color={theme.textSecondary} />
+        </Pressable>
+      ) : null}
+
+      {pendingJumpId ? (
+        <View
+          style={[
+            styles.jumpBar,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              borderTopColor: theme.inputBorder,
+            },
+          ]}
+        >
+          <ActivityIndicator size="small" color={theme.primary} />
+          <ThemedText
+            style={[styles.jumpBarText, { color: theme.textSecondary }]}
+          >
+            {t("chat.jumpSearching")}
+          </ThemedText>
+          <Pressable onPress={cancelJump} hitSlop={8}>
+            <ThemedText style={[styles.jumpBarText, { color: theme.primary }]}>
+              {t("common.cancel")}
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {isSelectionMode ? (
+        <View
+          style={[
+            styles.selectionBar,
+            {
+              backgroundColor: theme.backgroundDefault,
+              borderTopColor: theme.inputBorder,
+              paddingBottom: insets.bottom + Spacing.sm,
+            },
+          ]}
+        >
+          <Pressable
+            onPress={handleCopySelected}
+            style={styles.selectionAction}
+            accessibilityLabel={t("chat.copy")}
+          >
+            <Feather name="copy" size={22} color={theme.primary} />
+            <ThemedText
+              style={[styles.selectionActionText, { color: theme.primary }]}
+            >
+              {t("chat.copy")}
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            onPress={handleForwardSelected}
+            style={styles.selectionAction}
+            accessibilityLabel={t("chat.forward")}
+          >
+            <Feather name="share" size={22} color={theme.primary} />
+            <ThemedText
+              style={[styles.selectionActionText, { color: theme.primary }]}
+            >
+              {t("chat.forward")}
+            </ThemedText>
+          </Pressable>
+          {canSaveSelectedMedia ? (
+            <Pressable
+              onPress={handleSaveSelectedMedia}
+              style={styles.selectionAction}
+              accessibilityLabel={t("chat.saveMedia")}
+            >
+              <Feather name="download" size={22} color={theme.primary} />
+              <ThemedText
+                style={[styles.selectionActionText, { color: theme.primary }]}
+              >
+                {t("chat.saveMedia")}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+          <Pressable
+            onPress={handleDeleteSelected}
+            style={styles.selectionAction}
+            accessibilityLabel={t("chat.delete")}
+          >
+            <Feather name="trash-2" size={22} color="#FF3B30" />
+            <ThemedText
+              style={[styles.selectionActionText, { color: "#FF3B30" }]}
+            >
+              {t("chat.delete")}
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : !isWelcomeChat ? (
         <MessageInput
           onSend={handleSend}
           onAttachPress={() => setShowMediaPicker(true)}
@@ -762,13 +1750,50 @@ export default function ChatScreen({ route, navigation }: Props) {
           onEditTextChange={setEditText}
           onCancelEdit={handleCancelEdit}
           onSaveEdit={handleSaveEdit}
+          onSchedulePress={() => setScheduleSheetVisible(true)}
+          scheduledSendAt={scheduledSendAt}
+          onCancelSchedule={() => setScheduledSendAt(null)}
+          mentionableMembers={mentionableMembers}
+          restrictions={memberRestrictions}
+          lastSentAt={lastSentAt}
+          encrypted={!isGroup}
         />
       ) : null}
 
+      <ScheduleTimeSheet
+        visible={scheduleSheetVisible}
+        onClose={() => setScheduleSheetVisible(false)}
+        onSelect={handleScheduleSelected}
+      />
+
       <MediaPicker
         visible={showMediaPicker}
         onClose={() => setShowMediaPicker(false)}
         onMediaSelected={handleMediaSelected}
+        onFileSelected={handleFileSelected}
+        onAlbumSelected={handleAlbumSelected}
+        onVideoNotePress={handleVideoNotePress}
+      />
+
+      <VideoNoteRecorder
+        visible={videoNoteRecorderVisible}
+        onClose={() => setVideoNoteRecorderVisible(false)}
+        onRecorded={handleVideoNoteRecorded}
+      />
+
+      <EditHistorySheet
+        message={editHistoryMessage}
+        onClose={() => setEditHistoryMessageId(null)}
+      />
+
+      <ThreadSheet
+        rootMessage={threadRoot}
+        replies={threadReplies}
+        currentUserId={user?.visibleId}
+        getSenderName={getSenderName}
+        onMessagePress={handleThreadMessagePress}
+        onReply={handleThreadReply}
+        onClose={() => setThreadRootId(null)}
       />
 
       <MessageActionSheet
@@ -776,6 +1801,17 @@ export default function ChatScreen({ route, navigation }: Props) {
         onClose={closeActionSheet}
         actions={getActionItems()}
         cancelLabel={t("common.cancel")}
+        reactions={canReact ? QUICK_REACTIONS : undefined}
+        selectedReactions={selectedReactions}
+        onReactionSelect={handleReactionSelect}
+      />
+
+      <ChoiceDialog
+        title={deleteDialog?.title ?? null}
+        message={deleteDialog?.message}
+        choices={deleteDialog?.choices ?? []}
+        cancelLabel={t("common.cancel")}
+        onClose={() => setDeleteDialog(null)}
       />
     </KeyboardAvoidingView>
   );
@@ -801,13 +1837,104 @@ const styles = StyleSheet.create({
   headerSubtitle: {
     fontSize: 12,
   },
+  messagesContainer: {
+    flex: 1,
+  },
   messagesList: {
     paddingVertical: Spacing.md,
   },
+  mentionJumpButton: {
+    position: "absolute",
+    right: Spacing.md,
+    bottom: Spacing.md,
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  mentionJumpBadge: {
+    position: "absolute",
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  mentionJumpBadgeText: {
+    color: "#FFFFFF",
+    fontSize: 11,
+    fontWeight: "600",
+    lineHeight: 14,
+  },
   dateSeparator: {
     alignItems: "center",
     paddingVertical: Spacing.md,
   },
+  scheduledBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderTopWidth: 1,
+  },
+  scheduledBarText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  jumpBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderTopWidth: 1,
+  },
+  jumpBarText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  selectableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingLeft: Spacing.md,
+  },
+  selectionCheck: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  selectableBubble: {
+    flex: 1,
+  },
+  selectionBar: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+  },
+  selectionAction: {
+    alignItems: "center",
+    gap: 2,
+    minWidth: 64,
+  },
+  selectionActionText: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
   replyPanel: {
     flexDirection: "row",
     alignItems: "center",
@@ -91,6 +91,13 @@ export default function ChatsListScreen() {
       
       if (result.type === "chat" && result.chat) {
         navigateToChat(result.chat);
+      } else if (result.type === "message" && result.message) {
+        const messageChatId = result.message.chatId;
+        const messageChat =
+          result.chat || chats.find((c) => c.id === messageChatId);
+        if (messageChat) {
+          navigateToChat(messageChat);
+        }
       } else if (result.type === "contact" && result.contact) {
         const foundContact = result.contact;
         const contactVisibleId = typeof foundContact.visibleId === 'string' 
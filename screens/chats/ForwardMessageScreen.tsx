@@ -1,5 +1,5 @@
 import React, { useCallback, useState } from "react";
-import { View, StyleSheet, FlatList, Platform } from "react-native";
+import { View, StyleSheet, FlatList, Platform, Alert } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { BlurView } from "expo-blur";
 import { LinearGradient } from "expo-linear-gradient";
@@ -8,58 +8,112 @@ import { ChatListItem } from "@/components/ChatListItem";
 import { EmptyState } from "@/components/EmptyState";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
 import { useChatsContext } from "@/contexts/ChatsContext";
 import { Spacing, BorderRadius, CardStyles } from "@/constants/theme";
 import { useTranslation } from "react-i18next";
 import { messageQueue } from "@/services/messageQueue";
+import { findFirstUrl } from "@/services/linkPreview";
+import { getMemberRestrictions } from "@/store/types";
 
 type Props = NativeStackScreenProps<ChatsStackParamList, "ForwardMessage">;
 
 export default function ForwardMessageScreen({ route, navigation }: Props) {
-  const { messageContent, messageType, mediaUrl, mediaUri, audioDuration } = route.params;
+  const { messages } = route.params;
   const { theme, isDark } = useTheme();
   const { t } = useTranslation();
+  const { user } = useAuth();
   const { chats } = useChatsContext();
   const [forwarding, setForwarding] = useState<string | null>(null);
 
-  const handleForward = useCallback(async (chatId: string, chat: typeof chats[0]) => {
-    if (forwarding) return;
-    setForwarding(chatId);
+  const getRestrictionError = useCallback(
+    (chat: (typeof chats)[0]): string | null => {
+      const restrictions = getMemberRestrictions(chat, user?.visibleId);
+      if (!restrictions) return null;
+      if (
+        !restrictions.canSendMedia &&
+        messages.some((message) => message.messageType !== "text")
+      ) {
+        return t("chat.mediaRestricted");
+      }
+      if (
+        !restrictions.canSendLinks &&
+        messages.some((message) => findFirstUrl(message.messageContent))
+      ) {
+        return t("chat.linksRestricted");
+      }
+      if (restrictions.slowModeSeconds) {
+        if (messages.length > 1) return t("chat.slowModeOneMessage");
+        const lastSentAt = messageQueue.getLastSentAt(parseInt(chat.id, 10));
+        if (
+          lastSentAt &&
+          lastSentAt + restrictions.slowModeSeconds * 1000 > Date.now()
+        ) {
+          return t("chat.slowModeActive");
+        }
+      }
+      return null;
+    },
+    [messages, user?.visibleId, t],
+  );
 
-    try {
-      const tempId = `forward_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      const numericChatId = parseInt(chatId, 10);
-      if (isNaN(numericChatId)) {
-        console.error("Invalid chatId for forwarding:", chatId);
-        setForwarding(null);
+  const handleForward = useCallback(
+    async (chatId: string, chat: (typeof chats)[0]) => {
+      if (forwarding) return;
+      const restrictionError = getRestrictionError(chat);
+      if (restrictionError) {
+        Alert.alert(restrictionError);
         return;
       }
-      
-      await messageQueue.enqueue({
-        id: tempId,
-        chatId: numericChatId,
-        content: messageContent || "",
-        type: messageType,
-        mediaUrl: mediaUrl,
-        mediaUri: mediaUri,
-        audioDuration: audioDuration,
-      });
+      setForwarding(chatId);
 
-      navigation.replace("Chat", {
-        chatId: chatId,
-        participant: chat.isGroup ? undefined : chat.participant,
-        isGroup: chat.isGroup,
-        groupName: chat.groupName,
-        groupAvatarUrl: chat.avatarUrl,
-        memberCount: chat.memberCount,
-        groupParticipants: chat.participants,
-      });
-    } catch (error) {
-      console.error("Forward error:", error);
-      setForwarding(null);
-    }
-  }, [forwarding, messageContent, messageType, mediaUrl, mediaUri, audioDuration, navigation, chats]);
+      try {
+        const numericChatId = parseInt(chatId, 10);
+        if (isNaN(numericChatId)) {
+          console.error("Invalid chatId for forwarding:", chatId);
+          setForwarding(null);
+          return;
+        }
+
+        // Enqueued one at a time so they arrive in the order they were sent.
+        for (const message of messages) {
+          const tempId = `forward_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+          await messageQueue.enqueue({
+            id: tempId,
+            chatId: numericChatId,
+            content: message.messageContent || "",
+            type: message.messageType,
+            mediaUrl: message.mediaUrl,
+            mediaUri: message.mediaUri,
+            audioDuration: message.audioDuration,
+            waveform: message.waveform,
+            isVideoNote: message.isVideoNote,
+            mediaSize: message.file?.size,
+            file: message.file,
+            attachments: message.attachments,
+            forwardedFrom: message.forwardedFrom,
+            forwardSourceId: message.sourceMessageId
+              ? parseInt(message.sourceMessageId, 10)
+              : undefined,
+          });
+        }
+
+        navigation.replace("Chat", {
+          chatId: chatId,
+          participant: chat.isGroup ? undefined : chat.participant,
+          isGroup: chat.isGroup,
+          groupName: chat.groupName,
+          groupAvatarUrl: chat.avatarUrl,
+          memberCount: chat.memberCount,
+          groupParticipants: chat.participants,
+        });
+      } catch (error) {
+        console.error("Forward error:", error);
+        setForwarding(null);
+      }
+    },
+    [forwarding, messages, navigation, getRestrictionError],
+  );
 
   const renderBlurBackground = () => {
     if (Platform.OS === "ios") {
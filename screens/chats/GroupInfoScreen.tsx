@@ -22,13 +22,23 @@ import { Image } from "expo-image";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { ThemedText } from "@/components/ThemedText";
 import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import { ChatNotificationSection } from "@/components/ChatNotificationSection";
+import { GroupPermissionsSection } from "@/components/GroupPermissionsSection";
+import { AdminRightsSheet } from "@/components/AdminRightsSheet";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
 import { useChatsContext } from "@/contexts/ChatsContext";
 import { apiService } from "@/services/api";
 import { Spacing, BorderRadius, CardStyles } from "@/constants/theme";
 import { ChatsStackParamList } from "@/navigation/types";
-import { GroupMember } from "@/store/types";
+import {
+  GroupAdminRight,
+  GroupMember,
+  GroupPermissions,
+  DEFAULT_GROUP_PERMISSIONS,
+  GROUP_ADMIN_RIGHTS,
+  hasGroupRight,
+} from "@/store/types";
 
 type NavigationProp = NativeStackNavigationProp<ChatsStackParamList, "GroupInfo">;
 type GroupInfoRouteProp = RouteProp<ChatsStackParamList, "GroupInfo">;
@@ -48,14 +58,21 @@ export function GroupInfoScreen() {
   const [avatarUrl, setAvatarUrl] = useState<string | undefined>(undefined);
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [createdBy, setCreatedBy] = useState<number | null>(null);
+  const [permissions, setPermissions] = useState<GroupPermissions>(
+    DEFAULT_GROUP_PERMISSIONS,
+  );
+  const [rightsMember, setRightsMember] = useState<GroupMember | null>(null);
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState("");
   const [isUpdating, setIsUpdating] = useState(false);
 
   const currentUserId = user?.visibleId;
   const currentMember = members.find((m) => m.id === currentUserId);
-  const isAdmin = currentMember?.role === "admin";
   const isCreator = createdBy === currentUserId;
+  const canChangeInfo = isCreator || hasGroupRight(currentMember, "changeInfo");
+  const canAddMembers = isCreator || hasGroupRight(currentMember, "addMembers");
+  const canRemoveMembers =
+    isCreator || hasGroupRight(currentMember, "removeMembers");
 
   useLayoutEffect(() => {
     navigation.setOptions({
@@ -74,7 +91,9 @@ export function GroupInfoScreen() {
         setGroupName(chat.name || "");
         setAvatarColor(chat.avatarColor || "#0088CC");
         setAvatarUrl(chat.avatarUrl || undefined);
-        setCreatedBy(chat.createdBy || chat.createdById);
+        const ownerId = chat.createdBy || chat.createdById;
+        setCreatedBy(ownerId);
+        setPermissions(chat.permissions || DEFAULT_GROUP_PERMISSIONS);
         
         const chatMembers = result.data.members || (chat as any).members || [];
         setMembers(
@@ -88,7 +107,8 @@ export function GroupInfoScreen() {
               email: m.user?.email || m.email || undefined,
               avatarColor: m.user?.avatarColor || m.avatarColor || "#3B82F6",
               avatarUrl: m.user?.avatarUrl || m.avatarUrl || undefined,
-              role: m.role || "member",
+              role: memberId === ownerId ? "owner" : m.role || "member",
+              adminRights: m.adminRights || undefined,
               joinedAt: m.joinedAt,
               addedBy: m.addedBy ?? undefined,
             };
@@ -197,10 +217,19 @@ export function GroupInfoScreen() {
       const doToggle = async () => {
         try {
           const numericChatId = parseInt(chatId, 10);
-          const result = await apiService.changeGroupMemberRole(numericChatId, member.id, newRole);
+          const adminRights =
+            newRole === "admin" ? GROUP_ADMIN_RIGHTS : undefined;
+          const result = await apiService.changeGroupMemberRole(
+            numericChatId,
+            member.id,
+            newRole,
+            adminRights,
+          );
           if (result.success) {
             setMembers((prev) =>
-              prev.map((m) => (m.id === member.id ? { ...m, role: newRole } : m))
+              prev.map((m) =>
+                m.id === member.id ? { ...m, role: newRole, adminRights } : m,
+              ),
             );
           } else {
             Alert.alert(t("common.error"), result.error || t("errors.somethingWentWrong"));
@@ -224,6 +253,62 @@ export function GroupInfoScreen() {
     [chatId, createdBy, t]
   );
 
+  const handleSaveAdminRights = useCallback(
+    async (rights: GroupAdminRight[]) => {
+      const member = rightsMember;
+      if (!member) return;
+      setRightsMember(null);
+      const result = await apiService.changeGroupMemberRole(
+        parseInt(chatId, 10),
+        member.id,
+        "admin",
+        rights,
+      );
+      if (result.success) {
+        setMembers((prev) =>
+          prev.map((m) =>
+            m.id === member.id ? { ...m, adminRights: rights } : m,
+          ),
+        );
+        refreshChats();
+      } else {
+        Alert.alert(
+          t("common.error"),
+          result.error || t("errors.somethingWentWrong"),
+        );
+      }
+    },
+    [rightsMember, chatId, refreshChats, t],
+  );
+
+  const handleDismissAdmin = useCallback(() => {
+    const member = rightsMember;
+    if (!member) return;
+    setRightsMember(null);
+    handleToggleAdmin(member);
+  }, [rightsMember, handleToggleAdmin]);
+
+  const handlePermissionsChange = useCallback(
+    async (next: GroupPermissions) => {
+      const previous = permissions;
+      setPermissions(next);
+      const result = await apiService.updateGroupPermissions(
+        parseInt(chatId, 10),
+        next,
+      );
+      if (result.success) {
+        refreshChats();
+      } else {
+        setPermissions(previous);
+        Alert.alert(
+          t("common.error"),
+          result.error || t("errors.somethingWentWrong"),
+        );
+      }
+    },
+    [permissions, chatId, refreshChats, t],
+  );
+
   const handleOpenChat = useCallback(async (member: GroupMember) => {
     if (member.id === currentUserId) return;
     
@@ -403,8 +488,8 @@ export function GroupInfoScreen() {
           <View style={styles.headerContent}>
             <Pressable 
               style={[styles.groupAvatar, { backgroundColor: avatarColor }]}
-              onPress={isCreator ? handleChangeAvatar : undefined}
-              disabled={!isCreator || isUpdating}
+              onPress={canChangeInfo ? handleChangeAvatar : undefined}
+              disabled={!canChangeInfo || isUpdating}
             >
               {avatarUrl ? (
                 <Image
@@ -415,7 +500,7 @@ export function GroupInfoScreen() {
               ) : (
                 <Feather name="users" size={36} color="#FFFFFF" />
               )}
-              {isCreator ? (
+              {canChangeInfo ? (
                 <View style={[styles.avatarEditBadge, { backgroundColor: theme.primary }]}>
                   {isUpdating ? (
                     <ActivityIndicator size="small" color="#FFFFFF" />
@@ -428,12 +513,12 @@ export function GroupInfoScreen() {
             <View style={styles.headerInfo}>
               <Pressable
                 style={styles.groupNameContainer}
-                onPress={isCreator ? handleEditName : undefined}
+                onPress={canChangeInfo ? handleEditName : undefined}
               >
                 <ThemedText type="h4" style={styles.groupName}>
                   {groupName}
                 </ThemedText>
-                {isCreator ? (
+                {canChangeInfo ? (
                   <Feather name="edit-2" size={14} color={theme.textSecondary} style={styles.editIcon} />
                 ) : null}
               </Pressable>
@@ -445,21 +530,41 @@ export function GroupInfoScreen() {
         </View>
       </View>
 
-      {(isCreator || isAdmin) ? (
+      {canAddMembers ? (
         <SettingsSection title={t("group.actions")}>
           <SettingsItem
             icon="user-plus"
             label={t("group.addMembers")}
             onPress={handleAddMembers}
           />
+          <SettingsItem
+            icon="link"
+            label={t("group.inviteLinks")}
+            onPress={() => navigation.navigate("GroupInvites", { chatId })}
+          />
         </SettingsSection>
       ) : null}
 
+      {canChangeInfo ? (
+        <GroupPermissionsSection
+          permissions={permissions}
+          onChange={handlePermissionsChange}
+        />
+      ) : null}
+
+      <ChatNotificationSection chatId={chatId} isGroup />
+
       <SettingsSection title={t("group.members")}>
         {members.map((member) => {
           const isCurrentUser = member.id === currentUserId;
-          const isMemberCreator = member.id === createdBy;
+          const isMemberCreator =
+            member.id === createdBy || member.role === "owner";
           const isMemberAdmin = member.role === "admin";
+          const canRemove =
+            canRemoveMembers &&
+            !isCurrentUser &&
+            !isMemberCreator &&
+            (isCreator || !isMemberAdmin);
           
           const roleLabel = isMemberCreator 
             ? t("group.creator") 
@@ -506,21 +611,33 @@ export function GroupInfoScreen() {
                   </ThemedText>
                 ) : null}
               </View>
-              {isCreator && !isCurrentUser && !isMemberCreator ? (
+              {canRemove ? (
                 <View style={styles.memberActions}>
-                  <Pressable
-                    style={[
-                      styles.actionIconButton,
-                      { backgroundColor: isMemberAdmin ? theme.primary + "20" : theme.divider },
-                    ]}
-                    onPress={() => handleToggleAdmin(member)}
-                  >
-                    <Feather
-                      name="shield"
-                      size={14}
-                      color={isMemberAdmin ? theme.primary : theme.textSecondary}
-                    />
-                  </Pressable>
+                  {isCreator ? (
+                    <Pressable
+                      style={[
+                        styles.actionIconButton,
+                        {
+                          backgroundColor: isMemberAdmin
+                            ? theme.primary + "20"
+                            : theme.divider,
+                        },
+                      ]}
+                      onPress={() =>
+                        isMemberAdmin
+                          ? setRightsMember(member)
+                          : handleToggleAdmin(member)
+                      }
+                    >
+                      <Feather
+                        name="shield"
+                        size={14}
+                        color={
+                          isMemberAdmin ? theme.primary : theme.textSecondary
+                        }
+                      />
+                    </Pressable>
+                  ) : null}
                   <Pressable
                     style={[styles.actionIconButton, { backgroundColor: theme.accent + "15" }]}
                     onPress={() => handleRemoveMember(member)}
@@ -547,6 +664,13 @@ export function GroupInfoScreen() {
         />
       </SettingsSection>
 
+      <AdminRightsSheet
+        member={rightsMember}
+        onClose={() => setRightsMember(null)}
+        onSave={handleSaveAdminRights}
+        onDismissAdmin={handleDismissAdmin}
+      />
+
       <Modal visible={isEditingName} transparent animationType="fade">
         <Pressable style={styles.modalOverlay} onPress={() => setIsEditingName(false)}>
           <Pressable
@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, StyleSheet, ActivityIndicator, Alert } from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { Image } from "expo-image";
+import { ChatsStackParamList } from "@/navigation/types";
+import { EmptyState } from "@/components/EmptyState";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useTheme } from "@/hooks/useTheme";
+import { useChatsContext } from "@/contexts/ChatsContext";
+import { apiService, ServerGroupInvitePreview } from "@/services/api";
+import { Spacing } from "@/constants/theme";
+
+type Props = NativeStackScreenProps<ChatsStackParamList, "GroupInvitePreview">;
+
+export default function GroupInvitePreviewScreen({ route, navigation }: Props) {
+  const { token } = route.params;
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const { refreshChats } = useChatsContext();
+  const [preview, setPreview] = useState<ServerGroupInvitePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+  const [isRequested, setIsRequested] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    apiService
+      .getInvitePreview(token)
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result.success && result.data ? result.data : null);
+        setIsRequested(!!result.data?.hasPendingRequest);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const openChat = useCallback(
+    (chatId: number) => {
+      if (!preview) return;
+      navigation.replace("Chat", {
+        chatId: chatId.toString(),
+        isGroup: true,
+        groupName: preview.name,
+        groupAvatarUrl: preview.avatarUrl || undefined,
+        memberCount: preview.memberCount,
+      });
+    },
+    [navigation, preview],
+  );
+
+  const handleJoin = useCallback(async () => {
+    if (!preview || isJoining) return;
+    if (preview.isMember) {
+      openChat(preview.chatId);
+      return;
+    }
+
+    setIsJoining(true);
+    const result = await apiService.joinByInvite(token);
+    setIsJoining(false);
+
+    if (!result.success || !result.data) {
+      Alert.alert(
+        t("common.error"),
+        result.error || t("errors.somethingWentWrong"),
+      );
+      return;
+    }
+    if (result.data.status === "requested") {
+      setIsRequested(true);
+      return;
+    }
+    await refreshChats();
+    openChat(result.data.chatId);
+  }, [preview, isJoining, token, openChat, refreshChats, t]);
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.centered,
+          { backgroundColor: theme.backgroundRoot },
+        ]}
+      >
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <View
+        style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      >
+        <EmptyState
+          icon="link-2"
+          title={t("group.inviteInvalid")}
+          message={t("group.inviteInvalidHint")}
+        />
+      </View>
+    );
+  }
+
+  const buttonLabel = preview.isMember
+    ? t("group.openGroup")
+    : preview.requiresApproval
+      ? t("group.requestToJoin")
+      : t("group.joinGroup");
+
+  return (
+    <View
+      style={[
+        styles.container,
+        styles.centered,
+        { backgroundColor: theme.backgroundRoot },
+      ]}
+    >
+      <View
+        style={[
+          styles.avatar,
+          { backgroundColor: preview.avatarColor || theme.primary },
+        ]}
+      >
+        {preview.avatarUrl ? (
+          <Image
+            source={{ uri: preview.avatarUrl }}
+            style={styles.avatarImage}
+            contentFit="cover"
+          />
+        ) : (
+          <Feather name="users" size={40} color="#FFFFFF" />
+        )}
+      </View>
+      <ThemedText type="h3" style={styles.name}>
+        {preview.name}
+      </ThemedText>
+      <ThemedText style={{ color: theme.textSecondary }}>
+        {t("group.memberCount", { count: preview.memberCount })}
+      </ThemedText>
+
+      {isRequested ? (
+        <View style={styles.requested}>
+          <Feather name="clock" size={18} color={theme.textSecondary} />
+          <ThemedText style={{ color: theme.textSecondary }}>
+            {t("group.joinRequestSent")}
+          </ThemedText>
+        </View>
+      ) : (
+        <>
+          {preview.requiresApproval && !preview.isMember ? (
+            <ThemedText
+              type="small"
+              style={[styles.hint, { color: theme.textSecondary }]}
+            >
+              {t("group.approvalRequiredHint")}
+            </ThemedText>
+          ) : null}
+          <Button
+            onPress={handleJoin}
+            disabled={isJoining}
+            style={styles.button}
+          >
+            {buttonLabel}
+          </Button>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.xl,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    justifyContent: "center",
+    alignItems: "center",
+    overflow: "hidden",
+    marginBottom: Spacing.lg,
+  },
+  avatarImage: {
+    width: "100%",
+    height: "100%",
+  },
+  name: {
+    textAlign: "center",
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    textAlign: "center",
+    marginTop: Spacing.xl,
+  },
+  button: {
+    alignSelf: "stretch",
+    marginTop: Spacing.xl,
+  },
+  requested: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.xl,
+  },
+});
@@ -0,0 +1,298 @@
+import React, { useCallback, useState } from "react";
+import { View, StyleSheet, Pressable, Alert, Share } from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import * as Clipboard from "expo-clipboard";
+import { ChatsStackParamList } from "@/navigation/types";
+import { getInviteLink } from "@/navigation/linking";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { Avatar } from "@/components/Avatar";
+import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import {
+  CreateInviteSheet,
+  InviteOptions,
+} from "@/components/CreateInviteSheet";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  apiService,
+  ServerGroupInvite,
+  ServerJoinRequest,
+} from "@/services/api";
+import { Spacing } from "@/constants/theme";
+
+type Props = NativeStackScreenProps<ChatsStackParamList, "GroupInvites">;
+
+function formatDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function isInviteActive(invite: ServerGroupInvite): boolean {
+  if (invite.revoked) return false;
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= Date.now()) {
+    return false;
+  }
+  return invite.usageLimit === null || invite.usageCount < invite.usageLimit;
+}
+
+export default function GroupInvitesScreen({ route }: Props) {
+  const { chatId } = route.params;
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const [invites, setInvites] = useState<ServerGroupInvite[]>([]);
+  const [requests, setRequests] = useState<ServerJoinRequest[]>([]);
+  const [selected, setSelected] = useState<ServerGroupInvite | null>(null);
+  const [createSheetVisible, setCreateSheetVisible] = useState(false);
+
+  const numericChatId = parseInt(chatId, 10);
+
+  const loadData = useCallback(async () => {
+    const [invitesResult, requestsResult] = await Promise.all([
+      apiService.getGroupInvites(numericChatId),
+      apiService.getJoinRequests(numericChatId),
+    ]);
+    if (invitesResult.success && invitesResult.data) {
+      setInvites(invitesResult.data);
+    }
+    if (requestsResult.success && requestsResult.data) {
+      setRequests(requestsResult.data);
+    }
+  }, [numericChatId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData]),
+  );
+
+  const handleCreate = useCallback(
+    async (options: InviteOptions) => {
+      setCreateSheetVisible(false);
+      const result = await apiService.createGroupInvite(numericChatId, options);
+      if (result.success && result.data) {
+        setInvites((prev) => [result.data!, ...prev]);
+      } else {
+        Alert.alert(
+          t("common.error"),
+          result.error || t("errors.somethingWentWrong"),
+        );
+      }
+    },
+    [numericChatId, t],
+  );
+
+  const handleRevoke = useCallback(
+    (invite: ServerGroupInvite) => {
+      const doRevoke = async () => {
+        const result = await apiService.revokeGroupInvite(
+          numericChatId,
+          invite.id,
+        );
+        if (result.success) {
+          setInvites((prev) =>
+            prev.map((i) => (i.id === invite.id ? { ...i, revoked: true } : i)),
+          );
+        } else {
+          Alert.alert(
+            t("common.error"),
+            result.error || t("errors.somethingWentWrong"),
+          );
+        }
+      };
+      Alert.alert(t("group.revokeLink"), t("group.revokeLinkConfirm"), [
+        { text: t("common.cancel"), style: "cancel" },
+        { text: t("group.revoke"), style: "destructive", onPress: doRevoke },
+      ]);
+    },
+    [numericChatId, t],
+  );
+
+  const handleRespond = useCallback(
+    async (request: ServerJoinRequest, approve: boolean) => {
+      const result = await apiService.respondToJoinRequest(
+        numericChatId,
+        request.id,
+        approve,
+      );
+      if (result.success) {
+        setRequests((prev) => prev.filter((r) => r.id !== request.id));
+      } else {
+        Alert.alert(
+          t("common.error"),
+          result.error || t("errors.somethingWentWrong"),
+        );
+      }
+    },
+    [numericChatId, t],
+  );
+
+  const getActionItems = useCallback((): ActionItem[] => {
+    if (!selected) return [];
+    const link = getInviteLink(selected.token);
+    return [
+      {
+        id: "share",
+        label: t("group.shareLink"),
+        icon: "share",
+        onPress: () => {
+          Share.share({ message: link }).catch(() => {});
+        },
+      },
+      {
+        id: "copy",
+        label: t("group.copyLink"),
+        icon: "copy",
+        onPress: () => {
+          Clipboard.setStringAsync(link);
+        },
+      },
+      {
+        id: "revoke",
+        label: t("group.revokeLink"),
+        icon: "x-circle",
+        destructive: true,
+        onPress: () => handleRevoke(selected),
+      },
+    ];
+  }, [selected, t, handleRevoke]);
+
+  const getInviteDetails = (invite: ServerGroupInvite): string => {
+    const parts: string[] = [];
+    if (invite.revoked) {
+      parts.push(t("group.linkRevoked"));
+    } else if (invite.expiresAt) {
+      parts.push(
+        new Date(invite.expiresAt).getTime() <= Date.now()
+          ? t("group.linkExpired")
+          : t("group.expiresAt", { date: formatDate(invite.expiresAt) }),
+      );
+    }
+    parts.push(
+      invite.usageLimit === null
+        ? t("group.linkUses", { count: invite.usageCount })
+        : t("group.linkUsesOfLimit", {
+            count: invite.usageCount,
+            limit: invite.usageLimit,
+          }),
+    );
+    if (invite.requiresApproval) parts.push(t("group.approvalRequired"));
+    return parts.join(" · ");
+  };
+
+  return (
+    <ScreenScrollView contentContainerStyle={styles.content}>
+      {requests.length > 0 ? (
+        <SettingsSection title={t("group.joinRequests")}>
+          {requests.map((request) => (
+            <View key={request.id} style={styles.requestItem}>
+              <Avatar
+                name={request.displayName}
+                color={request.avatarColor || theme.primary}
+                avatarUrl={request.avatarUrl}
+                size={40}
+              />
+              <View style={styles.requestInfo}>
+                <ThemedText numberOfLines={1}>{request.displayName}</ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {formatDate(request.createdAt)}
+                </ThemedText>
+              </View>
+              <Pressable
+                onPress={() => handleRespond(request, false)}
+                style={[
+                  styles.requestButton,
+                  { backgroundColor: theme.accent + "15" },
+                ]}
+                hitSlop={6}
+                accessibilityLabel={t("group.decline")}
+              >
+                <Feather name="x" size={16} color={theme.accent} />
+              </Pressable>
+              <Pressable
+                onPress={() => handleRespond(request, true)}
+                style={[
+                  styles.requestButton,
+                  { backgroundColor: theme.primary + "20" },
+                ]}
+                hitSlop={6}
+                accessibilityLabel={t("group.approve")}
+              >
+                <Feather name="check" size={16} color={theme.primary} />
+              </Pressable>
+            </View>
+          ))}
+        </SettingsSection>
+      ) : null}
+
+      <SettingsSection title={t("group.inviteLinks")}>
+        <SettingsItem
+          icon="plus"
+          label={t("group.createLink")}
+          onPress={() => setCreateSheetVisible(true)}
+        />
+        {invites.map((invite) => (
+          <SettingsItem
+            key={invite.id}
+            icon={isInviteActive(invite) ? "link" : "slash"}
+            label={getInviteLink(invite.token)}
+            value={getInviteDetails(invite)}
+            multiline
+            onPress={
+              isInviteActive(invite) ? () => setSelected(invite) : undefined
+            }
+          />
+        ))}
+      </SettingsSection>
+
+      <MessageActionSheet
+        visible={selected !== null}
+        onClose={() => setSelected(null)}
+        actions={getActionItems()}
+        cancelLabel={t("common.cancel")}
+      />
+      <CreateInviteSheet
+        visible={createSheetVisible}
+        onClose={() => setCreateSheetVisible(false)}
+        onCreate={handleCreate}
+      />
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  requestItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  requestInfo: {
+    flex: 1,
+  },
+  requestButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   View,
   StyleSheet,
@@ -6,6 +6,9 @@ import {
   Dimensions,
   ActivityIndicator,
   Platform,
+  FlatList,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from "react-native";
 import { Image } from "expo-image";
 import { useVideoPlayer, VideoView } from "expo-video";
@@ -85,10 +88,14 @@ function NativeVideoPlayer({
   );
 }
 
-export default function MediaViewerScreen({ route, navigation }: Props) {
-  const { uri, type } = route.params;
-  const insets = useSafeAreaInsets();
-  
+type MediaItemProps = {
+  uri: string;
+  type: "photo" | "video";
+  isActive: boolean;
+  videoHeight: number;
+};
+
+function MediaItem({ uri, type, isActive, videoHeight }: MediaItemProps) {
   const quickCached = Platform.OS !== "web" ? mediaCache.getQuickCachedUri(uri) : null;
   
   const [cachedMediaUri, setCachedMediaUri] = useState<string | null>(quickCached);
@@ -116,10 +123,6 @@ export default function MediaViewerScreen({ route, navigation }: Props) {
     });
   }, [uri, quickCached]);
 
-  const handleClose = useCallback(() => {
-    navigation.goBack();
-  }, [navigation]);
-
   const handleLoad = useCallback(() => {
     setIsLoading(false);
   }, []);
@@ -133,20 +136,12 @@ export default function MediaViewerScreen({ route, navigation }: Props) {
     setIsBuffering(buffering);
   }, []);
 
-  const videoHeight = SCREEN_HEIGHT - insets.top - getAndroidBottomInset(insets.bottom) - 80;
+  // Only the visible video gets a player, so swiping away stops playback.
+  const showVideo = type === "video" && isActive && cachedMediaUri;
 
   return (
-    <View style={styles.container}>
-      <Pressable
-        style={[styles.closeButton, { top: insets.top + Spacing.md }]}
-        onPress={handleClose}
-      >
-        <View style={styles.closeButtonBackground}>
-          <Feather name="x" size={24} color="#FFFFFF" />
-        </View>
-      </Pressable>
-
-      {isLoading ? (
+    <View style={styles.page}>
+      {isLoading && (type === "photo" || isActive) ? (
         <ActivityIndicator
           size="large"
           color="#FFFFFF"
@@ -177,11 +172,11 @@ export default function MediaViewerScreen({ route, navigation }: Props) {
           onLoad={handleLoad}
           onError={handleError}
         />
-      ) : type === "video" && Platform.OS === "web" && cachedMediaUri ? (
+      ) : showVideo && Platform.OS === "web" ? (
         <View style={styles.webVideoContainer}>
           <WebVideoPlayer uri={cachedMediaUri} onLoad={handleLoad} onError={handleError} />
         </View>
-      ) : type === "video" && cachedMediaUri ? (
+      ) : showVideo ? (
         <NativeVideoPlayer 
           uri={cachedMediaUri}
           videoHeight={videoHeight}
@@ -194,6 +189,82 @@ export default function MediaViewerScreen({ route, navigation }: Props) {
   );
 }
 
+export default function MediaViewerScreen({ route, navigation }: Props) {
+  const { uri, type, items: albumItems, initialIndex = 0 } = route.params;
+  const insets = useSafeAreaInsets();
+  const items = useMemo(
+    () => albumItems ?? [{ uri, type }],
+    [albumItems, uri, type],
+  );
+  const [activeIndex, setActiveIndex] = useState(initialIndex);
+
+  const handleClose = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  const handleMomentumScrollEnd = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      setActiveIndex(
+        Math.round(event.nativeEvent.contentOffset.x / SCREEN_WIDTH),
+      );
+    },
+    [],
+  );
+
+  const getItemLayout = useCallback(
+    (_: unknown, index: number) => ({
+      length: SCREEN_WIDTH,
+      offset: SCREEN_WIDTH * index,
+      index,
+    }),
+    [],
+  );
+
+  const videoHeight =
+    SCREEN_HEIGHT - insets.top - getAndroidBottomInset(insets.bottom) - 80;
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        style={[styles.closeButton, { top: insets.top + Spacing.md }]}
+        onPress={handleClose}
+      >
+        <View style={styles.closeButtonBackground}>
+          <Feather name="x" size={24} color="#FFFFFF" />
+        </View>
+      </Pressable>
+
+      {items.length > 1 ? (
+        <View style={[styles.counter, { top: insets.top + Spacing.md }]}>
+          <ThemedText style={styles.counterText}>
+            {activeIndex + 1} / {items.length}
+          </ThemedText>
+        </View>
+      ) : null}
+
+      <FlatList
+        data={items}
+        horizontal
+        pagingEnabled
+        scrollEnabled={items.length > 1}
+        showsHorizontalScrollIndicator={false}
+        initialScrollIndex={initialIndex}
+        getItemLayout={getItemLayout}
+        onMomentumScrollEnd={handleMomentumScrollEnd}
+        keyExtractor={(item, index) => `${index}_${item.uri}`}
+        renderItem={({ item, index }) => (
+          <MediaItem
+            uri={item.uri}
+            type={item.type}
+            isActive={index === activeIndex}
+            videoHeight={videoHeight}
+          />
+        )}
+      />
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -201,6 +272,12 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  page: {
+    width: SCREEN_WIDTH,
+    height: SCREEN_HEIGHT,
+    justifyContent: "center",
+    alignItems: "center",
+  },
   closeButton: {
     position: "absolute",
     left: Spacing.lg,
@@ -214,6 +291,19 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  counter: {
+    position: "absolute",
+    alignSelf: "center",
+    zIndex: 100,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: 16,
+  },
+  counterText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
   imageMedia: {
     width: SCREEN_WIDTH,
     height: SCREEN_HEIGHT,
@@ -0,0 +1,310 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  TextInput,
+  Alert,
+} from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import { useTranslation } from "react-i18next";
+import { ChatsStackParamList } from "@/navigation/types";
+import { EmptyState } from "@/components/EmptyState";
+import { ThemedText } from "@/components/ThemedText";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import {
+  ScheduleTimeSheet,
+  formatScheduledTime,
+} from "@/components/ScheduleTimeSheet";
+import { useTheme } from "@/hooks/useTheme";
+import { useLastSentAt, useScheduledMessages } from "@/hooks/useChats";
+import { useAuth } from "@/contexts/AuthContext";
+import { useChatsContext } from "@/contexts/ChatsContext";
+import { QueuedMessage } from "@/services/messageQueue";
+import { findFirstUrl } from "@/services/linkPreview";
+import { getMemberRestrictions } from "@/store/types";
+import { Spacing, BorderRadius } from "@/constants/theme";
+
+type Props = NativeStackScreenProps<ChatsStackParamList, "ScheduledMessages">;
+
+const TYPE_ICONS: Record<QueuedMessage["type"], keyof typeof Feather.glyphMap> =
+  {
+    text: "message-square",
+    image: "image",
+    video: "video",
+    voice: "mic",
+    file: "file",
+    album: "grid",
+  };
+
+export default function ScheduledMessagesScreen({ route }: Props) {
+  const { chatId } = route.params;
+  const { theme, isDark } = useTheme();
+  const { t } = useTranslation();
+  const { scheduled, updateScheduled, cancelScheduled, sendScheduledNow } =
+    useScheduledMessages(chatId);
+  const { user } = useAuth();
+  const { chats } = useChatsContext();
+  const restrictions = getMemberRestrictions(
+    chats.find((chat) => chat.id === chatId),
+    user?.visibleId,
+  );
+  const lastSentAt = useLastSentAt(chatId);
+  const [selected, setSelected] = useState<QueuedMessage | null>(null);
+  const [actionSheetVisible, setActionSheetVisible] = useState(false);
+  const [timeSheetVisible, setTimeSheetVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+
+  const getPreview = useCallback(
+    (item: QueuedMessage) => {
+      if (item.content) return item.content;
+      if (item.type === "image") return t("chat.photo");
+      if (item.type === "video") {
+        return item.isVideoNote ? t("chat.videoNote") : t("chat.video");
+      }
+      if (item.type === "voice") return t("chat.voiceMessage");
+      if (item.type === "file") return item.file?.name || t("chat.file");
+      if (item.type === "album") return t("chat.album");
+      return "";
+    },
+    [t],
+  );
+
+  const handleSaveEdit = useCallback(async () => {
+    if (!editingId) return;
+    const trimmed = editText.trim();
+    if (restrictions?.canSendLinks === false && findFirstUrl(trimmed)) {
+      Alert.alert(t("chat.linksRestricted"));
+      return;
+    }
+    if (trimmed) {
+      await updateScheduled(editingId, { content: trimmed });
+    }
+    setEditingId(null);
+    setEditText("");
+  }, [editingId, editText, updateScheduled, restrictions?.canSendLinks, t]);
+
+  const handleSendNow = useCallback(
+    (messageId: string) => {
+      const slowModeUntil =
+        restrictions?.slowModeSeconds && lastSentAt
+          ? lastSentAt + restrictions.slowModeSeconds * 1000
+          : 0;
+      if (slowModeUntil > Date.now()) {
+        Alert.alert(t("chat.slowModeActive"));
+        return;
+      }
+      sendScheduledNow(messageId);
+    },
+    [restrictions?.slowModeSeconds, lastSentAt, sendScheduledNow, t],
+  );
+
+  const getActionItems = useCallback((): ActionItem[] => {
+    if (!selected) return [];
+    const actions: ActionItem[] = [
+      {
+        id: "sendNow",
+        label: t("schedule.sendNow"),
+        icon: "send",
+        onPress: () => handleSendNow(selected.id),
+      },
+      {
+        id: "reschedule",
+        label: t("schedule.reschedule"),
+        icon: "clock",
+        onPress: () => setTimeSheetVisible(true),
+      },
+    ];
+    if (selected.type === "text") {
+      actions.push({
+        id: "edit",
+        label: t("chat.edit"),
+        icon: "edit-2",
+        onPress: () => {
+          setEditingId(selected.id);
+          setEditText(selected.content || "");
+        },
+      });
+    }
+    actions.push({
+      id: "cancel",
+      label: t("schedule.cancelMessage"),
+      icon: "trash-2",
+      destructive: true,
+      onPress: () => cancelScheduled(selected.id),
+    });
+    return actions;
+  }, [selected, t, handleSendNow, cancelScheduled]);
+
+  const handleReschedule = useCallback(
+    (sendAt: number) => {
+      setTimeSheetVisible(false);
+      if (selected) {
+        updateScheduled(selected.id, { sendAt });
+      }
+    },
+    [selected, updateScheduled],
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: QueuedMessage }) => {
+      const isEditing = editingId === item.id;
+      return (
+        <Pressable
+          onPress={() => {
+            if (isEditing) return;
+            setSelected(item);
+            setActionSheetVisible(true);
+          }}
+          style={({ pressed }) => [
+            styles.item,
+            {
+              backgroundColor: theme.backgroundSecondary,
+              opacity: pressed && !isEditing ? 0.7 : 1,
+            },
+          ]}
+        >
+          <View
+            style={[
+              styles.iconContainer,
+              { backgroundColor: theme.primary + "15" },
+            ]}
+          >
+            <Feather
+              name={TYPE_ICONS[item.type]}
+              size={18}
+              color={theme.primary}
+            />
+          </View>
+          <View style={styles.itemContent}>
+            <ThemedText
+              type="caption"
+              style={[styles.time, { color: theme.primary }]}
+            >
+              {formatScheduledTime(item.sendAt!)}
+            </ThemedText>
+            {isEditing ? (
+              <View style={styles.editRow}>
+                <TextInput
+                  style={[
+                    styles.editInput,
+                    {
+                      color: theme.text,
+                      borderColor: isDark
+                        ? "rgba(255,255,255,0.12)"
+                        : "#E5E5E5",
+                    },
+                  ]}
+                  value={editText}
+                  onChangeText={setEditText}
+                  multiline
+                  maxLength={4096}
+                  autoFocus
+                />
+                <Pressable onPress={handleSaveEdit} hitSlop={10}>
+                  <Feather name="check" size={22} color={theme.primary} />
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    setEditingId(null);
+                    setEditText("");
+                  }}
+                  hitSlop={10}
+                >
+                  <Feather name="x" size={22} color={theme.textSecondary} />
+                </Pressable>
+              </View>
+            ) : (
+              <ThemedText numberOfLines={3}>{getPreview(item)}</ThemedText>
+            )}
+          </View>
+        </Pressable>
+      );
+    },
+    [editingId, editText, theme, isDark, getPreview, handleSaveEdit],
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      {scheduled.length === 0 ? (
+        <EmptyState
+          icon="clock"
+          title={t("schedule.empty")}
+          message={t("schedule.emptyHint")}
+        />
+      ) : (
+        <FlatList
+          data={scheduled}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+        />
+      )}
+
+      <MessageActionSheet
+        visible={actionSheetVisible}
+        onClose={() => setActionSheetVisible(false)}
+        actions={getActionItems()}
+        cancelLabel={t("common.cancel")}
+      />
+      <ScheduleTimeSheet
+        visible={timeSheetVisible}
+        onClose={() => setTimeSheetVisible(false)}
+        onSelect={handleReschedule}
+        initialSendAt={selected?.sendAt}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: Spacing.md,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  time: {
+    fontWeight: "600",
+    marginBottom: 2,
+  },
+  editRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  editInput: {
+    flex: 1,
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    maxHeight: 120,
+  },
+});
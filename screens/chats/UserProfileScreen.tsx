@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { View, StyleSheet, Pressable, Platform } from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { useTranslation } from "react-i18next";
@@ -10,9 +10,13 @@ import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { Avatar } from "@/components/Avatar";
 import { ThemedText } from "@/components/ThemedText";
 import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import { ChatNotificationSection } from "@/components/ChatNotificationSection";
 import { useTheme } from "@/hooks/useTheme";
 import { useOnlineStatus } from "@/hooks/useChats";
-import { Spacing, BorderRadius, CardStyles } from "@/constants/theme";
+import { useAuth } from "@/contexts/AuthContext";
+import { useChatsContext } from "@/contexts/ChatsContext";
+import { e2eeService, SafetyNumberInfo } from "@/services/e2ee";
+import { Spacing, BorderRadius, CardStyles, Fonts } from "@/constants/theme";
 
 type Props = NativeStackScreenProps<ChatsStackParamList, "UserProfile">;
 
@@ -21,9 +25,44 @@ export default function UserProfileScreen({ route, navigation }: Props) {
   const { theme, isDark } = useTheme();
   const { t } = useTranslation();
   const { isOnline } = useOnlineStatus();
+  const { user: currentUser } = useAuth();
+  const { chats } = useChatsContext();
+  const [safety, setSafety] = useState<SafetyNumberInfo | null>(null);
 
   const userId = user.id ? parseInt(String(user.id), 10) : undefined;
   const userOnline = userId ? isOnline(userId) : false;
+  const isSelf = !!userId && userId === currentUser?.visibleId;
+  const privateChat = isSelf
+    ? undefined
+    : chats.find(
+        (chat) => chat.type === "private" && chat.participant?.id === user.id,
+      );
+
+  useEffect(() => {
+    if (!userId || isSelf) return;
+    let cancelled = false;
+    e2eeService
+      .getSafetyNumber(userId)
+      .then((info) => {
+        if (!cancelled) setSafety(info);
+      })
+      .catch(() => {
+        if (!cancelled) setSafety({ safetyNumber: null, isVerified: false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isSelf]);
+
+  const toggleVerified = useCallback(async () => {
+    if (!userId || !safety?.safetyNumber) return;
+    const isVerified = !safety.isVerified;
+    await e2eeService.setVerified(
+      userId,
+      isVerified ? safety.safetyNumber : null,
+    );
+    setSafety({ ...safety, isVerified });
+  }, [userId, safety]);
 
   const gradientColors = isDark
     ? [theme.primary + "40", theme.primary + "20", "transparent"] as const
@@ -92,6 +131,49 @@ export default function UserProfileScreen({ route, navigation }: Props) {
         ) : null}
       </SettingsSection>
 
+      {privateChat ? <ChatNotificationSection chatId={privateChat.id} /> : null}
+
+      {safety ? (
+        <SettingsSection title={t("profile.encryption")}>
+          {safety.safetyNumber ? (
+            <View style={styles.safetyNumberContainer}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {t("profile.safetyNumberHint", { name: user.displayName })}
+              </ThemedText>
+              <View style={styles.safetyNumberGrid}>
+                {safety.safetyNumber.split(" ").map((group, index) => (
+                  <ThemedText key={index} style={styles.safetyNumberGroup}>
+                    {group}
+                  </ThemedText>
+                ))}
+              </View>
+            </View>
+          ) : (
+            <SettingsItem
+              icon="unlock"
+              label={t("profile.encryptionUnavailable")}
+              multiline
+            />
+          )}
+          {safety.safetyNumber ? (
+            <SettingsItem
+              icon={safety.isVerified ? "shield" : "shield-off"}
+              label={
+                safety.isVerified
+                  ? t("profile.clearVerification")
+                  : t("profile.markAsVerified")
+              }
+              value={
+                safety.isVerified
+                  ? t("profile.verified")
+                  : t("profile.notVerified")
+              }
+              onPress={toggleVerified}
+            />
+          ) : null}
+        </SettingsSection>
+      ) : null}
+
       <SettingsSection>
         <SettingsItem
           icon="message-circle"
@@ -137,4 +219,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
+  safetyNumberContainer: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+  },
+  safetyNumberGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    marginTop: Spacing.md,
+    rowGap: Spacing.sm,
+  },
+  safetyNumberGroup: {
+    width: "25%",
+    textAlign: "center",
+    fontFamily: Fonts?.mono,
+    fontSize: 17,
+    letterSpacing: 1,
+  },
 });
@@ -0,0 +1,228 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { View, StyleSheet, Switch, Alert } from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+import { SettingsStackParamList } from "@/navigation/types";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import { useTheme } from "@/hooks/useTheme";
+import { useDataSettings } from "@/hooks/useDataSettings";
+import {
+  AUTO_DOWNLOAD_LIMITS_MB,
+  AUTO_DOWNLOAD_MEDIA_TYPES,
+  AUTO_DOWNLOAD_NETWORKS,
+  AutoDownloadMediaType,
+  AutoDownloadNetwork,
+  AutoDownloadRule,
+  COMPRESSION_PRESETS,
+  CompressionPreset,
+  dataSettingsService,
+} from "@/services/dataSettings";
+import { mediaCache } from "@/services/mediaCache";
+import { autoDownloadService } from "@/services/autoDownload";
+import { Spacing } from "@/constants/theme";
+
+type Props = NativeStackScreenProps<
+  SettingsStackParamList,
+  "DataStorageSettings"
+>;
+
+const PRESET_ICONS: Record<CompressionPreset, string> = {
+  original: "maximize",
+  hd: "monitor",
+  economy: "trending-down",
+};
+
+const MEDIA_TYPE_ICONS: Record<AutoDownloadMediaType, string> = {
+  photo: "image",
+  video: "video",
+  voice: "mic",
+};
+
+interface RuleTarget {
+  network: AutoDownloadNetwork;
+  type: AutoDownloadMediaType;
+}
+
+export default function DataStorageSettingsScreen({ navigation }: Props) {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const settings = useDataSettings();
+  const [ruleTarget, setRuleTarget] = useState<RuleTarget | null>(null);
+
+  const formatLimit = useCallback(
+    (limitMb: number | null) =>
+      limitMb === null
+        ? t("dataStorage.autoDownload.anySize")
+        : t("dataStorage.autoDownload.upTo", {
+            size: mediaCache.formatCacheSize(limitMb * 1024 * 1024),
+          }),
+    [t],
+  );
+
+  const formatRule = useCallback(
+    (rule: AutoDownloadRule) =>
+      rule.enabled
+        ? formatLimit(rule.maxSizeMb)
+        : t("dataStorage.autoDownload.off"),
+    [formatLimit, t],
+  );
+
+  const updateRule = useCallback(
+    (target: RuleTarget, rule: AutoDownloadRule) => {
+      const { autoDownload } = dataSettingsService.getSettings();
+      dataSettingsService.updateSettings({
+        autoDownload: {
+          ...autoDownload,
+          [target.network]: {
+            ...autoDownload[target.network],
+            [target.type]: rule,
+          },
+        },
+      });
+    },
+    [],
+  );
+
+  const ruleActions = useMemo((): ActionItem[] => {
+    if (!ruleTarget) return [];
+    const rule = settings.autoDownload[ruleTarget.network][ruleTarget.type];
+    return [
+      {
+        id: "off",
+        label: t("dataStorage.autoDownload.off"),
+        icon: rule.enabled ? "x" : "check",
+        onPress: () => updateRule(ruleTarget, { ...rule, enabled: false }),
+      },
+      ...AUTO_DOWNLOAD_LIMITS_MB.map(
+        (limit): ActionItem => ({
+          id: String(limit),
+          label: formatLimit(limit),
+          icon: rule.enabled && rule.maxSizeMb === limit ? "check" : "download",
+          onPress: () =>
+            updateRule(ruleTarget, { enabled: true, maxSizeMb: limit }),
+        }),
+      ),
+    ];
+  }, [ruleTarget, settings, formatLimit, updateRule, t]);
+
+  const handleResetHomeNetwork = useCallback(async () => {
+    await autoDownloadService.resetHomeCarrier();
+    Alert.alert(t("dataStorage.autoDownload.homeNetworkReset"));
+  }, [t]);
+
+  return (
+    <ScreenScrollView contentContainerStyle={styles.content}>
+      <SettingsSection title={t("storage.section")}>
+        <SettingsItem
+          icon="pie-chart"
+          label={t("storage.title")}
+          onPress={() => navigation.navigate("StorageUsage")}
+        />
+      </SettingsSection>
+
+      {AUTO_DOWNLOAD_NETWORKS.map((network, index) => (
+        <SettingsSection
+          key={network}
+          title={t(`dataStorage.autoDownload.${network}`)}
+        >
+          {AUTO_DOWNLOAD_MEDIA_TYPES.map((type) => (
+            <SettingsItem
+              key={type}
+              icon={MEDIA_TYPE_ICONS[type]}
+              label={t(`dataStorage.autoDownload.types.${type}`)}
+              value={formatRule(settings.autoDownload[network][type])}
+              onPress={() => setRuleTarget({ network, type })}
+            />
+          ))}
+          {network === "roaming" ? (
+            <SettingsItem
+              icon="refresh-cw"
+              label={t("dataStorage.autoDownload.resetHomeNetwork")}
+              onPress={handleResetHomeNetwork}
+            />
+          ) : null}
+          {index === AUTO_DOWNLOAD_NETWORKS.length - 1 ? (
+            <View style={styles.hintContainer}>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {t("dataStorage.autoDownload.hint")}
+              </ThemedText>
+            </View>
+          ) : null}
+        </SettingsSection>
+      ))}
+
+      <SettingsSection title={t("dataStorage.uploadQuality")}>
+        {COMPRESSION_PRESETS.map((preset) => (
+          <SettingsItem
+            key={preset}
+            icon={PRESET_ICONS[preset]}
+            label={t(`dataStorage.presets.${preset}`)}
+            value={t(`dataStorage.presetHints.${preset}`)}
+            multiline
+            onPress={() =>
+              dataSettingsService.updateSettings({ uploadPreset: preset })
+            }
+            rightElement={
+              settings.uploadPreset === preset ? (
+                <Feather name="check" size={18} color={theme.primary} />
+              ) : null
+            }
+          />
+        ))}
+        <View style={styles.hintContainer}>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {t("dataStorage.uploadQualityHint")}
+          </ThemedText>
+        </View>
+      </SettingsSection>
+
+      <SettingsSection title={t("dataStorage.linkPreviews.title")}>
+        <SettingsItem
+          icon="link-2"
+          label={t("dataStorage.linkPreviews.privateChats")}
+          rightElement={
+            <Switch
+              value={settings.privateChatLinkPreviews}
+              onValueChange={(value) =>
+                dataSettingsService.updateSettings({
+                  privateChatLinkPreviews: value,
+                })
+              }
+              trackColor={{ true: theme.primary }}
+            />
+          }
+        />
+        <View style={styles.hintContainer}>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {t("dataStorage.linkPreviews.hint")}
+          </ThemedText>
+        </View>
+      </SettingsSection>
+
+      <MessageActionSheet
+        visible={ruleTarget !== null}
+        onClose={() => setRuleTarget(null)}
+        actions={ruleActions}
+        cancelLabel={t("common.cancel")}
+      />
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  hintContainer: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+  },
+});
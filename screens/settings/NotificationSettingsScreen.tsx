@@ -0,0 +1,200 @@
+import React, { useCallback, useState } from "react";
+import { View, StyleSheet, Switch, Platform, Linking } from "react-native";
+import { useTranslation } from "react-i18next";
+import DateTimePicker, {
+  DateTimePickerAndroid,
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import { NotificationSoundSheet } from "@/components/NotificationSoundSheet";
+import { useTheme } from "@/hooks/useTheme";
+import { useNotificationSettings } from "@/hooks/useNotifications";
+import { useNotificationsContext } from "@/contexts/NotificationsContext";
+import {
+  notificationSettingsService,
+  NotificationSoundId,
+  QuietHours,
+} from "@/services/notificationSettings";
+import { Spacing } from "@/constants/theme";
+
+type SoundTarget = "privateSound" | "groupSound";
+type QuietHoursBound = "start" | "end";
+
+function minutesToDate(minutes: number): Date {
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+}
+
+function formatMinutes(minutes: number): string {
+  return minutesToDate(minutes).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function NotificationSettingsScreen() {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const { permissionGranted } = useNotificationsContext();
+  const settings = useNotificationSettings();
+  const [soundTarget, setSoundTarget] = useState<SoundTarget | null>(null);
+  const { quietHours } = settings;
+
+  const updateQuietHours = useCallback(
+    (updates: Partial<QuietHours>) => {
+      notificationSettingsService.updateGlobalSettings({
+        quietHours: { ...quietHours, ...updates },
+      });
+    },
+    [quietHours],
+  );
+
+  const setBoundFromDate = useCallback(
+    (bound: QuietHoursBound, date: Date) => {
+      updateQuietHours({ [bound]: date.getHours() * 60 + date.getMinutes() });
+    },
+    [updateQuietHours],
+  );
+
+  const openAndroidTimePicker = useCallback(
+    (bound: QuietHoursBound) => {
+      DateTimePickerAndroid.open({
+        value: minutesToDate(quietHours[bound]),
+        mode: "time",
+        onChange: (event: DateTimePickerEvent, date?: Date) => {
+          if (event.type === "set" && date) {
+            setBoundFromDate(bound, date);
+          }
+        },
+      });
+    },
+    [quietHours, setBoundFromDate],
+  );
+
+  const handleSoundSelect = useCallback(
+    (sound: NotificationSoundId | undefined) => {
+      if (!soundTarget || !sound) return;
+      notificationSettingsService.updateGlobalSettings({
+        [soundTarget]: sound,
+      });
+    },
+    [soundTarget],
+  );
+
+  const renderBoundItem = (bound: QuietHoursBound) => {
+    const label =
+      bound === "start" ? t("notifications.from") : t("notifications.to");
+    if (Platform.OS === "ios") {
+      return (
+        <SettingsItem
+          icon="clock"
+          label={label}
+          rightElement={
+            <DateTimePicker
+              value={minutesToDate(quietHours[bound])}
+              mode="time"
+              display="compact"
+              onChange={(_event, date) => {
+                if (date) setBoundFromDate(bound, date);
+              }}
+              accentColor={theme.primary}
+            />
+          }
+        />
+      );
+    }
+    return (
+      <SettingsItem
+        icon="clock"
+        label={label}
+        value={formatMinutes(quietHours[bound])}
+        onPress={
+          Platform.OS === "android"
+            ? () => openAndroidTimePicker(bound)
+            : undefined
+        }
+      />
+    );
+  };
+
+  return (
+    <ScreenScrollView contentContainerStyle={styles.content}>
+      {Platform.OS !== "web" ? (
+        <SettingsSection title={t("notifications.title")}>
+          <SettingsItem
+            icon={permissionGranted ? "check-circle" : "alert-circle"}
+            label={
+              permissionGranted
+                ? t("notifications.enabled")
+                : t("notifications.disabled")
+            }
+            value={
+              permissionGranted ? undefined : t("notifications.openSettings")
+            }
+            onPress={
+              permissionGranted ? undefined : () => Linking.openSettings()
+            }
+          />
+        </SettingsSection>
+      ) : null}
+
+      <SettingsSection title={t("notifications.soundsSection")}>
+        <SettingsItem
+          icon="user"
+          label={t("notifications.privateChats")}
+          value={t(`notifications.sounds.${settings.privateSound}`)}
+          onPress={() => setSoundTarget("privateSound")}
+        />
+        <SettingsItem
+          icon="users"
+          label={t("notifications.groups")}
+          value={t(`notifications.sounds.${settings.groupSound}`)}
+          onPress={() => setSoundTarget("groupSound")}
+        />
+      </SettingsSection>
+
+      <SettingsSection title={t("notifications.quietHours")}>
+        <SettingsItem
+          icon="moon"
+          label={t("notifications.quietHoursEnabled")}
+          rightElement={
+            <Switch
+              value={quietHours.enabled}
+              onValueChange={(enabled) => updateQuietHours({ enabled })}
+              trackColor={{ true: theme.primary }}
+            />
+          }
+        />
+        {quietHours.enabled ? renderBoundItem("start") : null}
+        {quietHours.enabled ? renderBoundItem("end") : null}
+        <View style={styles.hintContainer}>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {t("notifications.quietHoursHint")}
+          </ThemedText>
+        </View>
+      </SettingsSection>
+
+      <NotificationSoundSheet
+        visible={soundTarget !== null}
+        onClose={() => setSoundTarget(null)}
+        onSelect={handleSoundSelect}
+        selected={soundTarget ? settings[soundTarget] : undefined}
+        isGroup={soundTarget === "groupSound"}
+      />
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  hintContainer: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+  },
+});
@@ -1,5 +1,12 @@
 import React, { useCallback, useLayoutEffect } from "react";
-import { View, StyleSheet, Alert, Pressable, Platform } from "react-native";
+import {
+  View,
+  StyleSheet,
+  Alert,
+  Pressable,
+  Platform,
+  Switch,
+} from "react-native";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { useNavigation, DrawerActions } from "@react-navigation/native";
 import { useTranslation } from "react-i18next";
@@ -14,6 +21,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
+import { useDataSettings } from "@/hooks/useDataSettings";
 import { Spacing, BorderRadius, CardStyles } from "@/constants/theme";
 
 type ThemeMode = "system" | "light" | "dark";
@@ -23,8 +31,9 @@ type Props = NativeStackScreenProps<SettingsStackParamList, "SettingsMain">;
 export default function SettingsScreen({ navigation }: Props) {
   const { theme, isDark, themeMode, setThemeMode } = useTheme();
   const { t, i18n } = useTranslation();
-  const { user, signOut, deleteAccount } = useAuth();
+  const { user, signOut, deleteAccount, updateUser } = useAuth();
   const drawerNav = useNavigation();
+  const dataSettings = useDataSettings();
 
   const getThemeLabel = (mode: ThemeMode) => {
     switch (mode) {
@@ -176,6 +185,35 @@ export default function SettingsScreen({ navigation }: Props) {
           value={getThemeLabel(themeMode)}
           onPress={handleThemeChange}
         />
+        <SettingsItem
+          icon="bell"
+          label={t("settings.notifications")}
+          onPress={() => navigation.navigate("NotificationSettings")}
+        />
+        <SettingsItem
+          icon="database"
+          label={t("settings.dataStorage")}
+          value={t(`dataStorage.presets.${dataSettings.uploadPreset}`)}
+          onPress={() => navigation.navigate("DataStorageSettings")}
+        />
+      </SettingsSection>
+
+      <SettingsSection title={t("settings.privacy")}>
+        <SettingsItem
+          icon="eye-off"
+          label={t("settings.hideForwardedName")}
+          value={t("settings.hideForwardedNameHint")}
+          multiline
+          rightElement={
+            <Switch
+              value={!!user?.hideForwardedName}
+              onValueChange={(hideForwardedName) =>
+                updateUser({ hideForwardedName })
+              }
+              trackColor={{ true: theme.primary }}
+            />
+          }
+        />
       </SettingsSection>
 
       <View style={styles.donationWrapper}>
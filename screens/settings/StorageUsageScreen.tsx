@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Alert,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { useTranslation } from "react-i18next";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { ThemedText } from "@/components/ThemedText";
+import { SettingsItem, SettingsSection } from "@/components/SettingsItem";
+import {
+  MessageActionSheet,
+  ActionItem,
+} from "@/components/MessageActionSheet";
+import { useTheme } from "@/hooks/useTheme";
+import { useDataSettings } from "@/hooks/useDataSettings";
+import { useChatsContext } from "@/contexts/ChatsContext";
+import {
+  CACHE_RETENTION_DAYS,
+  CACHE_SIZE_LIMITS_MB,
+  DataSettings,
+  dataSettingsService,
+} from "@/services/dataSettings";
+import { mediaCache, CachedMediaType } from "@/services/mediaCache";
+import {
+  CACHED_MEDIA_TYPES,
+  ChatStorageUsage,
+  StorageUsage,
+  storageUsageService,
+} from "@/services/storageUsage";
+import { Spacing } from "@/constants/theme";
+
+type LimitSheet = "size" | "retention";
+
+const TYPE_ICONS: Record<CachedMediaType, string> = {
+  photo: "image",
+  video: "video",
+  voice: "mic",
+  other: "file",
+};
+
+export default function StorageUsageScreen() {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const { chats } = useChatsContext();
+  const settings = useDataSettings();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [limitSheet, setLimitSheet] = useState<LimitSheet | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setUsage(await storageUsageService.getUsage());
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const chatsById = useMemo(
+    () => new Map(chats.map((chat) => [chat.id, chat])),
+    [chats],
+  );
+
+  const formatSizeLimit = useCallback(
+    (limitMb: number | null) =>
+      limitMb === null
+        ? t("storage.noLimit")
+        : mediaCache.formatCacheSize(limitMb * 1024 * 1024),
+    [t],
+  );
+
+  const formatRetention = useCallback(
+    (days: number | null) =>
+      days === null
+        ? t("storage.forever")
+        : t("storage.retentionDays", { count: days }),
+    [t],
+  );
+
+  const confirmClear = useCallback(
+    (message: string, clear: () => Promise<void>) => {
+      const run = async () => {
+        await clear();
+        await loadUsage();
+      };
+      if (Platform.OS === "web") {
+        if (window.confirm(message)) run();
+        return;
+      }
+      Alert.alert(t("storage.clear"), message, [
+        { text: t("common.cancel"), style: "cancel" },
+        { text: t("storage.clear"), style: "destructive", onPress: run },
+      ]);
+    },
+    [t, loadUsage],
+  );
+
+  const updateLimits = useCallback(
+    async (updates: Partial<DataSettings>) => {
+      await dataSettingsService.updateSettings(updates);
+      await mediaCache.applyLimits();
+      await loadUsage();
+    },
+    [loadUsage],
+  );
+
+  const limitActions = useMemo((): ActionItem[] => {
+    if (limitSheet === "size") {
+      return CACHE_SIZE_LIMITS_MB.map((limit) => ({
+        id: String(limit),
+        label: formatSizeLimit(limit),
+        icon: settings.cacheSizeLimitMb === limit ? "check" : "hard-drive",
+        onPress: () => updateLimits({ cacheSizeLimitMb: limit }),
+      }));
+    }
+    if (limitSheet === "retention") {
+      return CACHE_RETENTION_DAYS.map((days) => ({
+        id: String(days),
+        label: formatRetention(days),
+        icon: settings.cacheRetentionDays === days ? "check" : "clock",
+        onPress: () => updateLimits({ cacheRetentionDays: days }),
+      }));
+    }
+    return [];
+  }, [limitSheet, settings, formatSizeLimit, formatRetention, updateLimits]);
+
+  const handleClearType = useCallback(
+    (type: CachedMediaType) => {
+      if (!usage) return;
+      confirmClear(
+        t("storage.clearTypeConfirm", {
+          type: t(`storage.types.${type}`),
+          size: mediaCache.formatCacheSize(usage.byType[type]),
+        }),
+        () => storageUsageService.clearMediaType(type),
+      );
+    },
+    [usage, confirmClear, t],
+  );
+
+  const handleClearChat = useCallback(
+    (chatUsage: ChatStorageUsage, name: string) => {
+      confirmClear(
+        t("storage.clearChatConfirm", {
+          name,
+          size: mediaCache.formatCacheSize(chatUsage.mediaSize),
+        }),
+        () => storageUsageService.clearChatMedia(chatUsage),
+      );
+    },
+    [confirmClear, t],
+  );
+
+  const renderChat = (chatUsage: ChatStorageUsage) => {
+    const chat = chatsById.get(chatUsage.chatId);
+    const name =
+      chat?.name || chat?.participant?.displayName || t("storage.unknownChat");
+    return (
+      <SettingsItem
+        key={chatUsage.chatId}
+        icon={chat?.isGroup ? "users" : "user"}
+        label={name}
+        value={t("storage.chatBreakdown", {
+          media: mediaCache.formatCacheSize(chatUsage.mediaSize),
+          messages: mediaCache.formatCacheSize(chatUsage.messageSize),
+        })}
+        multiline
+        onPress={
+          chatUsage.mediaSize > 0
+            ? () => handleClearChat(chatUsage, name)
+            : undefined
+        }
+      />
+    );
+  };
+
+  return (
+    <ScreenScrollView contentContainerStyle={styles.content}>
+      <View style={styles.summary}>
+        {usage ? (
+          <>
+            <ThemedText type="h2">
+              {mediaCache.formatCacheSize(usage.totalSize)}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {t("storage.total")}
+            </ThemedText>
+          </>
+        ) : (
+          <ActivityIndicator color={theme.primary} />
+        )}
+      </View>
+
+      <SettingsSection title={t("storage.limits")}>
+        <SettingsItem
+          icon="hard-drive"
+          label={t("storage.sizeLimit")}
+          value={formatSizeLimit(settings.cacheSizeLimitMb)}
+          onPress={() => setLimitSheet("size")}
+        />
+        <SettingsItem
+          icon="clock"
+          label={t("storage.retention")}
+          value={formatRetention(settings.cacheRetentionDays)}
+          onPress={() => setLimitSheet("retention")}
+        />
+        <View style={styles.hintContainer}>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {t("storage.limitsHint")}
+          </ThemedText>
+        </View>
+      </SettingsSection>
+
+      {usage ? (
+        <SettingsSection title={t("storage.byType")}>
+          {CACHED_MEDIA_TYPES.map((type) => (
+            <SettingsItem
+              key={type}
+              icon={TYPE_ICONS[type]}
+              label={t(`storage.types.${type}`)}
+              value={mediaCache.formatCacheSize(usage.byType[type])}
+              onPress={
+                usage.byType[type] > 0 ? () => handleClearType(type) : undefined
+              }
+            />
+          ))}
+          <SettingsItem
+            icon="message-square"
+            label={t("storage.messages")}
+            value={mediaCache.formatCacheSize(usage.messageSize)}
+          />
+        </SettingsSection>
+      ) : null}
+
+      {usage && usage.chats.length > 0 ? (
+        <SettingsSection title={t("storage.byChat")}>
+          {usage.chats.map(renderChat)}
+        </SettingsSection>
+      ) : null}
+
+      <MessageActionSheet
+        visible={limitSheet !== null}
+        onClose={() => setLimitSheet(null)}
+        actions={limitActions}
+        cancelLabel={t("common.cancel")}
+      />
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  summary: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+  hintContainer: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+  },
+});
@@ -1,5 +1,15 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { User, Chat, Message, Contact } from "@/store/types";
+import {
+  User,
+  Chat,
+  Message,
+  Contact,
+  MessageReaction,
+  MessageRevision,
+  GroupAdminRight,
+  GroupPermissions,
+} from "@/store/types";
+import { e2eeService } from "./e2ee";
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || "";
 const TOKEN_KEY = "@shepot_token";
@@ -30,6 +40,7 @@ export interface ServerUser {
   avatarColor: string;
   avatarUrl?: string | null;
   bio: string | null;
+  hideForwardedName?: boolean;
   createdAt: string;
   lastSeen: string;
 }
@@ -55,9 +66,18 @@ export interface ServerChat {
   createdById: number;
   createdBy: number;
   maxMembers?: number;
-  members: { user: ServerUser; role?: string; joinedAt?: string; addedBy?: number }[];
+  members: {
+    user: ServerUser;
+    role?: string;
+    adminRights?: GroupAdminRight[] | null;
+    joinedAt?: string;
+    addedBy?: number;
+  }[];
+  permissions?: GroupPermissions | null;
   lastMessage?: ServerMessage | null;
+  pinnedMessageIds?: number[];
   unreadCount?: number;
+  unreadMentionCount?: number;
 }
 
 export interface ServerReplyToMessage {
@@ -65,7 +85,12 @@ export interface ServerReplyToMessage {
   senderId: number;
   senderName: string;
   content: string;
-  type: "text" | "image" | "video" | "voice" | "system";
+  type: "text" | "image" | "video" | "voice" | "file" | "album" | "system";
+}
+
+export interface ServerReaction {
+  emoji: string;
+  userIds: number[];
 }
 
 export interface ServerMessage {
@@ -73,17 +98,110 @@ export interface ServerMessage {
   chatId: number;
   senderId: number;
   content: string;
-  type: "text" | "image" | "video" | "voice" | "system";
+  type: "text" | "image" | "video" | "voice" | "file" | "album" | "system";
   mediaUrl: string | null;
   thumbnailUrl?: string | null;
   thumbnail_url?: string | null;
+  fileName?: string | null;
+  fileSize?: number | null;
+  mimeType?: string | null;
+  attachments?: ServerAttachment[] | null;
+  waveform?: number[] | null;
+  isVideoNote?: boolean | null;
+  forwardedFrom?: ServerForwardedFrom | null;
   createdAt: string;
   readBy: number[];
   deliveredTo: number[];
   edited?: boolean;
+  editedAt?: string | null;
+  /** The version an edit replaced; only sent with message_updated. */
+  revision?: ServerMessageRevision | null;
   sender?: ServerUser;
   replyToId?: number | null;
   replyToMessage?: ServerReplyToMessage | null;
+  replyCount?: number | null;
+  reactions?: ServerReaction[];
+  mentions?: ServerMention[] | null;
+  linkPreviewDisabled?: boolean;
+}
+
+export interface ServerForwardedFrom {
+  senderId?: number | null;
+  senderName?: string | null;
+  chatId: number;
+  messageId: number;
+  createdAt: string;
+}
+
+export interface ServerMessageRevision {
+  content: string;
+  createdAt: string;
+}
+
+export interface ServerAttachment {
+  type: "image" | "video";
+  mediaUrl: string;
+  thumbnailUrl?: string | null;
+  size?: number | null;
+}
+
+export interface ServerMention {
+  userId: number;
+  offset: number;
+  length: number;
+}
+
+export interface ServerLinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+export interface ServerChatNotificationSettings {
+  mutedUntil: string | null;
+  muteForever: boolean;
+  mentionsOnly: boolean;
+}
+
+export interface ServerQuietHours {
+  enabled: boolean;
+  start: number;
+  end: number;
+  timezoneOffset: number;
+}
+
+export interface ServerGroupInvite {
+  id: number;
+  token: string;
+  createdBy: number;
+  createdAt: string;
+  expiresAt: string | null;
+  usageLimit: number | null;
+  usageCount: number;
+  requiresApproval: boolean;
+  revoked: boolean;
+}
+
+export interface ServerGroupInvitePreview {
+  chatId: number;
+  name: string;
+  avatarColor: string | null;
+  avatarUrl: string | null;
+  memberCount: number;
+  requiresApproval: boolean;
+  isMember: boolean;
+  hasPendingRequest: boolean;
+}
+
+export interface ServerJoinRequest {
+  id: number;
+  userId: number;
+  displayName: string;
+  avatarColor: string | null;
+  avatarUrl: string | null;
+  createdAt: string;
 }
 
 export interface PageInfo {
@@ -91,6 +209,22 @@ export interface PageInfo {
   nextCursor: string | null;
 }
 
+/**
+ * A realtime event as the server sends it, over the socket or from
+ * /api/sync/changes. `cursor` marks its position in the change feed.
+ */
+export interface ServerEvent {
+  type: string;
+  payload?: Record<string, any>;
+  cursor?: string;
+}
+
+export interface SyncChanges {
+  events: ServerEvent[];
+  cursor: string | null;
+  hasMore: boolean;
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   pageInfo: PageInfo;
@@ -269,6 +403,7 @@ class ApiService {
     avatarColor?: string;
     avatarUrl?: string | null;
     bio?: string;
+    hideForwardedName?: boolean;
   }): Promise<ApiResponse<ServerUser>> {
     console.log("[API] updateProfile called with:", updates);
     try {
@@ -430,6 +565,9 @@ class ApiService {
         if (responseData.success && responseData.data) {
           const chats = responseData.data.chats || responseData.data.items || [];
           const pageInfo = responseData.data.pageInfo || { hasMore: false, nextCursor: null };
+          await e2eeService.loadSenderKeys(
+            chats.map((chat: ServerChat) => chat.lastMessage).filter(Boolean),
+          );
           return { success: true, data: { chats, pageInfo } };
         }
       }
@@ -502,7 +640,8 @@ class ApiService {
       displayName: string;
       avatarColor: string;
       avatarUrl?: string;
-      role: "admin" | "member";
+      role: "owner" | "admin" | "member";
+      adminRights?: GroupAdminRight[] | null;
       joinedAt: string;
       addedBy: number | null;
     }>;
@@ -603,6 +742,207 @@ class ApiService {
     }
   }
 
+  async getGroupInvites(
+    chatId: number,
+  ): Promise<ApiResponse<ServerGroupInvite[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/invites`,
+        { method: "GET", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.invites) {
+        return { success: true, data: responseData.data.invites };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get invite links",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get group invites error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async createGroupInvite(
+    chatId: number,
+    options: {
+      expiresAt?: string;
+      usageLimit?: number;
+      requiresApproval: boolean;
+    },
+  ): Promise<ApiResponse<ServerGroupInvite>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/invites`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify(options),
+        },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.invite) {
+        return { success: true, data: responseData.data.invite };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to create invite link",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Create group invite error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async revokeGroupInvite(
+    chatId: number,
+    inviteId: number,
+  ): Promise<ApiResponse<void>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/invites/${inviteId}`,
+        { method: "DELETE", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return { success: true };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to revoke invite link",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Revoke group invite error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async getInvitePreview(
+    token: string,
+  ): Promise<ApiResponse<ServerGroupInvitePreview>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/invites/${encodeURIComponent(token)}`,
+        { method: "GET", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.group) {
+        return { success: true, data: responseData.data.group };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to load invite",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get invite preview error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async joinByInvite(token: string): Promise<
+    ApiResponse<{
+      status: "joined" | "requested";
+      chatId: number;
+    }>
+  > {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/invites/${encodeURIComponent(token)}/join`,
+        { method: "POST", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data) {
+        return { success: true, data: responseData.data };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to join group",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Join by invite error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async getJoinRequests(
+    chatId: number,
+  ): Promise<ApiResponse<ServerJoinRequest[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/join-requests`,
+        { method: "GET", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.requests) {
+        return { success: true, data: responseData.data.requests };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get join requests",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get join requests error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async respondToJoinRequest(
+    chatId: number,
+    requestId: number,
+    approve: boolean,
+  ): Promise<ApiResponse<void>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/join-requests/${requestId}`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ approve }),
+        },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return { success: true };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to answer join request",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Respond to join request error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
   async removeGroupMember(chatId: number, userId: number): Promise<ApiResponse<void>> {
     try {
       const headers = await this.getHeaders();
@@ -645,13 +985,22 @@ class ApiService {
     }
   }
 
-  async changeGroupMemberRole(chatId: number, userId: number, role: "admin" | "member"): Promise<ApiResponse<void>> {
+  /**
+   * `adminRights` only applies when promoting; leaving it out grants every
+   * right.
+   */
+  async changeGroupMemberRole(
+    chatId: number,
+    userId: number,
+    role: "admin" | "member",
+    adminRights?: GroupAdminRight[],
+  ): Promise<ApiResponse<void>> {
     try {
       const headers = await this.getHeaders();
       const response = await fetch(`${API_BASE_URL}/api/chats/${chatId}/members/${userId}/role`, {
         method: "PUT",
         headers,
-        body: JSON.stringify({ role }),
+        body: JSON.stringify({ role, adminRights }),
       });
 
       const responseData = await response.json();
@@ -667,6 +1016,40 @@ class ApiService {
     }
   }
 
+  async updateGroupPermissions(
+    chatId: number,
+    permissions: GroupPermissions,
+  ): Promise<ApiResponse<GroupPermissions>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/permissions`,
+        {
+          method: "PUT",
+          headers,
+          body: JSON.stringify(permissions),
+        },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return {
+          success: true,
+          data: responseData.data?.permissions ?? permissions,
+        };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to update permissions",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Update group permissions error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
   async getChatMessages(
     chatId: number,
     limit?: number,
@@ -685,6 +1068,7 @@ class ApiService {
       if (response.ok) {
         const responseData = await response.json();
         if (responseData.success && responseData.data?.messages) {
+          await e2eeService.loadSenderKeys(responseData.data.messages);
           return { success: true, data: responseData.data.messages };
         }
       }
@@ -699,10 +1083,19 @@ class ApiService {
   async sendMessage(params: {
     chatId: number;
     content: string;
-    type?: "text" | "image" | "video" | "voice";
+    type?: "text" | "image" | "video" | "voice" | "file" | "album";
     mediaUrl?: string;
     thumbnailUrl?: string;
+    fileName?: string;
+    fileSize?: number;
+    mimeType?: string;
+    waveform?: number[];
+    isVideoNote?: boolean;
+    forwardedFromId?: number;
+    attachments?: ServerAttachment[];
     replyToId?: number;
+    mentions?: ServerMention[];
+    linkPreviewDisabled?: boolean;
   }): Promise<ApiResponse<ServerMessage>> {
     try {
       const headers = await this.getHeaders();
@@ -715,7 +1108,16 @@ class ApiService {
           type: params.type || "text",
           mediaUrl: params.mediaUrl,
           thumbnailUrl: params.thumbnailUrl,
+          fileName: params.fileName,
+          fileSize: params.fileSize,
+          mimeType: params.mimeType,
+          waveform: params.waveform,
+          isVideoNote: params.isVideoNote,
+          forwardedFromId: params.forwardedFromId,
+          attachments: params.attachments,
           replyToId: params.replyToId,
+          mentions: params.mentions,
+          linkPreviewDisabled: params.linkPreviewDisabled,
         }),
       });
 
@@ -842,6 +1244,59 @@ class ApiService {
     }
   }
 
+  async getMessageHistory(
+    messageId: number,
+  ): Promise<ApiResponse<ServerMessageRevision[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/messages/${messageId}/history`,
+        { method: "GET", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.revisions) {
+        return { success: true, data: responseData.data.revisions };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get message history",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get message history error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async getMessageReplies(
+    messageId: number,
+  ): Promise<ApiResponse<ServerMessage[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/messages/${messageId}/replies`,
+        { method: "GET", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.messages) {
+        await e2eeService.loadSenderKeys(responseData.data.messages);
+        return { success: true, data: responseData.data.messages };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get replies",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get message replies error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
   async deleteMessage(messageId: number): Promise<ApiResponse<void>> {
     try {
       const headers = await this.getHeaders();
@@ -862,6 +1317,213 @@ class ApiService {
     }
   }
 
+  async addReaction(
+    messageId: number,
+    emoji: string,
+  ): Promise<ApiResponse<ServerReaction[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/messages/${messageId}/reactions`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ emoji }),
+        },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return { success: true, data: responseData.data?.reactions || [] };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to add reaction",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Add reaction error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async removeReaction(
+    messageId: number,
+    emoji: string,
+  ): Promise<ApiResponse<ServerReaction[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
+        {
+          method: "DELETE",
+          headers,
+        },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return { success: true, data: responseData.data?.reactions || [] };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to remove reaction",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Remove reaction error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async pinMessage(
+    chatId: number,
+    messageId: number,
+  ): Promise<ApiResponse<number[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(`${API_BASE_URL}/api/chats/${chatId}/pins`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ messageId }),
+      });
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return {
+          success: true,
+          data: responseData.data?.pinnedMessageIds || [],
+        };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to pin message",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Pin message error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async getPinnedMessages(
+    chatId: number,
+  ): Promise<ApiResponse<ServerMessage[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(`${API_BASE_URL}/api/chats/${chatId}/pins`, {
+        method: "GET",
+        headers,
+      });
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data?.messages) {
+        await e2eeService.loadSenderKeys(responseData.data.messages);
+        return { success: true, data: responseData.data.messages };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get pinned messages",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get pinned messages error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async unpinMessage(
+    chatId: number,
+    messageId: number,
+  ): Promise<ApiResponse<number[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/pins/${messageId}`,
+        {
+          method: "DELETE",
+          headers,
+        },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return {
+          success: true,
+          data: responseData.data?.pinnedMessageIds || [],
+        };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to unpin message",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Unpin message error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async updateChatNotificationSettings(
+    chatId: number,
+    settings: ServerChatNotificationSettings,
+  ): Promise<ApiResponse<void>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/chats/${chatId}/notifications`,
+        {
+          method: "PUT",
+          headers,
+          body: JSON.stringify(settings),
+        },
+      );
+
+      if (response.ok) {
+        return { success: true };
+      }
+
+      return {
+        success: false,
+        error: "Failed to update chat notification settings",
+      };
+    } catch (error) {
+      __DEV__ &&
+        console.warn("Update chat notification settings error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async updateQuietHours(
+    quietHours: ServerQuietHours,
+  ): Promise<ApiResponse<void>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/users/notification-settings`,
+        {
+          method: "PUT",
+          headers,
+          body: JSON.stringify({ quietHours }),
+        },
+      );
+
+      if (response.ok) {
+        return { success: true };
+      }
+
+      return { success: false, error: "Failed to update quiet hours" };
+    } catch (error) {
+      __DEV__ && console.warn("Update quiet hours error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
   async registerPushToken(pushToken: string): Promise<ApiResponse<void>> {
     try {
       const headers = await this.getHeaders();
@@ -1024,6 +1686,68 @@ class ApiService {
     }
   }
 
+  async getLinkPreview(
+    url: string,
+  ): Promise<ApiResponse<ServerLinkPreview | null>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(
+        `${API_BASE_URL}/api/link-preview?url=${encodeURIComponent(url)}`,
+        { method: "GET", headers },
+      );
+
+      if (response.ok) {
+        const responseData = await response.json();
+        if (responseData.success) {
+          return { success: true, data: responseData.data?.preview ?? null };
+        }
+      }
+
+      return { success: false, error: "Failed to get link preview" };
+    } catch (error) {
+      __DEV__ && console.warn("Get link preview error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async getChanges(
+    since: string | null,
+    limit: number = 200,
+  ): Promise<ApiResponse<SyncChanges>> {
+    try {
+      const headers = await this.getHeaders();
+      const params = new URLSearchParams();
+      if (since) params.append("since", since);
+      params.append("limit", limit.toString());
+
+      const response = await fetch(
+        `${API_BASE_URL}/api/sync/changes?${params.toString()}`,
+        { method: "GET", headers },
+      );
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success && responseData.data) {
+        return {
+          success: true,
+          data: {
+            events: responseData.data.events || [],
+            cursor: responseData.data.cursor || since,
+            hasMore: !!responseData.data.hasMore,
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get changes",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get changes error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
   async uploadMedia(
     uri: string,
     type: "image" | "video" | "voice",
@@ -1038,7 +1762,9 @@ class ApiService {
           ? "image/jpeg"
           : type === "video"
             ? "video/mp4"
-            : "audio/m4a";
+            : filename.endsWith(".aac")
+              ? "audio/aac"
+              : "audio/m4a";
 
       const uploadCategory = category || (type === "image" ? "images" : type === "video" ? "videos" : "voice");
 
@@ -1225,14 +1951,21 @@ class ApiService {
         email: m.user?.email || "",
         avatarColor: m.user?.avatarColor || "#3B82F6",
         avatarUrl: m.user?.avatarUrl || undefined,
-        role: m.role || "member",
+        role:
+          (m.user?.id || m.userId) === serverChat.createdBy
+            ? "owner"
+            : m.role || "member",
+        adminRights: m.adminRights || undefined,
         joinedAt: m.joinedAt || m.createdAt,
         addedBy: m.addedBy,
       })) : undefined,
       lastMessage: serverChat.lastMessage
         ? this.serverMessageToMessage(serverChat.lastMessage, currentUserId)
         : undefined,
+      pinnedMessageIds: serverChat.pinnedMessageIds?.map((id) => id.toString()),
+      permissions: isGroup ? serverChat.permissions || undefined : undefined,
       unreadCount: serverChat.unreadCount || 0,
+      unreadMentionCount: serverChat.unreadMentionCount || 0,
       updatedAt: serverChat.lastMessage?.createdAt || serverChat.createdAt,
       avatarColor: serverChat.avatarColor || undefined,
     };
@@ -1269,33 +2002,109 @@ class ApiService {
           ? "audio" 
           : undefined;
 
+    const text = e2eeService.decryptContent(
+      serverMessage.content,
+      serverMessage.senderId,
+    );
+
     return {
       id: serverMessage.id.toString(),
       chatId: serverMessage.chatId.toString(),
       senderId: serverMessage.senderId.toString(),
       senderName: serverMessage.sender?.displayName,
       senderColor: serverMessage.sender?.avatarColor,
-      text: serverMessage.content,
+      text: text ?? "",
+      decryptionFailed: text === null ? true : undefined,
       timestamp: serverMessage.createdAt,
       status,
       type: serverMessage.type,
       mediaType,
       mediaUrl: serverMessage.mediaUrl || undefined,
       thumbnailUrl: serverMessage.thumbnailUrl || serverMessage.thumbnail_url || undefined,
+      mediaSize: serverMessage.fileSize || undefined,
+      file:
+        serverMessage.type === "file" && serverMessage.fileName
+          ? {
+              name: serverMessage.fileName,
+              size: serverMessage.fileSize ?? 0,
+              mimeType: serverMessage.mimeType || "application/octet-stream",
+            }
+          : undefined,
+      waveform: serverMessage.waveform?.length
+        ? serverMessage.waveform
+        : undefined,
+      isVideoNote: serverMessage.isVideoNote || undefined,
+      forwardedFrom: serverMessage.forwardedFrom
+        ? {
+            senderId: serverMessage.forwardedFrom.senderId?.toString(),
+            senderName: serverMessage.forwardedFrom.senderName || undefined,
+            chatId: serverMessage.forwardedFrom.chatId.toString(),
+            messageId: serverMessage.forwardedFrom.messageId.toString(),
+            timestamp: serverMessage.forwardedFrom.createdAt,
+          }
+        : undefined,
+      attachments: serverMessage.attachments?.length
+        ? serverMessage.attachments.map((attachment) => ({
+            type: attachment.type,
+            url: attachment.mediaUrl,
+            thumbnailUrl: attachment.thumbnailUrl || undefined,
+            size: attachment.size || undefined,
+          }))
+        : undefined,
       replyToId: serverMessage.replyToId?.toString(),
       replyToMessage: serverMessage.replyToMessage
         ? {
             id: serverMessage.replyToMessage.id.toString(),
             senderId: serverMessage.replyToMessage.senderId.toString(),
             senderName: serverMessage.replyToMessage.senderName,
-            content: serverMessage.replyToMessage.content,
+            content:
+              e2eeService.decryptContent(
+                serverMessage.replyToMessage.content,
+                serverMessage.replyToMessage.senderId,
+              ) ?? "",
             type: serverMessage.replyToMessage.type,
           }
         : undefined,
+      replyCount: serverMessage.replyCount || undefined,
       readBy: readBy.map(id => id.toString()),
       isEdited: serverMessage.edited ?? false,
+      editedAt: serverMessage.editedAt || undefined,
+      reactions: serverMessage.reactions?.length
+        ? this.serverReactionsToReactions(serverMessage.reactions)
+        : undefined,
+      mentions: serverMessage.mentions?.length
+        ? serverMessage.mentions.map((m) => ({
+            userId: m.userId.toString(),
+            offset: m.offset,
+            length: m.length,
+          }))
+        : undefined,
+      linkPreviewDisabled: serverMessage.linkPreviewDisabled || undefined,
     };
   }
+
+  serverRevisionToRevision(
+    revision: ServerMessageRevision,
+    senderId: number,
+  ): MessageRevision {
+    const text = e2eeService.decryptContent(revision.content, senderId);
+    return {
+      text: text ?? "",
+      timestamp: revision.createdAt,
+      decryptionFailed: text === null ? true : undefined,
+    };
+  }
+
+  serverReactionsToReactions(
+    serverReactions: ServerReaction[],
+  ): MessageReaction[] {
+    return serverReactions
+      .filter((r) => r.userIds?.length > 0)
+      .map((r) => ({
+        emoji: r.emoji,
+        userIds: r.userIds.map((id) => id.toString()),
+      }));
+  }
 }
 
 export const apiService = new ApiService();
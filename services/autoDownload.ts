@@ -0,0 +1,221 @@
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import * as Cellular from "expo-cellular";
+import {
+  AutoDownloadMediaType,
+  AutoDownloadNetwork,
+  dataSettingsService,
+} from "./dataSettings";
+import { mediaCache } from "./mediaCache";
+
+const HOME_CARRIER_KEY = "@shepot_home_carrier";
+
+export interface AutoDownloadDecision {
+  allowed: boolean;
+  /** Size in bytes, or null when neither the server nor the message has it. */
+  size: number | null;
+}
+
+interface HomeCarrier {
+  /** The SIM it was learned with; another SIM learns its own. */
+  sim: string | null;
+  carrier: string;
+}
+
+type NetworkListener = () => void;
+
+class AutoDownloadService {
+  private network: AutoDownloadNetwork = "wifi";
+  private homeCarrier: HomeCarrier | null = null;
+  private sim: string | null = null;
+  private simCarrier: string | null = null;
+  private initPromise: Promise<void> | null = null;
+  private listeners: Set<NetworkListener> = new Set();
+  private approvedUrls: Set<string> = new Set();
+  private remoteSizes: Map<string, Promise<number | null>> = new Map();
+
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const [countryCode, networkCode, isoCountry, simCarrier] =
+        await Promise.all([
+          Cellular.getMobileCountryCodeAsync(),
+          Cellular.getMobileNetworkCodeAsync(),
+          Cellular.getIsoCountryCodeAsync(),
+          Cellular.getCarrierNameAsync(),
+        ]);
+      this.sim =
+        countryCode && networkCode ? countryCode + networkCode : isoCountry;
+      this.simCarrier = simCarrier;
+    } catch (error) {
+      __DEV__ && console.warn("[AutoDownload] Failed to read SIM:", error);
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(HOME_CARRIER_KEY);
+      const homeCarrier: HomeCarrier | null = stored
+        ? JSON.parse(stored)
+        : null;
+      // Older versions stored a bare name with no SIM, which is relearned.
+      if (homeCarrier?.carrier && homeCarrier.sim === this.sim) {
+        this.homeCarrier = homeCarrier;
+      }
+    } catch (error) {
+      __DEV__ && console.warn("[AutoDownload] Failed to load carrier:", error);
+    }
+
+    const state = await NetInfo.fetch();
+    this.network = this.getNetwork(state);
+    NetInfo.addEventListener((next) => this.updateNetwork(next));
+  }
+
+  private updateNetwork(state: NetInfoState): void {
+    const network = this.getNetwork(state);
+    if (network !== this.network) {
+      this.network = network;
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+
+  /**
+   * NetInfo has no roaming flag. On Android it names the carrier of the
+   * network in use, so cellular data through a carrier other than the home
+   * one counts as roaming; iOS names the SIM's carrier, which never changes.
+   * The home carrier is learned once a network named like the SIM's carrier
+   * is seen, or the first one when the SIM has no name. Until then, and for
+   * virtual operators whose SIM names another carrier, the cellular rules
+   * apply. Other connections the system marks as expensive, like a phone's
+   * hotspot, use the cellular rules too.
+   */
+  private getNetwork(state: NetInfoState): AutoDownloadNetwork {
+    if (state.type !== "cellular") {
+      return state.details?.isConnectionExpensive ? "cellular" : "wifi";
+    }
+
+    const carrier = state.details.carrier;
+    if (!carrier) return "cellular";
+    if (!this.homeCarrier) {
+      if (
+        !this.simCarrier ||
+        this.simCarrier.toLowerCase() === carrier.toLowerCase()
+      ) {
+        this.saveHomeCarrier(carrier);
+      }
+      return "cellular";
+    }
+    return carrier === this.homeCarrier.carrier ? "cellular" : "roaming";
+  }
+
+  private saveHomeCarrier(carrier: string | null): void {
+    this.homeCarrier = carrier ? { sim: this.sim, carrier } : null;
+    const saved = this.homeCarrier
+      ? AsyncStorage.setItem(HOME_CARRIER_KEY, JSON.stringify(this.homeCarrier))
+      : AsyncStorage.removeItem(HOME_CARRIER_KEY);
+    saved.catch((error) => {
+      __DEV__ && console.warn("[AutoDownload] Failed to save carrier:", error);
+    });
+  }
+
+  /**
+   * For when the wrong carrier was taken as home: the one in use now
+   * becomes home, or the next one named like the SIM's carrier if the
+   * device is not on mobile data.
+   */
+  async resetHomeCarrier(): Promise<void> {
+    await this.init();
+    const state = await NetInfo.fetch();
+    this.saveHomeCarrier(
+      state.type === "cellular" ? state.details.carrier : null,
+    );
+    this.updateNetwork(state);
+  }
+
+  getCurrentNetwork(): AutoDownloadNetwork {
+    return this.network;
+  }
+
+  /** Media the user tapped to download skips the rules from then on. */
+  approve(url: string): void {
+    this.approvedUrls.add(url);
+  }
+
+  isApproved(url: string): boolean {
+    return this.approvedUrls.has(url);
+  }
+
+  /**
+   * `knownSize` is the size the message reports. It stands in when the
+   * server sends no Content-Length, and when the rule needs no lookup.
+   */
+  async check(
+    url: string,
+    type: AutoDownloadMediaType,
+    knownSize: number | null = null,
+  ): Promise<AutoDownloadDecision> {
+    if (
+      Platform.OS === "web" ||
+      this.approvedUrls.has(url) ||
+      !/^https?:\/\//.test(url)
+    ) {
+      return { allowed: true, size: null };
+    }
+    if (await mediaCache.getCachedUri(url)) {
+      return { allowed: true, size: null };
+    }
+
+    try {
+      await Promise.all([this.init(), dataSettingsService.init()]);
+    } catch (error) {
+      __DEV__ && console.warn("[AutoDownload] Failed to init:", error);
+    }
+
+    const rule =
+      dataSettingsService.getSettings().autoDownload[this.network][type];
+    if (!rule.enabled) {
+      return { allowed: false, size: knownSize };
+    }
+    if (rule.maxSizeMb === null) {
+      return { allowed: true, size: knownSize };
+    }
+
+    const size = (await this.getRemoteSize(url)) ?? knownSize;
+    return {
+      allowed: size !== null && size <= rule.maxSizeMb * 1024 * 1024,
+      size,
+    };
+  }
+
+  private getRemoteSize(url: string): Promise<number | null> {
+    let size = this.remoteSizes.get(url);
+    if (!size) {
+      size = fetch(url, { method: "HEAD" })
+        .then((response) => {
+          const contentLength = response.headers.get("Content-Length");
+          return contentLength ? parseInt(contentLength, 10) : null;
+        })
+        .catch(() => {
+          this.remoteSizes.delete(url);
+          return null;
+        });
+      this.remoteSizes.set(url, size);
+    }
+    return size;
+  }
+
+  /** Notifies when the connection switches to another set of rules. */
+  subscribe(listener: NetworkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const autoDownloadService = new AutoDownloadService();
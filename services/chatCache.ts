@@ -1,25 +1,30 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Chat, Message, Contact } from "@/store/types";
 import { deletedMessagesService } from "./deletedMessagesService";
+import { linkPreviewService } from "./linkPreview";
+import { database, toEpoch } from "./database";
 
 const WELCOME_CHAT_ID = "welcome-chat";
 
 const CACHE_KEYS = {
-  CHATS: "@shepot_cache_chats",
-  MESSAGES: "@shepot_cache_messages_",
-  CONTACTS: "@shepot_cache_contacts",
   LAST_SYNC: "@shepot_cache_last_sync",
+  SYNC_CURSOR: "@shepot_cache_sync_cursor",
 };
 
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 
+type DataRow = { data: string };
+
 class ChatCacheService {
   async getChats(): Promise<Chat[] | null> {
     try {
-      const data = await AsyncStorage.getItem(CACHE_KEYS.CHATS);
-      if (!data) return null;
-      
-      const parsed = JSON.parse(data);
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<DataRow>(
+        "SELECT data FROM chats ORDER BY position ASC",
+      );
+      if (rows.length === 0) return null;
+
+      const parsed = rows.map((row) => JSON.parse(row.data) as Chat);
       console.log("[ChatCache] Loaded", parsed.length, "chats from cache");
       return parsed;
     } catch (error) {
@@ -31,20 +36,59 @@ class ChatCacheService {
   async saveChats(chats: Chat[]): Promise<void> {
     try {
       const filteredChats = chats.filter(chat => chat.id !== WELCOME_CHAT_ID);
-      await AsyncStorage.setItem(CACHE_KEYS.CHATS, JSON.stringify(filteredChats));
+      await database.transaction(async (db) => {
+        await db.runAsync("DELETE FROM chats");
+        const statement = await db.prepareAsync(
+          "INSERT OR REPLACE INTO chats (id, position, data) VALUES (?, ?, ?)",
+        );
+        try {
+          for (let i = 0; i < filteredChats.length; i++) {
+            await statement.executeAsync(
+              filteredChats[i].id,
+              i,
+              JSON.stringify(filteredChats[i]),
+            );
+          }
+        } finally {
+          await statement.finalizeAsync();
+        }
+      });
       console.log("[ChatCache] Saved", filteredChats.length, "chats to cache");
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error saving chats:", error);
     }
   }
 
-  async getMessages(chatId: string): Promise<Message[] | null> {
+  /**
+   * Returns messages in ascending time order. Pass `limit` to read only the
+   * newest page, and `beforeTimestamp` to page further back in history.
+   */
+  async getMessages(
+    chatId: string,
+    limit?: number,
+    beforeTimestamp?: string,
+  ): Promise<Message[] | null> {
     try {
       await deletedMessagesService.initialize();
-      const data = await AsyncStorage.getItem(CACHE_KEYS.MESSAGES + chatId);
-      if (!data) return null;
-      
-      const parsed = JSON.parse(data) as Message[];
+      const db = await database.getDatabase();
+      const params: (string | number)[] = [chatId];
+      let query = "SELECT data FROM messages WHERE chat_id = ?";
+      if (beforeTimestamp) {
+        query += " AND created_at < ?";
+        params.push(toEpoch(beforeTimestamp));
+      }
+      query += " ORDER BY created_at DESC";
+      if (limit) {
+        query += " LIMIT ?";
+        params.push(limit);
+      }
+
+      const rows = await db.getAllAsync<DataRow>(query, params);
+      if (rows.length === 0) return null;
+
+      const parsed = rows
+        .map((row) => JSON.parse(row.data) as Message)
+        .reverse();
       const filtered = parsed.filter(m => !deletedMessagesService.isDeleted(m.id));
       console.log("[ChatCache] Loaded", filtered.length, "messages for chat", chatId, "(filtered from", parsed.length, ")");
       return filtered;
@@ -54,6 +98,11 @@ class ChatCacheService {
     }
   }
 
+  /**
+   * Upserts the given messages. Rows of this chat that fall inside the time
+   * range covered by `messages` but are missing from it are removed, so
+   * older pages that were never loaded into memory stay on disk.
+   */
   async saveMessages(chatId: string, messages: Message[]): Promise<void> {
     if (chatId === WELCOME_CHAT_ID) {
       return;
@@ -67,11 +116,36 @@ class ChatCacheService {
         seen.add(m.id);
         return true;
       });
-      
-      await AsyncStorage.setItem(
-        CACHE_KEYS.MESSAGES + chatId,
-        JSON.stringify(deduped)
-      );
+
+      await database.transaction(async (db) => {
+        if (deduped.length === 0) {
+          await db.runAsync("DELETE FROM messages WHERE chat_id = ?", chatId);
+          return;
+        }
+
+        const oldest = Math.min(...deduped.map((m) => toEpoch(m.timestamp)));
+        const placeholders = deduped.map(() => "?").join(",");
+        await db.runAsync(
+          `DELETE FROM messages WHERE chat_id = ? AND created_at >= ? AND id NOT IN (${placeholders})`,
+          [chatId, oldest, ...deduped.map((m) => m.id)],
+        );
+
+        const statement = await db.prepareAsync(
+          "INSERT OR REPLACE INTO messages (id, chat_id, created_at, data) VALUES (?, ?, ?, ?)",
+        );
+        try {
+          for (const message of deduped) {
+            await statement.executeAsync(
+              message.id,
+              chatId,
+              toEpoch(message.timestamp),
+              JSON.stringify(message),
+            );
+          }
+        } finally {
+          await statement.finalizeAsync();
+        }
+      });
       console.log("[ChatCache] Saved", deduped.length, "messages for chat", chatId);
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error saving messages:", error);
@@ -79,17 +153,24 @@ class ChatCacheService {
   }
 
   async appendMessage(chatId: string, message: Message): Promise<void> {
+    if (chatId === WELCOME_CHAT_ID) {
+      return;
+    }
     try {
       await deletedMessagesService.initialize();
       if (deletedMessagesService.isDeleted(message.id)) {
         console.log("[ChatCache] Skipping deleted message:", message.id);
         return;
       }
-      const messages = await this.getMessages(chatId) || [];
-      if (!messages.some(m => m.id === message.id)) {
-        messages.push(message);
-        await this.saveMessages(chatId, messages);
-      }
+      await database.transaction(async (db) => {
+        await db.runAsync(
+          "INSERT OR IGNORE INTO messages (id, chat_id, created_at, data) VALUES (?, ?, ?, ?)",
+          message.id,
+          chatId,
+          toEpoch(message.timestamp),
+          JSON.stringify(message),
+        );
+      });
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error appending message:", error);
     }
@@ -97,19 +178,62 @@ class ChatCacheService {
 
   async updateMessage(chatId: string, messageId: string, updatedMessage: Message): Promise<void> {
     try {
-      const messages = await this.getMessages(chatId) || [];
-      const updated = messages.map(m => m.id === messageId ? updatedMessage : m);
-      await this.saveMessages(chatId, updated);
+      await database.transaction(async (db) => {
+        const result = await db.runAsync(
+          "DELETE FROM messages WHERE chat_id = ? AND id = ?",
+          chatId,
+          messageId,
+        );
+        if (result.changes === 0) return;
+        await db.runAsync(
+          "INSERT OR REPLACE INTO messages (id, chat_id, created_at, data) VALUES (?, ?, ?, ?)",
+          updatedMessage.id,
+          chatId,
+          toEpoch(updatedMessage.timestamp),
+          JSON.stringify(updatedMessage),
+        );
+      });
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error updating message:", error);
     }
   }
 
+  /** Applies an edit to a cached message, if this chat has it cached. */
+  async updateMessageText(
+    chatId: string,
+    messageId: string,
+    text: string,
+  ): Promise<void> {
+    try {
+      const db = await database.getDatabase();
+      const row = await db.getFirstAsync<DataRow>(
+        "SELECT data FROM messages WHERE chat_id = ? AND id = ?",
+        chatId,
+        messageId,
+      );
+      if (!row) return;
+      const message = JSON.parse(row.data) as Message;
+      if (message.text === text) return;
+      await this.updateMessage(chatId, messageId, {
+        ...message,
+        text,
+        isEdited: true,
+      });
+    } catch (error) {
+      __DEV__ &&
+        console.warn("[ChatCache] Error updating message text:", error);
+    }
+  }
+
   async deleteMessage(chatId: string, messageId: string): Promise<void> {
     try {
-      const messages = await this.getMessages(chatId) || [];
-      const filtered = messages.filter(m => m.id !== messageId);
-      await this.saveMessages(chatId, filtered);
+      await database.transaction(async (db) => {
+        await db.runAsync(
+          "DELETE FROM messages WHERE chat_id = ? AND id = ?",
+          chatId,
+          messageId,
+        );
+      });
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error deleting message:", error);
     }
@@ -117,10 +241,13 @@ class ChatCacheService {
 
   async getContacts(): Promise<Contact[] | null> {
     try {
-      const data = await AsyncStorage.getItem(CACHE_KEYS.CONTACTS);
-      if (!data) return null;
-      
-      const parsed = JSON.parse(data);
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<DataRow>(
+        "SELECT data FROM contacts ORDER BY position ASC",
+      );
+      if (rows.length === 0) return null;
+
+      const parsed = rows.map((row) => JSON.parse(row.data) as Contact);
       console.log("[ChatCache] Loaded", parsed.length, "contacts from cache");
       return parsed;
     } catch (error) {
@@ -131,7 +258,23 @@ class ChatCacheService {
 
   async saveContacts(contacts: Contact[]): Promise<void> {
     try {
-      await AsyncStorage.setItem(CACHE_KEYS.CONTACTS, JSON.stringify(contacts));
+      await database.transaction(async (db) => {
+        await db.runAsync("DELETE FROM contacts");
+        const statement = await db.prepareAsync(
+          "INSERT OR REPLACE INTO contacts (id, position, data) VALUES (?, ?, ?)",
+        );
+        try {
+          for (let i = 0; i < contacts.length; i++) {
+            await statement.executeAsync(
+              String(contacts[i].id),
+              i,
+              JSON.stringify(contacts[i]),
+            );
+          }
+        } finally {
+          await statement.finalizeAsync();
+        }
+      });
       console.log("[ChatCache] Saved", contacts.length, "contacts to cache");
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error saving contacts:", error);
@@ -157,21 +300,89 @@ class ChatCacheService {
 
   async deleteChat(chatId: string): Promise<void> {
     try {
-      const chats = await this.getChats() || [];
-      const filtered = chats.filter(c => c.id !== chatId);
-      await this.saveChats(filtered);
-      await AsyncStorage.removeItem(CACHE_KEYS.MESSAGES + chatId);
+      await database.transaction(async (db) => {
+        await db.runAsync("DELETE FROM chats WHERE id = ?", chatId);
+        await db.runAsync("DELETE FROM messages WHERE chat_id = ?", chatId);
+      });
       console.log("[ChatCache] Deleted chat and messages:", chatId);
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error deleting chat:", error);
     }
   }
 
+  /** Bytes of cached message data per chat. */
+  async getMessageSizes(): Promise<Record<string, number>> {
+    try {
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<{ chat_id: string; size: number }>(
+        "SELECT chat_id, SUM(LENGTH(data)) AS size FROM messages GROUP BY chat_id",
+      );
+      return Object.fromEntries(rows.map((row) => [row.chat_id, row.size]));
+    } catch (error) {
+      __DEV__ &&
+        console.warn("[ChatCache] Error reading message sizes:", error);
+      return {};
+    }
+  }
+
+  /** Remote media URLs referenced by the cached messages of each chat. */
+  async getMediaUrls(): Promise<Record<string, string[]>> {
+    try {
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<{ chat_id: string; data: string }>(
+        "SELECT chat_id, data FROM messages WHERE data LIKE '%http%'",
+      );
+      const urls: Record<string, string[]> = {};
+      for (const row of rows) {
+        const message = JSON.parse(row.data) as Message;
+        const list = (urls[row.chat_id] ??= []);
+        if (message.mediaUrl) list.push(message.mediaUrl);
+        if (message.thumbnailUrl) list.push(message.thumbnailUrl);
+        message.attachments?.forEach((attachment) => {
+          if (attachment.url) list.push(attachment.url);
+          if (attachment.thumbnailUrl) list.push(attachment.thumbnailUrl);
+        });
+      }
+      return urls;
+    } catch (error) {
+      __DEV__ && console.warn("[ChatCache] Error reading media URLs:", error);
+      return {};
+    }
+  }
+
+  async getSyncCursor(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(CACHE_KEYS.SYNC_CURSOR);
+    } catch (error) {
+      __DEV__ && console.warn("[ChatCache] Error loading sync cursor:", error);
+      return null;
+    }
+  }
+
+  async saveSyncCursor(cursor: string): Promise<void> {
+    try {
+      await AsyncStorage.multiSet([
+        [CACHE_KEYS.SYNC_CURSOR, cursor],
+        [CACHE_KEYS.LAST_SYNC, new Date().toISOString()],
+      ]);
+    } catch (error) {
+      __DEV__ && console.warn("[ChatCache] Error saving sync cursor:", error);
+    }
+  }
+
   async clearAll(): Promise<void> {
     try {
+      await database.transaction(async (db) => {
+        await db.execAsync(`
+          DELETE FROM chats;
+          DELETE FROM messages;
+          DELETE FROM contacts;
+        `);
+      });
       const keys = await AsyncStorage.getAllKeys();
       const cacheKeys = keys.filter(k => k.startsWith("@shepot_cache"));
       await AsyncStorage.multiRemove(cacheKeys);
+      await linkPreviewService.clear();
       console.log("[ChatCache] Cleared all cache");
     } catch (error) {
       __DEV__ && console.warn("[ChatCache] Error clearing cache:", error);
@@ -0,0 +1,157 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const DATA_SETTINGS_KEY = "@shepot_data_settings";
+
+export type CompressionPreset = "original" | "hd" | "economy";
+
+export const COMPRESSION_PRESETS: CompressionPreset[] = [
+  "original",
+  "hd",
+  "economy",
+];
+
+/** `null` means no user limit. */
+export const CACHE_SIZE_LIMITS_MB: (number | null)[] = [
+  1024,
+  5 * 1024,
+  20 * 1024,
+  null,
+];
+
+/** `null` keeps media until the size limit evicts it. */
+export const CACHE_RETENTION_DAYS: (number | null)[] = [7, 30, 90, null];
+
+export type AutoDownloadNetwork = "wifi" | "cellular" | "roaming";
+
+export type AutoDownloadMediaType = "photo" | "video" | "voice";
+
+export const AUTO_DOWNLOAD_NETWORKS: AutoDownloadNetwork[] = [
+  "wifi",
+  "cellular",
+  "roaming",
+];
+
+export const AUTO_DOWNLOAD_MEDIA_TYPES: AutoDownloadMediaType[] = [
+  "photo",
+  "video",
+  "voice",
+];
+
+/** `null` downloads media of any size. */
+export const AUTO_DOWNLOAD_LIMITS_MB: (number | null)[] = [1, 5, 15, 50, null];
+
+export interface AutoDownloadRule {
+  enabled: boolean;
+  maxSizeMb: number | null;
+}
+
+export type AutoDownloadRules = Record<
+  AutoDownloadNetwork,
+  Record<AutoDownloadMediaType, AutoDownloadRule>
+>;
+
+export interface DataSettings {
+  uploadPreset: CompressionPreset;
+  cacheSizeLimitMb: number | null;
+  cacheRetentionDays: number | null;
+  autoDownload: AutoDownloadRules;
+  /**
+   * Show link previews in encrypted private chats. They are fetched by the
+   * device, so the server never sees links from those chats.
+   */
+  privateChatLinkPreviews: boolean;
+}
+
+const DEFAULT_DATA_SETTINGS: DataSettings = {
+  uploadPreset: "hd",
+  cacheSizeLimitMb: null,
+  cacheRetentionDays: 90,
+  autoDownload: {
+    wifi: {
+      photo: { enabled: true, maxSizeMb: null },
+      video: { enabled: true, maxSizeMb: 50 },
+      voice: { enabled: true, maxSizeMb: null },
+    },
+    cellular: {
+      photo: { enabled: true, maxSizeMb: 5 },
+      video: { enabled: false, maxSizeMb: 15 },
+      voice: { enabled: true, maxSizeMb: null },
+    },
+    roaming: {
+      photo: { enabled: false, maxSizeMb: 1 },
+      video: { enabled: false, maxSizeMb: 5 },
+      voice: { enabled: false, maxSizeMb: 1 },
+    },
+  },
+  privateChatLinkPreviews: false,
+};
+
+type SettingsListener = () => void;
+
+/**
+ * Device-level "Data & storage" preferences. These are not synced to the
+ * server, since the right trade-offs depend on the device and its network.
+ */
+class DataSettingsService {
+  private settings: DataSettings = DEFAULT_DATA_SETTINGS;
+  private initPromise: Promise<void> | null = null;
+  private listeners: Set<SettingsListener> = new Set();
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(DATA_SETTINGS_KEY);
+      if (data) {
+        const stored: Partial<DataSettings> = JSON.parse(data);
+        this.settings = {
+          ...DEFAULT_DATA_SETTINGS,
+          ...stored,
+          // Settings saved before a network was added have no rules for it.
+          autoDownload: {
+            ...DEFAULT_DATA_SETTINGS.autoDownload,
+            ...stored.autoDownload,
+          },
+        };
+        this.notifyListeners();
+      }
+    } catch (error) {
+      __DEV__ && console.warn("[DataSettings] Failed to load:", error);
+    }
+  }
+
+  getSettings(): DataSettings {
+    return this.settings;
+  }
+
+  async updateSettings(updates: Partial<DataSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...updates };
+    this.notifyListeners();
+    try {
+      await AsyncStorage.setItem(
+        DATA_SETTINGS_KEY,
+        JSON.stringify(this.settings),
+      );
+    } catch (error) {
+      __DEV__ && console.warn("[DataSettings] Failed to save:", error);
+    }
+  }
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const dataSettingsService = new DataSettingsService();
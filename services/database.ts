@@ -0,0 +1,233 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SQLite from "expo-sqlite";
+
+const DATABASE_NAME = "shepot.db";
+
+const LEGACY_KEYS = {
+  CHATS: "@shepot_cache_chats",
+  MESSAGES: "@shepot_cache_messages_",
+  CONTACTS: "@shepot_cache_contacts",
+  QUEUE: "@shepot_message_queue",
+  SEARCH_INDEX: "@shepot_cache_search_index",
+};
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version).
+// Never edit an entry that has shipped; append a new one instead.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS chats (
+    id TEXT PRIMARY KEY NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY NOT NULL,
+    chat_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_chat_created
+    ON messages (chat_id, created_at);
+  CREATE TABLE IF NOT EXISTS contacts (
+    id TEXT PRIMARY KEY NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS message_queue (
+    id TEXT PRIMARY KEY NOT NULL,
+    chat_id INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS link_previews (
+    url TEXT PRIMARY KEY NOT NULL,
+    fetched_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS deleted_messages (
+    id TEXT PRIMARY KEY NOT NULL,
+    deleted_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+    text,
+    tokenize = 'unicode61 remove_diacritics 0'
+  );
+  CREATE TRIGGER IF NOT EXISTS messages_search_insert AFTER INSERT ON messages
+  BEGIN
+    DELETE FROM message_search WHERE rowid = new.rowid;
+    INSERT INTO message_search (rowid, text)
+      SELECT new.rowid,
+        replace(replace(json_extract(new.data, '$.text'), 'ё', 'е'), 'Ё', 'Е')
+      WHERE json_extract(new.data, '$.text') <> ''
+        AND json_extract(new.data, '$.type') IS NOT 'system'
+        AND substr(new.id, 1, 5) <> 'temp_';
+  END;
+  CREATE TRIGGER IF NOT EXISTS messages_search_delete AFTER DELETE ON messages
+  BEGIN
+    DELETE FROM message_search WHERE rowid = old.rowid;
+  END;
+  INSERT INTO message_search (rowid, text)
+    SELECT rowid,
+      replace(replace(json_extract(data, '$.text'), 'ё', 'е'), 'Ё', 'Е')
+    FROM messages
+    WHERE json_extract(data, '$.text') <> ''
+      AND json_extract(data, '$.type') IS NOT 'system'
+      AND substr(id, 1, 5) <> 'temp_';
+  `,
+];
+
+/** The migration that moved search out of AsyncStorage into SQLite. */
+const SEARCH_TABLE_VERSION = 4;
+
+export function toEpoch(timestamp: string | number | undefined): number {
+  if (typeof timestamp === "number") return timestamp;
+  const parsed = timestamp ? Date.parse(timestamp) : NaN;
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+class DatabaseService {
+  private db: SQLite.SQLiteDatabase | null = null;
+  private openPromise: Promise<SQLite.SQLiteDatabase> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  async getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (this.db) return this.db;
+    if (this.openPromise) return this.openPromise;
+
+    this.openPromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync("PRAGMA journal_mode = WAL;");
+      // INSERT OR REPLACE must fire the delete triggers that keep search in sync.
+      await db.execAsync("PRAGMA recursive_triggers = ON;");
+      const fromVersion = await this.migrate(db);
+      if (fromVersion === 0) {
+        await this.importLegacyData(db);
+      }
+      if (fromVersion < SEARCH_TABLE_VERSION) {
+        await this.removeLegacySearchIndex();
+      }
+      this.db = db;
+      return db;
+    })();
+
+    try {
+      return await this.openPromise;
+    } catch (error) {
+      this.openPromise = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Runs `task` inside a transaction. Writes are serialized because
+   * expo-sqlite cannot nest transactions on a single connection.
+   */
+  async transaction(
+    task: (db: SQLite.SQLiteDatabase) => Promise<void>,
+  ): Promise<void> {
+    const db = await this.getDatabase();
+    const run = this.writeChain.then(() =>
+      db.withTransactionAsync(() => task(db)),
+    );
+    this.writeChain = run.catch(() => {});
+    return run;
+  }
+
+  private async migrate(db: SQLite.SQLiteDatabase): Promise<number> {
+    const row = await db.getFirstAsync<{ user_version: number }>(
+      "PRAGMA user_version",
+    );
+    const currentVersion = row?.user_version ?? 0;
+
+    for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(MIGRATIONS[version]);
+        await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+      });
+      console.log(`[Database] Migrated schema to version ${version + 1}`);
+    }
+
+    return currentVersion;
+  }
+
+  private async removeLegacySearchIndex(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(LEGACY_KEYS.SEARCH_INDEX);
+    } catch (error) {
+      __DEV__ &&
+        console.warn("[Database] Failed to remove legacy search index:", error);
+    }
+  }
+
+  private async importLegacyData(db: SQLite.SQLiteDatabase): Promise<void> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const legacyKeys = keys.filter(
+        (k) =>
+          k === LEGACY_KEYS.CHATS ||
+          k === LEGACY_KEYS.CONTACTS ||
+          k === LEGACY_KEYS.QUEUE ||
+          k.startsWith(LEGACY_KEYS.MESSAGES),
+      );
+      if (legacyKeys.length === 0) return;
+
+      const entries = await AsyncStorage.multiGet(legacyKeys);
+
+      await db.withTransactionAsync(async () => {
+        for (const [key, value] of entries) {
+          if (!value) continue;
+          const items: any[] = JSON.parse(value);
+          if (!Array.isArray(items)) continue;
+
+          if (key === LEGACY_KEYS.CHATS || key === LEGACY_KEYS.CONTACTS) {
+            const table = key === LEGACY_KEYS.CHATS ? "chats" : "contacts";
+            for (let i = 0; i < items.length; i++) {
+              await db.runAsync(
+                `INSERT OR REPLACE INTO ${table} (id, position, data) VALUES (?, ?, ?)`,
+                String(items[i].id),
+                i,
+                JSON.stringify(items[i]),
+              );
+            }
+          } else if (key === LEGACY_KEYS.QUEUE) {
+            for (const item of items) {
+              await db.runAsync(
+                "INSERT OR REPLACE INTO message_queue (id, chat_id, created_at, data) VALUES (?, ?, ?, ?)",
+                item.id,
+                item.chatId,
+                item.createdAt,
+                JSON.stringify(item),
+              );
+            }
+          } else {
+            const chatId = key.slice(LEGACY_KEYS.MESSAGES.length);
+            for (const item of items) {
+              await db.runAsync(
+                "INSERT OR REPLACE INTO messages (id, chat_id, created_at, data) VALUES (?, ?, ?, ?)",
+                item.id,
+                chatId,
+                toEpoch(item.timestamp),
+                JSON.stringify(item),
+              );
+            }
+          }
+        }
+      });
+
+      await AsyncStorage.multiRemove(legacyKeys);
+      console.log(
+        `[Database] Imported ${legacyKeys.length} legacy cache entries`,
+      );
+    } catch (error) {
+      __DEV__ && console.warn("[Database] Legacy import failed:", error);
+    }
+  }
+}
+
+export const database = new DatabaseService();
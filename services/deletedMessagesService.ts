@@ -1,7 +1,15 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { database } from "./database";
 
-const DELETED_MESSAGES_KEY = "@deleted_messages";
-const MAX_DELETED_IDS = 500;
+const LEGACY_DELETED_MESSAGES_KEY = "@deleted_messages";
+
+/** How long after sending a message its author may delete it for everyone. */
+export const DELETE_FOR_EVERYONE_HOURS =
+  Number(process.env.EXPO_PUBLIC_DELETE_FOR_EVERYONE_HOURS) || 48;
+const DELETE_FOR_EVERYONE_WINDOW_MS =
+  DELETE_FOR_EVERYONE_HOURS * 60 * 60 * 1000;
+
+type DeletedRow = { id: string };
 
 class DeletedMessagesService {
   private deletedIds: Set<string> = new Set();
@@ -19,30 +27,58 @@ class DeletedMessagesService {
 
   private async loadFromStorage(): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(DELETED_MESSAGES_KEY);
-      if (stored) {
-        const ids = JSON.parse(stored) as string[];
-        this.deletedIds = new Set(ids);
-      }
+      await this.importLegacyIds();
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<DeletedRow>(
+        "SELECT id FROM deleted_messages",
+      );
+      this.deletedIds = new Set(rows.map((row) => row.id));
     } catch (error) {
       console.warn("[DeletedMessagesService] Failed to load:", error);
     }
   }
 
-  private async saveToStorage(): Promise<void> {
+  private async importLegacyIds(): Promise<void> {
+    const stored = await AsyncStorage.getItem(LEGACY_DELETED_MESSAGES_KEY);
+    if (!stored) return;
+
+    await this.insertIds(JSON.parse(stored) as string[]);
+    await AsyncStorage.removeItem(LEGACY_DELETED_MESSAGES_KEY);
+  }
+
+  private async insertIds(ids: string[]): Promise<void> {
+    const deletedAt = Date.now();
+    await database.transaction(async (db) => {
+      for (const id of ids) {
+        await db.runAsync(
+          "INSERT OR IGNORE INTO deleted_messages (id, deleted_at) VALUES (?, ?)",
+          id,
+          deletedAt,
+        );
+      }
+    });
+  }
+
+  private async saveToStorage(ids: string[]): Promise<void> {
     try {
-      const ids = Array.from(this.deletedIds).slice(-MAX_DELETED_IDS);
-      await AsyncStorage.setItem(DELETED_MESSAGES_KEY, JSON.stringify(ids));
+      await this.insertIds(ids);
     } catch (error) {
       console.warn("[DeletedMessagesService] Failed to save:", error);
     }
   }
 
   async markAsDeleted(messageId: string | number): Promise<void> {
+    await this.markManyAsDeleted([messageId]);
+  }
+
+  async markManyAsDeleted(messageIds: (string | number)[]): Promise<void> {
     await this.initialize();
-    this.deletedIds.add(String(messageId));
-    await this.saveToStorage();
-    console.log(`[DeletedMessagesService] Marked ${messageId} as deleted, total: ${this.deletedIds.size}`);
+    const ids = messageIds.map(String);
+    ids.forEach((id) => this.deletedIds.add(id));
+    await this.saveToStorage(ids);
+    console.log(
+      `[DeletedMessagesService] Marked ${ids.length} as deleted, total: ${this.deletedIds.size}`,
+    );
   }
 
   isDeleted(messageId: string | number): boolean {
@@ -62,8 +98,12 @@ class DeletedMessagesService {
     return filtered;
   }
 
-  async clearForChat(chatId: string): Promise<void> {
-    await this.initialize();
+  /** Whether a message sent at `timestamp` can still be deleted for everyone. */
+  isWithinDeleteWindow(timestamp: string): boolean {
+    const sentAt = new Date(timestamp).getTime();
+    return (
+      !isNaN(sentAt) && Date.now() - sentAt < DELETE_FOR_EVERYONE_WINDOW_MS
+    );
   }
 }
 
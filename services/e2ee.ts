@@ -0,0 +1,573 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import nacl from "tweetnacl";
+import {
+  decodeBase64,
+  decodeUTF8,
+  encodeBase64,
+  encodeUTF8,
+} from "tweetnacl-util";
+import { Chat } from "@/store/types";
+import type { ServerMessage } from "./api";
+import { keyDirectory, ServerIdentityKey } from "./keyDirectory";
+
+const ENVELOPE_PREFIX = "e2ee:v1:";
+const IDENTITY_KEY_PREFIX = "shepot_e2ee_identity_";
+const PEERS_KEY_PREFIX = "@shepot_e2ee_peers_";
+const SESSIONS_KEY_PREFIX = "@shepot_e2ee_sessions_";
+const GROUPS_KEY_PREFIX = "@shepot_e2ee_groups_";
+const KEYS_TTL_MS = 10 * 60 * 1000;
+const SENDER_REFRESH_INTERVAL_MS = 60 * 1000;
+const MAX_RANDOM_BYTES = 1024;
+const FINGERPRINT_ITERATIONS = 1024;
+const FINGERPRINT_CHUNKS = 6;
+
+// tweetnacl has no entropy source on React Native.
+nacl.setPRNG((output, length) => {
+  for (let offset = 0; offset < length; offset += MAX_RANDOM_BYTES) {
+    const size = Math.min(MAX_RANDOM_BYTES, length - offset);
+    output.set(Crypto.getRandomBytes(size), offset);
+  }
+});
+
+interface Identity {
+  deviceId: string;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+interface KeyRecord {
+  keys: ServerIdentityKey[];
+  fetchedAt: number;
+  verifiedSafetyNumber?: string;
+}
+
+/**
+ * Wire format stored in `ServerMessage.content`. The text is sealed with a
+ * random per-message key, which is boxed once for every recipient device.
+ */
+interface Envelope {
+  device: string;
+  sender: string;
+  nonce: string;
+  ciphertext: string;
+  keys: Record<string, string>;
+}
+
+export interface SafetyNumberInfo {
+  safetyNumber: string | null;
+  isVerified: boolean;
+}
+
+function sameKeys(a: ServerIdentityKey[], b: ServerIdentityKey[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (key, i) =>
+        key.deviceId === b[i].deviceId && key.publicKey === b[i].publicKey,
+    )
+  );
+}
+
+function fingerprint(userId: number, keys: ServerIdentityKey[]): string {
+  const material = decodeUTF8(
+    `${userId}:${keys
+      .map((key) => key.publicKey)
+      .sort()
+      .join(",")}`,
+  );
+  let hash = nacl.hash(material);
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    const input = new Uint8Array(hash.length + material.length);
+    input.set(hash);
+    input.set(material, hash.length);
+    hash = nacl.hash(input);
+  }
+
+  const groups: string[] = [];
+  for (let chunk = 0; chunk < FINGERPRINT_CHUNKS; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + hash[chunk * 5 + i];
+    }
+    groups.push(String(value % 100000).padStart(5, "0"));
+  }
+  return groups.join(" ");
+}
+
+class E2EEService {
+  private userId: number | null = null;
+  private identity: Identity | null = null;
+  private keyRecords: Record<string, KeyRecord> = {};
+  private sessions: Record<string, number> = {};
+  private groupChatIds: Set<string> = new Set();
+  private senderRefreshes: Map<number, Promise<void>> = new Map();
+
+  /**
+   * Loads (or creates) this device's identity key pair for the signed-in
+   * user and publishes the public half. Must finish before messages are
+   * mapped, otherwise incoming ciphertext cannot be opened.
+   */
+  async initialize(userId: number): Promise<void> {
+    if (this.userId === userId && this.identity) return;
+    this.reset();
+    this.userId = userId;
+
+    try {
+      const stored = await SecureStore.getItemAsync(
+        IDENTITY_KEY_PREFIX + userId,
+      );
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        this.identity = {
+          deviceId: parsed.deviceId,
+          publicKey: decodeBase64(parsed.publicKey),
+          secretKey: decodeBase64(parsed.secretKey),
+        };
+      } else {
+        const keyPair = nacl.box.keyPair();
+        this.identity = {
+          deviceId: Crypto.randomUUID(),
+          publicKey: keyPair.publicKey,
+          secretKey: keyPair.secretKey,
+        };
+        await SecureStore.setItemAsync(
+          IDENTITY_KEY_PREFIX + userId,
+          JSON.stringify({
+            deviceId: this.identity.deviceId,
+            publicKey: encodeBase64(keyPair.publicKey),
+            secretKey: encodeBase64(keyPair.secretKey),
+          }),
+        );
+        console.log(
+          "[E2EE] Generated identity for device",
+          this.identity.deviceId,
+        );
+      }
+
+      const [records, sessions, groups] = await AsyncStorage.multiGet([
+        PEERS_KEY_PREFIX + userId,
+        SESSIONS_KEY_PREFIX + userId,
+        GROUPS_KEY_PREFIX + userId,
+      ]);
+      this.keyRecords = records[1] ? JSON.parse(records[1]) : {};
+      this.sessions = sessions[1] ? JSON.parse(sessions[1]) : {};
+      this.groupChatIds = new Set(groups[1] ? JSON.parse(groups[1]) : []);
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Failed to load identity:", error);
+      return;
+    }
+
+    const result = await keyDirectory.uploadIdentityKey(
+      this.identity.deviceId,
+      encodeBase64(this.identity.publicKey),
+    );
+    if (!result.success) {
+      __DEV__ &&
+        console.warn("[E2EE] Failed to publish identity key:", result.error);
+    }
+  }
+
+  reset(): void {
+    this.userId = null;
+    this.identity = null;
+    this.keyRecords = {};
+    this.sessions = {};
+    this.groupChatIds = new Set();
+    this.senderRefreshes.clear();
+  }
+
+  async deleteIdentity(): Promise<void> {
+    const userId = this.userId;
+    this.reset();
+    if (userId === null) return;
+    try {
+      await SecureStore.deleteItemAsync(IDENTITY_KEY_PREFIX + userId);
+      await AsyncStorage.multiRemove([
+        PEERS_KEY_PREFIX + userId,
+        SESSIONS_KEY_PREFIX + userId,
+        GROUPS_KEY_PREFIX + userId,
+      ]);
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Failed to delete identity:", error);
+    }
+  }
+
+  isEncrypted(content: string | null | undefined): boolean {
+    return !!content && content.startsWith(ENVELOPE_PREFIX);
+  }
+
+  private async persist(): Promise<void> {
+    if (this.userId === null) return;
+    try {
+      await AsyncStorage.multiSet([
+        [PEERS_KEY_PREFIX + this.userId, JSON.stringify(this.keyRecords)],
+        [SESSIONS_KEY_PREFIX + this.userId, JSON.stringify(this.sessions)],
+        [
+          GROUPS_KEY_PREFIX + this.userId,
+          JSON.stringify([...this.groupChatIds]),
+        ],
+      ]);
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Failed to save key records:", error);
+    }
+  }
+
+  /**
+   * Returns the published device keys of `userId`. A changed key set drops
+   * any previous safety-number verification for that user.
+   */
+  private async getKeys(
+    userId: number,
+    forceRefresh = false,
+  ): Promise<ServerIdentityKey[]> {
+    const record = this.keyRecords[userId];
+    if (
+      record &&
+      !forceRefresh &&
+      Date.now() - record.fetchedAt < KEYS_TTL_MS
+    ) {
+      return record.keys;
+    }
+
+    const result = await keyDirectory.getIdentityKeys(userId);
+    if (!result.success || !result.data) {
+      if (record) return record.keys;
+      throw new Error(result.error || "Failed to get identity keys");
+    }
+
+    const keys = [...result.data].sort((a, b) =>
+      a.deviceId.localeCompare(b.deviceId),
+    );
+    const changed = !!record && !sameKeys(record.keys, keys);
+    if (changed) {
+      console.log("[E2EE] Identity keys changed for user", userId);
+    }
+    this.keyRecords[userId] = {
+      keys,
+      fetchedAt: Date.now(),
+      verifiedSafetyNumber: changed ? undefined : record?.verifiedSafetyNumber,
+    };
+    await this.persist();
+    return keys;
+  }
+
+  private async getOwnKeys(forceRefresh = false): Promise<ServerIdentityKey[]> {
+    if (!this.identity || this.userId === null) return [];
+    const current = {
+      deviceId: this.identity.deviceId,
+      publicKey: encodeBase64(this.identity.publicKey),
+    };
+    let keys: ServerIdentityKey[] = [];
+    try {
+      keys = await this.getKeys(this.userId, forceRefresh);
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Failed to load own device keys:", error);
+    }
+    return [
+      ...keys.filter((key) => key.deviceId !== current.deviceId),
+      current,
+    ];
+  }
+
+  /**
+   * Key exchange for a new private chat: remembers the peer for this chat and
+   * pins their current device keys.
+   */
+  async establishSession(chatId: string, peerUserId: number): Promise<void> {
+    this.sessions[chatId] = peerUserId;
+    try {
+      await this.getKeys(peerUserId, true);
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Key exchange failed:", error);
+    }
+    await this.persist();
+  }
+
+  /**
+   * Remembers which chats are groups and who the peer of each private chat
+   * is, so sends can tell a group apart from a chat that has not loaded yet.
+   */
+  async registerChats(chats: Chat[]): Promise<void> {
+    let changed = false;
+    for (const chat of chats) {
+      if (chat.type === "group") {
+        if (!this.groupChatIds.has(chat.id)) {
+          this.groupChatIds.add(chat.id);
+          changed = true;
+        }
+        continue;
+      }
+      const peerUserId = chat.participant?.visibleId;
+      if (
+        chat.type === "private" &&
+        peerUserId &&
+        this.sessions[chat.id] === undefined
+      ) {
+        this.sessions[chat.id] = peerUserId;
+        changed = true;
+      }
+    }
+    if (changed) await this.persist();
+  }
+
+  /**
+   * Encrypts `content` for every device of both participants of a private
+   * chat. Only chats known to be groups pass through unchanged; for any
+   * other chat this throws rather than falling back to plaintext, so queued
+   * messages wait until the peer and their keys are known.
+   */
+  async encryptForChat(chatId: number, content: string): Promise<string> {
+    if (!content) return content;
+    const key = chatId.toString();
+    if (this.groupChatIds.has(key)) return content;
+    const peerUserId = this.sessions[key];
+    if (peerUserId === undefined) {
+      throw new Error("Recipient of this chat is not known yet");
+    }
+    if (!this.identity) {
+      throw new Error("Encryption keys are not loaded");
+    }
+
+    const peerKeys = await this.getKeys(peerUserId);
+    if (peerKeys.length === 0) {
+      throw new Error("Recipient has no encryption keys");
+    }
+    const recipients = [...peerKeys, ...(await this.getOwnKeys())];
+
+    const messageKey = nacl.randomBytes(nacl.secretbox.keyLength);
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const keys: Record<string, string> = {};
+    for (const recipient of recipients) {
+      const boxNonce = nacl.randomBytes(nacl.box.nonceLength);
+      const boxed = nacl.box(
+        messageKey,
+        boxNonce,
+        decodeBase64(recipient.publicKey),
+        this.identity.secretKey,
+      );
+      const wrapped = new Uint8Array(boxNonce.length + boxed.length);
+      wrapped.set(boxNonce);
+      wrapped.set(boxed, boxNonce.length);
+      keys[recipient.deviceId] = encodeBase64(wrapped);
+    }
+
+    const envelope: Envelope = {
+      device: this.identity.deviceId,
+      sender: encodeBase64(this.identity.publicKey),
+      nonce: encodeBase64(nonce),
+      ciphertext: encodeBase64(
+        nacl.secretbox(decodeUTF8(content), nonce, messageKey),
+      ),
+      keys,
+    };
+    return ENVELOPE_PREFIX + JSON.stringify(envelope);
+  }
+
+  private parseEnvelope(content: string | null | undefined): Envelope | null {
+    if (!content || !this.isEncrypted(content)) return null;
+    try {
+      return JSON.parse(content.slice(ENVELOPE_PREFIX.length));
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Malformed envelope:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether `envelope` was sealed by a device that `senderId` has published.
+   * Envelopes name their own sender key, so without this anyone could seal a
+   * message that opens as if someone else sent it.
+   */
+  private isKnownSender(senderId: number, envelope: Envelope): boolean {
+    if (
+      senderId === this.userId &&
+      this.identity &&
+      envelope.device === this.identity.deviceId
+    ) {
+      return envelope.sender === encodeBase64(this.identity.publicKey);
+    }
+    return !!this.keyRecords[senderId]?.keys.some(
+      (key) =>
+        key.deviceId === envelope.device && key.publicKey === envelope.sender,
+    );
+  }
+
+  private getUnknownSenders(message: ServerMessage): number[] {
+    const sealed = [
+      { content: message.content, senderId: message.senderId },
+      { content: message.revision?.content, senderId: message.senderId },
+      {
+        content: message.replyToMessage?.content,
+        senderId: message.replyToMessage?.senderId,
+      },
+    ];
+    const senderIds: number[] = [];
+    for (const { content, senderId } of sealed) {
+      const envelope = this.parseEnvelope(content);
+      if (envelope && senderId && !this.isKnownSender(senderId, envelope)) {
+        senderIds.push(senderId);
+      }
+    }
+    return senderIds;
+  }
+
+  hasUnknownSender(message: ServerMessage): boolean {
+    return !!this.identity && this.getUnknownSenders(message).length > 0;
+  }
+
+  /**
+   * Fetches the keys of senders whose envelopes do not match the keys this
+   * device has pinned, so the messages open once they are mapped. Each
+   * sender is refreshed at most once a minute.
+   */
+  async loadSenderKeys(messages: ServerMessage[]): Promise<void> {
+    if (!this.identity) return;
+    const senderIds = new Set(
+      messages.flatMap((message) => this.getUnknownSenders(message)),
+    );
+    await Promise.all([...senderIds].map((id) => this.refreshSenderKeys(id)));
+  }
+
+  private refreshSenderKeys(senderId: number): Promise<void> {
+    const pending = this.senderRefreshes.get(senderId);
+    if (pending) return pending;
+    const record = this.keyRecords[senderId];
+    if (record && Date.now() - record.fetchedAt < SENDER_REFRESH_INTERVAL_MS) {
+      return Promise.resolve();
+    }
+
+    const refresh = this.getKeys(senderId, true)
+      .then(() => undefined)
+      .catch((error) => {
+        __DEV__ && console.warn("[E2EE] Failed to load sender keys:", error);
+      })
+      .finally(() => {
+        this.senderRefreshes.delete(senderId);
+      });
+    this.senderRefreshes.set(senderId, refresh);
+    return refresh;
+  }
+
+  /**
+   * Returns the plaintext of `content`, `content` itself when it is not
+   * encrypted, or null when this device cannot open it or it was not sealed
+   * by one of `senderId`'s published devices.
+   */
+  decryptContent(content: string, senderId: number): string | null {
+    if (!this.isEncrypted(content)) return content;
+    if (!this.identity) return null;
+
+    try {
+      const envelope = this.parseEnvelope(content);
+      if (!envelope) return null;
+      if (!this.isKnownSender(senderId, envelope)) {
+        __DEV__ &&
+          console.warn("[E2EE] Envelope key does not belong to", senderId);
+        return null;
+      }
+      const wrapped = envelope.keys?.[this.identity.deviceId];
+      if (!wrapped) return null;
+
+      const wrappedBytes = decodeBase64(wrapped);
+      const messageKey = nacl.box.open(
+        wrappedBytes.subarray(nacl.box.nonceLength),
+        wrappedBytes.subarray(0, nacl.box.nonceLength),
+        decodeBase64(envelope.sender),
+        this.identity.secretKey,
+      );
+      if (!messageKey) return null;
+
+      const plaintext = nacl.secretbox.open(
+        decodeBase64(envelope.ciphertext),
+        decodeBase64(envelope.nonce),
+        messageKey,
+      );
+      return plaintext ? encodeUTF8(plaintext) : null;
+    } catch (error) {
+      __DEV__ && console.warn("[E2EE] Failed to decrypt message:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Opens the encrypted fields of a server message. Fields this device
+   * cannot open are left as ciphertext for `serverMessageToMessage` to flag.
+   */
+  decryptServerMessage(message: ServerMessage): ServerMessage {
+    const reply = message.replyToMessage;
+    const revision = message.revision;
+    if (
+      !this.isEncrypted(message.content) &&
+      !this.isEncrypted(reply?.content) &&
+      !this.isEncrypted(revision?.content)
+    ) {
+      return message;
+    }
+
+    return {
+      ...message,
+      content:
+        this.decryptContent(message.content, message.senderId) ??
+        message.content,
+      replyToMessage: reply
+        ? {
+            ...reply,
+            content:
+              this.decryptContent(reply.content, reply.senderId) ??
+              reply.content,
+          }
+        : reply,
+      revision: revision
+        ? {
+            ...revision,
+            content:
+              this.decryptContent(revision.content, message.senderId) ??
+              revision.content,
+          }
+        : revision,
+    };
+  }
+
+  async getSafetyNumber(peerUserId: number): Promise<SafetyNumberInfo> {
+    if (this.userId === null) {
+      return { safetyNumber: null, isVerified: false };
+    }
+
+    const peerKeys = await this.getKeys(peerUserId, true);
+    const ownKeys = await this.getOwnKeys(true);
+    if (peerKeys.length === 0 || ownKeys.length === 0) {
+      return { safetyNumber: null, isVerified: false };
+    }
+
+    const parts = [
+      { userId: this.userId, keys: ownKeys },
+      { userId: peerUserId, keys: peerKeys },
+    ].sort((a, b) => a.userId - b.userId);
+    const safetyNumber = parts
+      .map((part) => fingerprint(part.userId, part.keys))
+      .join(" ");
+
+    return {
+      safetyNumber,
+      isVerified:
+        this.keyRecords[peerUserId]?.verifiedSafetyNumber === safetyNumber,
+    };
+  }
+
+  async setVerified(
+    peerUserId: number,
+    safetyNumber: string | null,
+  ): Promise<void> {
+    const record = this.keyRecords[peerUserId];
+    if (!record) return;
+    this.keyRecords[peerUserId] = {
+      ...record,
+      verifiedSafetyNumber: safetyNumber ?? undefined,
+    };
+    await this.persist();
+  }
+}
+
+export const e2eeService = new E2EEService();
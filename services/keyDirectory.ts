@@ -0,0 +1,75 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { ApiResponse } from "./api";
+
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || "";
+const TOKEN_KEY = "@shepot_token";
+
+export interface ServerIdentityKey {
+  deviceId: string;
+  publicKey: string;
+}
+
+/**
+ * The identity key endpoints. Kept apart from the API service because that
+ * service decrypts messages through E2EE, which in turn needs these.
+ */
+class KeyDirectory {
+  private async getHeaders(): Promise<HeadersInit> {
+    const token = await AsyncStorage.getItem(TOKEN_KEY);
+    return {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+  }
+
+  async uploadIdentityKey(
+    deviceId: string,
+    publicKey: string,
+  ): Promise<ApiResponse<void>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(`${API_BASE_URL}/api/keys/identity`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ deviceId, publicKey }),
+      });
+
+      if (response.ok) {
+        return { success: true };
+      }
+
+      return { success: false, error: "Failed to upload identity key" };
+    } catch (error) {
+      __DEV__ && console.warn("Upload identity key error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+
+  async getIdentityKeys(
+    userId: number,
+  ): Promise<ApiResponse<ServerIdentityKey[]>> {
+    try {
+      const headers = await this.getHeaders();
+      const response = await fetch(`${API_BASE_URL}/api/keys/${userId}`, {
+        method: "GET",
+        headers,
+      });
+
+      const responseData = await response.json();
+
+      if (response.ok && responseData.success) {
+        return { success: true, data: responseData.data?.keys || [] };
+      }
+
+      return {
+        success: false,
+        error: responseData.error || "Failed to get identity keys",
+      };
+    } catch (error) {
+      __DEV__ && console.warn("Get identity keys error:", error);
+      return { success: false, error: "Network error" };
+    }
+  }
+}
+
+export const keyDirectory = new KeyDirectory();
@@ -0,0 +1,347 @@
+import { Linking } from "react-native";
+import * as WebBrowser from "expo-web-browser";
+import { apiService, ApiResponse, ServerLinkPreview } from "./api";
+import { database } from "./database";
+
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MISSING_PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+const DEVICE_FETCH_TIMEOUT_MS = 10 * 1000;
+const MAX_HTML_LENGTH = 256 * 1024;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,18}\d/g;
+const TRAILING_PUNCTUATION = /[.,!?;:'"]+$/;
+
+export type DetectedLinkType = "url" | "email" | "phone";
+
+export interface DetectedLink {
+  type: DetectedLinkType;
+  value: string;
+  offset: number;
+  length: number;
+}
+
+/**
+ * Where a preview is fetched. "device" loads the page directly, for chats
+ * whose links must not be sent to the server.
+ */
+export type LinkPreviewSource = "server" | "device";
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+function trimUrl(value: string): string {
+  let trimmed = value.replace(TRAILING_PUNCTUATION, "");
+  // Keep the closing paren of "wiki/Foo_(bar)" but drop the one that closes
+  // a sentence like "(see https://example.com)".
+  while (
+    trimmed.endsWith(")") &&
+    trimmed.split(")").length > trimmed.split("(").length
+  ) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, "");
+  }
+  return trimmed;
+}
+
+function isPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, "").length;
+  if (digits < 7 || digits > 15) return false;
+  return value.startsWith("+") || value.includes("(") || digits >= 10;
+}
+
+/**
+ * Finds URLs, emails and phone numbers in `text`, in order and without
+ * overlaps. URLs win over emails and emails over phone numbers.
+ */
+export function detectLinks(text: string): DetectedLink[] {
+  const links: DetectedLink[] = [];
+
+  const add = (type: DetectedLinkType, value: string, offset: number) => {
+    const end = offset + value.length;
+    const overlaps = links.some(
+      (link) => offset < link.offset + link.length && end > link.offset,
+    );
+    if (!overlaps) {
+      links.push({ type, value, offset, length: value.length });
+    }
+  };
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const value = trimUrl(match[0]);
+    if (value.length > 4) add("url", value, match.index ?? 0);
+  }
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    add("email", match[0], match.index ?? 0);
+  }
+  for (const match of text.matchAll(PHONE_PATTERN)) {
+    const offset = match.index ?? 0;
+    const before = offset > 0 ? text[offset - 1] : "";
+    if (/\w/.test(before) || !isPhoneNumber(match[0])) continue;
+    add("phone", match[0], offset);
+  }
+
+  return links.sort((a, b) => a.offset - b.offset);
+}
+
+export function getLinkHref(
+  link: Pick<DetectedLink, "type" | "value">,
+): string {
+  switch (link.type) {
+    case "email":
+      return `mailto:${link.value}`;
+    case "phone":
+      return `tel:${link.value.replace(/[^\d+]/g, "")}`;
+    default:
+      return /^https?:\/\//i.test(link.value)
+        ? link.value
+        : `https://${link.value}`;
+  }
+}
+
+export function findFirstUrl(text: string | undefined): string | null {
+  if (!text) return null;
+  const link = detectLinks(text).find((item) => item.type === "url");
+  return link ? getLinkHref(link) : null;
+}
+
+export async function openLink(
+  link: Pick<DetectedLink, "type" | "value">,
+): Promise<void> {
+  const href = getLinkHref(link);
+  try {
+    if (link.type === "url") {
+      await WebBrowser.openBrowserAsync(href);
+    } else {
+      await Linking.openURL(href);
+    }
+  } catch (error) {
+    __DEV__ && console.warn("[LinkPreview] Failed to open link:", error);
+  }
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    const point =
+      code[1] === "x" || code[1] === "X"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) && point > 0 && point <= 0x10ffff
+      ? String.fromCodePoint(point)
+      : entity;
+  });
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(
+    `\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`,
+    "i",
+  ).exec(tag);
+  return match ? (match[1] ?? match[2] ?? null) : null;
+}
+
+/** Collects `<meta>` tags by lowercased `property` or `name`. */
+function readMetaTags(html: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const match of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const key =
+      readAttribute(match[0], "property") ?? readAttribute(match[0], "name");
+    const content = readAttribute(match[0], "content");
+    if (key && content && !tags.has(key.toLowerCase())) {
+      tags.set(key.toLowerCase(), decodeHtmlEntities(content).trim());
+    }
+  }
+  return tags;
+}
+
+function resolveUrl(value: string | undefined, pageUrl: string): string | null {
+  if (!value) return null;
+  if (/^https?:\/\//i.test(value)) return value;
+  if (value.startsWith("//")) return `https:${value}`;
+  const origin = /^https?:\/\/[^/?#]+/i.exec(pageUrl)?.[0];
+  return origin && value.startsWith("/") ? `${origin}${value}` : null;
+}
+
+/**
+ * Fetches the page itself and reads its Open Graph tags, falling back to
+ * the `<title>` and description meta tags.
+ */
+async function fetchPreviewOnDevice(
+  url: string,
+): Promise<ApiResponse<ServerLinkPreview | null>> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DEVICE_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      headers: { Accept: "text/html" },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return { success: false, error: "Failed to load page" };
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (!contentType.includes("html")) {
+      return { success: true, data: null };
+    }
+
+    const pageUrl = response.url || url;
+    const html = (await response.text()).slice(0, MAX_HTML_LENGTH);
+    const meta = readMetaTags(html);
+    const titleTag = /<title[^>]*>([^<]*)<\/title>/i.exec(html)?.[1];
+
+    return {
+      success: true,
+      data: {
+        url: resolveUrl(meta.get("og:url"), pageUrl) || pageUrl,
+        title:
+          meta.get("og:title") ||
+          meta.get("twitter:title") ||
+          (titleTag ? decodeHtmlEntities(titleTag).trim() : null) ||
+          null,
+        description:
+          meta.get("og:description") ||
+          meta.get("twitter:description") ||
+          meta.get("description") ||
+          null,
+        imageUrl: resolveUrl(
+          meta.get("og:image") || meta.get("twitter:image"),
+          pageUrl,
+        ),
+        siteName: meta.get("og:site_name") || null,
+      },
+    };
+  } catch (error) {
+    __DEV__ && console.warn("[LinkPreview] Failed to fetch page:", error);
+    return { success: false, error: "Network error" };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+type PreviewRow = { fetched_at: number; data: string };
+
+class LinkPreviewService {
+  private previews: Map<string, LinkPreview | null> = new Map();
+  private pending: Map<string, Promise<LinkPreview | null>> = new Map();
+
+  /**
+   * Returns a preview already loaded in this session: the preview, `null`
+   * when the page has none, or `undefined` when it has not been looked up.
+   */
+  getLoadedPreview(url: string): LinkPreview | null | undefined {
+    return this.previews.get(url);
+  }
+
+  async getPreview(
+    url: string,
+    source: LinkPreviewSource = "server",
+  ): Promise<LinkPreview | null> {
+    if (this.previews.has(url)) return this.previews.get(url) ?? null;
+
+    const inFlight = this.pending.get(url);
+    if (inFlight) return inFlight;
+
+    const request = this.loadPreview(url, source).finally(() => {
+      this.pending.delete(url);
+    });
+    this.pending.set(url, request);
+    return request;
+  }
+
+  async clear(): Promise<void> {
+    this.previews.clear();
+    try {
+      const db = await database.getDatabase();
+      await db.runAsync("DELETE FROM link_previews");
+    } catch (error) {
+      __DEV__ && console.warn("[LinkPreview] Failed to clear cache:", error);
+    }
+  }
+
+  private async loadPreview(
+    url: string,
+    source: LinkPreviewSource,
+  ): Promise<LinkPreview | null> {
+    const stored = await this.readStored(url);
+    if (stored !== undefined) {
+      this.previews.set(url, stored);
+      return stored;
+    }
+
+    const result =
+      source === "device"
+        ? await fetchPreviewOnDevice(url)
+        : await apiService.getLinkPreview(url);
+    if (!result.success) {
+      // Leave network failures uncached so the next render retries.
+      return null;
+    }
+
+    const preview =
+      result.data && (result.data.title || result.data.description)
+        ? {
+            url: result.data.url || url,
+            title: result.data.title || undefined,
+            description: result.data.description || undefined,
+            imageUrl: result.data.imageUrl || undefined,
+            siteName: result.data.siteName || undefined,
+          }
+        : null;
+    this.previews.set(url, preview);
+    await this.store(url, preview);
+    return preview;
+  }
+
+  private async readStored(
+    url: string,
+  ): Promise<LinkPreview | null | undefined> {
+    try {
+      const db = await database.getDatabase();
+      const row = await db.getFirstAsync<PreviewRow>(
+        "SELECT fetched_at, data FROM link_previews WHERE url = ?",
+        url,
+      );
+      if (!row) return undefined;
+      const preview = JSON.parse(row.data) as LinkPreview | null;
+      const ttl = preview ? PREVIEW_TTL_MS : MISSING_PREVIEW_TTL_MS;
+      return Date.now() - row.fetched_at < ttl ? preview : undefined;
+    } catch (error) {
+      __DEV__ && console.warn("[LinkPreview] Failed to read cache:", error);
+      return undefined;
+    }
+  }
+
+  private async store(url: string, preview: LinkPreview | null): Promise<void> {
+    try {
+      await database.transaction(async (db) => {
+        await db.runAsync(
+          "INSERT OR REPLACE INTO link_previews (url, fetched_at, data) VALUES (?, ?, ?)",
+          url,
+          Date.now(),
+          JSON.stringify(preview),
+        );
+      });
+    } catch (error) {
+      __DEV__ && console.warn("[LinkPreview] Failed to save cache:", error);
+    }
+  }
+}
+
+export const linkPreviewService = new LinkPreviewService();
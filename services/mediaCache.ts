@@ -1,9 +1,17 @@
 import * as FileSystem from "expo-file-system/legacy";
 import { Platform } from "react-native";
+import { dataSettingsService } from "./dataSettings";
 
 const CACHE_DIR = FileSystem.cacheDirectory + "media/";
 const MAX_CACHE_SIZE_MB = 131072; // 128 GB
-const MAX_CACHE_AGE_DAYS = 90; // 3 months
+
+export type CachedMediaType = "photo" | "video" | "voice" | "other";
+
+export interface CachedMediaEntry {
+  key: string;
+  size: number;
+  type: CachedMediaType;
+}
 
 interface CacheEntry {
   uri: string;
@@ -49,6 +57,7 @@ class MediaCacheService {
       }
 
       await this.loadManifest();
+      await dataSettingsService.init();
       await this.cleanupOldEntries();
       this.initialized = true;
     } catch (error) {
@@ -106,7 +115,9 @@ class MediaCacheService {
   }
 
   private getExtension(filename: string): string {
-    const match = filename.match(/\.(jpg|jpeg|png|gif|webp|mp4|mov|m4a|aac|mp3|wav)$/i);
+    const match = filename.match(
+      /\.(jpg|jpeg|png|gif|webp|mp4|mov|m4a|aac|mp3|wav|pdf|docx?|xlsx?|pptx?|csv|txt|rtf|odt|ods|zip|rar|7z)$/i,
+    );
     return match ? match[0].toLowerCase() : "";
   }
 
@@ -118,6 +129,14 @@ class MediaCacheService {
     return ".jpg";
   }
 
+  private getMediaType(key: string): CachedMediaType {
+    const extension = this.getExtension(key);
+    if (/^\.(jpe?g|png|gif|webp)$/.test(extension)) return "photo";
+    if (/^\.(mp4|mov)$/.test(extension)) return "video";
+    if (/^\.(m4a|aac|mp3|wav)$/.test(extension)) return "voice";
+    return "other";
+  }
+
   private getCachePath(key: string): string {
     return CACHE_DIR + key;
   }
@@ -257,7 +276,10 @@ class MediaCacheService {
   }
 
   private async cleanupOldEntries(): Promise<void> {
-    const maxAge = MAX_CACHE_AGE_DAYS * 24 * 60 * 60 * 1000;
+    const { cacheRetentionDays } = dataSettingsService.getSettings();
+    if (cacheRetentionDays === null) return;
+
+    const maxAge = cacheRetentionDays * 24 * 60 * 60 * 1000;
     const now = Date.now();
     let changed = false;
 
@@ -279,7 +301,8 @@ class MediaCacheService {
   }
 
   private async enforceMaxSize(): Promise<void> {
-    const maxSizeBytes = MAX_CACHE_SIZE_MB * 1024 * 1024;
+    const { cacheSizeLimitMb } = dataSettingsService.getSettings();
+    const maxSizeBytes = (cacheSizeLimitMb ?? MAX_CACHE_SIZE_MB) * 1024 * 1024;
 
     if (this.manifest.totalSize <= maxSizeBytes) return;
 
@@ -320,6 +343,51 @@ class MediaCacheService {
     }
   }
 
+  /**
+   * Applies the current retention period and size limit right away, rather
+   * than waiting for the next launch or download.
+   */
+  async applyLimits(): Promise<void> {
+    if (Platform.OS === "web") return;
+    await this.ensureInitialized();
+    await this.cleanupOldEntries();
+    await this.enforceMaxSize();
+  }
+
+  getKeyForUrl(url: string): string {
+    return this.getCacheKey(url);
+  }
+
+  async getEntries(): Promise<CachedMediaEntry[]> {
+    if (Platform.OS === "web") return [];
+    await this.ensureInitialized();
+    return Object.entries(this.manifest.entries).map(([key, entry]) => ({
+      key,
+      size: entry.size || 0,
+      type: this.getMediaType(key),
+    }));
+  }
+
+  async removeEntries(keys: string[]): Promise<void> {
+    if (Platform.OS === "web") return;
+
+    try {
+      await this.ensureInitialized();
+      for (const key of keys) {
+        const entry = this.manifest.entries[key];
+        if (!entry) continue;
+        await FileSystem.deleteAsync(entry.uri, { idempotent: true });
+        this.verifiedPaths.delete(entry.uri);
+        this.manifest.totalSize -= entry.size;
+        delete this.manifest.entries[key];
+      }
+      if (this.manifest.totalSize < 0) this.manifest.totalSize = 0;
+      await this.saveManifest();
+    } catch (error) {
+      if (__DEV__) console.warn("[MediaCache] Remove entries error:", error);
+    }
+  }
+
   async clearCache(): Promise<void> {
     if (Platform.OS === "web") return;
 
@@ -383,7 +451,10 @@ class MediaCacheService {
   formatCacheSize(bytes: number): string {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes < 1024 * 1024 * 1024) {
+      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
   }
 }
 
@@ -0,0 +1,106 @@
+import { Image, Platform } from "react-native";
+import * as ImageManipulator from "expo-image-manipulator";
+import { Video } from "react-native-compressor";
+import { CompressionPreset, dataSettingsService } from "./dataSettings";
+
+interface PresetConfig {
+  /** Longest image side in pixels, or null to keep the original size. */
+  imageMaxDimension: number | null;
+  imageQuality: number;
+  /** Longest video side in pixels, or null to send the original file. */
+  videoMaxDimension: number | null;
+  videoBitrate: number;
+}
+
+const PRESET_CONFIGS: Record<CompressionPreset, PresetConfig> = {
+  original: {
+    imageMaxDimension: null,
+    imageQuality: 1,
+    videoMaxDimension: null,
+    videoBitrate: 0,
+  },
+  hd: {
+    imageMaxDimension: 2560,
+    imageQuality: 0.85,
+    videoMaxDimension: 1280,
+    videoBitrate: 2_500_000,
+  },
+  economy: {
+    imageMaxDimension: 1280,
+    imageQuality: 0.7,
+    videoMaxDimension: 640,
+    videoBitrate: 800_000,
+  },
+};
+
+class MediaCompressionService {
+  /**
+   * Prepares a picked photo or video for upload using the preset chosen in
+   * Data & storage settings. Returns the original URI when compression is
+   * unavailable or fails, so a send is never blocked by it.
+   */
+  async compress(uri: string, type: "image" | "video"): Promise<string> {
+    if (Platform.OS === "web") return uri;
+
+    await dataSettingsService.init();
+    const config =
+      PRESET_CONFIGS[dataSettingsService.getSettings().uploadPreset];
+
+    try {
+      return type === "image"
+        ? await this.compressImage(uri, config)
+        : await this.compressVideo(uri, config);
+    } catch (error) {
+      __DEV__ && console.warn("[MediaCompression] Failed to compress:", error);
+      return uri;
+    }
+  }
+
+  /**
+   * Re-encodes the image even for the original preset: the output carries
+   * no EXIF data, which drops the location the camera may have stored.
+   */
+  private async compressImage(
+    uri: string,
+    config: PresetConfig,
+  ): Promise<string> {
+    const actions: ImageManipulator.Action[] = [];
+    if (config.imageMaxDimension) {
+      const { width, height } = await Image.getSize(uri);
+      if (Math.max(width, height) > config.imageMaxDimension) {
+        actions.push({
+          resize:
+            width >= height
+              ? { width: config.imageMaxDimension }
+              : { height: config.imageMaxDimension },
+        });
+      }
+    }
+
+    const result = await ImageManipulator.manipulateAsync(uri, actions, {
+      compress: config.imageQuality,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
+    return result.uri;
+  }
+
+  /**
+   * Re-encoding writes a new file without the source's location. The
+   * original preset sends the file untouched, location included, which the
+   * settings screen tells the user.
+   */
+  private async compressVideo(
+    uri: string,
+    config: PresetConfig,
+  ): Promise<string> {
+    if (!config.videoMaxDimension) return uri;
+
+    return Video.compress(uri, {
+      compressionMethod: "manual",
+      maxSize: config.videoMaxDimension,
+      bitrate: config.videoBitrate,
+    });
+  }
+}
+
+export const mediaCompression = new MediaCompressionService();
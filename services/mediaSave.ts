@@ -0,0 +1,47 @@
+import * as MediaLibrary from "expo-media-library";
+import { Message } from "@/store/types";
+import { mediaCache } from "./mediaCache";
+
+class MediaSaveService {
+  private getSources(message: Message): string[] {
+    if (message.type === "album") {
+      return (message.attachments ?? [])
+        .map((attachment) => attachment.uri || attachment.url)
+        .filter((uri): uri is string => !!uri);
+    }
+    if (message.type === "image" || message.type === "video") {
+      const uri = message.mediaUri || message.mediaUrl;
+      return uri ? [uri] : [];
+    }
+    return [];
+  }
+
+  hasSavableMedia(message: Message): boolean {
+    return this.getSources(message).length > 0;
+  }
+
+  /**
+   * Downloads the photos and videos of `messages` if needed and adds them
+   * to the gallery. Returns how many were saved, or null when the user
+   * declines the permission.
+   */
+  async saveMessagesMedia(messages: Message[]): Promise<number | null> {
+    const { granted } = await MediaLibrary.requestPermissionsAsync(true);
+    if (!granted) return null;
+
+    let saved = 0;
+    for (const uri of messages.flatMap((m) => this.getSources(m))) {
+      try {
+        const localUri = await mediaCache.cacheMedia(uri);
+        if (localUri.startsWith("http")) continue;
+        await MediaLibrary.saveToLibraryAsync(localUri);
+        saved++;
+      } catch (error) {
+        __DEV__ && console.warn("[MediaSave] Failed to save media:", error);
+      }
+    }
+    return saved;
+  }
+}
+
+export const mediaSaveService = new MediaSaveService();
@@ -4,28 +4,48 @@ import { chunkedUploadService, CHUNKED_UPLOAD_CONFIG } from "./chunkedUpload";
 import { linkThumbnailToUrl } from "@/components/VideoThumbnail";
 import { mediaCache } from "./mediaCache";
 import { thumbnailService } from "./thumbnailService";
-
-const QUEUE_KEY = "@shepot_message_queue";
+import { mediaCompression } from "./mediaCompression";
+import { database } from "./database";
+import { e2eeService } from "./e2ee";
+import {
+  ForwardedFrom,
+  MessageAttachment,
+  MessageFile,
+  MessageMention,
+} from "@/store/types";
 
 export interface QueuedMessage {
   id: string;
   chatId: number;
   content?: string;
-  type: "text" | "image" | "video" | "voice";
+  type: "text" | "image" | "video" | "voice" | "file" | "album";
   mediaUri?: string;
   mediaUrl?: string;
   thumbnailUri?: string;
   thumbnailUrl?: string;
   mediaSize?: number;
   audioDuration?: number;
+  waveform?: number[];
+  isVideoNote?: boolean;
+  forwardedFrom?: ForwardedFrom;
+  /** The message being forwarded; the server fills in the attribution. */
+  forwardSourceId?: number;
+  file?: MessageFile;
+  attachments?: MessageAttachment[];
   replyToId?: number;
+  mentions?: MessageMention[];
+  linkPreviewDisabled?: boolean;
   createdAt: number;
+  sendAt?: number;
   retryCount: number;
   status: "pending" | "uploading" | "sending" | "failed";
   uploadProgress?: number;
   isChunkedUpload?: boolean;
+  isCompressed?: boolean;
 }
 
+const LAST_SENT_KEY = "@shepot_last_sent_at";
+
 type QueueUpdateCallback = (queue: QueuedMessage[]) => void;
 type MessageSentCallback = (tempId: string, serverMessage: any, chatId: number) => void;
 type MessageFailedCallback = (tempId: string, chatId: number, error: string) => void;
@@ -39,12 +59,26 @@ class MessageQueueService {
   private onMessageFailed: MessageFailedCallback | null = null;
   private maxRetries = 3;
   private retryDelay = 2000;
+  private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+  /** When the user last sent a message to each chat, for slow mode. */
+  private lastSentAt: Record<number, number> = {};
 
   async initialize(): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(QUEUE_KEY);
-      if (stored) {
-        this.queue = JSON.parse(stored);
+      const stored = await AsyncStorage.getItem(LAST_SENT_KEY);
+      if (stored) this.lastSentAt = JSON.parse(stored);
+    } catch (error) {
+      __DEV__ &&
+        console.warn("[MessageQueue] Failed to load send times:", error);
+    }
+
+    try {
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<{ data: string }>(
+        "SELECT data FROM message_queue ORDER BY created_at ASC",
+      );
+      if (rows.length > 0) {
+        this.queue = rows.map((row) => JSON.parse(row.data));
         this.queue = this.queue.map(m => ({ ...m, status: m.status === "uploading" || m.status === "sending" ? "pending" : m.status }));
         await this.saveQueue();
         console.log(`[MessageQueue] Loaded ${this.queue.length} pending messages`);
@@ -52,11 +86,56 @@ class MessageQueueService {
     } catch (error) {
       __DEV__ && console.warn("[MessageQueue] Failed to load queue:", error);
     }
+    this.armScheduleTimer();
+  }
+
+  private isDue(message: QueuedMessage): boolean {
+    return !message.sendAt || message.sendAt <= Date.now();
+  }
+
+  /**
+   * Wakes the queue when the earliest scheduled message becomes due. Timers
+   * do not run while the app is suspended, so overdue messages go out on the
+   * next wake-up instead.
+   */
+  private armScheduleTimer(): void {
+    if (this.scheduleTimer) {
+      clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+
+    const upcoming = this.queue
+      .filter((m) => !this.isDue(m))
+      .map((m) => m.sendAt!);
+    if (upcoming.length === 0) return;
+
+    const delay = Math.min(Math.min(...upcoming) - Date.now(), 2147483647);
+    this.scheduleTimer = setTimeout(
+      () => {
+        this.scheduleTimer = null;
+        this.notifyListeners();
+        this.processQueue();
+        this.armScheduleTimer();
+      },
+      Math.max(delay, 0),
+    );
   }
 
   private async saveQueue(): Promise<void> {
     try {
-      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.queue));
+      const snapshot = [...this.queue];
+      await database.transaction(async (db) => {
+        await db.runAsync("DELETE FROM message_queue");
+        for (const message of snapshot) {
+          await db.runAsync(
+            "INSERT OR REPLACE INTO message_queue (id, chat_id, created_at, data) VALUES (?, ?, ?, ?)",
+            message.id,
+            message.chatId,
+            message.createdAt,
+            JSON.stringify(message),
+          );
+        }
+      });
     } catch (error) {
       __DEV__ && console.warn("[MessageQueue] Failed to save queue:", error);
     }
@@ -85,6 +164,20 @@ class MessageQueueService {
     this.onMessageFailed = onFailed;
   }
 
+  getLastSentAt(chatId: number): number | undefined {
+    return this.lastSentAt[chatId];
+  }
+
+  private recordSent(chatId: number): void {
+    this.lastSentAt[chatId] = Date.now();
+    AsyncStorage.setItem(LAST_SENT_KEY, JSON.stringify(this.lastSentAt)).catch(
+      (error) => {
+        __DEV__ &&
+          console.warn("[MessageQueue] Failed to save send times:", error);
+      },
+    );
+  }
+
   async enqueue(message: Omit<QueuedMessage, "createdAt" | "retryCount" | "status">): Promise<void> {
     const queuedMessage: QueuedMessage = {
       ...message,
@@ -94,8 +187,10 @@ class MessageQueueService {
     };
 
     this.queue.push(queuedMessage);
+    if (!message.sendAt) this.recordSent(message.chatId);
     await this.saveQueue();
     this.notifyListeners();
+    this.armScheduleTimer();
     console.log(`[MessageQueue] Enqueued message ${message.id} for chat ${message.chatId}`);
 
     if (this.isOnline && !this.isProcessing) {
@@ -107,14 +202,44 @@ class MessageQueueService {
     this.queue = this.queue.filter(m => m.id !== messageId);
     await this.saveQueue();
     this.notifyListeners();
+    this.armScheduleTimer();
   }
 
+  /** Messages that are sending or waiting to be sent, excluding scheduled ones. */
   getQueueForChat(chatId: number): QueuedMessage[] {
-    return this.queue.filter(m => m.chatId === chatId);
+    return this.queue.filter((m) => m.chatId === chatId && this.isDue(m));
+  }
+
+  getScheduledForChat(chatId: number): QueuedMessage[] {
+    return this.queue
+      .filter((m) => m.chatId === chatId && !this.isDue(m))
+      .sort((a, b) => a.sendAt! - b.sendAt!);
+  }
+
+  /**
+   * Changes the text or send time of a message that has not gone out yet.
+   * Returns false when the message is already being sent.
+   */
+  async updateScheduled(
+    messageId: string,
+    updates: { content?: string; sendAt?: number },
+  ): Promise<boolean> {
+    const index = this.queue.findIndex((m) => m.id === messageId);
+    if (index === -1 || this.isDue(this.queue[index])) return false;
+
+    this.queue[index] = { ...this.queue[index], ...updates };
+    await this.saveQueue();
+    this.notifyListeners();
+    this.armScheduleTimer();
+
+    if (this.isDue(this.queue[index]) && this.isOnline && !this.isProcessing) {
+      this.processQueue();
+    }
+    return true;
   }
 
   getPendingCount(): number {
-    return this.queue.length;
+    return this.queue.filter((m) => this.isDue(m)).length;
   }
 
   setOnline(online: boolean): void {
@@ -122,24 +247,28 @@ class MessageQueueService {
     this.isOnline = online;
     console.log(`[MessageQueue] Online status: ${online}`);
 
-    if (online && wasOffline && this.queue.length > 0) {
+    if (online && wasOffline && this.getPendingCount() > 0) {
       console.log(`[MessageQueue] Connection restored, processing ${this.queue.length} pending messages`);
       this.processQueue();
     }
   }
 
   async processQueue(): Promise<void> {
-    if (this.isProcessing || !this.isOnline || this.queue.length === 0) {
+    if (this.isProcessing || !this.isOnline || this.getPendingCount() === 0) {
       return;
     }
 
     this.isProcessing = true;
     console.log(`[MessageQueue] Processing queue (${this.queue.length} messages)`);
 
-    while (this.isOnline && this.queue.length > 0) {
+    while (this.isOnline && this.getPendingCount() > 0) {
       const pendingMessages = this.queue
-        .filter(m => m.status !== "failed" || m.retryCount < this.maxRetries)
-        .sort((a, b) => a.createdAt - b.createdAt);
+        .filter(
+          (m) =>
+            this.isDue(m) &&
+            (m.status !== "failed" || m.retryCount < this.maxRetries),
+        )
+        .sort((a, b) => (a.sendAt ?? a.createdAt) - (b.sendAt ?? b.createdAt));
 
       if (pendingMessages.length === 0) {
         break;
@@ -159,7 +288,9 @@ class MessageQueueService {
       }
 
       const stillPending = this.queue.filter(m => 
-        m.status === "pending" && m.retryCount < this.maxRetries
+        this.isDue(m) &&
+        m.status === "pending" &&
+        m.retryCount < this.maxRetries
       );
       if (stillPending.length === 0) {
         break;
@@ -179,6 +310,26 @@ class MessageQueueService {
       let mediaUrl = message.mediaUrl;
       let thumbnailUrl = message.thumbnailUrl;
 
+      if (
+        message.mediaUri &&
+        !mediaUrl &&
+        !message.isCompressed &&
+        (message.type === "image" || message.type === "video")
+      ) {
+        this.queue[index].status = "uploading";
+        this.notifyListeners();
+        const compressedUri = await mediaCompression.compress(
+          message.mediaUri,
+          message.type,
+        );
+        if (compressedUri !== message.mediaUri) {
+          this.queue[index].mediaUri = compressedUri;
+          this.queue[index].mediaSize = undefined;
+        }
+        this.queue[index].isCompressed = true;
+        await this.saveQueue();
+      }
+
       if (message.mediaUri && !thumbnailUrl && (message.type === "image" || message.type === "video")) {
         try {
           console.log(`[MessageQueue] Generating thumbnail for ${message.type} BEFORE main upload`);
@@ -217,16 +368,37 @@ class MessageQueueService {
         this.queue[index].mediaSize = fileSize;
         await this.saveQueue();
         this.notifyListeners();
-        const useChunked = chunkedUploadService.shouldUseChunkedUpload(fileSize);
+        // Documents always go through upload sessions, which accept any MIME type.
+        const useChunked =
+          message.type === "file" ||
+          chunkedUploadService.shouldUseChunkedUpload(fileSize);
         
         if (useChunked) {
           console.log(`[MessageQueue] Using chunked upload for large file (${(fileSize / 1024 / 1024).toFixed(2)}MB)`);
           this.queue[index].isChunkedUpload = true;
           this.notifyListeners();
 
-          const fileName = message.mediaUri.split("/").pop() || `media_${Date.now()}`;
-          const mimeType = message.type === "image" ? "image/jpeg" : message.type === "video" ? "video/mp4" : "audio/m4a";
-          const category = message.type === "image" ? "images" : message.type === "video" ? "videos" : "voice";
+          const fileName =
+            message.file?.name ||
+            message.mediaUri.split("/").pop() ||
+            `media_${Date.now()}`;
+          const mimeType =
+            message.file?.mimeType ||
+            (message.type === "image"
+              ? "image/jpeg"
+              : message.type === "video"
+                ? "video/mp4"
+                : fileName.endsWith(".aac")
+                  ? "audio/aac"
+                  : "audio/m4a");
+          const category =
+            message.type === "file"
+              ? "files"
+              : message.type === "image"
+                ? "images"
+                : message.type === "video"
+                  ? "videos"
+                  : "voice";
 
           const uploadResult = await chunkedUploadService.uploadChunked(
             message.mediaUri,
@@ -283,17 +455,43 @@ class MessageQueueService {
         }
       }
 
+      if (message.type === "album") {
+        await this.uploadAlbum(message);
+      }
+
       this.queue[index].status = "sending";
       await this.saveQueue();
       this.notifyListeners();
 
+      const content = await e2eeService.encryptForChat(
+        message.chatId,
+        message.content || "",
+      );
       const result = await apiService.sendMessage({
         chatId: message.chatId,
-        content: message.content || "",
+        content,
         type: message.type,
         mediaUrl,
         thumbnailUrl,
+        fileName: message.file?.name,
+        fileSize: message.file?.size ?? this.queue[index].mediaSize,
+        mimeType: message.file?.mimeType,
+        waveform: message.waveform,
+        isVideoNote: message.isVideoNote,
+        forwardedFromId: message.forwardSourceId,
+        attachments: message.attachments?.map((attachment) => ({
+          type: attachment.type,
+          mediaUrl: attachment.url as string,
+          thumbnailUrl: attachment.thumbnailUrl,
+          size: attachment.size,
+        })),
         replyToId: message.replyToId,
+        mentions: message.mentions?.map((mention) => ({
+          userId: parseInt(mention.userId, 10),
+          offset: mention.offset,
+          length: mention.length,
+        })),
+        linkPreviewDisabled: message.linkPreviewDisabled,
       });
 
       if (result.success && result.data) {
@@ -303,6 +501,7 @@ class MessageQueueService {
           this.onMessageSent(message.id, result.data, message.chatId);
         }
 
+        this.recordSent(message.chatId);
         await this.removeFromQueue(message.id);
       } else {
         throw new Error(result.error || "Send failed");
@@ -328,6 +527,114 @@ class MessageQueueService {
     }
   }
 
+  /**
+   * Uploads all album items in parallel and reports their average progress.
+   * Items that already have a URL are skipped, so a retry only re-uploads
+   * what failed.
+   */
+  private async uploadAlbum(message: QueuedMessage): Promise<void> {
+    const items = message.attachments || [];
+    const progress: number[] = items.map((item) => (item.url ? 100 : 0));
+
+    const reportProgress = () => {
+      const idx = this.queue.findIndex((m) => m.id === message.id);
+      if (idx !== -1) {
+        const total = progress.reduce((sum, value) => sum + value, 0);
+        this.queue[idx].uploadProgress = Math.round(total / items.length);
+        this.notifyListeners();
+      }
+    };
+
+    const index = this.queue.findIndex((m) => m.id === message.id);
+    if (index !== -1) this.queue[index].status = "uploading";
+    reportProgress();
+
+    if (!message.isCompressed) {
+      // One at a time, since parallel video transcodes starve the device.
+      for (const item of items) {
+        if (item.url || !item.uri) continue;
+        const compressedUri = await mediaCompression.compress(
+          item.uri,
+          item.type,
+        );
+        if (compressedUri !== item.uri) {
+          item.uri = compressedUri;
+          item.size = undefined;
+        }
+      }
+      message.isCompressed = true;
+      await this.saveQueue();
+    }
+
+    const results = await Promise.allSettled(
+      items.map(async (item, i) => {
+        if (item.url || !item.uri) return;
+        const uri = item.uri;
+
+        if (!item.thumbnailUrl) {
+          try {
+            const thumbnailUri = await thumbnailService.generateThumbnail(
+              uri,
+              item.type,
+            );
+            if (thumbnailUri) {
+              const thumbResult = await apiService.uploadMedia(
+                thumbnailUri,
+                "image",
+                undefined,
+                "images",
+              );
+              if (thumbResult.success && thumbResult.data) {
+                item.thumbnailUrl = thumbResult.data;
+              }
+            }
+          } catch (thumbError) {
+            console.warn(
+              "[MessageQueue] Album thumbnail generation/upload failed:",
+              thumbError,
+            );
+          }
+        }
+
+        const onProgress = (percent: number) => {
+          progress[i] = percent;
+          reportProgress();
+        };
+        const fileSize =
+          item.size || (await chunkedUploadService.getFileSize(uri));
+        item.size = fileSize;
+        const uploadResult = chunkedUploadService.shouldUseChunkedUpload(
+          fileSize,
+        )
+          ? await chunkedUploadService.uploadChunked(
+              uri,
+              uri.split("/").pop() || `media_${Date.now()}`,
+              fileSize,
+              item.type === "image" ? "image/jpeg" : "video/mp4",
+              item.type === "image" ? "images" : "videos",
+              onProgress,
+            )
+          : await apiService.uploadMedia(uri, item.type, onProgress);
+
+        if (!uploadResult.success || !uploadResult.data) {
+          throw new Error(uploadResult.error || "Upload failed");
+        }
+        item.url = uploadResult.data;
+        onProgress(100);
+        if (item.type === "video") {
+          linkThumbnailToUrl(uri, item.url);
+        }
+        mediaCache.preCacheLocalFile(uri, item.url).catch(() => {});
+        await this.saveQueue();
+      }),
+    );
+
+    const failed = results.find((result) => result.status === "rejected");
+    if (failed) {
+      throw (failed as PromiseRejectedResult).reason;
+    }
+  }
+
   async retryFailed(messageId: string): Promise<void> {
     const index = this.queue.findIndex(m => m.id === messageId);
     if (index !== -1) {
@@ -346,12 +653,14 @@ class MessageQueueService {
     this.queue = [];
     await this.saveQueue();
     this.notifyListeners();
+    this.armScheduleTimer();
   }
 
   async clearChatQueue(chatId: number): Promise<void> {
     this.queue = this.queue.filter(m => m.chatId !== chatId);
     await this.saveQueue();
     this.notifyListeners();
+    this.armScheduleTimer();
   }
 }
 
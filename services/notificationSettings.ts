@@ -0,0 +1,305 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { apiService } from "./api";
+
+const SETTINGS_KEY_PREFIX = "@shepot_notification_settings_";
+
+export const MUTE_DURATIONS = {
+  oneHour: 60 * 60 * 1000,
+  eightHours: 8 * 60 * 60 * 1000,
+};
+
+export type NotificationSoundId = "default" | "chime" | "pop" | "none";
+
+export const NOTIFICATION_SOUNDS: NotificationSoundId[] = [
+  "default",
+  "chime",
+  "pop",
+  "none",
+];
+
+export interface ChatNotificationSettings {
+  mutedUntil: number | null;
+  muteForever: boolean;
+  mentionsOnly: boolean;
+  sound?: NotificationSoundId;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  /** Minutes since local midnight. */
+  start: number;
+  end: number;
+}
+
+export interface GlobalNotificationSettings {
+  privateSound: NotificationSoundId;
+  groupSound: NotificationSoundId;
+  quietHours: QuietHours;
+}
+
+export interface NotificationDecision {
+  show: boolean;
+  sound: NotificationSoundId;
+}
+
+interface StoredSettings {
+  global: GlobalNotificationSettings;
+  chats: Record<string, ChatNotificationSettings>;
+  unsyncedChatIds: string[];
+  quietHoursUnsynced: boolean;
+}
+
+const DEFAULT_CHAT_SETTINGS: ChatNotificationSettings = {
+  mutedUntil: null,
+  muteForever: false,
+  mentionsOnly: false,
+};
+
+const DEFAULT_GLOBAL_SETTINGS: GlobalNotificationSettings = {
+  privateSound: "default",
+  groupSound: "default",
+  quietHours: { enabled: false, start: 23 * 60, end: 7 * 60 },
+};
+
+type SettingsListener = () => void;
+
+class NotificationSettingsService {
+  private userId: number | null = null;
+  private global: GlobalNotificationSettings = DEFAULT_GLOBAL_SETTINGS;
+  private chats: Record<string, ChatNotificationSettings> = {};
+  private unsyncedChatIds: Set<string> = new Set();
+  private quietHoursUnsynced = false;
+  private listeners: Set<SettingsListener> = new Set();
+
+  /**
+   * Loads the signed-in user's preferences and retries any server sync that
+   * failed earlier, so push delivery catches up with changes made offline.
+   */
+  async initialize(userId: number): Promise<void> {
+    if (this.userId === userId) return;
+    this.reset();
+    this.userId = userId;
+
+    try {
+      const stored = await AsyncStorage.getItem(SETTINGS_KEY_PREFIX + userId);
+      if (stored) {
+        const parsed = JSON.parse(stored) as StoredSettings;
+        this.global = {
+          ...DEFAULT_GLOBAL_SETTINGS,
+          ...parsed.global,
+          quietHours: {
+            ...DEFAULT_GLOBAL_SETTINGS.quietHours,
+            ...parsed.global?.quietHours,
+          },
+        };
+        this.chats = parsed.chats || {};
+        this.unsyncedChatIds = new Set(parsed.unsyncedChatIds || []);
+        this.quietHoursUnsynced = !!parsed.quietHoursUnsynced;
+      }
+    } catch (error) {
+      console.warn("[NotificationSettings] Failed to load:", error);
+    }
+
+    this.notifyListeners();
+    this.syncPending();
+  }
+
+  reset(): void {
+    this.userId = null;
+    this.global = DEFAULT_GLOBAL_SETTINGS;
+    this.chats = {};
+    this.unsyncedChatIds = new Set();
+    this.quietHoursUnsynced = false;
+    this.notifyListeners();
+  }
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getGlobalSettings(): GlobalNotificationSettings {
+    return this.global;
+  }
+
+  getChatSettings(chatId: string): ChatNotificationSettings {
+    return this.chats[chatId] || DEFAULT_CHAT_SETTINGS;
+  }
+
+  isMuted(chatId: string, now = Date.now()): boolean {
+    const settings = this.chats[chatId];
+    if (!settings) return false;
+    return (
+      settings.muteForever ||
+      (settings.mutedUntil !== null && settings.mutedUntil > now)
+    );
+  }
+
+  isQuietTime(date = new Date()): boolean {
+    const { enabled, start, end } = this.global.quietHours;
+    if (!enabled || start === end) return false;
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /**
+   * Decides how an incoming message is surfaced. Muted chats stay silent,
+   * mention-only groups only break through for mentions, and quiet hours
+   * drop the sound but keep the notification.
+   */
+  resolve(
+    chatId: string,
+    options: { isGroup: boolean; isMention: boolean },
+  ): NotificationDecision {
+    const settings = this.getChatSettings(chatId);
+    const sound =
+      settings.sound ??
+      (options.isGroup ? this.global.groupSound : this.global.privateSound);
+
+    if (this.isMuted(chatId)) {
+      return { show: false, sound: "none" };
+    }
+    if (options.isGroup && settings.mentionsOnly && !options.isMention) {
+      return { show: false, sound: "none" };
+    }
+    if (this.isQuietTime()) {
+      return { show: true, sound: "none" };
+    }
+    return { show: true, sound };
+  }
+
+  async muteChat(chatId: string, durationMs: number | null): Promise<void> {
+    await this.updateChat(chatId, {
+      mutedUntil: durationMs === null ? null : Date.now() + durationMs,
+      muteForever: durationMs === null,
+    });
+  }
+
+  async unmuteChat(chatId: string): Promise<void> {
+    await this.updateChat(chatId, { mutedUntil: null, muteForever: false });
+  }
+
+  async setMentionsOnly(chatId: string, mentionsOnly: boolean): Promise<void> {
+    await this.updateChat(chatId, { mentionsOnly });
+  }
+
+  async setChatSound(
+    chatId: string,
+    sound: NotificationSoundId | undefined,
+  ): Promise<void> {
+    await this.updateChat(chatId, { sound }, false);
+  }
+
+  async updateGlobalSettings(
+    updates: Partial<GlobalNotificationSettings>,
+  ): Promise<void> {
+    const quietHoursChanged =
+      !!updates.quietHours &&
+      JSON.stringify(updates.quietHours) !==
+        JSON.stringify(this.global.quietHours);
+    this.global = { ...this.global, ...updates };
+    if (quietHoursChanged) {
+      this.quietHoursUnsynced = true;
+    }
+    this.notifyListeners();
+    await this.persist();
+    if (quietHoursChanged) {
+      await this.syncQuietHours();
+    }
+  }
+
+  private async updateChat(
+    chatId: string,
+    updates: Partial<ChatNotificationSettings>,
+    syncToServer = true,
+  ): Promise<void> {
+    this.chats = {
+      ...this.chats,
+      [chatId]: { ...this.getChatSettings(chatId), ...updates },
+    };
+    if (syncToServer) {
+      this.unsyncedChatIds.add(chatId);
+    }
+    this.notifyListeners();
+    await this.persist();
+    if (syncToServer) {
+      await this.syncChat(chatId);
+    }
+  }
+
+  private async syncChat(chatId: string): Promise<void> {
+    const numericId = parseInt(chatId, 10);
+    if (isNaN(numericId)) {
+      this.unsyncedChatIds.delete(chatId);
+      return;
+    }
+
+    const settings = this.getChatSettings(chatId);
+    const result = await apiService.updateChatNotificationSettings(numericId, {
+      mutedUntil:
+        settings.mutedUntil !== null
+          ? new Date(settings.mutedUntil).toISOString()
+          : null,
+      muteForever: settings.muteForever,
+      mentionsOnly: settings.mentionsOnly,
+    });
+    if (result.success) {
+      this.unsyncedChatIds.delete(chatId);
+      await this.persist();
+    }
+  }
+
+  private async syncQuietHours(): Promise<void> {
+    const result = await apiService.updateQuietHours({
+      ...this.global.quietHours,
+      timezoneOffset: -new Date().getTimezoneOffset(),
+    });
+    if (result.success) {
+      this.quietHoursUnsynced = false;
+      await this.persist();
+    }
+  }
+
+  private async syncPending(): Promise<void> {
+    for (const chatId of Array.from(this.unsyncedChatIds)) {
+      await this.syncChat(chatId);
+    }
+    if (this.quietHoursUnsynced) {
+      await this.syncQuietHours();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (this.userId === null) return;
+    const stored: StoredSettings = {
+      global: this.global,
+      chats: this.chats,
+      unsyncedChatIds: Array.from(this.unsyncedChatIds),
+      quietHoursUnsynced: this.quietHoursUnsynced,
+    };
+    try {
+      await AsyncStorage.setItem(
+        SETTINGS_KEY_PREFIX + this.userId,
+        JSON.stringify(stored),
+      );
+    } catch (error) {
+      console.warn("[NotificationSettings] Failed to save:", error);
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error("[NotificationSettings] Listener error:", error);
+      }
+    });
+  }
+}
+
+export const notificationSettingsService = new NotificationSettingsService();
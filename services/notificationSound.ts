@@ -1,16 +1,19 @@
 import { Platform } from "react-native";
 import * as Haptics from "expo-haptics";
 import { createAudioPlayer, AudioPlayer } from "expo-audio";
+import type { NotificationSoundId } from "./notificationSettings";
 
 const receiveSound = require("@/assets/sounds/message-receive.mp3");
 const groupSound = require("@/assets/sounds/group-message.mp3");
 const deleteSound = require("@/assets/sounds/message-delete.mp3");
+const chimeSound = require("@/assets/sounds/notification.wav");
 
 class NotificationSoundService {
   private isInitialized = false;
   private receiveSoundPlayer: AudioPlayer | null = null;
   private groupSoundPlayer: AudioPlayer | null = null;
   private deleteSoundPlayer: AudioPlayer | null = null;
+  private chimeSoundPlayer: AudioPlayer | null = null;
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
@@ -19,6 +22,7 @@ class NotificationSoundService {
       this.receiveSoundPlayer = createAudioPlayer(receiveSound);
       this.groupSoundPlayer = createAudioPlayer(groupSound);
       this.deleteSoundPlayer = createAudioPlayer(deleteSound);
+      this.chimeSoundPlayer = createAudioPlayer(chimeSound);
       
       this.isInitialized = true;
       console.log("[NotificationSound] Initialized with audio files");
@@ -82,6 +86,46 @@ class NotificationSoundService {
     }
   }
 
+  /**
+   * "default" is the receive sound in private chats and the group sound in
+   * groups. A silenced message, including during quiet hours, doesn't
+   * vibrate either.
+   */
+  async playNotificationSound(
+    sound: NotificationSoundId,
+    isGroup: boolean,
+  ): Promise<void> {
+    if (sound === "none") return;
+    try {
+      if (Platform.OS !== "web") {
+        await Haptics.notificationAsync(
+          Haptics.NotificationFeedbackType.Success,
+        );
+      }
+
+      const type =
+        sound === "chime"
+          ? "send"
+          : sound === "pop" || !isGroup
+            ? "receive"
+            : "group";
+      const player =
+        type === "send"
+          ? this.chimeSoundPlayer
+          : type === "receive"
+            ? this.receiveSoundPlayer
+            : this.groupSoundPlayer;
+      if (player) {
+        player.seekTo(0);
+        player.play();
+      } else if (Platform.OS === "web") {
+        this.playWebSound(type);
+      }
+    } catch (error) {
+      console.log("[NotificationSound] Play notification error:", error);
+    }
+  }
+
   async playMessageSound(): Promise<void> {
     await this.playReceiveSound();
   }
@@ -171,6 +215,10 @@ class NotificationSoundService {
         this.deleteSoundPlayer.release();
         this.deleteSoundPlayer = null;
       }
+      if (this.chimeSoundPlayer) {
+        this.chimeSoundPlayer.release();
+        this.chimeSoundPlayer = null;
+      }
     } catch (error) {
       console.log("[NotificationSound] Cleanup error:", error);
     }
@@ -0,0 +1,51 @@
+import { Message } from "@/store/types";
+import { database } from "./database";
+import { deletedMessagesService } from "./deletedMessagesService";
+
+const TOKEN_SPLIT = /[\s.,!?;:"'`()[\]{}<>«»„“”‘’\-–—_/\\|@#$%^&*+=~]+/;
+
+type DataRow = { data: string };
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .split(TOKEN_SPLIT)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Full-text search over the cached messages. The `message_search` table is
+ * kept in sync with `messages` by triggers (see the database migrations), so
+ * only messages stored on this device are found.
+ */
+class SearchIndexService {
+  async search(query: string, limit: number = 50): Promise<Message[]> {
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+
+    // Every word must match, each as a prefix.
+    const match = queryTokens.map((token) => `"${token}"*`).join(" ");
+
+    try {
+      await deletedMessagesService.initialize();
+      const db = await database.getDatabase();
+      const rows = await db.getAllAsync<DataRow>(
+        `SELECT messages.data FROM message_search
+          JOIN messages ON messages.rowid = message_search.rowid
+          WHERE message_search MATCH ?
+            AND messages.id NOT IN (SELECT id FROM deleted_messages)
+          ORDER BY messages.created_at DESC
+          LIMIT ?`,
+        match,
+        limit,
+      );
+      return rows.map((row) => JSON.parse(row.data) as Message);
+    } catch (error) {
+      __DEV__ && console.warn("[SearchIndex] Search failed:", error);
+      return [];
+    }
+  }
+}
+
+export const searchIndex = new SearchIndexService();
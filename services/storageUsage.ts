@@ -0,0 +1,103 @@
+import { chatCache } from "./chatCache";
+import { mediaCache, CachedMediaType } from "./mediaCache";
+
+export const CACHED_MEDIA_TYPES: CachedMediaType[] = [
+  "photo",
+  "video",
+  "voice",
+  "other",
+];
+
+export interface ChatStorageUsage {
+  chatId: string;
+  mediaSize: number;
+  messageSize: number;
+  mediaKeys: string[];
+}
+
+export interface StorageUsage {
+  totalSize: number;
+  messageSize: number;
+  byType: Record<CachedMediaType, number>;
+  chats: ChatStorageUsage[];
+}
+
+class StorageUsageService {
+  /**
+   * Media cache entries are keyed by URL, so they are attributed to a chat
+   * through the media URLs of that chat's cached messages. Entries no
+   * cached message points to, like avatars, only count towards their type.
+   */
+  async getUsage(): Promise<StorageUsage> {
+    const [entries, urlsByChat, messageSizes] = await Promise.all([
+      mediaCache.getEntries(),
+      chatCache.getMediaUrls(),
+      chatCache.getMessageSizes(),
+    ]);
+
+    const sizes = new Map(entries.map((entry) => [entry.key, entry.size]));
+    const byType: Record<CachedMediaType, number> = {
+      photo: 0,
+      video: 0,
+      voice: 0,
+      other: 0,
+    };
+    for (const entry of entries) {
+      byType[entry.type] += entry.size;
+    }
+
+    const chatIds = new Set([
+      ...Object.keys(urlsByChat),
+      ...Object.keys(messageSizes),
+    ]);
+    const chats = [...chatIds]
+      .map((chatId) => {
+        const mediaKeys = [
+          ...new Set(
+            (urlsByChat[chatId] ?? [])
+              .map((url) => mediaCache.getKeyForUrl(url))
+              .filter((key) => sizes.has(key)),
+          ),
+        ];
+        return {
+          chatId,
+          mediaKeys,
+          mediaSize: mediaKeys.reduce(
+            (sum, key) => sum + (sizes.get(key) ?? 0),
+            0,
+          ),
+          messageSize: messageSizes[chatId] ?? 0,
+        };
+      })
+      .filter((chat) => chat.mediaSize > 0 || chat.messageSize > 0)
+      .sort(
+        (a, b) => b.mediaSize + b.messageSize - (a.mediaSize + a.messageSize),
+      );
+
+    const mediaSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const messageSize = Object.values(messageSizes).reduce(
+      (sum, size) => sum + size,
+      0,
+    );
+
+    return {
+      totalSize: mediaSize + messageSize,
+      messageSize,
+      byType,
+      chats,
+    };
+  }
+
+  async clearChatMedia(usage: ChatStorageUsage): Promise<void> {
+    await mediaCache.removeEntries(usage.mediaKeys);
+  }
+
+  async clearMediaType(type: CachedMediaType): Promise<void> {
+    const entries = await mediaCache.getEntries();
+    await mediaCache.removeEntries(
+      entries.filter((entry) => entry.type === type).map((entry) => entry.key),
+    );
+  }
+}
+
+export const storageUsageService = new StorageUsageService();
@@ -0,0 +1,74 @@
+import { apiService } from "./api";
+import { chatCache } from "./chatCache";
+import { wsService } from "./websocket";
+
+const MAX_PAGES_PER_SYNC = 20;
+
+class SyncService {
+  private isSyncing = false;
+  private syncRequested = false;
+  /** The newest live cursor received since the running sync's last page. */
+  private deferredCursor: string | null = null;
+
+  /**
+   * Saves the cursor of a live event. While a sync runs, saving it could
+   * skip pages the sync has not fetched yet, so it is held back and saved
+   * only if the sync catches up. Events behind a dropped cursor are simply
+   * replayed again, and handlers ignore what they have already seen.
+   */
+  recordCursor(cursor: string): void {
+    if (this.isSyncing) {
+      this.deferredCursor = cursor;
+      return;
+    }
+    chatCache.saveSyncCursor(cursor);
+  }
+
+  async sync(): Promise<void> {
+    if (this.isSyncing) {
+      this.syncRequested = true;
+      return;
+    }
+
+    this.isSyncing = true;
+    let caughtUp = false;
+    try {
+      let cursor = await chatCache.getSyncCursor();
+
+      for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+        const result = await apiService.getChanges(cursor);
+        if (!result.success || !result.data) break;
+        // This page covers every live event received before it.
+        this.deferredCursor = null;
+
+        const { events, cursor: nextCursor, hasMore } = result.data;
+        if (events.length > 0) {
+          console.log(`[Sync] Replaying ${events.length} missed events`);
+          await wsService.replay(events);
+        }
+        if (nextCursor && nextCursor !== cursor) {
+          cursor = nextCursor;
+          await chatCache.saveSyncCursor(nextCursor);
+        }
+        if (!hasMore) {
+          caughtUp = true;
+          break;
+        }
+      }
+    } catch (error) {
+      __DEV__ && console.warn("[Sync] Delta sync failed:", error);
+    } finally {
+      if (caughtUp && this.deferredCursor) {
+        await chatCache.saveSyncCursor(this.deferredCursor);
+      }
+      this.deferredCursor = null;
+      this.isSyncing = false;
+      if (this.syncRequested) {
+        this.syncRequested = false;
+        this.sync();
+      }
+    }
+  }
+}
+
+export const syncService = new SyncService();
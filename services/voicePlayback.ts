@@ -0,0 +1,91 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const PLAYBACK_RATE_KEY = "@shepot_voice_playback_rate";
+
+export const VOICE_PLAYBACK_RATES = [1, 1.5, 2];
+
+type Listener = () => void;
+
+/**
+ * State shared by every voice message player: the playback speed, which
+ * applies to all notes and is remembered between launches, and requests to
+ * start a specific note when the previous one finishes.
+ */
+class VoicePlaybackService {
+  private rate = 1;
+  private initPromise: Promise<void> | null = null;
+  private rateListeners: Set<Listener> = new Set();
+  private requestedMessageId: string | null = null;
+  private requestListeners: Set<Listener> = new Set();
+
+  async init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load();
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(PLAYBACK_RATE_KEY);
+      const rate = data ? parseFloat(data) : NaN;
+      if (VOICE_PLAYBACK_RATES.includes(rate)) {
+        this.rate = rate;
+        this.rateListeners.forEach((listener) => listener());
+      }
+    } catch (error) {
+      __DEV__ && console.warn("[VoicePlayback] Failed to load rate:", error);
+    }
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  async cycleRate(): Promise<void> {
+    const index = VOICE_PLAYBACK_RATES.indexOf(this.rate);
+    this.rate = VOICE_PLAYBACK_RATES[(index + 1) % VOICE_PLAYBACK_RATES.length];
+    this.rateListeners.forEach((listener) => listener());
+    try {
+      await AsyncStorage.setItem(PLAYBACK_RATE_KEY, String(this.rate));
+    } catch (error) {
+      __DEV__ && console.warn("[VoicePlayback] Failed to save rate:", error);
+    }
+  }
+
+  subscribeToRate(listener: Listener): () => void {
+    this.rateListeners.add(listener);
+    return () => {
+      this.rateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Asks the player of `messageId` to start. The request is kept until that
+   * player consumes it, so a note scrolled out of the list still starts
+   * once it is rendered again.
+   */
+  requestPlay(messageId: string): void {
+    this.requestedMessageId = messageId;
+    this.requestListeners.forEach((listener) => listener());
+  }
+
+  consumePlayRequest(messageId: string): boolean {
+    if (this.requestedMessageId !== messageId) return false;
+    this.requestedMessageId = null;
+    return true;
+  }
+
+  cancelPlayRequest(): void {
+    this.requestedMessageId = null;
+  }
+
+  subscribeToPlayRequests(listener: Listener): () => void {
+    this.requestListeners.add(listener);
+    return () => {
+      this.requestListeners.delete(listener);
+    };
+  }
+}
+
+export const voicePlaybackService = new VoicePlaybackService();
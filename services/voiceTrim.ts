@@ -0,0 +1,96 @@
+import { Platform } from "react-native";
+import * as FileSystem from "expo-file-system/legacy";
+import { decodeBase64, encodeBase64 } from "tweetnacl-util";
+
+/** Sample rates indexed by the ADTS sampling frequency index. */
+const ADTS_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350,
+];
+const SAMPLES_PER_FRAME = 1024;
+const ADTS_HEADER_LENGTH = 7;
+
+const isAdtsHeader = (bytes: Uint8Array, offset: number): boolean =>
+  bytes[offset] === 0xff && (bytes[offset + 1] & 0xf0) === 0xf0;
+
+class VoiceTrimService {
+  /** Whether the recording is ADTS AAC on a platform where it can be cut. */
+  async canTrim(uri: string): Promise<boolean> {
+    if (Platform.OS === "web") return false;
+    try {
+      const header = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: ADTS_HEADER_LENGTH,
+      });
+      return isAdtsHeader(decodeBase64(header), 0);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Cuts a voice recording down to the part between `startSec` and `endSec`.
+   * Recordings are ADTS AAC, where every frame carries its own header, so
+   * whole frames are copied without re-encoding. Returns null when the file
+   * is not ADTS or trimming fails.
+   */
+  async trim(
+    uri: string,
+    startSec: number,
+    endSec: number,
+  ): Promise<string | null> {
+    try {
+      const data = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const bytes = decodeBase64(data);
+      const frames: Uint8Array[] = [];
+      let length = 0;
+      let offset = 0;
+      let time = 0;
+
+      while (offset + ADTS_HEADER_LENGTH <= bytes.length) {
+        if (!isAdtsHeader(bytes, offset)) {
+          return null;
+        }
+        const sampleRate = ADTS_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 0x0f];
+        const frameLength =
+          ((bytes[offset + 3] & 0x03) << 11) |
+          (bytes[offset + 4] << 3) |
+          (bytes[offset + 5] >> 5);
+        const blocks = (bytes[offset + 6] & 0x03) + 1;
+        if (!sampleRate || frameLength < ADTS_HEADER_LENGTH) {
+          return null;
+        }
+
+        if (time >= startSec && time < endSec) {
+          frames.push(bytes.subarray(offset, offset + frameLength));
+          length += frameLength;
+        }
+        time += (SAMPLES_PER_FRAME * blocks) / sampleRate;
+        offset += frameLength;
+      }
+
+      if (length === 0) return null;
+
+      const trimmed = new Uint8Array(length);
+      let position = 0;
+      for (const frame of frames) {
+        trimmed.set(frame, position);
+        position += frame.length;
+      }
+
+      const trimmedUri = `${FileSystem.cacheDirectory}voice_${Date.now()}.aac`;
+      await FileSystem.writeAsStringAsync(trimmedUri, encodeBase64(trimmed), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      return trimmedUri;
+    } catch (error) {
+      __DEV__ && console.warn("[VoiceTrim] Failed to trim recording:", error);
+      return null;
+    }
+  }
+}
+
+export const voiceTrimService = new VoiceTrimService();
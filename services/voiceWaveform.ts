@@ -0,0 +1,44 @@
+export const WAVEFORM_BARS = 32;
+
+/** Levels at or below this many dBFS draw as silence. */
+const SILENCE_DB = -60;
+
+/**
+ * Averages `values` into `count` buckets. Shorter inputs are stretched by
+ * repeating the nearest value, so a one second note still fills every bar.
+ */
+export function resampleWaveform(
+  values: number[],
+  count = WAVEFORM_BARS,
+): number[] {
+  if (values.length === count || values.length === 0) return values;
+
+  return Array.from({ length: count }, (_, i) => {
+    const start = Math.floor((i * values.length) / count);
+    const end = Math.max(
+      start + 1,
+      Math.floor(((i + 1) * values.length) / count),
+    );
+    const bucket = values.slice(start, end);
+    return bucket.reduce((sum, value) => sum + value, 0) / bucket.length;
+  });
+}
+
+/**
+ * Turns the metering levels sampled while recording (dBFS, 0 is the
+ * loudest) into the waveform stored with the voice message. Bars are
+ * scaled so the loudest one is full height.
+ */
+export function buildWaveform(levels: number[]): number[] | undefined {
+  if (levels.length === 0) return undefined;
+
+  const bars = resampleWaveform(
+    levels.map((db) =>
+      Math.min(1, Math.max(0, (db - SILENCE_DB) / -SILENCE_DB)),
+    ),
+  );
+  const peak = Math.max(...bars);
+  if (peak === 0) return undefined;
+
+  return bars.map((bar) => Math.round((bar / peak) * 100) / 100);
+}
@@ -1,8 +1,17 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { ServerMessage, ServerUser } from "./api";
+import { ServerEvent, ServerMessage, ServerUser } from "./api";
+import { e2eeService } from "./e2ee";
+import { GroupAdminRight, GroupPermissions } from "@/store/types";
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || "";
 const TOKEN_KEY = "@shepot_token";
+const MESSAGE_EVENT_TYPES = new Set([
+  "new_message",
+  "message:new",
+  "message",
+  "message_updated",
+  "message:updated",
+]);
 
 export type WebSocketEvent =
   | { type: "new_message"; message: ServerMessage }
@@ -11,21 +20,52 @@ export type WebSocketEvent =
   | { type: "message_delivered"; messageId: number; chatId: number; deliveredTo: number[] }
   | { type: "message_read"; messageId: number; chatId: number; readByUserId: number; readAt: string }
   | { type: "chat_read"; chatId: number; readByUserId: number; readAt: string }
+  | {
+      type: "reaction_added";
+      messageId: number;
+      chatId: number;
+      userId: number;
+      emoji: string;
+    }
+  | {
+      type: "reaction_removed";
+      messageId: number;
+      chatId: number;
+      userId: number;
+      emoji: string;
+    }
   | { type: "chat_deleted"; chatId: number }
   | { type: "user_online"; userId: number }
   | { type: "user_offline"; userId: number }
   | { type: "ws_connected"; userId: number }
   | { type: "typing"; userId: number; chatId: number }
   | { type: "chat_updated"; chatId: number; chat: any }
+  | { type: "chat_pins_updated"; chatId: number; pinnedMessageIds: number[] }
   | { type: "members_added"; chatId: number; addedMembers: any[]; addedBy: number }
   | { type: "member_removed"; chatId: number; userId: number; removedBy: number }
   | { type: "removed_from_chat"; chatId: number; removedBy: number }
   | { type: "member_left"; chatId: number; userId: number; newAdminId?: number }
   | { type: "group_role_changed"; chatId: number; userId: number; role: string; changedBy: number }
-  | { type: "group_owner_changed"; chatId: number; previousOwnerId: number; newOwnerId: number }
+  | {
+      type: "group_owner_changed";
+      chatId: number;
+      previousOwnerId: number;
+      newOwnerId: number;
+      previousOwnerRole?: "admin" | "member";
+      /** Missing or null means no rights. */
+      previousOwnerRights?: GroupAdminRight[] | null;
+    }
+  | { type: "group_permissions_changed"; chatId: number; permissions: GroupPermissions; changedBy: number }
   | { type: "user_deleted"; userId: number };
 
-export type WebSocketEventHandler = (event: WebSocketEvent) => void;
+/**
+ * `replayed` is set for events re-delivered by delta sync. The app may have
+ * seen them already, so handlers must not repeat side effects like sounds.
+ */
+export type WebSocketEventHandler = (
+  event: WebSocketEvent,
+  replayed: boolean,
+) => void;
 
 class WebSocketService {
   private ws: WebSocket | null = null;
@@ -37,6 +77,9 @@ class WebSocketService {
   private maxReconnectAttempts = 10;
   private reconnectDelay = 1000;
   private lastPongTime = Date.now();
+  private cursorHandler: ((cursor: string) => void) | null = null;
+  /** Settles once every event received so far has been handled. */
+  private dispatchQueue: Promise<void> = Promise.resolve();
 
   async connect(): Promise<void> {
     if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) {
@@ -70,7 +113,7 @@ class WebSocketService {
       this.ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
-          this.handleMessage(data);
+          this.receive(data);
         } catch (error) {
           __DEV__ && console.warn("WebSocket: Failed to parse message", error);
         }
@@ -141,7 +184,44 @@ class WebSocketService {
     }
   };
 
-  private handleMessage(data: any): void {
+  /** Runs `task` once every event received before it has been handled. */
+  private enqueueDispatch(task: () => Promise<void>): Promise<void> {
+    this.dispatchQueue = this.dispatchQueue.then(task).catch((error) => {
+      __DEV__ && console.warn("WebSocket: Failed to handle event", error);
+    });
+    return this.dispatchQueue;
+  }
+
+  private getSealedMessage(data: any): ServerMessage | null {
+    const payload = data.payload || data.data || data;
+    const sealedMessage = payload.message || payload;
+    return MESSAGE_EVENT_TYPES.has(data.type || data.event) && sealedMessage?.id
+      ? sealedMessage
+      : null;
+  }
+
+  /**
+   * Handles a live event in arrival order. A message from a sender whose
+   * keys are unknown holds back the events after it until they load, so an
+   * edit or deletion is never applied before the message it refers to.
+   */
+  private receive(data: any): void {
+    if ((data.type || data.event) === "pong") {
+      this.handleMessage(data);
+      return;
+    }
+
+    this.enqueueDispatch(async () => {
+      const sealedMessage = this.getSealedMessage(data);
+      if (sealedMessage && e2eeService.hasUnknownSender(sealedMessage)) {
+        // The envelope can only be checked against the sender's keys.
+        await e2eeService.loadSenderKeys([sealedMessage]);
+      }
+      this.handleMessage(data);
+    });
+  }
+
+  private handleMessage(data: any, replayed = false): void {
     let event: WebSocketEvent | null = null;
 
     // Handle nested data format from server (payload or data might be used)
@@ -155,13 +235,18 @@ class WebSocketService {
       return;
     }
 
+    // Replayed cursors are saved by the sync itself, page by page.
+    if (!replayed && typeof data.cursor === "string" && this.cursorHandler) {
+      this.cursorHandler(data.cursor);
+    }
+
     // Handle connection confirmation - emit event to trigger online users refresh
     if (eventType === "connected") {
       console.log("[WebSocket] Connected as user:", payload.userId);
       const connectedEvent: WebSocketEvent = { type: "ws_connected", userId: payload.userId };
       this.listeners.forEach((listener) => {
         try {
-          listener(connectedEvent);
+          listener(connectedEvent, replayed);
         } catch (error) {
           __DEV__ && console.warn("WebSocket: Listener error on connected", error);
         }
@@ -175,7 +260,10 @@ class WebSocketService {
         const message = payload.message || payload;
         if (message && message.id) {
           console.log("[WebSocket] New message:", message.id, "in chat:", message.chatId);
-          event = { type: "new_message", message };
+          event = {
+            type: "new_message",
+            message: e2eeService.decryptServerMessage(message),
+          };
         }
         break;
       }
@@ -196,7 +284,10 @@ class WebSocketService {
             content,
             edited: edited ?? true,
           };
-          event = { type: "message_updated", message: updatedMessage };
+          event = {
+            type: "message_updated",
+            message: e2eeService.decryptServerMessage(updatedMessage),
+          };
         }
         break;
       }
@@ -221,6 +312,34 @@ class WebSocketService {
         }
         break;
       }
+      case "reaction_added":
+      case "reaction:added":
+      case "reaction_removed":
+      case "reaction:removed": {
+        const messageId = payload.messageId;
+        const reactionChatId = payload.chatId;
+        const reactionUserId = payload.userId;
+        const emoji = payload.emoji;
+        if (messageId && reactionChatId && reactionUserId && emoji) {
+          const isAdded =
+            eventType === "reaction_added" || eventType === "reaction:added";
+          console.log(
+            "[WebSocket] Reaction",
+            isAdded ? "added:" : "removed:",
+            emoji,
+            "on message:",
+            messageId,
+          );
+          event = {
+            type: isAdded ? "reaction_added" : "reaction_removed",
+            messageId,
+            chatId: reactionChatId,
+            userId: reactionUserId,
+            emoji,
+          };
+        }
+        break;
+      }
       case "chat_deleted":
       case "chat:deleted": {
         const deletedChatId = payload.chatId || payload.id;
@@ -271,7 +390,10 @@ class WebSocketService {
         const message = payload.message || payload;
         if (message && message.id) {
           console.log("[WebSocket] New message (via 'message' type):", message.id, "in chat:", message.chatId);
-          event = { type: "new_message", message };
+          event = {
+            type: "new_message",
+            message: e2eeService.decryptServerMessage(message),
+          };
         }
         break;
       }
@@ -323,11 +445,53 @@ class WebSocketService {
         }
         break;
       }
+      case "chat_pins_updated":
+      case "chat:pins_updated":
+      case "message_pinned":
+      case "message_unpinned": {
+        const { chatId, pinnedMessageIds } = payload;
+        if (chatId && Array.isArray(pinnedMessageIds)) {
+          console.log("[WebSocket] Pinned messages updated in chat:", chatId);
+          event = { type: "chat_pins_updated", chatId, pinnedMessageIds };
+        }
+        break;
+      }
       case "group_owner_changed": {
-        const { chatId, previousOwnerId, newOwnerId } = payload;
+        const {
+          chatId,
+          previousOwnerId,
+          newOwnerId,
+          previousOwnerRole,
+          previousOwnerRights,
+        } = payload;
         if (chatId && newOwnerId) {
           console.log("[WebSocket] Group owner changed:", chatId, "from:", previousOwnerId, "to:", newOwnerId);
-          event = { type: "group_owner_changed", chatId, previousOwnerId, newOwnerId };
+          event = {
+            type: "group_owner_changed",
+            chatId,
+            previousOwnerId,
+            newOwnerId,
+            previousOwnerRole,
+            previousOwnerRights,
+          };
+        }
+        break;
+      }
+      case "group_permissions_changed": {
+        const { chatId, permissions, changedBy } = payload;
+        if (chatId && permissions) {
+          console.log(
+            "[WebSocket] Group permissions changed:",
+            chatId,
+            "by:",
+            changedBy,
+          );
+          event = {
+            type: "group_permissions_changed",
+            chatId,
+            permissions,
+            changedBy,
+          };
         }
         break;
       }
@@ -372,7 +536,7 @@ class WebSocketService {
     if (event) {
       this.listeners.forEach((listener) => {
         try {
-          listener(event!);
+          listener(event!, replayed);
         } catch (error) {
           __DEV__ && console.warn("WebSocket: Listener error", error);
         }
@@ -397,6 +561,37 @@ class WebSocketService {
     this.isConnecting = false;
   }
 
+  /**
+   * Handles events missed while offline, after any live events still being
+   * handled. Sender keys for the whole batch are loaded first, so the events
+   * are applied in order. Resolves once all of them have been handled.
+   */
+  replay(events: ServerEvent[]): Promise<void> {
+    return this.enqueueDispatch(async () => {
+      const unknownSenders = events
+        .map((data) => this.getSealedMessage(data))
+        .filter(
+          (message): message is ServerMessage =>
+            !!message && e2eeService.hasUnknownSender(message),
+        );
+      if (unknownSenders.length > 0) {
+        await e2eeService.loadSenderKeys(unknownSenders);
+      }
+
+      events.forEach((data) => {
+        try {
+          this.handleMessage(data, true);
+        } catch (error) {
+          __DEV__ && console.warn("WebSocket: Failed to replay event", error);
+        }
+      });
+    });
+  }
+
+  setCursorHandler(handler: ((cursor: string) => void) | null): void {
+    this.cursorHandler = handler;
+  }
+
   resetReconnectAttempts(): void {
     this.reconnectAttempts = 0;
   }
@@ -6,6 +6,7 @@ export interface User {
   avatarColor: string;
   avatarUrl?: string;
   bio?: string;
+  hideForwardedName?: boolean;
   createdAt: string;
 }
 
@@ -25,7 +26,7 @@ export interface ReplyToMessage {
   senderId: string;
   senderName: string;
   content: string;
-  type: "text" | "image" | "video" | "voice" | "system";
+  type: "text" | "image" | "video" | "voice" | "file" | "album" | "system";
 }
 
 export type SystemActionType = 
@@ -48,6 +49,48 @@ export interface SystemAction {
   newValue?: string;
 }
 
+export interface MessageReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+export interface MessageMention {
+  userId: string;
+  offset: number;
+  length: number;
+}
+
+export interface ForwardedFrom {
+  /** Missing when the original sender hides their name on forwards. */
+  senderId?: string;
+  senderName?: string;
+  chatId: string;
+  messageId: string;
+  /** When the original message was sent. */
+  timestamp: string;
+}
+
+export interface MessageRevision {
+  text: string;
+  /** When this version was written. */
+  timestamp: string;
+  decryptionFailed?: boolean;
+}
+
+export interface MessageFile {
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface MessageAttachment {
+  type: "image" | "video";
+  url?: string;
+  uri?: string;
+  thumbnailUrl?: string;
+  size?: number;
+}
+
 export interface Message {
   id: string;
   tempId?: string;
@@ -56,12 +99,21 @@ export interface Message {
   senderName?: string;
   senderColor?: string;
   text?: string;
-  type?: "text" | "image" | "video" | "voice" | "system";
+  type?: "text" | "image" | "video" | "voice" | "file" | "album" | "system";
   mediaType?: "photo" | "video" | "audio";
   mediaUri?: string;
   mediaUrl?: string;
   thumbnailUrl?: string;
+  /** Media size in bytes, when the sender reported it. */
+  mediaSize?: number;
   audioDuration?: number;
+  /** Voice message levels, one 0..1 value per waveform bar. */
+  waveform?: number[];
+  /** Round video recorded in-app; the media is a regular video. */
+  isVideoNote?: boolean;
+  forwardedFrom?: ForwardedFrom;
+  file?: MessageFile;
+  attachments?: MessageAttachment[];
   timestamp: string;
   status: "sending" | "sent" | "delivered" | "read" | "error";
   readBy?: string[];
@@ -72,11 +124,35 @@ export interface Message {
   totalBytes?: number;
   uploadError?: boolean;
   isEdited?: boolean;
+  editedAt?: string;
+  /** Versions replaced by edits that this device has seen, oldest first. */
+  revisions?: MessageRevision[];
+  decryptionFailed?: boolean;
   replyToId?: string;
   replyToMessage?: ReplyToMessage;
+  /** Replies to this message, as counted by the server. */
+  replyCount?: number;
   systemAction?: SystemAction;
+  reactions?: MessageReaction[];
+  mentions?: MessageMention[];
+  linkPreviewDisabled?: boolean;
 }
 
+export type GroupAdminRight =
+  | "changeInfo"
+  | "addMembers"
+  | "removeMembers"
+  | "pinMessages"
+  | "deleteMessages";
+
+export const GROUP_ADMIN_RIGHTS: GroupAdminRight[] = [
+  "changeInfo",
+  "addMembers",
+  "removeMembers",
+  "pinMessages",
+  "deleteMessages",
+];
+
 export interface GroupMember {
   id: number;
   visibleId?: number;
@@ -84,11 +160,55 @@ export interface GroupMember {
   email?: string;
   avatarColor: string;
   avatarUrl?: string;
-  role: "admin" | "member";
+  role: "owner" | "admin" | "member";
+  /** Missing means no rights, so stale data never grants any. */
+  adminRights?: GroupAdminRight[];
   joinedAt: string;
   addedBy?: number;
 }
 
+/** What regular members may do in a group. Admins and the owner are exempt. */
+export interface GroupPermissions {
+  canSendMedia: boolean;
+  canSendLinks: boolean;
+  /** Seconds a member must wait between messages; 0 turns slow mode off. */
+  slowModeSeconds: number;
+}
+
+export const DEFAULT_GROUP_PERMISSIONS: GroupPermissions = {
+  canSendMedia: true,
+  canSendLinks: true,
+  slowModeSeconds: 0,
+};
+
+export const hasGroupRight = (
+  member: GroupMember | undefined,
+  right: GroupAdminRight,
+): boolean => {
+  if (!member) return false;
+  if (member.role === "owner") return true;
+  if (member.role !== "admin") return false;
+  return !!member.adminRights?.includes(right);
+};
+
+/**
+ * The limits that apply to the user in a group, or undefined when none do.
+ * A user missing from an outdated member list counts as a regular member.
+ */
+export const getMemberRestrictions = (
+  chat: Chat | undefined,
+  userVisibleId: number | undefined,
+): GroupPermissions | undefined => {
+  if (!chat?.permissions) return undefined;
+  if (userVisibleId !== undefined && chat.createdBy === userVisibleId) {
+    return undefined;
+  }
+  const member = chat.members?.find((m) => m.visibleId === userVisibleId);
+  return member?.role === "owner" || member?.role === "admin"
+    ? undefined
+    : chat.permissions;
+};
+
 export interface Chat {
   id: string;
   type?: "private" | "group";
@@ -105,11 +225,16 @@ export interface Chat {
   avatarColor?: string;
   createdBy?: number;
   memberCount?: number;
+  permissions?: GroupPermissions;
   lastMessage?: Message;
+  pinnedMessageIds?: string[];
   unreadCount: number;
+  unreadMentionCount?: number;
   updatedAt: string;
 }
 
+export const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😭", "🔥"];
+
 export const AVATAR_COLORS = [
   "#0088CC",
   "#25D366",